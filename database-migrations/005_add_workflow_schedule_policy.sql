@@ -0,0 +1,21 @@
+-- Migration: Add scheduling state to workflows
+-- Description: Tracks the last cron slot handled by the workflow scheduler and how missed runs are handled
+-- Version: 005
+-- Date: 2026-10-19
+
+-- How to handle cron slots that passed while the app was closed:
+--   'skip'     - ignore missed slots and wait for the next one
+--   'run_once' - run once to catch up, however many slots were missed
+--   'run_all'  - run once for every missed slot (capped by the scheduler)
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS missed_run_policy VARCHAR(20) DEFAULT 'skip';
+
+-- Most recent cron slot the scheduler has handled (run or skipped)
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS last_scheduled_at TIMESTAMP;
+
+-- Scheduler looks up active auto-run workflows with a cron expression
+CREATE INDEX IF NOT EXISTS idx_workflows_scheduled
+  ON workflows(status)
+  WHERE auto_run = TRUE AND schedule_cron IS NOT NULL;
+
+COMMENT ON COLUMN workflows.missed_run_policy IS 'Missed scheduled run handling: skip, run_once or run_all';
+COMMENT ON COLUMN workflows.last_scheduled_at IS 'Last cron slot handled by the workflow scheduler';
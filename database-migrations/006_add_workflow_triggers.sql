@@ -0,0 +1,44 @@
+-- Migration: Add event triggers to workflows
+-- Description: Lets workflows subscribe to plugin, system and database events
+-- Version: 006
+-- Date: 2026-10-19
+
+-- Event subscriptions, e.g. [{"source": "plugin:bq-studio", "event": "chapter-completed"}]
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS triggers JSONB DEFAULT '[]'::jsonb;
+
+-- Publishes row changes to the workflow trigger manager via NOTIFY.
+-- The app installs this as a row trigger on tables referenced by 'database:<table>' triggers.
+-- NOTIFY payloads are limited to 8000 bytes, so large rows are sent as their id only.
+CREATE OR REPLACE FUNCTION notify_workflow_table_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data JSONB;
+  payload TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    row_data := to_jsonb(OLD);
+  ELSE
+    row_data := to_jsonb(NEW);
+  END IF;
+
+  payload := json_build_object(
+    'table', TG_TABLE_NAME,
+    'operation', lower(TG_OP),
+    'row', row_data
+  )::text;
+
+  IF octet_length(payload) > 7900 THEN
+    payload := json_build_object(
+      'table', TG_TABLE_NAME,
+      'operation', lower(TG_OP),
+      'id', row_data->'id',
+      'truncated', true
+    )::text;
+  END IF;
+
+  PERFORM pg_notify('workflow_table_events', payload);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN workflows.triggers IS 'JSONB array of event subscriptions that start the workflow when auto_run is enabled';
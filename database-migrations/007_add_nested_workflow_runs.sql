@@ -0,0 +1,13 @@
+-- Migration: Nested workflow runs
+-- Description: Links loop iterations and sub-workflow runs to the run and step that started them
+-- Version: 007
+-- Date: 2026-10-19
+
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS parent_run_id UUID REFERENCES workflow_runs(id) ON DELETE CASCADE;
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS parent_step_id VARCHAR(255);
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS iteration INTEGER;  -- Loop iteration (0-based), NULL for sub-workflows
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_parent_run_id ON workflow_runs(parent_run_id);
+
+COMMENT ON COLUMN workflow_runs.parent_run_id IS 'Run that started this nested run (foreach/while iteration or sub-workflow)';
+COMMENT ON COLUMN workflow_runs.parent_step_id IS 'Step of the parent run that started this nested run';
@@ -0,0 +1,15 @@
+-- Migration: Workflow approval steps
+-- Description: Lets runs pause at an approval step and records the user's decisions
+-- Version: 008
+-- Date: 2026-10-19
+
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS pending_approval JSONB;  -- Set while status = 'paused'
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS approval_decisions JSONB DEFAULT '[]';
+
+UPDATE workflow_runs SET approval_decisions = '[]' WHERE approval_decisions IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_paused ON workflow_runs(status) WHERE status = 'paused';
+
+COMMENT ON COLUMN workflow_runs.status IS 'running, paused (waiting for approval), completed, failed or cancelled';
+COMMENT ON COLUMN workflow_runs.pending_approval IS 'Approval step the paused run is waiting on: step, prompt and the output to review';
+COMMENT ON COLUMN workflow_runs.approval_decisions IS 'Decisions on approval steps: [{stepId, decision, comment, decidedBy, decidedAt}]';
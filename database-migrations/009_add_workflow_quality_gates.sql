@@ -0,0 +1,28 @@
+-- Migration: Workflow quality gates
+-- Description: Records every quality gate evaluated by a workflow run (gate history)
+-- Version: 009
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_quality_gates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+
+  -- Gate step
+  step_id VARCHAR(255) NOT NULL,
+  step_index INTEGER NOT NULL,
+  gate_type VARCHAR(100),  -- 'npe_validation', 'commercial_validation', ...
+
+  -- Verdict
+  criteria TEXT NOT NULL,  -- gateCondition, e.g. 'score >= 80'
+  result VARCHAR(20) NOT NULL,  -- 'pass', 'fail'
+  score NUMERIC,
+  details JSONB,  -- Result returned by the check
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_quality_gates_run_id ON workflow_quality_gates(run_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_quality_gates_workflow_id ON workflow_quality_gates(workflow_id, created_at DESC);
+
+COMMENT ON TABLE workflow_quality_gates IS 'History of quality gate evaluations by workflow runs';
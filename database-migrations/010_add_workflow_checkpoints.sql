@@ -0,0 +1,28 @@
+-- Migration: Workflow checkpoints
+-- Description: Saves the run context after every step so new runs can be forked from any point
+-- Version: 010
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+
+  -- Step that just finished
+  step_id VARCHAR(255) NOT NULL,
+  step_index INTEGER NOT NULL,
+
+  -- State after the step
+  context JSONB NOT NULL,  -- { variables, stepOutputs }
+  finished_steps JSONB NOT NULL DEFAULT '[]',  -- IDs of steps done at this point (skipped by a fork)
+
+  created_at TIMESTAMP DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_checkpoints_run_id ON workflow_checkpoints(run_id, created_at);
+
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS forked_from_run_id UUID REFERENCES workflow_runs(id) ON DELETE SET NULL;
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS forked_from_checkpoint_id UUID REFERENCES workflow_checkpoints(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE workflow_checkpoints IS 'Run context saved after each step of a top-level workflow run';
+COMMENT ON COLUMN workflow_runs.forked_from_run_id IS 'Run this run was forked from (see workflow_checkpoints)';
+COMMENT ON COLUMN workflow_runs.forked_from_checkpoint_id IS 'Checkpoint this run was forked from';
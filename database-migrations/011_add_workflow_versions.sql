@@ -0,0 +1,72 @@
+-- Migration: Workflow versions
+-- Description: Keeps every revision of a workflow definition and pins each run to the version it executed
+-- Version: 011
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Definition at this version
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  steps JSONB NOT NULL,
+
+  created_at TIMESTAMP DEFAULT NOW(),
+
+  UNIQUE (workflow_id, version)
+);
+
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS workflow_version INTEGER;
+
+-- Record the current definition of existing workflows
+INSERT INTO workflow_versions (workflow_id, version, name, description, steps)
+SELECT id, COALESCE(version, 1), name, description, steps FROM workflows
+ON CONFLICT (workflow_id, version) DO NOTHING;
+
+UPDATE workflows SET version = 1 WHERE version IS NULL;
+
+-- Bump the version whenever the definition changes (statistics updates don't count)
+CREATE OR REPLACE FUNCTION bump_workflow_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.steps IS DISTINCT FROM OLD.steps THEN
+    NEW.version = COALESCE(OLD.version, 0) + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_workflow_version ON workflows;
+CREATE TRIGGER trigger_bump_workflow_version
+  BEFORE UPDATE ON workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_workflow_version();
+
+-- Store each new version
+CREATE OR REPLACE FUNCTION record_workflow_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version IS DISTINCT FROM OLD.version THEN
+    INSERT INTO workflow_versions (workflow_id, version, name, description, steps)
+    VALUES (NEW.id, COALESCE(NEW.version, 1), NEW.name, NEW.description, NEW.steps)
+    ON CONFLICT (workflow_id, version) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_record_workflow_version ON workflows;
+CREATE TRIGGER trigger_record_workflow_version
+  AFTER INSERT OR UPDATE ON workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION record_workflow_version();
+
+COMMENT ON TABLE workflow_versions IS 'Every revision of a workflow definition (name, description, steps)';
+COMMENT ON COLUMN workflows.version IS 'Current revision; bumped by trigger when the definition changes';
+COMMENT ON COLUMN workflow_runs.workflow_version IS 'Revision of the workflow the run executed (see workflow_versions)';
@@ -0,0 +1,19 @@
+-- Migration: Keep updated_at on scheduler updates
+-- Description: The workflow scheduler records each handled cron slot in last_scheduled_at; that is not an edit of the workflow
+-- Version: 012
+-- Date: 2026-10-19
+
+-- Leave updated_at alone when last_scheduled_at is the only column that changed.
+-- (Definition changes are versioned separately by trigger_bump_workflow_version,
+-- which already ignores last_scheduled_at.)
+CREATE OR REPLACE FUNCTION update_workflows_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'last_scheduled_at' - 'updated_at') = (to_jsonb(OLD) - 'last_scheduled_at' - 'updated_at') THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
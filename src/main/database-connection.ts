@@ -11,6 +11,9 @@ import * as envConfig from './env-config';
 
 let pool: Pool | null = null;
 
+/** Callbacks waiting for the first successful pool initialization */
+const readyListeners: Array<(pool: Pool) => void> = [];
+
 /**
  * Initialize database connection pool
  *
@@ -38,13 +41,19 @@ export async function initializeDatabasePool(): Promise<Pool> {
       connectionTimeoutMillis: 10000,
     };
 
-    // Create pool
-    pool = new Pool(poolConfig);
+    // Create pool; it is only kept once a connection succeeds, so a failed attempt can be retried
+    const newPool = new Pool(poolConfig);
 
     // Test connection
-    const client = await pool.connect();
-    await client.query('SELECT NOW()');
-    client.release();
+    try {
+      const client = await newPool.connect();
+      await client.query('SELECT NOW()');
+      client.release();
+    } catch (error) {
+      newPool.end().catch(() => {});
+      throw error;
+    }
+    pool = newPool;
 
     logWithCategory('info', LogCategory.SYSTEM,
       `Database connection pool initialized (database: ${config.POSTGRES_DB}, port: ${config.POSTGRES_PORT})`
@@ -55,6 +64,10 @@ export async function initializeDatabasePool(): Promise<Pool> {
       logWithCategory('error', LogCategory.SYSTEM, 'Unexpected database pool error:', err);
     });
 
+    for (const listener of readyListeners.splice(0)) {
+      listener(newPool);
+    }
+
     return pool;
   } catch (error: any) {
     logWithCategory('error', LogCategory.SYSTEM, 'Failed to initialize database pool:', error);
@@ -82,6 +95,20 @@ export function isDatabasePoolInitialized(): boolean {
   return pool !== null;
 }
 
+/**
+ * Run a callback once the database pool is available
+ *
+ * Runs immediately if the pool is already initialized, otherwise after the
+ * next successful initializeDatabasePool().
+ */
+export function onDatabasePoolReady(listener: (pool: Pool) => void): void {
+  if (pool) {
+    listener(pool);
+  } else {
+    readyListeners.push(listener);
+  }
+}
+
 /**
  * Close database connection pool
  *
@@ -0,0 +1,113 @@
+/**
+ * Event Bus
+ *
+ * In-process publish/subscribe channel for application events. Workflow
+ * triggers subscribe to it; plugins publish through `context.events`.
+ *
+ * Every event has a source and a type:
+ * - `plugin:<pluginId>` - published by a plugin (e.g. 'chapter-completed')
+ * - `system`            - published by FictionLab (e.g. 'mcp-system-started')
+ * - `database:<table>`  - row changes ('insert', 'update', 'delete')
+ */
+
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { logWithCategory, LogCategory } from './logger';
+
+/**
+ * Event published on the bus
+ */
+export interface AppEvent {
+  id: string;
+  source: string;
+  type: string;
+  payload: Record<string, any>;
+  timestamp: string;
+  /**
+   * How many event-triggered workflow runs led to this event.
+   * Used to stop workflows from triggering each other forever.
+   */
+  depth: number;
+}
+
+export type AppEventListener = (event: AppEvent) => void | Promise<void>;
+
+/** Event depth of the code currently running (see runWithEventDepth) */
+const eventDepth = new AsyncLocalStorage<number>();
+
+/**
+ * Run `fn` so that events it publishes (directly or asynchronously) carry `depth`
+ */
+export function runWithEventDepth<T>(depth: number, fn: () => T): T {
+  return eventDepth.run(depth, fn);
+}
+
+/**
+ * Event depth of the code currently running
+ */
+export function getEventDepth(): number {
+  return eventDepth.getStore() ?? 0;
+}
+
+/**
+ * Event Bus Class
+ *
+ * Singleton shared by the main process
+ */
+class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every workflow trigger and plugin may subscribe
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to all subscribers
+   *
+   * Listener errors are logged and never reach the publisher.
+   */
+  publish(source: string, type: string, payload: Record<string, any> = {}): AppEvent {
+    const event: AppEvent = {
+      id: randomUUID(),
+      source,
+      type,
+      payload,
+      timestamp: new Date().toISOString(),
+      depth: getEventDepth(),
+    };
+
+    logWithCategory('debug', LogCategory.SYSTEM, `Event published: ${source} ${type}`);
+
+    for (const listener of this.emitter.listeners('event') as AppEventListener[]) {
+      try {
+        const result = listener(event);
+        if (result && typeof (result as Promise<void>).catch === 'function') {
+          (result as Promise<void>).catch((error) => {
+            logWithCategory('error', LogCategory.SYSTEM, `Event listener failed for ${source} ${type}:`, error);
+          });
+        }
+      } catch (error) {
+        logWithCategory('error', LogCategory.SYSTEM, `Event listener failed for ${source} ${type}:`, error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Subscribe to every event
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: AppEventListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const eventBus = new EventBus();
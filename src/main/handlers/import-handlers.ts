@@ -39,6 +39,40 @@ export function registerImportHandlers() {
     }
   });
 
+  // Plan the import of a workflow package (nothing is changed)
+  ipcMain.handle('import:plan-workflow-package', async (event, sourcePath: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Plan workflow package import for ${sourcePath}`);
+    try {
+      const dbPool = getDatabasePool();
+      if (!dbPool) {
+        throw new Error('Database pool not initialized');
+      }
+      const workflowEngine = new WorkflowEngine(dbPool);
+      return await workflowEngine.planWorkflowPackageImport(sourcePath);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'IPC: Plan workflow package import failed', { error: error.message, stack: error.stack });
+      throw error;
+    }
+  });
+
+  // Import Workflow Package
+  ipcMain.handle('import:workflow-package', async (event, sourcePath: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Import workflow package request for ${sourcePath}`);
+    try {
+      const dbPool = getDatabasePool();
+      if (!dbPool) {
+        throw new Error('Database pool not initialized');
+      }
+      const workflowEngine = new WorkflowEngine(dbPool);
+      const result = await workflowEngine.importWorkflowPackage(sourcePath);
+      logWithCategory('info', LogCategory.SYSTEM, `IPC: Import workflow package success, ID: ${result.workflowId}`);
+      return result;
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'IPC: Import workflow package failed', { error: error.message, stack: error.stack });
+      throw error;
+    }
+  });
+
   // Show Open Dialog
   ipcMain.handle('dialog:show-open-dialog', async (event, options) => {
     const window = BrowserWindow.fromWebContents(event.sender);
@@ -46,4 +80,12 @@ export function registerImportHandlers() {
     
     return await dialog.showOpenDialog(window, options);
   });
+
+  // Show Save Dialog
+  ipcMain.handle('dialog:show-save-dialog', async (event, options) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    if (!window) return { canceled: true };
+
+    return await dialog.showSaveDialog(window, options);
+  });
 }
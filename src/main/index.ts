@@ -30,7 +30,11 @@ import { createBuildPipelineOrchestrator, resolveConfigPath } from './build-pipe
 import { ProgressThrottler, IPC_CHANNELS } from '../types/ipc';
 import { pluginManager } from './plugin-manager';
 import { pluginViewManager } from './plugin-views';
-import { initializeDatabasePool, getDatabasePool, closeDatabasePool } from './database-connection';
+import { pluginActions } from './plugin-actions';
+import { workflowScheduler, validateWorkflowSchedule } from './workflow-scheduler';
+import { workflowTriggerManager, validateWorkflowTriggers } from './workflow-triggers';
+import { eventBus } from './event-bus';
+import { initializeDatabasePool, getDatabasePool, closeDatabasePool, onDatabasePoolReady } from './database-connection';
 import type {
   RepositoryCloneRequest,
   RepositoryCloneResponse,
@@ -59,6 +63,7 @@ import type {
   PipelineCancelResponse,
   PipelineStatusResponse,
 } from '../types/ipc';
+import type { WorkflowGraph } from '../types/workflow';
 
 let mainWindow: InstanceType<typeof BrowserWindow> | null = null;
 
@@ -969,6 +974,9 @@ function setupIPC(): void {
     };
 
     const result = await mcpSystem.startMCPSystem(progressCallback);
+    if (result.success) {
+      eventBus.publish('system', 'mcp-system-started', {});
+    }
     return result;
   });
 
@@ -988,6 +996,9 @@ function setupIPC(): void {
     };
 
     const result = await mcpSystem.restartMCPSystem(progressCallback);
+    if (result.success) {
+      eventBus.publish('system', 'mcp-system-started', { restarted: true });
+    }
     return result;
   });
 
@@ -2111,6 +2122,49 @@ function setupIPC(): void {
     }
   });
 
+  ipcMain.handle('plugins:get-permissions', async () => {
+    try {
+      return {
+        success: true,
+        plugins: await pluginManager.getPluginPermissions(),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  });
+
+  ipcMain.handle('plugins:set-permission', async (_event, pluginId: string, key: string, granted: boolean) => {
+    try {
+      await pluginManager.setPluginPermission(pluginId, key, granted);
+      return {
+        success: true,
+        message: `Permission ${key} ${granted ? 'granted to' : 'revoked from'} plugin ${pluginId}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  });
+
+  ipcMain.handle('plugins:list-actions', async (_event, pluginId?: string) => {
+    return pluginActions.list(pluginId);
+  });
+
+  ipcMain.handle('plugins:invoke-action', async (_event, pluginId: string, action: string, input?: any) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Invoking plugin action ${pluginId}.${action}`);
+    try {
+      return await pluginActions.invoke(pluginId, action, input, { caller: 'ui' });
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, `Error invoking plugin action ${pluginId}.${action}:`, error);
+      throw error;
+    }
+  });
+
   // Plugin View IPC handlers
   // NEW: Get plugin view URL for embedding in main window
   ipcMain.handle('plugin:get-view-url', async (_event, pluginId: string, viewName: string) => {
@@ -2267,6 +2321,56 @@ function setupIPC(): void {
     }
   });
 
+  ipcMain.handle('workflows:resume', async (_event, runId: string, variableOverrides?: Record<string, any>) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Resuming workflow run ${runId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      const result = await engine.resumeWorkflowRun(runId, variableOverrides || {});
+
+      logWithCategory('info', LogCategory.SYSTEM, `Workflow resume completed: ${result.success ? 'SUCCESS' : 'FAILED'}`);
+      return result;
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error resuming workflow run:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:decide-approval', async (_event, runId: string, decision: 'approved' | 'rejected', comment?: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Recording approval decision for run ${runId}: ${decision}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      const result = await engine.decideApproval(runId, decision, comment, 'user');
+
+      logWithCategory('info', LogCategory.SYSTEM,
+        `Workflow run after approval: ${result.paused ? 'PAUSED' : result.success ? 'SUCCESS' : 'FAILED'}`
+      );
+      return result;
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error recording approval decision:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:get-pending-approvals', async () => {
+    logWithCategory('info', LogCategory.SYSTEM, 'IPC: Getting pending workflow approvals');
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      return await engine.getPendingApprovals();
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting pending workflow approvals:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('workflows:cancel', async (_event, runId: string) => {
     logWithCategory('info', LogCategory.SYSTEM, `IPC: Cancelling workflow run ${runId}`);
     try {
@@ -2297,11 +2401,71 @@ function setupIPC(): void {
     }
   });
 
+  ipcMain.handle('workflows:get-child-runs', async (_event, runId: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting nested runs of ${runId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      return await engine.getChildRuns(runId);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting nested workflow runs:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:get-checkpoints', async (_event, runId: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting checkpoints of ${runId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      return await engine.getCheckpoints(runId);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting workflow checkpoints:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:fork-run', async (_event, checkpointId: string, variableOverrides?: Record<string, any>) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Forking workflow run from checkpoint ${checkpointId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      const result = await engine.forkRunFromCheckpoint(checkpointId, variableOverrides || {}, 'user');
+
+      logWithCategory('info', LogCategory.SYSTEM, `Forked workflow run completed: ${result.success ? 'SUCCESS' : 'FAILED'}`);
+      return result;
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error forking workflow run:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:get-gate-results', async (_event, runId: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting quality gate results of ${runId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+
+      return await engine.getGateResults(runId);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting quality gate results:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('workflows:delete', async (_event, workflowId: string) => {
     logWithCategory('info', LogCategory.SYSTEM, `IPC: Deleting workflow ${workflowId}`);
     try {
       const pool = getDatabasePool();
       await pool.query('DELETE FROM workflows WHERE id = $1', [workflowId]);
+      await workflowTriggerManager.refresh();
       return { success: true };
     } catch (error: any) {
       logWithCategory('error', LogCategory.SYSTEM, 'Error deleting workflow:', error);
@@ -2312,19 +2476,40 @@ function setupIPC(): void {
   ipcMain.handle('workflows:create', async (_event, workflow: any) => {
     logWithCategory('info', LogCategory.SYSTEM, 'IPC: Creating new workflow');
     try {
+      const { validateWorkflowSteps } = await import('./workflow-engine');
+      const stepErrors = validateWorkflowSteps(workflow.steps || []);
+      if (stepErrors.length > 0) {
+        throw new Error(`Invalid workflow steps:\n${stepErrors.join('\n')}`);
+      }
+
+      const scheduleErrors = validateWorkflowSchedule(workflow);
+      if (scheduleErrors.length > 0) {
+        throw new Error(`Invalid workflow schedule:\n${scheduleErrors.join('\n')}`);
+      }
+
+      const triggerErrors = validateWorkflowTriggers(workflow.triggers);
+      if (triggerErrors.length > 0) {
+        throw new Error(`Invalid workflow triggers:\n${triggerErrors.join('\n')}`);
+      }
+
       const pool = getDatabasePool();
       const result = await pool.query(
-        `INSERT INTO workflows (name, description, steps, target_type, status)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO workflows (name, description, steps, target_type, status, schedule_cron, auto_run, missed_run_policy, triggers)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
          RETURNING *`,
         [
           workflow.name,
           workflow.description || null,
           JSON.stringify(workflow.steps),
           workflow.target_type || null,
-          workflow.status || 'draft'
+          workflow.status || 'draft',
+          workflow.schedule_cron || null,
+          workflow.auto_run === true,
+          workflow.missed_run_policy || 'skip',
+          JSON.stringify(workflow.triggers || [])
         ]
       );
+      await workflowTriggerManager.refresh();
       return result.rows[0];
     } catch (error: any) {
       logWithCategory('error', LogCategory.SYSTEM, 'Error creating workflow:', error);
@@ -2335,15 +2520,41 @@ function setupIPC(): void {
   ipcMain.handle('workflows:update', async (_event, workflowId: string, updates: any) => {
     logWithCategory('info', LogCategory.SYSTEM, `IPC: Updating workflow ${workflowId}`);
     try {
+      if (updates.steps) {
+        const { validateWorkflowSteps } = await import('./workflow-engine');
+        const stepErrors = validateWorkflowSteps(updates.steps);
+        if (stepErrors.length > 0) {
+          throw new Error(`Invalid workflow steps:\n${stepErrors.join('\n')}`);
+        }
+      }
+
+      const scheduleErrors = validateWorkflowSchedule(updates);
+      if (scheduleErrors.length > 0) {
+        throw new Error(`Invalid workflow schedule:\n${scheduleErrors.join('\n')}`);
+      }
+
+      const triggerErrors = validateWorkflowTriggers(updates.triggers);
+      if (triggerErrors.length > 0) {
+        throw new Error(`Invalid workflow triggers:\n${triggerErrors.join('\n')}`);
+      }
+
       const pool = getDatabasePool();
+      // schedule_cron: undefined keeps the current schedule, null or '' clears it.
+      // Changing the schedule resets last_scheduled_at so old slots don't count as missed.
+      const scheduleChanged = updates.schedule_cron !== undefined;
       const result = await pool.query(
         `UPDATE workflows
          SET name = COALESCE($1, name),
              description = COALESCE($2, description),
              steps = COALESCE($3, steps),
              status = COALESCE($4, status),
-             target_type = COALESCE($5, target_type)
-         WHERE id = $6
+             target_type = COALESCE($5, target_type),
+             schedule_cron = CASE WHEN $6 THEN $7 ELSE schedule_cron END,
+             last_scheduled_at = CASE WHEN $6 THEN NULL ELSE last_scheduled_at END,
+             auto_run = COALESCE($8, auto_run),
+             missed_run_policy = COALESCE($9, missed_run_policy),
+             triggers = COALESCE($10, triggers)
+         WHERE id = $11
          RETURNING *`,
         [
           updates.name || null,
@@ -2351,9 +2562,15 @@ function setupIPC(): void {
           updates.steps ? JSON.stringify(updates.steps) : null,
           updates.status || null,
           updates.target_type || null,
+          scheduleChanged,
+          updates.schedule_cron || null,
+          typeof updates.auto_run === 'boolean' ? updates.auto_run : null,
+          updates.missed_run_policy || null,
+          updates.triggers ? JSON.stringify(updates.triggers) : null,
           workflowId
         ]
       );
+      await workflowTriggerManager.refresh();
       return result.rows[0];
     } catch (error: any) {
       logWithCategory('error', LogCategory.SYSTEM, 'Error updating workflow:', error);
@@ -2361,6 +2578,155 @@ function setupIPC(): void {
     }
   });
 
+  ipcMain.handle('workflows:get-versions', async (_event, workflowId: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting versions of workflow ${workflowId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+      return await engine.getWorkflowVersions(workflowId);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting workflow versions:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:get-version', async (_event, workflowId: string, version: number) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting version ${version} of workflow ${workflowId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+      return await engine.getWorkflowVersion(workflowId, version);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting workflow version:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:compare-versions', async (_event, workflowId: string, fromVersion: number, toVersion: number) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Comparing versions ${fromVersion} and ${toVersion} of workflow ${workflowId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+      return await engine.compareWorkflowVersions(workflowId, fromVersion, toVersion);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error comparing workflow versions:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:restore-version', async (_event, workflowId: string, version: number) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Restoring version ${version} of workflow ${workflowId}`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+      return await engine.restoreWorkflowVersion(workflowId, version);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error restoring workflow version:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:export-package', async (_event, workflowId: string, destinationPath: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Exporting workflow ${workflowId} as a package`);
+    try {
+      const pool = getDatabasePool();
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(pool);
+      return await engine.exportWorkflowPackage(workflowId, destinationPath);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error exporting workflow package:', error);
+      throw error;
+    }
+  });
+
+  // Workflow builder: graphs are converted to and from steps in workflow-graph.ts
+
+  ipcMain.handle('workflows:get-graph', async (_event, workflowId: string) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Getting graph of workflow ${workflowId}`);
+    try {
+      const pool = getDatabasePool();
+      const result = await pool.query(
+        'SELECT id, name, version, steps FROM workflows WHERE id = $1',
+        [workflowId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error(`Workflow ${workflowId} not found`);
+      }
+      const { stepsToGraph } = await import('./workflow-graph');
+      return stepsToGraph(result.rows[0]);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error getting workflow graph:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:validate-graph', async (_event, graph: WorkflowGraph) => {
+    logWithCategory('info', LogCategory.SYSTEM, 'IPC: Validating workflow graph');
+    try {
+      const { validateWorkflowSteps } = await import('./workflow-engine');
+      const { graphToSteps, checkStepActions } = await import('./workflow-graph');
+      const steps = graphToSteps(graph);
+      return {
+        errors: validateWorkflowSteps(steps),
+        warnings: checkStepActions(steps, (pluginId, action) => pluginActions.get(pluginId, action)),
+      };
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error validating workflow graph:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('workflows:save-graph', async (
+    _event,
+    workflowId: string | null,
+    workflow: { name: string; description?: string; graph: WorkflowGraph }
+  ) => {
+    logWithCategory('info', LogCategory.SYSTEM, `IPC: Saving workflow graph ${workflowId || '(new workflow)'}`);
+    try {
+      if (!workflow.name || !workflow.name.trim()) {
+        throw new Error('Workflow name is required');
+      }
+
+      const { validateWorkflowSteps } = await import('./workflow-engine');
+      const { graphToSteps } = await import('./workflow-graph');
+      const steps = graphToSteps(workflow.graph);
+      const stepErrors = validateWorkflowSteps(steps);
+      if (stepErrors.length > 0) {
+        throw new Error(`Invalid workflow steps:\n${stepErrors.join('\n')}`);
+      }
+
+      const pool = getDatabasePool();
+      // Changing the definition bumps the version (see migration 011)
+      const result = workflowId
+        ? await pool.query(
+          `UPDATE workflows
+           SET name = $1, description = $2, steps = $3
+           WHERE id = $4
+           RETURNING *`,
+          [workflow.name.trim(), workflow.description || null, JSON.stringify(steps), workflowId]
+        )
+        : await pool.query(
+          `INSERT INTO workflows (name, description, steps, status)
+           VALUES ($1, $2, $3, 'draft')
+           RETURNING *`,
+          [workflow.name.trim(), workflow.description || null, JSON.stringify(steps)]
+        );
+      if (result.rows.length === 0) {
+        throw new Error(`Workflow ${workflowId} not found`);
+      }
+
+      await workflowTriggerManager.refresh();
+      return result.rows[0];
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Error saving workflow graph:', error);
+      throw error;
+    }
+  });
+
   logger.info('IPC handlers registered');
 }
 
@@ -2459,6 +2825,14 @@ app.whenReady().then(async () => {
       // Non-fatal, just log and continue
     }
 
+    // Start running scheduled and event-triggered workflows once the database pool is available
+    onDatabasePoolReady(() => {
+      workflowScheduler.start();
+      workflowTriggerManager.start().catch((error) => {
+        logWithCategory('error', LogCategory.SYSTEM, 'Error starting workflow trigger manager:', error);
+      });
+    });
+
     // Auto-check for updates on startup (only for non-first-run)
     try {
       const shouldCheck = await updater.shouldAutoCheck();
@@ -2508,6 +2882,10 @@ app.on('window-all-closed', () => {
 app.on('before-quit', async () => {
   logger.info('App is quitting...');
 
+  // Stop scheduling new workflow runs
+  workflowScheduler.stop();
+  await workflowTriggerManager.stop();
+
   // Clean up plugin system
   try {
     logWithCategory('info', LogCategory.SYSTEM, 'Cleaning up plugin system...');
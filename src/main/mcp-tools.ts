@@ -0,0 +1,114 @@
+/**
+ * MCP Tool Calls
+ *
+ * Calls tools on the local MCP servers over their HTTP bridge. Used by the
+ * plugin context (with permission checks) and by workflow quality gates.
+ */
+
+import axios from 'axios';
+
+/**
+ * Ports of the MCP servers (hardcoded for now, could be dynamic)
+ */
+const MCP_SERVER_PORTS: Record<string, number> = {
+  'workflow-manager': 3012,
+  'book-planning': 3001,
+  'series-planning': 3002,
+  'chapter-planning': 3003,
+  'character-planning': 3004,
+  'scene': 3005,
+  'core-continuity': 3006,
+  'review': 3007,
+  'reporting': 3008,
+  'author': 3009,
+};
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30000;
+
+/**
+ * Options for calling an MCP tool
+ */
+export interface CallMcpToolOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Get the HTTP endpoint of an MCP server
+ *
+ * @returns Base URL, or null if the server is unknown
+ */
+export function getMcpServerEndpoint(serverId: string): string | null {
+  if (!isKnownMcpServer(serverId)) {
+    return null;
+  }
+
+  return `http://localhost:${MCP_SERVER_PORTS[serverId]}`;
+}
+
+/**
+ * Check whether an MCP server ID is known
+ */
+export function isKnownMcpServer(serverId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MCP_SERVER_PORTS, serverId);
+}
+
+/**
+ * Call an MCP tool
+ *
+ * Text results holding JSON are parsed.
+ *
+ * @throws Error if the server is unknown, unreachable or returns an error
+ */
+export async function callMcpTool<T = any>(
+  serverId: string,
+  toolName: string,
+  args: Record<string, any>,
+  options: CallMcpToolOptions = {}
+): Promise<T> {
+  const endpoint = getMcpServerEndpoint(serverId);
+  if (!endpoint) {
+    throw new Error(`Unknown MCP server: ${serverId}`);
+  }
+
+  const requestId = Date.now();
+  const response = await axios.post(
+    `${endpoint}/api/tool-call`,
+    {
+      jsonrpc: '2.0',
+      method: 'tools/call',
+      params: {
+        name: toolName,
+        arguments: args,
+      },
+      id: requestId,
+    },
+    {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: options.timeout ?? DEFAULT_TOOL_TIMEOUT_MS,
+      signal: options.signal,
+    }
+  );
+
+  // Handle both JSON-RPC and direct response formats
+  const data = response.data;
+  if (data.error) {
+    throw new Error(`MCP Error: ${data.error.message}`);
+  }
+
+  // Extract result from JSON-RPC format or direct format
+  const result = data.result || data;
+  const content = result.content || result;
+
+  // If content is an array with text items, extract the text
+  if (Array.isArray(content) && content.length > 0 && content[0].type === 'text') {
+    const textContent = content[0].text;
+    try {
+      return JSON.parse(textContent) as T;
+    } catch {
+      return textContent as T;
+    }
+  }
+
+  return content as T;
+}
@@ -0,0 +1,340 @@
+/**
+ * JavaScript Literal Parser
+ *
+ * Reads JavaScript literal values (objects, arrays, strings, numbers,
+ * booleans, null) without evaluating any code. Used to read data embedded in
+ * scripts, such as the `const phases = [...]` array of
+ * system_visualization.html.
+ *
+ * Supported beyond JSON:
+ * - unquoted and single-quoted keys, single-quoted and template strings
+ *   (without `${}` substitutions)
+ * - trailing commas, `//` and block comments
+ * - `undefined`, `NaN`, `Infinity`, hex numbers, leading `+`/`-`
+ * - string concatenation with `+`
+ *
+ * Anything else (identifiers, function calls, expressions) is rejected with
+ * a JsLiteralParseError giving the line and column.
+ */
+
+/**
+ * Error raised for content that is not a literal
+ */
+export class JsLiteralParseError extends Error {
+  constructor(
+    public readonly reason: string,
+    /** 1-based line and column in the parsed source */
+    public readonly line: number,
+    public readonly column: number,
+    /** 0-based offset in the parsed source */
+    public readonly offset: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'JsLiteralParseError';
+  }
+}
+
+/**
+ * Parse the literal starting at `start`
+ *
+ * @returns The value and the offset just after the literal
+ * @throws JsLiteralParseError if the source is not a literal
+ */
+export function parseJsLiteral(source: string, start: number = 0): { value: any; end: number } {
+  const parser = new LiteralParser(source, start);
+  const value = parser.parseValue();
+  return { value, end: parser.position };
+}
+
+/**
+ * Find `const|let|var <name> = <literal>` in a script and parse the literal
+ *
+ * @returns The value, or undefined if the variable is not declared
+ * @throws JsLiteralParseError if the initializer is not a literal
+ */
+export function parseVariableInitializer(source: string, name: string): any {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const declaration = new RegExp(`\\b(?:const|let|var)\\s+${escaped}\\s*=\\s*`).exec(source);
+  if (!declaration) {
+    return undefined;
+  }
+
+  const { value, end } = parseJsLiteral(source, declaration.index + declaration[0].length);
+  // Reject `const phases = [...].map(...)` and the like: the variable would not hold the literal
+  const parser = new LiteralParser(source, end);
+  parser.skipWhitespace();
+  const next = source[parser.position] ?? '';
+  if (/[.[(+\-*/%?&|]/.test(next)) {
+    parser.fail(`Unexpected "${next}" after the value of ${name}`);
+  }
+  return value;
+}
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+
+const KEYWORD_VALUES: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+  NaN: NaN,
+  Infinity: Infinity,
+};
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '0': '\0',
+};
+
+class LiteralParser {
+  constructor(private readonly source: string, public position: number) {}
+
+  parseValue(): any {
+    let value = this.parseOperand();
+
+    // String concatenation: 'a' + 'b'
+    this.skipWhitespace();
+    while (this.peek() === '+' && typeof value === 'string') {
+      this.position++;
+      this.skipWhitespace();
+      const next = this.parseOperand();
+      if (typeof next !== 'string') {
+        this.fail('Only strings can be concatenated');
+      }
+      value += next;
+      this.skipWhitespace();
+    }
+
+    return value;
+  }
+
+  private parseOperand(): any {
+    this.skipWhitespace();
+    const char = this.peek();
+
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseObject();
+    if (char === '"' || char === "'") return this.parseString(char);
+    if (char === '`') return this.parseTemplate();
+    if (char === '-' || char === '+' || char === '.' || /[0-9]/.test(char)) return this.parseNumber();
+
+    if (IDENTIFIER_START.test(char)) {
+      const start = this.position;
+      const identifier = this.readIdentifier();
+      if (Object.prototype.hasOwnProperty.call(KEYWORD_VALUES, identifier)) {
+        return KEYWORD_VALUES[identifier];
+      }
+      this.fail(`Unexpected identifier "${identifier}" (only literal values are allowed)`, start);
+    }
+
+    if (char === '') {
+      this.fail('Unexpected end of input');
+    }
+    return this.fail(`Unexpected "${char}"`);
+  }
+
+  private parseArray(): any[] {
+    const items: any[] = [];
+    this.position++; // [
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.peek() === ']') {
+        this.position++;
+        return items;
+      }
+
+      items.push(this.parseValue());
+
+      this.skipWhitespace();
+      const next = this.peek();
+      if (next === ',') {
+        this.position++;
+      } else if (next !== ']') {
+        this.fail(next === '' ? 'Unterminated array' : `Expected "," or "]" but found "${next}"`);
+      }
+    }
+  }
+
+  private parseObject(): Record<string, any> {
+    const object: Record<string, any> = {};
+    this.position++; // {
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.peek() === '}') {
+        this.position++;
+        return object;
+      }
+
+      const key = this.parseKey();
+      this.skipWhitespace();
+      if (this.peek() !== ':') {
+        this.fail(`Expected ":" after key "${key}"`);
+      }
+      this.position++;
+
+      // Defined as own data properties, so keys like __proto__ can't change the prototype
+      Object.defineProperty(object, key, { value: this.parseValue(), enumerable: true, writable: true, configurable: true });
+
+      this.skipWhitespace();
+      const next = this.peek();
+      if (next === ',') {
+        this.position++;
+      } else if (next !== '}') {
+        this.fail(next === '' ? 'Unterminated object' : `Expected "," or "}" but found "${next}"`);
+      }
+    }
+  }
+
+  private parseKey(): string {
+    const char = this.peek();
+    if (char === '"' || char === "'") return this.parseString(char);
+    if (IDENTIFIER_START.test(char)) return this.readIdentifier();
+    if (/[0-9]/.test(char)) return String(this.parseNumber());
+    if (char === '[') this.fail('Computed keys are not allowed');
+    return this.fail(char === '' ? 'Unterminated object' : `Unexpected "${char}" where a key was expected`);
+  }
+
+  private parseString(quote: string): string {
+    const start = this.position;
+    let value = '';
+    this.position++; // opening quote
+
+    for (;;) {
+      const char = this.peek();
+      if (char === '' || char === '\n' || char === '\r') {
+        this.fail('Unterminated string', start);
+      }
+      this.position++;
+      if (char === quote) {
+        return value;
+      }
+      value += char === '\\' ? this.readEscape() : char;
+    }
+  }
+
+  private parseTemplate(): string {
+    const start = this.position;
+    let value = '';
+    this.position++; // `
+
+    for (;;) {
+      const char = this.peek();
+      if (char === '') {
+        this.fail('Unterminated template string', start);
+      }
+      if (char === '$' && this.source[this.position + 1] === '{') {
+        this.fail('Template substitutions are not allowed');
+      }
+      this.position++;
+      if (char === '`') {
+        return value;
+      }
+      value += char === '\\' ? this.readEscape() : char;
+    }
+  }
+
+  private readEscape(): string {
+    const char = this.peek();
+    this.position++;
+
+    if (Object.prototype.hasOwnProperty.call(ESCAPES, char)) return ESCAPES[char];
+    if (char === '\r') {
+      // Line continuation
+      if (this.peek() === '\n') this.position++;
+      return '';
+    }
+    if (char === '\n') return '';
+    if (char === 'x') return String.fromCharCode(this.readHex(2));
+    if (char === 'u') {
+      if (this.peek() === '{') {
+        this.position++;
+        const end = this.source.indexOf('}', this.position);
+        if (end < 0) this.fail('Invalid unicode escape');
+        const code = parseInt(this.source.substring(this.position, end), 16);
+        if (!Number.isFinite(code) || code > 0x10ffff) this.fail('Invalid unicode escape');
+        this.position = end + 1;
+        return String.fromCodePoint(code);
+      }
+      return String.fromCharCode(this.readHex(4));
+    }
+    if (char === '') this.fail('Unterminated string');
+    return char;
+  }
+
+  private readHex(length: number): number {
+    const digits = this.source.substr(this.position, length);
+    if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(digits)) {
+      this.fail('Invalid escape sequence');
+    }
+    this.position += length;
+    return parseInt(digits, 16);
+  }
+
+  private parseNumber(): number {
+    const start = this.position;
+    const match = /^[+-]?(?:0[xX][0-9A-Fa-f]+|Infinity|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/
+      .exec(this.source.substring(this.position, this.position + 64));
+    if (!match) {
+      this.fail('Invalid number', start);
+    }
+    this.position += match![0].length;
+
+    const text = match![0];
+    const sign = text.startsWith('-') ? -1 : 1;
+    const unsigned = text.replace(/^[+-]/, '');
+    if (/^0[xX]/.test(unsigned)) {
+      return sign * parseInt(unsigned, 16);
+    }
+    return sign * Number(unsigned);
+  }
+
+  private readIdentifier(): string {
+    const start = this.position;
+    while (IDENTIFIER_PART.test(this.peek())) {
+      this.position++;
+    }
+    return this.source.substring(start, this.position);
+  }
+
+  /**
+   * Skip whitespace and comments
+   */
+  skipWhitespace(): void {
+    for (;;) {
+      const char = this.peek();
+      if (/\s/.test(char)) {
+        this.position++;
+      } else if (char === '/' && this.source[this.position + 1] === '/') {
+        const end = this.source.indexOf('\n', this.position);
+        this.position = end < 0 ? this.source.length : end + 1;
+      } else if (char === '/' && this.source[this.position + 1] === '*') {
+        const end = this.source.indexOf('*/', this.position + 2);
+        if (end < 0) {
+          this.fail('Unterminated comment');
+        }
+        this.position = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private peek(): string {
+    return this.source[this.position] ?? '';
+  }
+
+  fail(reason: string, offset: number = this.position): never {
+    const before = this.source.substring(0, offset);
+    const line = before.split('\n').length;
+    const column = offset - before.lastIndexOf('\n');
+    throw new JsLiteralParseError(reason, line, column, offset);
+  }
+}
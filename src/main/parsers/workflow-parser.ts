@@ -20,6 +20,10 @@ import {
   PhaseType,
 } from '../../types/workflow';
 import { logWithCategory, LogCategory } from '../logger';
+import { parseVariableInitializer } from './js-literal-parser';
+import { loadYamlWithPositions } from './yaml-positions';
+import { WORKFLOW_DEFINITION_SCHEMA, assertWorkflowSchema } from '../workflow-schema';
+import { layoutWorkflowGraph } from '../workflow-layout';
 
 export class WorkflowParser {
   /**
@@ -52,9 +56,10 @@ export class WorkflowParser {
     logWithCategory('info', LogCategory.SYSTEM, `Parsing YAML workflow: ${filePath}`);
 
     const content = await fs.readFile(filePath, 'utf-8');
-    const data = yaml.load(content) as any;
+    const document = loadYamlWithPositions(content);
+    assertWorkflowSchema(document.data, WORKFLOW_DEFINITION_SCHEMA, path.basename(filePath), document.positionOf);
 
-    return this.validateAndNormalize(data, filePath);
+    return this.validateAndNormalize(document.data, filePath);
   }
 
   /**
@@ -64,6 +69,7 @@ export class WorkflowParser {
     logWithCategory('info', LogCategory.SYSTEM, `Parsing JSON workflow: ${filePath}`);
 
     const data = await fs.readJson(filePath);
+    assertWorkflowSchema(data, WORKFLOW_DEFINITION_SCHEMA, path.basename(filePath));
 
     return this.validateAndNormalize(data, filePath);
   }
@@ -79,15 +85,16 @@ export class WorkflowParser {
     const html = await fs.readFile(filePath, 'utf-8');
     const dom = new JSDOM(html, { runScripts: 'outside-only' });
 
-    // Extract phases array from JavaScript
-    const scriptContent = html.match(/const phases = \[([\s\S]*?)\];/);
-    if (!scriptContent) {
+    // Read the phases array from the page script without running it; parse
+    // errors report the line and column in the HTML file
+    const phases: any[] = parseVariableInitializer(html, 'phases');
+    if (phases === undefined) {
       throw new Error('Could not find phases array in HTML file');
     }
-
-    // Parse the JavaScript array as JSON (with some cleanup)
-    const phasesJSON = `[${scriptContent[1]}]`;
-    const phases: any[] = eval(`(${phasesJSON})`);
+    const phaseErrors = this.validateHTMLPhases(phases);
+    if (phaseErrors.length > 0) {
+      throw new Error(`Invalid phases array in ${path.basename(filePath)}:\n${phaseErrors.join('\n')}`);
+    }
 
     // Extract workflow metadata from HTML
     const title = dom.window.document.querySelector('header h1')?.textContent || 'Unnamed Workflow';
@@ -109,9 +116,12 @@ export class WorkflowParser {
       gate: phase.gate || false,
       gateCondition: phase.gateCondition,
       requiresApproval: phase.type === 'user' || phase.gateCondition?.includes('APPROVE'),
-      position: { x: 0, y: 0 }, // Will be calculated later
+      position: { x: 0, y: 0 },
     }));
 
+    const layout = this.layoutPhases(workflowPhases);
+    workflowPhases.forEach(phase => (phase.position = layout.get(phase.id)!));
+
     // Discover dependencies
     const dependencies = this.extractDependencies(workflowPhases);
 
@@ -134,6 +144,39 @@ export class WorkflowParser {
     };
   }
 
+  /**
+   * Check the fields of the phases array that parseHTML relies on
+   *
+   * @returns List of problems (empty if the phases are usable)
+   */
+  private validateHTMLPhases(phases: any): string[] {
+    if (!Array.isArray(phases)) {
+      return ['phases must be an array'];
+    }
+
+    const errors: string[] = [];
+    phases.forEach((phase, index) => {
+      const label = `phases[${index}]`;
+      if (!phase || typeof phase !== 'object' || Array.isArray(phase)) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      if (typeof phase.id !== 'number' && typeof phase.id !== 'string') {
+        errors.push(`${label}.id must be a number or string`);
+      }
+      if (typeof phase.name !== 'string') {
+        errors.push(`${label}.name must be a string`);
+      }
+      if (phase.type !== undefined && typeof phase.type !== 'string') {
+        errors.push(`${label}.type must be a string`);
+      }
+      if (phase.gateCondition !== undefined && typeof phase.gateCondition !== 'string') {
+        errors.push(`${label}.gateCondition must be a string`);
+      }
+    });
+    return errors;
+  }
+
   /**
    * Map phase type from string to PhaseType enum
    */
@@ -191,6 +234,21 @@ export class WorkflowParser {
     return undefined;
   }
 
+  /**
+   * Compute canvas positions of phases by ID (phases run in order, so they form a chain)
+   */
+  private layoutPhases(phases: WorkflowPhase[]): Map<number, { x: number; y: number }> {
+    const nodes = phases.map(phase => ({ id: String(phase.id), type: phase.type }));
+    const edges = nodes.slice(1).map((node, index) => ({
+      source: nodes[index].id,
+      target: node.id,
+      type: 'sequential' as const,
+    }));
+
+    const positions = layoutWorkflowGraph(nodes, edges);
+    return new Map(phases.map(phase => [phase.id, positions.get(String(phase.id))!]));
+  }
+
   /**
    * Extract dependencies from phases
    */
@@ -296,10 +354,14 @@ export class WorkflowParser {
         gate: phase.gate || false,
         gateCondition: phase.gateCondition,
         requiresApproval: phase.requiresApproval || false,
-        position: phase.position || { x: 0, y: 0 },
+        position: phase.position,
       };
     });
 
+    // Phases without a position get the automatic layout
+    const layout = this.layoutPhases(phases);
+    phases.forEach(phase => (phase.position ??= layout.get(phase.id)!));
+
     // Extract or use provided dependencies
     const dependencies: WorkflowDependencies = data.dependencies || this.extractDependencies(phases);
 
@@ -0,0 +1,122 @@
+/**
+ * YAML Source Positions
+ *
+ * Loads YAML with js-yaml and records where every mapping key and sequence
+ * item starts, so validation errors about a value (e.g. `steps[2].id`) can
+ * point at the line and column in the file.
+ */
+
+import * as yaml from 'js-yaml';
+
+/**
+ * 1-based position in a source file
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Loaded YAML document with a position lookup
+ */
+export interface YamlDocument {
+  data: any;
+  /**
+   * Position of the value at `path`, or of its closest existing parent if
+   * the value is missing (e.g. a required property). Null if unknown.
+   */
+  positionOf(path: Array<string | number>): SourcePosition | null;
+}
+
+interface NodeFrame {
+  start: number;
+  children: Array<{ start: number; result: any }>;
+}
+
+interface ContainerPositions {
+  start: number;
+  /** Key or index → offset of the key (mappings) or item (sequences) */
+  children: Map<string | number, number>;
+}
+
+/**
+ * Load a YAML document and record node positions
+ *
+ * @throws yaml.YAMLException for invalid YAML (its message includes the position)
+ */
+export function loadYamlWithPositions(content: string): YamlDocument {
+  const containers = new WeakMap<object, ContainerPositions>();
+  const stack: NodeFrame[] = [];
+
+  const data: any = yaml.load(content, {
+    listener(this: any, eventType: 'open' | 'close', state: any) {
+      if (eventType === 'open') {
+        stack.push({ start: skipBlank(content, state.position), children: [] });
+        return;
+      }
+
+      const frame = stack.pop();
+      if (!frame) return;
+      const result = state.result;
+
+      if (result !== null && typeof result === 'object') {
+        const children = new Map<string | number, number>();
+        if (Array.isArray(result) && frame.children.length === result.length) {
+          frame.children.forEach((child, index) => children.set(index, child.start));
+        } else if (!Array.isArray(result) && frame.children.length === Object.keys(result).length * 2) {
+          // Mapping children alternate key, value
+          for (let i = 0; i < frame.children.length; i += 2) {
+            children.set(String(frame.children[i].result), frame.children[i].start);
+          }
+        }
+        if (!containers.has(result)) {
+          containers.set(result, { start: frame.start, children });
+        }
+      }
+
+      stack[stack.length - 1]?.children.push({ start: frame.start, result });
+    },
+  } as yaml.LoadOptions);
+
+  const toPosition = (offset: number): SourcePosition => {
+    const before = content.substring(0, offset);
+    return { line: before.split('\n').length, column: offset - before.lastIndexOf('\n') };
+  };
+
+  return {
+    data,
+    positionOf(path) {
+      let value: any = data;
+      let offset: number | null = value !== null && typeof value === 'object' ? containers.get(value)?.start ?? null : null;
+
+      for (const key of path) {
+        const container = value !== null && typeof value === 'object' ? containers.get(value) : undefined;
+        const childOffset = container?.children.get(Array.isArray(value) ? Number(key) : String(key));
+        if (childOffset === undefined) break;
+        offset = childOffset;
+        value = value[key];
+      }
+
+      return offset === null ? null : toPosition(offset);
+    },
+  };
+}
+
+/**
+ * Skip whitespace and comments before a node
+ */
+function skipBlank(content: string, position: number): number {
+  let offset = position;
+  while (offset < content.length) {
+    const char = content[offset];
+    if (char === '#') {
+      const end = content.indexOf('\n', offset);
+      offset = end < 0 ? content.length : end + 1;
+    } else if (/\s/.test(char)) {
+      offset++;
+    } else {
+      break;
+    }
+  }
+  return offset;
+}
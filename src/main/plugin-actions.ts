@@ -0,0 +1,223 @@
+/**
+ * Plugin Action Registry
+ *
+ * Central registry of named plugin actions. Plugins register actions through
+ * `context.actions.register()`; the workflow engine, the renderer (via IPC)
+ * and other plugins call them with `invoke()`. Inputs and outputs are
+ * validated against the schemas declared with the action.
+ *
+ * Handlers registered with `context.ipc.handle()` are also exposed here as
+ * legacy actions (without schemas) so existing workflows keep working.
+ */
+
+import { logWithCategory, LogCategory } from './logger';
+import { validateJsonSchema, formatSchemaErrors } from './utils/json-schema';
+import {
+  PluginActionDefinition,
+  PluginActionInfo,
+  PluginActionInvocation,
+  PluginError,
+  PluginErrorType,
+} from '../types/plugin-api';
+
+interface RegisteredAction {
+  pluginId: string;
+  definition: PluginActionDefinition;
+  legacy: boolean;
+}
+
+/**
+ * Options for invoking an action
+ */
+export interface InvokeActionOptions {
+  /** Who is calling (see PluginActionInvocation.caller) */
+  caller: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Plugin Action Registry Class
+ *
+ * Singleton shared by all plugin contexts and the workflow engine
+ */
+class PluginActionRegistry {
+  /** `${pluginId}:${name}` → action */
+  private actions: Map<string, RegisteredAction> = new Map();
+  private changeListeners: Set<() => void> = new Set();
+
+  /**
+   * Get notified whenever an action is registered or removed
+   *
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register an action
+   *
+   * An explicitly registered action replaces a legacy handler with the same
+   * name; registering the same action twice is an error.
+   */
+  register(pluginId: string, definition: PluginActionDefinition, legacy: boolean = false): void {
+    if (!definition || !definition.name || typeof definition.handler !== 'function') {
+      throw new Error(`Plugin ${pluginId}: action must have a name and a handler`);
+    }
+
+    const key = this.key(pluginId, definition.name);
+    const existing = this.actions.get(key);
+    if (existing && !existing.legacy) {
+      if (legacy) {
+        // Keep the schema-backed action; the IPC handler stays available over IPC
+        return;
+      }
+      throw new Error(`Plugin ${pluginId}: action "${definition.name}" is already registered`);
+    }
+
+    this.actions.set(key, { pluginId, definition, legacy });
+    logWithCategory('debug', LogCategory.SYSTEM,
+      `Plugin ${pluginId} registered ${legacy ? 'legacy ' : ''}action: ${definition.name}`
+    );
+    this.notifyChange();
+  }
+
+  /**
+   * Remove an action
+   */
+  unregister(pluginId: string, name: string): void {
+    if (this.actions.delete(this.key(pluginId, name))) {
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Remove every action of a plugin (on deactivation)
+   */
+  unregisterPlugin(pluginId: string): void {
+    let changed = false;
+    for (const [key, action] of this.actions) {
+      if (action.pluginId === pluginId) {
+        this.actions.delete(key);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Check whether an action is registered
+   */
+  has(pluginId: string, name: string): boolean {
+    return this.actions.has(this.key(pluginId, name));
+  }
+
+  /**
+   * Get a registered action (without its handler)
+   */
+  get(pluginId: string, name: string): PluginActionInfo | null {
+    const action = this.actions.get(this.key(pluginId, name));
+    return action ? this.toInfo(action) : null;
+  }
+
+  /**
+   * List registered actions, optionally for one plugin
+   */
+  list(pluginId?: string): PluginActionInfo[] {
+    return Array.from(this.actions.values())
+      .filter(action => !pluginId || action.pluginId === pluginId)
+      .map(action => this.toInfo(action));
+  }
+
+  /**
+   * Invoke an action
+   *
+   * @throws PluginError if the action does not exist or input/output fail validation
+   */
+  async invoke(pluginId: string, name: string, input: any, options: InvokeActionOptions): Promise<any> {
+    const action = this.actions.get(this.key(pluginId, name));
+    if (!action) {
+      throw new PluginError(
+        PluginErrorType.ACTION_NOT_FOUND,
+        pluginId,
+        `Action "${name}" is not registered (is the plugin active?)`
+      );
+    }
+
+    const { definition } = action;
+    const actionInput = input === undefined ? {} : input;
+
+    if (definition.inputSchema) {
+      const errors = validateJsonSchema(actionInput, definition.inputSchema);
+      if (errors.length > 0) {
+        throw new PluginError(
+          PluginErrorType.ACTION_INPUT_INVALID,
+          pluginId,
+          `Invalid input for action "${name}":\n${formatSchemaErrors(errors, 'input').join('\n')}`,
+          { errors }
+        );
+      }
+    }
+
+    if (options.signal?.aborted) {
+      throw options.signal.reason ?? new Error('Cancelled');
+    }
+
+    logWithCategory('debug', LogCategory.SYSTEM, `Invoking action ${pluginId}.${name} (caller: ${options.caller})`);
+
+    const invocation: PluginActionInvocation = {
+      caller: options.caller,
+      signal: options.signal,
+    };
+    const output = await definition.handler(actionInput, invocation);
+
+    if (definition.outputSchema) {
+      const errors = validateJsonSchema(output, definition.outputSchema);
+      if (errors.length > 0) {
+        throw new PluginError(
+          PluginErrorType.ACTION_OUTPUT_INVALID,
+          pluginId,
+          `Action "${name}" returned invalid output:\n${formatSchemaErrors(errors, 'output').join('\n')}`,
+          { errors }
+        );
+      }
+    }
+
+    return output;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logWithCategory('error', LogCategory.SYSTEM, 'Action change listener failed:', error);
+      }
+    }
+  }
+
+  private key(pluginId: string, name: string): string {
+    return `${pluginId}:${name}`;
+  }
+
+  private toInfo(action: RegisteredAction): PluginActionInfo {
+    const { definition } = action;
+    return {
+      pluginId: action.pluginId,
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      inputSchema: definition.inputSchema,
+      outputSchema: definition.outputSchema,
+      legacy: action.legacy,
+    };
+  }
+}
+
+// Export singleton instance
+export const pluginActions = new PluginActionRegistry();
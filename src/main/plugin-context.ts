@@ -5,7 +5,7 @@
  * Wraps FictionLab services with permission enforcement and plugin-specific APIs.
  */
 
-import { app, ipcMain, IpcMainInvokeEvent } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { Pool, PoolClient } from 'pg';
@@ -20,10 +20,15 @@ import {
   EnvironmentService,
   WorkspaceInfo,
   PluginIPC,
+  PluginIpcEvent,
   PluginUI,
   PluginMetadata,
   PluginConfigStorage,
   PluginLogger,
+  PluginEvents,
+  PluginActions,
+  PluginActionDefinition,
+  PluginActionInvokeOptions,
   PluginManifest,
   PluginPermissions,
   MCPServerInfo,
@@ -37,32 +42,48 @@ import {
   PluginErrorType,
 } from '../types/plugin-api';
 import { logWithCategory, LogCategory } from './logger';
+import { eventBus } from './event-bus';
+import { pluginActions } from './plugin-actions';
+import { getMcpServerEndpoint, callMcpTool } from './mcp-tools';
+import {
+  PLUGIN_ACCESS_DIRECTORY,
+  PluginPathPolicy,
+  canonicalizePath,
+  expandFileSystemPermission,
+  getUserSelectedAccess,
+} from './plugin-file-access';
+import { createHttpService, createProcessService } from './plugin-system-access';
 
 /**
  * Creates a plugin context for a loaded plugin
+ *
+ * Services are limited to `permissions`, the grants the user made (see
+ * plugin-permissions.ts), not whatever the manifest requests.
  */
 export function createPluginContext(
   pluginId: string,
   manifest: PluginManifest,
+  permissions: PluginPermissions,
   installPath: string,
   dbPool: Pool,
   onMenuItemRegister?: (pluginId: string, item: PluginMenuItem) => void,
   onNotification?: (notification: PluginNotification) => void
 ): PluginContext {
-  const permissions = manifest.permissions || {};
   const dataPath = path.join(app.getPath('userData'), 'plugins', pluginId);
 
   // Ensure plugin data directory exists
   fs.ensureDirSync(dataPath);
 
   const context: PluginContext = {
-    services: createPluginServices(pluginId, permissions, dbPool),
+    services: createPluginServices(pluginId, permissions, dbPool, dataPath),
     workspace: createWorkspaceInfo(pluginId),
     ipc: createPluginIPC(pluginId),
     ui: createPluginUI(pluginId, onMenuItemRegister, onNotification),
     plugin: createPluginMetadata(pluginId, manifest, installPath, dataPath),
     config: createPluginConfigStorage(pluginId, dataPath),
     logger: createPluginLogger(pluginId),
+    events: createPluginEvents(pluginId),
+    actions: createPluginActions(pluginId),
   };
 
   return context;
@@ -74,13 +95,21 @@ export function createPluginContext(
 function createPluginServices(
   pluginId: string,
   permissions: PluginPermissions,
-  dbPool: Pool
+  dbPool: Pool,
+  dataPath: string
 ): PluginServices {
+  const fileAccess = createFileAccess(pluginId, permissions, dataPath);
+
   return {
     database: createDatabaseService(pluginId, permissions, dbPool),
     mcp: createMCPConnectionManager(pluginId, permissions),
-    fileSystem: createFileSystemService(pluginId, permissions),
+    fileSystem: createFileSystemService(pluginId, permissions, fileAccess),
     docker: permissions.docker ? createDockerService(pluginId) : undefined,
+    http: permissions.network ? createHttpService(pluginId, permissions.network) : undefined,
+    // A working directory the plugin picks must be one it could read
+    process: permissions.childProcesses
+      ? createProcessService(pluginId, permissions.childProcesses, dataPath, cwd => fileAccess.policy.resolve(cwd, false))
+      : undefined,
     environment: createEnvironmentService(),
   };
 }
@@ -193,26 +222,7 @@ function createMCPConnectionManager(
         );
       }
 
-      // Map server IDs to ports (hardcoded for now, could be dynamic)
-      const serverPorts: Record<string, number> = {
-        'workflow-manager': 3012,
-        'book-planning': 3001,
-        'series-planning': 3002,
-        'chapter-planning': 3003,
-        'character-planning': 3004,
-        'scene': 3005,
-        'core-continuity': 3006,
-        'review': 3007,
-        'reporting': 3008,
-        'author': 3009,
-      };
-
-      const port = serverPorts[serverId];
-      if (!port) {
-        return null;
-      }
-
-      return `http://localhost:${port}`;
+      return getMcpServerEndpoint(serverId);
     },
 
     async callTool<T = any>(
@@ -230,45 +240,7 @@ function createMCPConnectionManager(
       }
 
       try {
-        const requestId = Date.now();
-        const response = await axios.post(
-          `${endpoint}/api/tool-call`,
-          {
-            jsonrpc: '2.0',
-            method: 'tools/call',
-            params: {
-              name: toolName,
-              arguments: args,
-            },
-            id: requestId,
-          },
-          {
-            headers: { 'Content-Type': 'application/json' },
-            timeout: 30000,
-          }
-        );
-
-        // Handle both JSON-RPC and direct response formats
-        const data = response.data;
-        if (data.error) {
-          throw new Error(`MCP Error: ${data.error.message}`);
-        }
-
-        // Extract result from JSON-RPC format or direct format
-        const result = data.result || data;
-        const content = result.content || result;
-
-        // If content is an array with text items, extract the text
-        if (Array.isArray(content) && content.length > 0 && content[0].type === 'text') {
-          const textContent = content[0].text;
-          try {
-            return JSON.parse(textContent) as T;
-          } catch {
-            return textContent as T;
-          }
-        }
-
-        return content as T;
+        return await callMcpTool<T>(serverId, toolName, args);
       } catch (error: any) {
         logWithCategory('error', LogCategory.SYSTEM, `Plugin ${pluginId} MCP error:`, error);
         throw new Error(`Failed to call MCP tool ${toolName} on ${serverId}: ${error.message}`);
@@ -332,15 +304,55 @@ function createMCPConnectionManager(
   };
 }
 
+/**
+ * Directories a plugin may access, shared by its file system and process services
+ */
+interface PluginFileAccess {
+  policy: PluginPathPolicy;
+
+  /** Folders the user picked for the plugin, persisted in selectedFoldersPath */
+  userSelected: string[];
+  selectedFoldersPath: string;
+}
+
+function createFileAccess(
+  pluginId: string,
+  permissions: PluginPermissions,
+  dataPath: string
+): PluginFileAccess {
+  const workspaceRoot = app.getPath('userData');
+  const selectedFoldersPath = path.join(workspaceRoot, PLUGIN_ACCESS_DIRECTORY, pluginId, 'folders.json');
+  const userSelected: string[] = fs.readJsonSync(selectedFoldersPath, { throws: false })?.folders ?? [];
+
+  const policy = new PluginPathPolicy(
+    pluginId,
+    expandFileSystemPermission(permissions.fileSystem, { pluginData: dataPath, workspace: workspaceRoot, userSelected }),
+    [
+      { path: path.join(workspaceRoot, 'plugins'), except: dataPath },
+      { path: path.join(workspaceRoot, PLUGIN_ACCESS_DIRECTORY) },
+    ],
+    workspaceRoot
+  );
+
+  return { policy, userSelected, selectedFoldersPath };
+}
+
 /**
  * Creates file system service with permission enforcement
+ *
+ * Paths are checked against the directories granted by the fileSystem
+ * permission (see plugin-file-access.ts) and relative paths are resolved
+ * against the workspace. Other plugins' directories and FictionLab's plugin
+ * bookkeeping stay off limits.
  */
 function createFileSystemService(
   pluginId: string,
-  permissions: PluginPermissions
+  permissions: PluginPermissions,
+  { policy, userSelected, selectedFoldersPath }: PluginFileAccess
 ): FileSystemService {
-  const checkPermission = (write: boolean = false) => {
+  const resolvePath = (filePath: string, write: boolean, followFinalLink?: boolean): Promise<string> => {
     if (!permissions.fileSystem) {
+      logWithCategory('warn', LogCategory.SYSTEM, `Plugin ${pluginId} denied file system access to ${filePath}: no fileSystem permission`);
       throw new PluginError(
         PluginErrorType.PERMISSION_DENIED,
         pluginId,
@@ -348,57 +360,47 @@ function createFileSystemService(
       );
     }
 
-    if (write && permissions.fileSystem === 'readonly') {
-      throw new PluginError(
-        PluginErrorType.PERMISSION_DENIED,
-        pluginId,
-        'File system write access not permitted (readonly mode)'
-      );
-    }
+    return policy.resolve(filePath, write, followFinalLink);
   };
 
   return {
     async readFile(filePath: string): Promise<string> {
-      checkPermission(false);
-      return await fs.readFile(filePath, 'utf-8');
+      return await fs.readFile(await resolvePath(filePath, false), 'utf-8');
     },
 
     async writeFile(filePath: string, content: string): Promise<void> {
-      checkPermission(true);
-      await fs.writeFile(filePath, content, 'utf-8');
+      await fs.writeFile(await resolvePath(filePath, true), content, 'utf-8');
     },
 
     async exists(filePath: string): Promise<boolean> {
-      checkPermission(false);
-      return await fs.pathExists(filePath);
+      return await fs.pathExists(await resolvePath(filePath, false));
     },
 
     async mkdir(filePath: string, recursive: boolean = false): Promise<void> {
-      checkPermission(true);
+      const target = await resolvePath(filePath, true);
       if (recursive) {
-        await fs.ensureDir(filePath);
+        await fs.ensureDir(target);
       } else {
-        await fs.mkdir(filePath);
+        await fs.mkdir(target);
       }
     },
 
     async readdir(filePath: string): Promise<string[]> {
-      checkPermission(false);
-      return await fs.readdir(filePath);
+      return await fs.readdir(await resolvePath(filePath, false));
     },
 
     async delete(filePath: string, recursive: boolean = false): Promise<void> {
-      checkPermission(true);
+      // A symbolic link is removed itself, not its target
+      const target = await resolvePath(filePath, true, false);
       if (recursive) {
-        await fs.remove(filePath);
+        await fs.remove(target);
       } else {
-        await fs.unlink(filePath);
+        await fs.unlink(target);
       }
     },
 
     async stat(filePath: string): Promise<FileStats> {
-      checkPermission(false);
-      const stats = await fs.stat(filePath);
+      const stats = await fs.stat(await resolvePath(filePath, false));
       return {
         isFile: stats.isFile(),
         isDirectory: stats.isDirectory(),
@@ -407,6 +409,37 @@ function createFileSystemService(
         modified: stats.mtime,
       };
     },
+
+    async selectFolder(title?: string): Promise<string | null> {
+      const access = getUserSelectedAccess(permissions.fileSystem);
+      if (!access) {
+        throw new PluginError(
+          PluginErrorType.PERMISSION_DENIED,
+          pluginId,
+          "Selecting folders requires a 'userSelected' root in the fileSystem permission"
+        );
+      }
+
+      const options: Electron.OpenDialogOptions = {
+        title: title || `Choose a folder for plugin ${pluginId}`,
+        properties: ['openDirectory', 'createDirectory'],
+      };
+      const window = BrowserWindow.getFocusedWindow();
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) {
+        return null;
+      }
+
+      const folder = await canonicalizePath(result.filePaths[0]);
+      policy.addRoot({ path: folder, write: access === 'readwrite' });
+      if (!userSelected.includes(folder)) {
+        userSelected.push(folder);
+        await fs.outputJson(selectedFoldersPath, { folders: userSelected }, { spaces: 2 });
+      }
+
+      logWithCategory('info', LogCategory.SYSTEM, `Plugin ${pluginId} was granted ${access} access to ${folder}`);
+      return folder;
+    },
   };
 }
 
@@ -529,11 +562,18 @@ function createPluginIPC(pluginId: string): PluginIPC {
   const registeredChannels: string[] = [];
 
   return {
-    handle(channel: string, handler: (event: IpcMainInvokeEvent, ...args: any[]) => Promise<any> | any): void {
+    handle(channel: string, handler: (event: PluginIpcEvent, ...args: any[]) => Promise<any> | any): void {
       const fullChannel = `plugin:${pluginId}:${channel}`;
       ipcMain.handle(fullChannel, handler);
       registeredChannels.push(fullChannel);
       logWithCategory('debug', LogCategory.SYSTEM, `Plugin ${pluginId} registered IPC handler: ${fullChannel}`);
+
+      // Expose the handler as a legacy action so workflows can call it.
+      // It receives the invocation, which carries the caller and cancellation signal.
+      pluginActions.register(pluginId, {
+        name: channel,
+        handler: (input, invocation) => handler(invocation, input),
+      }, true);
     },
 
     send(channel: string, ...args: any[]): void {
@@ -546,6 +586,9 @@ function createPluginIPC(pluginId: string): PluginIPC {
     removeHandler(channel: string): void {
       const fullChannel = `plugin:${pluginId}:${channel}`;
       ipcMain.removeHandler(fullChannel);
+      if (pluginActions.get(pluginId, channel)?.legacy) {
+        pluginActions.unregister(pluginId, channel);
+      }
       const index = registeredChannels.indexOf(fullChannel);
       if (index > -1) {
         registeredChannels.splice(index, 1);
@@ -707,3 +750,45 @@ function createPluginLogger(pluginId: string): PluginLogger {
     },
   };
 }
+
+/**
+ * Creates plugin event publisher
+ */
+function createPluginEvents(pluginId: string): PluginEvents {
+  const source = `plugin:${pluginId}`;
+
+  return {
+    publish(type: string, payload: Record<string, any> = {}): void {
+      if (!type || typeof type !== 'string') {
+        throw new Error(`Plugin ${pluginId}: event type must be a non-empty string`);
+      }
+      eventBus.publish(source, type, payload);
+    },
+  };
+}
+
+/**
+ * Creates plugin action interface
+ */
+function createPluginActions(pluginId: string): PluginActions {
+  return {
+    register(action: PluginActionDefinition): void {
+      pluginActions.register(pluginId, action);
+    },
+
+    unregister(name: string): void {
+      pluginActions.unregister(pluginId, name);
+    },
+
+    invoke(targetPluginId: string, name: string, input?: any, options: PluginActionInvokeOptions = {}): Promise<any> {
+      return pluginActions.invoke(targetPluginId, name, input, {
+        caller: `plugin:${pluginId}`,
+        signal: options.signal,
+      });
+    },
+
+    list(filterPluginId?: string) {
+      return pluginActions.list(filterPluginId);
+    },
+  };
+}
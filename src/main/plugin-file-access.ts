@@ -0,0 +1,231 @@
+/**
+ * Plugin File Access
+ *
+ * Decides which paths a plugin may touch through services.fileSystem. The
+ * `fileSystem` permission lists root directories (see FileSystemRoot); every
+ * path is resolved to its canonical form, following symbolic links, before it
+ * is compared with the (equally canonical) roots. A path is allowed when it
+ * is inside a root with enough access and outside every protected path.
+ *
+ * Paths that do not exist yet (a file about to be written) are canonicalized
+ * through their nearest existing ancestor. A dangling symbolic link is
+ * rejected, since writing through it would create its target wherever it
+ * points.
+ *
+ * Every denied access is logged.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logWithCategory, LogCategory } from './logger';
+import { FileSystemRoot, PluginError, PluginErrorType, PluginPermissions } from '../types/plugin-api';
+
+/** Directory under userData with FictionLab's per-plugin bookkeeping; never plugin-accessible */
+export const PLUGIN_ACCESS_DIRECTORY = 'plugin-access';
+
+/**
+ * Directories the named roots stand for
+ */
+export interface FileSystemRootPaths {
+  pluginData: string;
+  workspace: string;
+  /** Folders the user picked for this plugin */
+  userSelected: string[];
+}
+
+/**
+ * Concrete directory with its access level
+ */
+export interface AllowedRoot {
+  path: string;
+  write: boolean;
+}
+
+/**
+ * Expand the fileSystem permission into directories
+ *
+ * true and 'readonly' stand for the plugin data directory and the workspace.
+ */
+export function expandFileSystemPermission(
+  permission: PluginPermissions['fileSystem'],
+  paths: FileSystemRootPaths
+): AllowedRoot[] {
+  if (!permission) {
+    return [];
+  }
+
+  const roots: FileSystemRoot[] = Array.isArray(permission)
+    ? permission
+    : [
+      { path: 'pluginData', access: permission === 'readonly' ? 'read' : 'readwrite' },
+      { path: 'workspace', access: permission === 'readonly' ? 'read' : 'readwrite' },
+    ];
+
+  const allowed: AllowedRoot[] = [];
+  for (const root of roots) {
+    const write = root.access === 'readwrite';
+    switch (root.path) {
+      case 'pluginData':
+        allowed.push({ path: paths.pluginData, write });
+        break;
+      case 'workspace':
+        allowed.push({ path: paths.workspace, write });
+        break;
+      case 'userSelected':
+        allowed.push(...paths.userSelected.map(folder => ({ path: folder, write })));
+        break;
+      default: {
+        const directory = expandHome(root.path);
+        if (path.isAbsolute(directory)) {
+          allowed.push({ path: directory, write });
+        } else {
+          logWithCategory('warn', LogCategory.SYSTEM, `Ignoring file system root '${root.path}': not an absolute path`);
+        }
+      }
+    }
+  }
+
+  return allowed;
+}
+
+/**
+ * Access level of the 'userSelected' root, or null if the permission has none
+ */
+export function getUserSelectedAccess(permission: PluginPermissions['fileSystem']): 'read' | 'readwrite' | null {
+  const root = Array.isArray(permission) ? permission.find(entry => entry.path === 'userSelected') : undefined;
+  return root ? root.access ?? 'read' : null;
+}
+
+/**
+ * Path checks for one plugin
+ */
+export class PluginPathPolicy {
+  private roots: AllowedRoot[];
+
+  /**
+   * @param pluginId Plugin the checks are for (used in errors and logs)
+   * @param roots Directories the plugin may access
+   * @param protectedPaths Paths that stay off limits even inside a root
+   * @param baseDirectory Relative paths are resolved against this directory
+   */
+  constructor(
+    private readonly pluginId: string,
+    roots: AllowedRoot[],
+    private readonly protectedPaths: Array<{ path: string; except?: string }>,
+    private readonly baseDirectory: string
+  ) {
+    this.roots = [...roots];
+  }
+
+  /**
+   * Allow another directory (e.g. a folder the user just picked)
+   */
+  addRoot(root: AllowedRoot): void {
+    this.roots.push(root);
+  }
+
+  /**
+   * Check access to a path
+   *
+   * @param filePath Path as given by the plugin
+   * @param write Whether the operation modifies the file system
+   * @param followFinalLink Resolve a symbolic link at the end of the path (false when deleting the link itself)
+   * @returns Canonical path to operate on
+   * @throws PluginError (PERMISSION_DENIED) if the path is outside the plugin's roots
+   */
+  async resolve(filePath: string, write: boolean, followFinalLink: boolean = true): Promise<string> {
+    const operation = write ? 'write' : 'read';
+
+    if (typeof filePath !== 'string' || filePath.length === 0 || filePath.includes('\0')) {
+      throw this.deny(String(filePath), operation, 'invalid path');
+    }
+
+    const absolute = path.resolve(this.baseDirectory, filePath);
+    let target: string;
+    try {
+      target = followFinalLink
+        ? await canonicalizePath(absolute)
+        : path.join(await canonicalizePath(path.dirname(absolute)), path.basename(absolute));
+    } catch (error: any) {
+      throw this.deny(filePath, operation, error.message);
+    }
+
+    for (const entry of this.protectedPaths) {
+      const protectedPath = await canonicalizePath(entry.path);
+      const exception = entry.except ? await canonicalizePath(entry.except) : null;
+      if (isWithin(protectedPath, target) && !(exception && isWithin(exception, target))) {
+        throw this.deny(filePath, operation, 'path is reserved by FictionLab');
+      }
+    }
+
+    let readable = false;
+    for (const root of this.roots) {
+      if (isWithin(await canonicalizePath(root.path), target)) {
+        if (!write || root.write) {
+          return target;
+        }
+        readable = true;
+      }
+    }
+
+    throw this.deny(filePath, operation, readable
+      ? 'path is read-only for this plugin'
+      : `path is outside the plugin's allowed directories (${this.roots.map(root => root.path).join(', ') || 'none'})`);
+  }
+
+  private deny(filePath: string, operation: 'read' | 'write', reason: string): PluginError {
+    logWithCategory('warn', LogCategory.SYSTEM, `Plugin ${this.pluginId} denied ${operation} access to ${filePath}: ${reason}`);
+    return new PluginError(
+      PluginErrorType.PERMISSION_DENIED,
+      this.pluginId,
+      `File system ${operation} access to '${filePath}' not permitted: ${reason}`
+    );
+  }
+}
+
+/**
+ * Resolve a path to its canonical form, following symbolic links
+ *
+ * Missing trailing segments are appended to the canonical form of the
+ * nearest existing ancestor.
+ *
+ * @throws Error if the path runs through a dangling symbolic link
+ */
+export async function canonicalizePath(filePath: string): Promise<string> {
+  const absolute = path.resolve(filePath);
+
+  try {
+    return await fs.promises.realpath(absolute);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+      throw error;
+    }
+  }
+
+  // The path exists as an entry but not as a target: a link to nowhere
+  const entry = await fs.promises.lstat(absolute).catch(() => null);
+  if (entry?.isSymbolicLink()) {
+    throw new Error('path is a dangling symbolic link');
+  }
+
+  const parent = path.dirname(absolute);
+  if (parent === absolute) {
+    return absolute;
+  }
+  return path.join(await canonicalizePath(parent), path.basename(absolute));
+}
+
+/**
+ * Whether `target` is `root` or inside it (both canonical)
+ */
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+function expandHome(filePath: string): string {
+  return filePath === '~' || filePath.startsWith('~/')
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+}
@@ -0,0 +1,472 @@
+/**
+ * Plugin Host Process
+ *
+ * Entry point of the utility process that runs one plugin's main-side code
+ * (forked by PluginHost, see plugin-host.ts). The plugin receives a
+ * PluginContext whose services forward to the real context in the main
+ * process over PluginRpc. Handlers the plugin registers (actions, IPC
+ * handlers, menu and notification callbacks) stay in this process and are
+ * called by the main process through proxies.
+ *
+ * Values the plugin reads synchronously (config, metadata, endpoints) come
+ * from a snapshot taken when the plugin is loaded; config writes update the
+ * local copy before they are persisted by the main process.
+ *
+ * Do not import Electron main-process modules here: this runs outside the
+ * main process.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { format } from 'util';
+import { PluginRpc, RpcMessage, serializeError } from './plugin-host-rpc';
+import {
+  FictionLabPlugin,
+  PluginContext,
+  PluginManifest,
+  PluginMetadata,
+  PluginActionDefinition,
+  PluginActionInfo,
+  PluginMenuItem,
+  PluginNotification,
+  PluginError,
+  PluginErrorType,
+  HttpRequestOptions,
+  ProcessRunOptions,
+} from '../types/plugin-api';
+
+/**
+ * Values the proxy context serves synchronously, captured on load
+ */
+export interface PluginHostSnapshot {
+  plugin: PluginMetadata;
+  workspace: { root: string; config: Record<string, any>; pluginDataPath: string };
+  config: Record<string, any>;
+  environment: { userDataPath: string; appVersion: string; isDevelopment: boolean };
+  databaseSchema: string;
+  /** Endpoints of the MCP servers the plugin may use */
+  mcpEndpoints: Record<string, string | null>;
+  /** Whether services.docker is available */
+  docker: boolean;
+  /** Whether services.http is available */
+  http: boolean;
+  /** Whether services.process is available */
+  process: boolean;
+  /** Registered actions (kept current with 'actions-changed' notifications) */
+  actions: PluginActionInfo[];
+}
+
+/**
+ * Plugin as reported to the main process after loading
+ */
+export interface HostedPluginInfo {
+  id: string;
+  name: string;
+  version: string;
+}
+
+/**
+ * Menu item or notification action callback, replaced by a key on the wire
+ */
+export interface CallbackRef {
+  callback: string;
+}
+
+/**
+ * The host's side of the message port (Electron's process.parentPort)
+ */
+export interface HostPort {
+  postMessage(message: RpcMessage): void;
+  on(event: 'message', listener: (event: { data: RpcMessage }) => void): unknown;
+}
+
+/** Handlers registered by the plugin, called by the main process */
+interface HostedHandlers {
+  actions: Map<string, PluginActionDefinition>;
+  ipc: Map<string, (event: any, ...args: any[]) => any>;
+  callbacks: Map<string, () => void>;
+}
+
+/**
+ * Event depth of the main-process call being handled, so events the plugin
+ * publishes count towards workflow loop protection (see event-bus.ts)
+ */
+const eventDepth = new AsyncLocalStorage<number>();
+
+/**
+ * Serve a plugin over a port
+ */
+export function startPluginHostRuntime(port: HostPort): PluginRpc {
+  const rpc = new PluginRpc(message => port.postMessage(message));
+  port.on('message', event => rpc.receive(event.data));
+
+  const handlers: HostedHandlers = { actions: new Map(), ipc: new Map(), callbacks: new Map() };
+  let snapshot: PluginHostSnapshot | null = null;
+  let plugin: FictionLabPlugin | null = null;
+  let context: PluginContext | null = null;
+
+  const loaded = (): { plugin: FictionLabPlugin; context: PluginContext; pluginId: string } => {
+    if (!plugin || !context || !snapshot) {
+      throw new Error('No plugin loaded in this host');
+    }
+    return { plugin, context, pluginId: snapshot.plugin.id };
+  };
+
+  rpc.handle('load', ([entryPath, loadSnapshot]: [string, PluginHostSnapshot]): HostedPluginInfo => {
+    const manifest = loadSnapshot.plugin.manifest;
+    let instance: FictionLabPlugin;
+
+    try {
+      instance = instantiatePlugin(require(entryPath), manifest);
+    } catch (error: any) {
+      if (error instanceof PluginError) {
+        throw error;
+      }
+      throw new PluginError(
+        PluginErrorType.ENTRY_POINT_NOT_FOUND,
+        manifest.id,
+        `Failed to load plugin entry point: ${error.message}`
+      );
+    }
+
+    snapshot = loadSnapshot;
+    plugin = instance;
+    context = createProxyContext(rpc, loadSnapshot, handlers);
+    return { id: instance.id, name: instance.name, version: instance.version };
+  });
+
+  rpc.handle('activate', async () => {
+    const current = loaded();
+    await current.plugin.onActivate(current.context);
+  });
+
+  rpc.handle('deactivate', async () => {
+    await loaded().plugin.onDeactivate();
+    handlers.actions.clear();
+    handlers.ipc.clear();
+  });
+
+  rpc.handle('invoke-action', ([name, input, caller, depth]: [string, any, string, number], signal) => {
+    const action = handlers.actions.get(name);
+    if (!action) {
+      throw new PluginError(PluginErrorType.ACTION_NOT_FOUND, loaded().pluginId, `Action "${name}" is not registered`);
+    }
+    return eventDepth.run(depth, () => action.handler(input, { caller, signal }));
+  });
+
+  rpc.handle('invoke-ipc', ([channel, args, caller, depth]: [string, any[], string, number], signal) => {
+    const handler = handlers.ipc.get(channel);
+    if (!handler) {
+      throw new Error(`No handler registered for ${channel}`);
+    }
+    return eventDepth.run(depth, () => handler({ signal, caller }, ...args));
+  });
+
+  rpc.handle('callback', ([key]: [string]) => {
+    handlers.callbacks.get(key)?.();
+  });
+
+  rpc.handle('actions-changed', ([actions]: [PluginActionInfo[]]) => {
+    if (snapshot) {
+      snapshot.actions = actions;
+    }
+  });
+
+  rpc.handle('ping', () => 'pong');
+
+  return rpc;
+}
+
+/**
+ * Get the plugin instance from its module (default export, named export or
+ * the module itself; classes are instantiated) and check it
+ */
+function instantiatePlugin(pluginModule: any, manifest: PluginManifest): FictionLabPlugin {
+  let pluginInstance: FictionLabPlugin;
+
+  if (pluginModule.default) {
+    // ES6 default export
+    if (typeof pluginModule.default === 'function') {
+      pluginInstance = new pluginModule.default();
+    } else {
+      pluginInstance = pluginModule.default;
+    }
+  } else {
+    // CommonJS or named export
+    const PluginClass = pluginModule[manifest.id] || pluginModule.Plugin || pluginModule;
+    if (typeof PluginClass === 'function') {
+      pluginInstance = new PluginClass();
+    } else {
+      pluginInstance = PluginClass;
+    }
+  }
+
+  if (!pluginInstance || typeof pluginInstance !== 'object') {
+    throw new PluginError(
+      PluginErrorType.ENTRY_POINT_INVALID,
+      manifest.id,
+      'Plugin entry point must export a FictionLabPlugin instance'
+    );
+  }
+
+  if (typeof pluginInstance.onActivate !== 'function') {
+    throw new PluginError(
+      PluginErrorType.ENTRY_POINT_INVALID,
+      manifest.id,
+      'Plugin must implement onActivate() method'
+    );
+  }
+
+  if (typeof pluginInstance.onDeactivate !== 'function') {
+    throw new PluginError(
+      PluginErrorType.ENTRY_POINT_INVALID,
+      manifest.id,
+      'Plugin must implement onDeactivate() method'
+    );
+  }
+
+  if (pluginInstance.id !== manifest.id) {
+    throw new PluginError(
+      PluginErrorType.ENTRY_POINT_INVALID,
+      manifest.id,
+      `Plugin ID mismatch: manifest says '${manifest.id}', plugin says '${pluginInstance.id}'`
+    );
+  }
+
+  return pluginInstance;
+}
+
+/**
+ * Build the context the plugin sees in the host process
+ */
+function createProxyContext(rpc: PluginRpc, snapshot: PluginHostSnapshot, handlers: HostedHandlers): PluginContext {
+  const pluginId = snapshot.plugin.id;
+  const call = (method: string, ...params: any[]) => rpc.request(method, params);
+  const depth = () => eventDepth.getStore() ?? 0;
+  let config: Record<string, any> = { ...snapshot.config };
+  let nextCallback = 1;
+
+  const callbackRef = (callback: () => void): CallbackRef => {
+    const key = String(nextCallback++);
+    handlers.callbacks.set(key, callback);
+    return { callback: key };
+  };
+
+  const toWireMenuItem = (item: PluginMenuItem): any => ({
+    ...item,
+    click: item.click ? callbackRef(item.click) : undefined,
+    submenu: item.submenu?.map(toWireMenuItem),
+  });
+
+  const log = (level: 'info' | 'warn' | 'error' | 'debug', message: string, args: any[]) => {
+    rpc.notify(`logger.${level}`, [format(message, ...args)]);
+  };
+
+  return {
+    services: {
+      database: {
+        query: (sql: string, params?: any[]) => call('database.query', sql, params),
+
+        async transaction(callback: (client: any) => Promise<void>): Promise<void> {
+          const transactionId = await call('database.begin');
+          const client = {
+            query: (sql: string, params?: any[]) => call('database.transactionQuery', transactionId, sql, params),
+          };
+
+          try {
+            await callback(client);
+          } catch (error) {
+            await call('database.rollback', transactionId);
+            throw error;
+          }
+          await call('database.commit', transactionId);
+        },
+
+        // The pool lives in the main process
+        pool: null,
+
+        createPluginSchema: () => call('database.createPluginSchema'),
+        getPluginSchema: () => snapshot.databaseSchema,
+      },
+
+      mcp: {
+        getEndpoint(serverId: string): string | null {
+          if (!(serverId in snapshot.mcpEndpoints)) {
+            throw new PluginError(
+              PluginErrorType.PERMISSION_DENIED,
+              pluginId,
+              `Access to MCP server '${serverId}' not permitted. Allowed servers: ${Object.keys(snapshot.mcpEndpoints).join(', ')}`
+            );
+          }
+          return snapshot.mcpEndpoints[serverId];
+        },
+        callTool: (serverId: string, toolName: string, args: Record<string, any>) =>
+          call('mcp.callTool', serverId, toolName, args),
+        isServerRunning: (serverId: string) => call('mcp.isServerRunning', serverId),
+        listServers: () => call('mcp.listServers'),
+        getServerInfo: (serverId: string) => call('mcp.getServerInfo', serverId),
+      },
+
+      fileSystem: {
+        readFile: (filePath: string) => call('fileSystem.readFile', filePath),
+        writeFile: (filePath: string, content: string) => call('fileSystem.writeFile', filePath, content),
+        exists: (filePath: string) => call('fileSystem.exists', filePath),
+        mkdir: (filePath: string, recursive?: boolean) => call('fileSystem.mkdir', filePath, recursive),
+        readdir: (filePath: string) => call('fileSystem.readdir', filePath),
+        delete: (filePath: string, recursive?: boolean) => call('fileSystem.delete', filePath, recursive),
+        stat: (filePath: string) => call('fileSystem.stat', filePath),
+        selectFolder: (title?: string) => call('fileSystem.selectFolder', title),
+      },
+
+      docker: snapshot.docker
+        ? {
+          listContainers: (all?: boolean) => call('docker.listContainers', all),
+          getContainerLogs: (containerId: string, tail?: number) => call('docker.getContainerLogs', containerId, tail),
+          isAvailable: () => call('docker.isAvailable'),
+        }
+        : undefined,
+
+      http: snapshot.http
+        ? {
+          request: (url: string, options?: HttpRequestOptions) => call('http.request', url, options),
+          get: (url: string, options?: HttpRequestOptions) => call('http.request', url, { ...options, method: 'GET' }),
+          post: (url: string, body?: any, options?: HttpRequestOptions) => call('http.request', url, { ...options, method: 'POST', body }),
+        }
+        : undefined,
+
+      process: snapshot.process
+        ? {
+          run: (command: string, args?: string[], options?: ProcessRunOptions) => call('process.run', command, args, options),
+        }
+        : undefined,
+
+      environment: {
+        get: (key: string) => process.env[key],
+        getUserDataPath: () => snapshot.environment.userDataPath,
+        getAppVersion: () => snapshot.environment.appVersion,
+        isDevelopment: () => snapshot.environment.isDevelopment,
+      },
+    },
+
+    workspace: {
+      root: snapshot.workspace.root,
+      config: snapshot.workspace.config,
+      getPluginDataPath: () => snapshot.workspace.pluginDataPath,
+    },
+
+    ipc: {
+      handle(channel: string, handler: (event: any, ...args: any[]) => any): void {
+        handlers.ipc.set(channel, handler);
+        rpc.notify('ipc.handle', [channel]);
+      },
+      send(channel: string, ...args: any[]): void {
+        rpc.notify('ipc.send', [channel, ...args]);
+      },
+      removeHandler(channel: string): void {
+        handlers.ipc.delete(channel);
+        rpc.notify('ipc.removeHandler', [channel]);
+      },
+      getChannelName: (channel: string) => `plugin:${pluginId}:${channel}`,
+    },
+
+    ui: {
+      registerMenuItem(item: PluginMenuItem): void {
+        rpc.notify('ui.registerMenuItem', [toWireMenuItem(item)]);
+      },
+      removeMenuItem(itemId: string): void {
+        rpc.notify('ui.removeMenuItem', [itemId]);
+      },
+      showView(viewId: string): void {
+        rpc.notify('ui.showView', [viewId]);
+      },
+      showNotification(notification: PluginNotification): void {
+        rpc.notify('ui.showNotification', [{
+          ...notification,
+          actions: notification.actions?.map(action => ({ label: action.label, action: callbackRef(action.action) })),
+        }]);
+      },
+      showDialog: options => call('ui.showDialog', options),
+      updateStatusBarItem(itemId: string, content: string): void {
+        rpc.notify('ui.updateStatusBarItem', [itemId, content]);
+      },
+    },
+
+    plugin: snapshot.plugin,
+
+    config: {
+      get<T = any>(key: string, defaultValue?: T): T {
+        return config[key] !== undefined ? config[key] : (defaultValue as T);
+      },
+      async set(key: string, value: any): Promise<void> {
+        config[key] = value;
+        await call('config.set', key, value);
+      },
+      has: (key: string) => key in config,
+      async delete(key: string): Promise<void> {
+        delete config[key];
+        await call('config.delete', key);
+      },
+      all: () => ({ ...config }),
+      async clear(): Promise<void> {
+        config = {};
+        await call('config.clear');
+      },
+    },
+
+    logger: {
+      info: (message: string, ...args: any[]) => log('info', message, args),
+      warn: (message: string, ...args: any[]) => log('warn', message, args),
+      error: (message: string | Error, ...args: any[]) =>
+        log('error', message instanceof Error ? message.stack ?? message.message : message, args),
+      debug: (message: string, ...args: any[]) => log('debug', message, args),
+    },
+
+    events: {
+      publish(type: string, payload: Record<string, any> = {}): void {
+        if (!type || typeof type !== 'string') {
+          throw new Error(`Plugin ${pluginId}: event type must be a non-empty string`);
+        }
+        rpc.notify('events.publish', [type, payload, depth()]);
+      },
+    },
+
+    actions: {
+      register(action: PluginActionDefinition): void {
+        if (!action || !action.name || typeof action.handler !== 'function') {
+          throw new Error(`Plugin ${pluginId}: action must have a name and a handler`);
+        }
+        if (handlers.actions.has(action.name)) {
+          throw new Error(`Plugin ${pluginId}: action "${action.name}" is already registered`);
+        }
+
+        handlers.actions.set(action.name, action);
+        const { handler, ...definition } = action;
+        rpc.notify('actions.register', [definition]);
+      },
+      unregister(name: string): void {
+        handlers.actions.delete(name);
+        rpc.notify('actions.unregister', [name]);
+      },
+      invoke: (targetPluginId, name, input, options = {}) =>
+        rpc.request('actions.invoke', [targetPluginId, name, input, depth()], { signal: options.signal }),
+      list: (filterPluginId?: string) =>
+        snapshot.actions.filter(action => !filterPluginId || action.pluginId === filterPluginId),
+    },
+  };
+}
+
+// Started by utilityProcess.fork(): serve the plugin over the parent port
+if (process.parentPort) {
+  const rpc = startPluginHostRuntime(process.parentPort);
+
+  // Report what took the host down before exiting, so the main process can
+  // record it; the main process restarts the host
+  const fail = (error: any) => {
+    try {
+      rpc.notify('fatal', [serializeError(error)]);
+    } finally {
+      setTimeout(() => process.exit(1), 100);
+    }
+  };
+  process.on('uncaughtException', fail);
+  process.on('unhandledRejection', fail);
+}
@@ -0,0 +1,280 @@
+/**
+ * Plugin Host RPC
+ *
+ * Message protocol between the main process and a plugin host process (see
+ * plugin-host.ts and plugin-host-process.ts). Both ends use the same class on
+ * their side of the channel:
+ * - `request()` sends a request and resolves with the other side's result
+ * - `notify()` sends a one-way message
+ * - `handle()` answers requests and notifications for a method
+ *
+ * A request can be cancelled with an AbortSignal; the handler on the other
+ * side sees its own signal abort. Errors cross the channel as plain objects
+ * and are rebuilt as Error (or PluginError) instances.
+ *
+ * This module has no Electron dependencies so the host process can use it.
+ */
+
+import { PluginError, PluginErrorType } from '../types/plugin-api';
+
+/**
+ * Error as sent over the channel
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** Set for PluginErrors */
+  type?: PluginErrorType;
+  pluginId?: string;
+}
+
+/**
+ * Message on the channel
+ */
+export type RpcMessage =
+  | { kind: 'request'; id: number; method: string; params: any[] }
+  | { kind: 'notify'; method: string; params: any[] }
+  | { kind: 'response'; id: number; result?: any; error?: SerializedError }
+  | { kind: 'cancel'; id: number };
+
+/**
+ * Handler for a method
+ *
+ * `params` are the positional parameters the caller sent; `signal` aborts
+ * when the caller cancels the request (or the channel closes).
+ */
+export type RpcHandler = (params: any, signal: AbortSignal) => any;
+
+export interface RpcRequestOptions {
+  /** Cancels the request on both sides */
+  signal?: AbortSignal;
+
+  /** Reject if there is no response within this many milliseconds */
+  timeout?: number;
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+/**
+ * One end of a plugin host channel
+ */
+export class PluginRpc {
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private incoming: Map<number, AbortController> = new Map();
+  private handlers: Map<string, RpcHandler> = new Map();
+  private closedError: Error | null = null;
+
+  /**
+   * @param post Sends a message to the other side
+   * @param onNotifyError Called when a notification handler fails (nobody waits for its result)
+   */
+  constructor(
+    private readonly post: (message: RpcMessage) => void,
+    private readonly onNotifyError?: (method: string, error: any) => void
+  ) {}
+
+  /**
+   * Answer requests and notifications for a method
+   */
+  handle(method: string, handler: RpcHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Send a request
+   */
+  request<T = any>(method: string, params: any[] = [], options: RpcRequestOptions = {}): Promise<T> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    const { signal, timeout } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Cancelled'));
+    }
+
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const onAbort = () => {
+        this.take(id);
+        this.send({ kind: 'cancel', id });
+        reject(signal!.reason ?? new Error('Cancelled'));
+      };
+
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.pending.set(id, { resolve, reject, cleanup });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (timeout) {
+        timer = setTimeout(() => {
+          this.take(id);
+          reject(new Error(`Request "${method}" timed out after ${timeout}ms`));
+        }, timeout);
+      }
+
+      try {
+        this.post({ kind: 'request', id, method, params });
+      } catch (error: any) {
+        this.take(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Send a one-way message
+   */
+  notify(method: string, params: any[] = []): void {
+    if (!this.closedError) {
+      this.post({ kind: 'notify', method, params });
+    }
+  }
+
+  /**
+   * Process a message from the other side
+   */
+  receive(message: RpcMessage): void {
+    if (!message || typeof message !== 'object') {
+      return;
+    }
+
+    switch (message.kind) {
+      case 'request':
+        void this.dispatch(message.id, message.method, message.params);
+        break;
+
+      case 'notify': {
+        const handler = this.handlers.get(message.method);
+        if (handler) {
+          Promise.resolve()
+            .then(() => handler(message.params, new AbortController().signal))
+            .catch(error => this.onNotifyError?.(message.method, error));
+        }
+        break;
+      }
+
+      case 'response': {
+        const request = this.take(message.id);
+        if (request) {
+          if (message.error) {
+            request.reject(deserializeError(message.error));
+          } else {
+            request.resolve(message.result);
+          }
+        }
+        break;
+      }
+
+      case 'cancel':
+        this.incoming.get(message.id)?.abort(new Error('Cancelled'));
+        break;
+    }
+  }
+
+  /**
+   * Close the channel (the other side is gone)
+   *
+   * Pending requests reject with `error`, running handlers are aborted, and
+   * later requests reject immediately.
+   */
+  close(error: Error): void {
+    this.closedError = error;
+
+    for (const id of Array.from(this.pending.keys())) {
+      this.take(id)?.reject(error);
+    }
+
+    for (const controller of this.incoming.values()) {
+      controller.abort(error);
+    }
+    this.incoming.clear();
+  }
+
+  private async dispatch(id: number, method: string, params: any[]): Promise<void> {
+    const controller = new AbortController();
+    this.incoming.set(id, controller);
+
+    try {
+      const handler = this.handlers.get(method);
+      if (!handler) {
+        throw new Error(`Unknown method: ${method}`);
+      }
+      const result = await handler(params ?? [], controller.signal);
+      this.send({ kind: 'response', id, result });
+    } catch (error) {
+      this.send({ kind: 'response', id, error: serializeError(error) });
+    } finally {
+      this.incoming.delete(id);
+    }
+  }
+
+  /**
+   * Post a message, turning an uncloneable result into an error response
+   */
+  private send(message: RpcMessage): void {
+    if (this.closedError) {
+      return;
+    }
+
+    try {
+      this.post(message);
+    } catch (error) {
+      if (message.kind === 'response' && !message.error) {
+        this.post({ kind: 'response', id: message.id, error: serializeError(error) });
+      }
+    }
+  }
+
+  private take(id: number): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (request) {
+      this.pending.delete(id);
+      request.cleanup();
+    }
+    return request;
+  }
+}
+
+/**
+ * Convert an error to a cloneable object
+ */
+export function serializeError(error: any): SerializedError {
+  if (error instanceof PluginError) {
+    return { name: error.name, message: error.message, stack: error.stack, type: error.type, pluginId: error.pluginId };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuild an error sent over the channel
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const error = serialized.type
+    ? new PluginError(serialized.type, serialized.pluginId ?? 'unknown', serialized.message)
+    : new Error(serialized.message);
+  // PluginError prefixes its message; the serialized one is already prefixed
+  error.message = serialized.message;
+  error.name = serialized.name;
+  if (serialized.stack) {
+    error.stack = serialized.stack;
+  }
+  return error;
+}
@@ -0,0 +1,556 @@
+/**
+ * Plugin Host
+ *
+ * Runs one plugin's main-side code in its own Electron utility process
+ * (plugin-host-process.ts) so a plugin that blocks its event loop or crashes
+ * cannot take FictionLab down with it.
+ *
+ * The host:
+ * - answers the plugin's service calls with the real PluginContext, which
+ *   still enforces permissions here in the main process
+ * - registers proxies for the plugin's actions and IPC handlers that call
+ *   into the host process, and removes them when the process goes away
+ * - pings the process and kills it when it stops answering
+ * - restarts it after a crash (with backoff, up to a limit) and re-activates
+ *   the plugin if it was active
+ *
+ * Events:
+ * - 'crash' (report: PluginCrashReport) - the process exited unexpectedly
+ * - 'restarted' (reactivated: boolean) - a crashed process was replaced
+ * - 'failed' (error: PluginError) - the host gave up restarting
+ */
+
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import { utilityProcess } from 'electron';
+import { PoolClient } from 'pg';
+import { logWithCategory, LogCategory } from './logger';
+import { pluginActions } from './plugin-actions';
+import { getEventDepth, runWithEventDepth } from './event-bus';
+import { PluginRpc, RpcRequestOptions, SerializedError } from './plugin-host-rpc';
+import type { CallbackRef, HostedPluginInfo, PluginHostSnapshot } from './plugin-host-process';
+import {
+  FictionLabPlugin,
+  PluginContext,
+  PluginCrashReport,
+  PluginActionDefinition,
+  PluginMenuItem,
+  PluginError,
+  PluginErrorType,
+  PluginIpcEvent,
+  HttpRequestOptions,
+  ProcessRunOptions,
+} from '../types/plugin-api';
+
+/**
+ * The parts of Electron's UtilityProcess the host uses
+ */
+export interface PluginHostProcess {
+  readonly pid?: number;
+  postMessage(message: any): void;
+  kill(): boolean;
+  on(event: 'message', listener: (message: any) => void): this;
+  on(event: 'exit', listener: (code: number) => void): this;
+}
+
+export interface PluginHostOptions {
+  /** Starts the host process (defaults to utilityProcess.fork) */
+  spawn?: (modulePath: string, pluginId: string) => PluginHostProcess;
+
+  /** How often the process is pinged */
+  heartbeatInterval?: number;
+
+  /** Kill the process if a ping is not answered within this time */
+  heartbeatTimeout?: number;
+
+  /** Delay before the first restart; doubles with each crash in the window */
+  restartDelay?: number;
+
+  /** Crashes tolerated within restartWindow before giving up */
+  maxRestarts?: number;
+
+  /** Window (milliseconds) in which crashes are counted */
+  restartWindow?: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<PluginHostOptions, 'spawn'>> = {
+  heartbeatInterval: 5000,
+  heartbeatTimeout: 15000,
+  restartDelay: 1000,
+  maxRestarts: 3,
+  restartWindow: 5 * 60 * 1000,
+};
+
+const HOST_SCRIPT = path.join(__dirname, 'plugin-host-process.js');
+
+/** Transaction opened by the host process, waiting for commit or rollback */
+interface OpenTransaction {
+  client: PoolClient;
+  commit: () => void;
+  rollback: (error: Error) => void;
+  done: Promise<void>;
+}
+
+/**
+ * Plugin Host Class
+ */
+export class PluginHost extends EventEmitter {
+  private readonly options: Required<PluginHostOptions>;
+  private process: PluginHostProcess | null = null;
+  private rpc: PluginRpc | null = null;
+  private active = false;
+  private stopping = false;
+  private exitReason: string | null = null;
+  private crashTimes: number[] = [];
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private unsubscribeActions: (() => void) | null = null;
+  private registeredActions: Set<string> = new Set();
+  private registeredChannels: Set<string> = new Set();
+  private transactions: Map<number, OpenTransaction> = new Map();
+  private nextTransactionId = 1;
+
+  constructor(
+    private readonly pluginId: string,
+    private readonly entryPath: string,
+    private readonly context: PluginContext,
+    options: PluginHostOptions = {}
+  ) {
+    super();
+    this.options = {
+      spawn: (modulePath, id) => utilityProcess.fork(modulePath, [], { serviceName: `Plugin: ${id}`, stdio: 'inherit' }),
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+  }
+
+  /**
+   * Process id of the running host process
+   */
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /**
+   * Start the host process and load the plugin
+   *
+   * @returns Stand-in for the plugin instance; its lifecycle methods run in the host
+   */
+  async start(): Promise<FictionLabPlugin> {
+    this.stopping = false;
+
+    try {
+      const info = await this.spawn();
+      return this.createInstance(info);
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the host process (without calling onDeactivate)
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.active = false;
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const child = this.process;
+    this.detach(new PluginError(PluginErrorType.HOST_CRASHED, this.pluginId, 'Plugin host stopped'));
+    child?.kill();
+  }
+
+  /**
+   * Fork a host process and load the plugin into it
+   */
+  private async spawn(): Promise<HostedPluginInfo> {
+    const child = this.options.spawn(HOST_SCRIPT, this.pluginId);
+    const rpc = new PluginRpc(
+      message => child.postMessage(message),
+      (method, error) => logWithCategory('error', LogCategory.SYSTEM, `Plugin ${this.pluginId} host call ${method} failed:`, error)
+    );
+
+    this.process = child;
+    this.rpc = rpc;
+    this.exitReason = null;
+
+    child.on('message', message => rpc.receive(message));
+    child.on('exit', code => this.handleExit(child, code));
+
+    this.registerServices(rpc);
+    this.unsubscribeActions = pluginActions.onChange(() => rpc.notify('actions-changed', [pluginActions.list()]));
+    this.startHeartbeat(rpc);
+
+    logWithCategory('info', LogCategory.SYSTEM, `Started plugin host for ${this.pluginId} (pid ${child.pid ?? 'unknown'})`);
+
+    return rpc.request<HostedPluginInfo>('load', [this.entryPath, await this.createSnapshot()]);
+  }
+
+  /**
+   * Stand-in plugin instance used by the registry
+   */
+  private createInstance(info: HostedPluginInfo): FictionLabPlugin {
+    return {
+      id: info.id,
+      name: info.name,
+      version: info.version,
+
+      onActivate: async () => {
+        try {
+          await this.request('activate');
+          this.active = true;
+        } catch (error) {
+          this.releaseRegistrations();
+          throw error;
+        }
+      },
+
+      onDeactivate: async () => {
+        this.active = false;
+        try {
+          await this.request('deactivate');
+        } finally {
+          this.releaseRegistrations();
+        }
+      },
+    };
+  }
+
+  private request<T = any>(method: string, params: any[] = [], options: RpcRequestOptions = {}): Promise<T> {
+    if (!this.rpc) {
+      return Promise.reject(new PluginError(PluginErrorType.HOST_CRASHED, this.pluginId, 'Plugin host is not running'));
+    }
+    return this.rpc.request<T>(method, params, options);
+  }
+
+  /**
+   * Handle the host process exiting
+   */
+  private handleExit(child: PluginHostProcess, code: number): void {
+    if (child !== this.process) {
+      return;
+    }
+
+    const reason = this.exitReason ?? `Plugin host exited with code ${code}`;
+    this.detach(new PluginError(PluginErrorType.HOST_CRASHED, this.pluginId, reason));
+
+    if (this.stopping) {
+      return;
+    }
+
+    const wasActive = this.active;
+    this.active = false;
+
+    const now = Date.now();
+    this.crashTimes = [...this.crashTimes.filter(time => now - time < this.options.restartWindow), now];
+    const restarting = this.crashTimes.length <= this.options.maxRestarts;
+
+    logWithCategory('error', LogCategory.SYSTEM, `Plugin ${this.pluginId} host crashed: ${reason}`);
+
+    const report: PluginCrashReport = { at: new Date(now), reason, exitCode: code, restarting };
+    this.emit('crash', report);
+
+    if (!restarting) {
+      this.emit('failed', new PluginError(
+        PluginErrorType.HOST_CRASHED,
+        this.pluginId,
+        `Plugin host crashed ${this.crashTimes.length} times in ${Math.round(this.options.restartWindow / 1000)}s, not restarting. Last crash: ${reason}`
+      ));
+      return;
+    }
+
+    const delay = this.options.restartDelay * 2 ** (this.crashTimes.length - 1);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      void this.restart(wasActive);
+    }, delay);
+  }
+
+  /**
+   * Replace a crashed host process
+   */
+  private async restart(reactivate: boolean): Promise<void> {
+    logWithCategory('info', LogCategory.SYSTEM, `Restarting plugin host for ${this.pluginId}...`);
+
+    try {
+      await this.spawn();
+      if (reactivate) {
+        await this.request('activate');
+        this.active = true;
+      }
+
+      logWithCategory('info', LogCategory.SYSTEM, `Plugin host for ${this.pluginId} restarted`);
+      this.emit('restarted', reactivate);
+    } catch (error: any) {
+      if (error instanceof PluginError && error.type === PluginErrorType.HOST_CRASHED) {
+        // Crashed again; handleExit has already dealt with it
+        return;
+      }
+
+      logWithCategory('error', LogCategory.SYSTEM, `Failed to restart plugin ${this.pluginId}:`, error);
+      await this.stop();
+      this.emit('failed', new PluginError(
+        PluginErrorType.HOST_CRASHED,
+        this.pluginId,
+        `Plugin failed to start after a crash: ${error.message}`,
+        { originalError: error }
+      ));
+    }
+  }
+
+  /**
+   * Forget the current process: fail its pending calls and remove what it registered
+   */
+  private detach(error: PluginError): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.unsubscribeActions?.();
+    this.unsubscribeActions = null;
+
+    this.rpc?.close(error);
+    this.rpc = null;
+    this.process = null;
+
+    this.releaseRegistrations();
+  }
+
+  /**
+   * Remove the action and IPC proxies and roll back open transactions
+   */
+  private releaseRegistrations(): void {
+    for (const name of this.registeredActions) {
+      this.context.actions.unregister(name);
+    }
+    this.registeredActions.clear();
+
+    for (const channel of this.registeredChannels) {
+      this.context.ipc.removeHandler(channel);
+    }
+    this.registeredChannels.clear();
+
+    for (const transaction of this.transactions.values()) {
+      transaction.rollback(new Error('Plugin host went away'));
+      transaction.done.catch(() => undefined);
+    }
+    this.transactions.clear();
+  }
+
+  private startHeartbeat(rpc: PluginRpc): void {
+    let waiting = false;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (waiting) {
+        return;
+      }
+
+      waiting = true;
+      rpc.request('ping', [], { timeout: this.options.heartbeatTimeout })
+        .then(() => {
+          waiting = false;
+        })
+        .catch(() => {
+          if (rpc === this.rpc && this.process) {
+            this.exitReason = `Plugin host stopped responding (no heartbeat for ${this.options.heartbeatTimeout}ms)`;
+            this.process.kill();
+          }
+        });
+    }, this.options.heartbeatInterval);
+  }
+
+  /**
+   * Values the host process needs synchronously
+   */
+  private async createSnapshot(): Promise<PluginHostSnapshot> {
+    const { services, workspace, config, plugin } = this.context;
+    const allowedServers = await services.mcp.listServers();
+
+    return {
+      plugin,
+      workspace: { root: workspace.root, config: workspace.config, pluginDataPath: workspace.getPluginDataPath() },
+      config: config.all(),
+      environment: {
+        userDataPath: services.environment.getUserDataPath(),
+        appVersion: services.environment.getAppVersion(),
+        isDevelopment: services.environment.isDevelopment(),
+      },
+      databaseSchema: services.database.getPluginSchema(),
+      mcpEndpoints: Object.fromEntries(allowedServers.map(serverId => [serverId, services.mcp.getEndpoint(serverId)])),
+      docker: Boolean(services.docker),
+      http: Boolean(services.http),
+      process: Boolean(services.process),
+      actions: pluginActions.list(),
+    };
+  }
+
+  /**
+   * Answer the host process's calls with the real context
+   */
+  private registerServices(rpc: PluginRpc): void {
+    const { services, ipc, ui, config, logger, events, actions } = this.context;
+    const { database, mcp, fileSystem, docker, http } = services;
+
+    const withCallbacks = (item: any): PluginMenuItem => ({
+      ...item,
+      click: item.click ? () => rpc.notify('callback', [(item.click as CallbackRef).callback]) : undefined,
+      submenu: item.submenu?.map(withCallbacks),
+    });
+
+    const methods: Record<string, (...params: any[]) => any> = {
+      'database.query': (sql: string, params?: any[]) => database.query(sql, params),
+      'database.createPluginSchema': () => database.createPluginSchema(),
+      'database.begin': () => this.beginTransaction(),
+      'database.transactionQuery': async (id: number, sql: string, params?: any[]) => {
+        const { rows, rowCount } = await this.getTransaction(id).client.query(sql, params);
+        return { rows, rowCount };
+      },
+      'database.commit': async (id: number) => {
+        const transaction = this.getTransaction(id);
+        this.transactions.delete(id);
+        transaction.commit();
+        await transaction.done;
+      },
+      'database.rollback': async (id: number) => {
+        const transaction = this.getTransaction(id);
+        this.transactions.delete(id);
+        transaction.rollback(new Error('Transaction rolled back'));
+        await transaction.done.catch(() => undefined);
+      },
+
+      'mcp.callTool': (serverId: string, toolName: string, args: Record<string, any>) => mcp.callTool(serverId, toolName, args),
+      'mcp.isServerRunning': (serverId: string) => mcp.isServerRunning(serverId),
+      'mcp.listServers': () => mcp.listServers(),
+      'mcp.getServerInfo': (serverId: string) => mcp.getServerInfo(serverId),
+
+      'fileSystem.readFile': (filePath: string) => fileSystem.readFile(filePath),
+      'fileSystem.writeFile': (filePath: string, content: string) => fileSystem.writeFile(filePath, content),
+      'fileSystem.exists': (filePath: string) => fileSystem.exists(filePath),
+      'fileSystem.mkdir': (filePath: string, recursive?: boolean) => fileSystem.mkdir(filePath, recursive),
+      'fileSystem.readdir': (filePath: string) => fileSystem.readdir(filePath),
+      'fileSystem.delete': (filePath: string, recursive?: boolean) => fileSystem.delete(filePath, recursive),
+      'fileSystem.stat': (filePath: string) => fileSystem.stat(filePath),
+      'fileSystem.selectFolder': (title?: string) => fileSystem.selectFolder(title),
+
+      'docker.listContainers': (all?: boolean) => this.requireService(docker, 'Docker access').listContainers(all),
+      'docker.getContainerLogs': (containerId: string, tail?: number) => this.requireService(docker, 'Docker access').getContainerLogs(containerId, tail),
+      'docker.isAvailable': () => this.requireService(docker, 'Docker access').isAvailable(),
+
+      'http.request': (url: string, options?: HttpRequestOptions) => this.requireService(http, 'Network access').request(url, options),
+
+      'process.run': (command: string, args?: string[], options?: ProcessRunOptions) =>
+        this.requireService(services.process, 'Running programs').run(command, args, options),
+
+      'ipc.handle': (channel: string) => {
+        // Legacy actions pass the invocation as the event, so workflow cancellation reaches the handler
+        ipc.handle(channel, (event: PluginIpcEvent, ...args: any[]) => {
+          const invocation = 'caller' in event ? event : undefined;
+          return this.request(
+            'invoke-ipc',
+            [channel, args, invocation?.caller ?? 'ui', getEventDepth()],
+            { signal: invocation?.signal }
+          );
+        });
+        this.registeredChannels.add(channel);
+      },
+      'ipc.removeHandler': (channel: string) => {
+        ipc.removeHandler(channel);
+        this.registeredChannels.delete(channel);
+      },
+      'ipc.send': (channel: string, ...args: any[]) => ipc.send(channel, ...args),
+
+      'ui.registerMenuItem': (item: any) => ui.registerMenuItem(withCallbacks(item)),
+      'ui.removeMenuItem': (itemId: string) => ui.removeMenuItem(itemId),
+      'ui.showView': (viewId: string) => ui.showView(viewId),
+      'ui.showNotification': (notification: any) => ui.showNotification({
+        ...notification,
+        actions: notification.actions?.map((action: { label: string; action: CallbackRef }) => ({
+          label: action.label,
+          action: () => rpc.notify('callback', [action.action.callback]),
+        })),
+      }),
+      'ui.showDialog': (options: any) => ui.showDialog(options),
+      'ui.updateStatusBarItem': (itemId: string, content: string) => ui.updateStatusBarItem(itemId, content),
+
+      'config.set': (key: string, value: any) => config.set(key, value),
+      'config.delete': (key: string) => config.delete(key),
+      'config.clear': () => config.clear(),
+
+      'logger.info': (message: string) => logger.info(message),
+      'logger.warn': (message: string) => logger.warn(message),
+      'logger.error': (message: string) => logger.error(message),
+      'logger.debug': (message: string) => logger.debug(message),
+
+      'events.publish': (type: string, payload: Record<string, any>, depth: number) =>
+        runWithEventDepth(depth, () => events.publish(type, payload)),
+
+      'actions.register': (definition: Omit<PluginActionDefinition, 'handler'>) => {
+        actions.register({
+          ...definition,
+          handler: (input, invocation) => this.request(
+            'invoke-action',
+            [definition.name, input, invocation.caller, getEventDepth()],
+            { signal: invocation.signal }
+          ),
+        });
+        this.registeredActions.add(definition.name);
+      },
+      'actions.unregister': (name: string) => {
+        actions.unregister(name);
+        this.registeredActions.delete(name);
+      },
+
+      'fatal': (error: SerializedError) => {
+        this.exitReason = `Uncaught error in plugin: ${error.stack ?? error.message}`;
+      },
+    };
+
+    for (const [method, implementation] of Object.entries(methods)) {
+      rpc.handle(method, params => implementation(...params));
+    }
+
+    // The only call the host process may cancel
+    rpc.handle('actions.invoke', ([targetPluginId, name, input, depth], signal) =>
+      runWithEventDepth(depth, () => actions.invoke(targetPluginId, name, input, { signal }))
+    );
+  }
+
+  /**
+   * Open a transaction through the context (so its permission check applies)
+   * and keep it open until the host process commits or rolls back
+   */
+  private beginTransaction(): Promise<number> {
+    const id = this.nextTransactionId++;
+
+    return new Promise<number>((resolve, reject) => {
+      const done = this.context.services.database.transaction(client =>
+        new Promise<void>((commit, rollback) => {
+          this.transactions.set(id, { client, commit, rollback, done });
+          resolve(id);
+        })
+      );
+      done.catch(reject);
+    });
+  }
+
+  private getTransaction(id: number): OpenTransaction {
+    const transaction = this.transactions.get(id);
+    if (!transaction) {
+      throw new Error(`Unknown transaction: ${id}`);
+    }
+    return transaction;
+  }
+
+  private requireService<T>(service: T | undefined, description: string): T {
+    if (!service) {
+      throw new PluginError(PluginErrorType.PERMISSION_DENIED, this.pluginId, `${description} not permitted`);
+    }
+    return service;
+  }
+}
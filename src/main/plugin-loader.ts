@@ -17,8 +17,56 @@ import {
   PluginError,
   PluginErrorType,
   PluginState,
+  PluginPermissions,
+  PLUGIN_API_VERSION,
 } from '../types/plugin-api';
 import * as semver from 'semver';
+import { findRawModuleImports } from './plugin-system-access';
+
+/**
+ * Plugin validated by the loader, ready to be started in a host process
+ */
+export interface LoadedPluginEntry {
+  manifest: PluginManifest;
+
+  /** Absolute path of the entry point module */
+  entryPath: string;
+}
+
+/**
+ * Plugin dependency from the manifest
+ */
+export interface PluginDependency {
+  id: string;
+
+  /** Semver range, if the manifest gives one */
+  range?: string;
+
+  /** The dependency as written in the manifest, e.g. 'story-core@^1.2.0' */
+  spec: string;
+}
+
+/**
+ * Requirement of a plugin that is not met
+ */
+export interface PluginRequirementFailure {
+  type: PluginErrorType.DEPENDENCY_MISSING | PluginErrorType.VERSION_MISMATCH;
+
+  /** The constraint, e.g. "dependencies.plugins 'story-core@^1.2.0'" */
+  constraint: string;
+
+  /** Constraint and why it failed */
+  message: string;
+}
+
+/**
+ * Plugin dependencies of a manifest
+ */
+export function getPluginDependencies(manifest: PluginManifest): PluginDependency[] {
+  return (manifest.dependencies?.plugins || []).map(dep => typeof dep === 'string'
+    ? { id: dep, spec: dep }
+    : { id: dep.id, range: dep.version, spec: dep.version ? `${dep.id}@${dep.version}` : dep.id });
+}
 
 /**
  * Plugin Loader Class
@@ -148,13 +196,41 @@ export class PluginLoader {
 
       if (!manifest.permissions) {
         errors.push('Missing required field: permissions');
+      } else {
+        if (Array.isArray(manifest.permissions.fileSystem)) {
+          for (const root of manifest.permissions.fileSystem) {
+            if (!root || typeof root.path !== 'string' || !root.path) {
+              errors.push('Invalid fileSystem root: each entry needs a path');
+            } else if (root.access !== undefined && root.access !== 'read' && root.access !== 'readwrite') {
+              errors.push(`Invalid fileSystem root access for ${root.path}: must be 'read' or 'readwrite'`);
+            }
+          }
+        }
+
+        for (const name of ['network', 'childProcesses'] as const) {
+          const value = manifest.permissions[name];
+          if (Array.isArray(value) && value.some(entry => typeof entry !== 'string' || !entry)) {
+            errors.push(`Invalid ${name} permission: allow-list entries must be non-empty strings`);
+          }
+        }
       }
 
-      // Validate FictionLab version compatibility
-      if (manifest.fictionLabVersion && !semver.satisfies(this.appVersion, manifest.fictionLabVersion)) {
-        errors.push(
-          `FictionLab version mismatch: plugin requires ${manifest.fictionLabVersion}, but running ${this.appVersion}`
-        );
+      // Version constraints must parse; whether they are met is checked on activation
+      if (manifest.fictionLabVersion && !semver.validRange(manifest.fictionLabVersion)) {
+        errors.push(`Invalid fictionLabVersion: ${manifest.fictionLabVersion} (must be a semver range)`);
+      }
+
+      if (manifest.dependencies?.fictionlabApi && !semver.validRange(manifest.dependencies.fictionlabApi)) {
+        errors.push(`Invalid dependencies.fictionlabApi: ${manifest.dependencies.fictionlabApi} (must be a semver range)`);
+      }
+
+      for (const dep of manifest.dependencies?.plugins || []) {
+        const id = typeof dep === 'string' ? dep : dep?.id;
+        if (!id || typeof id !== 'string') {
+          errors.push('Invalid plugin dependency: each entry needs an id');
+        } else if (typeof dep === 'object' && dep.version && !semver.validRange(dep.version)) {
+          errors.push(`Invalid version range for plugin dependency ${id}: ${dep.version}`);
+        }
       }
 
       // Check if entry point exists
@@ -183,16 +259,19 @@ export class PluginLoader {
   }
 
   /**
-   * Load a plugin from disk
+   * Validate a plugin on disk and locate its entry point
+   *
+   * The entry point is not loaded here: plugin code runs in a separate host
+   * process (see plugin-host.ts).
    *
    * @param pluginPath Path to plugin directory
    * @param options Load options
-   * @returns Plugin instance
+   * @returns Validated manifest and absolute entry point path
    */
   async loadPlugin(
     pluginPath: string,
     options: PluginLoadOptions = {}
-  ): Promise<FictionLabPlugin> {
+  ): Promise<LoadedPluginEntry> {
     logWithCategory('info', LogCategory.SYSTEM, `Loading plugin from ${pluginPath}...`);
 
     // Load and validate manifest
@@ -208,130 +287,88 @@ export class PluginLoader {
     }
 
     const manifest = discoveryResult.manifest;
-
-    // Load entry point
     const entryPath = path.join(pluginPath, manifest.entry.main);
 
-    try {
-      // Clear require cache for hot reloading
-      if (options.force && require.cache[entryPath]) {
-        delete require.cache[entryPath];
-      }
-
-      // Load the plugin module
-      const pluginModule = require(entryPath);
-
-      // Get the plugin instance (could be default export or named export)
-      let pluginInstance: FictionLabPlugin;
-
-      if (pluginModule.default) {
-        // ES6 default export
-        if (typeof pluginModule.default === 'function') {
-          pluginInstance = new pluginModule.default();
-        } else {
-          pluginInstance = pluginModule.default;
-        }
-      } else {
-        // CommonJS or named export
-        const PluginClass = pluginModule[manifest.id] || pluginModule.Plugin || pluginModule;
-        if (typeof PluginClass === 'function') {
-          pluginInstance = new PluginClass();
-        } else {
-          pluginInstance = PluginClass;
-        }
-      }
-
-      // Validate plugin instance
-      if (!pluginInstance || typeof pluginInstance !== 'object') {
-        throw new PluginError(
-          PluginErrorType.ENTRY_POINT_INVALID,
-          manifest.id,
-          'Plugin entry point must export a FictionLabPlugin instance'
-        );
-      }
+    if (!(await fs.pathExists(entryPath))) {
+      throw new PluginError(
+        PluginErrorType.ENTRY_POINT_NOT_FOUND,
+        manifest.id,
+        `Entry point not found: ${manifest.entry.main}`
+      );
+    }
 
-      if (typeof pluginInstance.onActivate !== 'function') {
-        throw new PluginError(
-          PluginErrorType.ENTRY_POINT_INVALID,
-          manifest.id,
-          'Plugin must implement onActivate() method'
-        );
-      }
+    await this.warnAboutRawModules(manifest.id, entryPath);
 
-      if (typeof pluginInstance.onDeactivate !== 'function') {
-        throw new PluginError(
-          PluginErrorType.ENTRY_POINT_INVALID,
-          manifest.id,
-          'Plugin must implement onDeactivate() method'
-        );
-      }
+    return { manifest, entryPath };
+  }
 
-      // Validate plugin ID matches manifest
-      if (pluginInstance.id !== manifest.id) {
-        throw new PluginError(
-          PluginErrorType.ENTRY_POINT_INVALID,
-          manifest.id,
-          `Plugin ID mismatch: manifest says '${manifest.id}', plugin says '${pluginInstance.id}'`
+  /**
+   * Warn if the entry point uses modules that bypass services.http and services.process
+   */
+  private async warnAboutRawModules(pluginId: string, entryPath: string): Promise<void> {
+    try {
+      const source = await fs.readFile(entryPath, 'utf-8');
+      for (const { module, replacement } of findRawModuleImports(source)) {
+        logWithCategory('warn', LogCategory.SYSTEM,
+          `Plugin ${pluginId} imports '${module}' directly, bypassing its network and childProcesses permissions. Use context.${replacement} instead.`
         );
       }
-
-      logWithCategory('info', LogCategory.SYSTEM, `Loaded plugin: ${manifest.id} v${manifest.version}`);
-
-      return pluginInstance;
     } catch (error: any) {
-      if (error instanceof PluginError) {
-        throw error;
-      }
-
-      throw new PluginError(
-        PluginErrorType.ENTRY_POINT_NOT_FOUND,
-        manifest.id,
-        `Failed to load plugin entry point: ${error.message}`,
-        { originalError: error }
-      );
+      logWithCategory('debug', LogCategory.SYSTEM, `Could not scan ${entryPath} for module imports: ${error.message}`);
     }
   }
 
   /**
-   * Validate plugin dependencies
+   * Check a plugin's version constraints and dependencies
+   *
+   * Covers fictionLabVersion, dependencies.fictionlabApi, and each entry of
+   * dependencies.plugins (installed, version in range, not part of a cycle).
    *
    * @param manifest Plugin manifest
    * @param loadedPlugins Currently loaded plugins
-   * @returns Validation errors or null if valid
+   * @returns Unmet requirements (empty if all are met)
    */
-  validateDependencies(
+  checkRequirements(
     manifest: PluginManifest,
     loadedPlugins: Map<string, PluginState>
-  ): string[] | null {
-    const errors: string[] = [];
+  ): PluginRequirementFailure[] {
+    const failures: PluginRequirementFailure[] = [];
+    const fail = (type: PluginRequirementFailure['type'], constraint: string, reason: string) => {
+      failures.push({ type, constraint, message: `${constraint} not satisfied: ${reason}` });
+    };
 
-    // Check plugin dependencies
-    if (manifest.dependencies?.plugins) {
-      for (const dep of manifest.dependencies.plugins) {
-        const depId = typeof dep === 'string' ? dep : dep.id;
-        const depVersion = typeof dep === 'object' ? dep.version : undefined;
-
-        const loadedPlugin = loadedPlugins.get(depId);
-        if (!loadedPlugin) {
-          errors.push(`Missing required plugin: ${depId}`);
-        } else if (depVersion && !semver.satisfies(loadedPlugin.manifest.version, depVersion)) {
-          errors.push(
-            `Plugin version mismatch: ${depId} requires ${depVersion}, but ${loadedPlugin.manifest.version} is loaded`
-          );
-        }
+    if (manifest.fictionLabVersion
+      && !semver.satisfies(this.appVersion, manifest.fictionLabVersion, { includePrerelease: true })) {
+      fail(PluginErrorType.VERSION_MISMATCH, `fictionLabVersion '${manifest.fictionLabVersion}'`,
+        `FictionLab is ${this.appVersion}`);
+    }
+
+    const apiRange = manifest.dependencies?.fictionlabApi;
+    if (apiRange && !semver.satisfies(PLUGIN_API_VERSION, apiRange, { includePrerelease: true })) {
+      fail(PluginErrorType.VERSION_MISMATCH, `dependencies.fictionlabApi '${apiRange}'`,
+        `FictionLab provides plugin API ${PLUGIN_API_VERSION}`);
+    }
+
+    for (const dep of getPluginDependencies(manifest)) {
+      const constraint = `dependencies.plugins '${dep.spec}'`;
+      const installed = loadedPlugins.get(dep.id);
+
+      if (!installed) {
+        fail(PluginErrorType.DEPENDENCY_MISSING, constraint, `${dep.id} is not installed`);
+      } else if (dep.range && !semver.satisfies(installed.manifest.version, dep.range, { includePrerelease: true })) {
+        fail(PluginErrorType.VERSION_MISMATCH, constraint, `${dep.id} ${installed.manifest.version} is installed`);
       }
     }
 
-    // Check MCP server dependencies (would need to verify servers are available)
-    if (manifest.dependencies?.mcpServers) {
-      // This would need integration with mcp-system.ts to check server availability
-      // For now, just log a warning
-      logWithCategory('debug', LogCategory.SYSTEM,
-        `Plugin ${manifest.id} requires MCP servers: ${manifest.dependencies.mcpServers.join(', ')}`
-      );
+    const manifests = new Map(Array.from(loadedPlugins.values(), plugin => [plugin.id, plugin.manifest]));
+    manifests.set(manifest.id, manifest);
+    const cycle = findDependencyCycle(manifest.id, manifests);
+    if (cycle) {
+      fail(PluginErrorType.DEPENDENCY_MISSING, `dependencies.plugins '${cycle[1]}'`,
+        `circular dependency ${cycle.join(' -> ')}`);
     }
 
-    return errors.length > 0 ? errors : null;
+    return failures;
   }
 
   /**
@@ -357,21 +394,20 @@ export class PluginLoader {
       const pluginId = result.manifest.id;
       resultMap.set(pluginId, result);
 
-      const deps: string[] = [];
-      if (result.manifest.dependencies?.plugins) {
-        for (const dep of result.manifest.dependencies.plugins) {
-          const depId = typeof dep === 'string' ? dep : dep.id;
-          deps.push(depId);
-        }
-      }
-      depMap.set(pluginId, deps);
+      depMap.set(pluginId, getPluginDependencies(result.manifest).map(dep => dep.id));
     }
 
     // Topological sort using DFS
     const visit = (pluginId: string) => {
       if (visited.has(pluginId)) return;
       if (visiting.has(pluginId)) {
-        logWithCategory('warn', LogCategory.SYSTEM, `Circular dependency detected for plugin: ${pluginId}`);
+        // Members of the cycle are loaded but refuse to activate (see checkRequirements)
+        const cycle = findDependencyCycle(pluginId, new Map(
+          Array.from(resultMap.values(), result => [result.manifest.id, result.manifest])
+        ));
+        logWithCategory('warn', LogCategory.SYSTEM,
+          `Circular plugin dependency: ${cycle ? cycle.join(' -> ') : pluginId}`
+        );
         return;
       }
 
@@ -414,31 +450,55 @@ export class PluginLoader {
     pluginId: string,
     instance: FictionLabPlugin,
     manifest: PluginManifest,
-    context: any // PluginContext from plugin-context.ts
+    context: any, // PluginContext from plugin-context.ts
+    permissions: PluginPermissions
   ): PluginState {
     return {
       id: pluginId,
       instance,
       manifest,
       context,
+      permissions,
       status: 'loading',
       loadedAt: new Date(),
       ipcChannels: [],
       menuItems: [],
+      crashCount: 0,
     };
   }
+}
 
-  /**
-   * Unload a plugin from memory
-   *
-   * Clears the require cache for the plugin module
-   */
-  unloadPlugin(pluginPath: string, manifest: PluginManifest): void {
-    const entryPath = path.join(pluginPath, manifest.entry.main);
+/**
+ * Find a dependency cycle through a plugin
+ *
+ * @param pluginId Plugin to start from
+ * @param manifests Manifests of the known plugins
+ * @returns The cycle as plugin IDs, starting and ending with pluginId, or null
+ */
+export function findDependencyCycle(pluginId: string, manifests: Map<string, PluginManifest>): string[] | null {
+  const visited = new Set<string>();
 
-    if (require.cache[entryPath]) {
-      delete require.cache[entryPath];
-      logWithCategory('info', LogCategory.SYSTEM, `Unloaded plugin module: ${manifest.id}`);
+  const walk = (current: string, trail: string[]): string[] | null => {
+    const manifest = manifests.get(current);
+    if (!manifest) {
+      return null;
     }
-  }
+
+    for (const dep of getPluginDependencies(manifest)) {
+      if (dep.id === pluginId) {
+        return [...trail, dep.id];
+      }
+      if (!visited.has(dep.id)) {
+        visited.add(dep.id);
+        const cycle = walk(dep.id, [...trail, dep.id]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    return null;
+  };
+
+  return walk(pluginId, [pluginId]);
 }
@@ -8,11 +8,14 @@
 import { app, BrowserWindow, Menu, MenuItem as ElectronMenuItem, dialog } from 'electron';
 import { logWithCategory, LogCategory } from './logger';
 import { PluginRegistry } from './plugin-registry';
+import { PluginConsentRequest, PluginPermissionStatus } from './plugin-permissions';
+import { eventBus } from './event-bus';
 import { getDatabasePool, initializeDatabasePool } from './database-connection';
 import {
   PluginState,
   PluginNotification,
   PluginMenuItem,
+  PluginCrashReport,
 } from '../types/plugin-api';
 
 /**
@@ -49,6 +52,7 @@ class PluginManager {
         databasePool: dbPool,
         autoActivate: true,
         skipDependencyChecks: false,
+        requestConsent: (request) => this.requestPermissionConsent(request),
       });
 
       // Set up event listeners
@@ -97,6 +101,7 @@ class PluginManager {
 
     this.registry.on('plugin-activated', (pluginId: string, plugin: PluginState) => {
       logWithCategory('info', LogCategory.SYSTEM, `Plugin activated: ${pluginId}`);
+      eventBus.publish('system', 'plugin-activated', { pluginId, version: plugin.manifest.version });
 
       // Update plugin menu
       this.updatePluginMenu();
@@ -123,6 +128,15 @@ class PluginManager {
       }
     });
 
+    this.registry.on('plugin-crashed', (pluginId: string, report: PluginCrashReport) => {
+      eventBus.publish('system', 'plugin-crashed', {
+        pluginId,
+        reason: report.reason,
+        exitCode: report.exitCode,
+        restarting: report.restarting,
+      });
+    });
+
     this.registry.on('menu-item-registered', (pluginId: string, item: PluginMenuItem) => {
       logWithCategory('debug', LogCategory.SYSTEM, `Plugin ${pluginId} registered menu item: ${item.label}`);
       this.updatePluginMenu();
@@ -133,6 +147,31 @@ class PluginManager {
     });
   }
 
+  /**
+   * Ask the user to grant a plugin's permissions
+   */
+  private async requestPermissionConsent(request: PluginConsentRequest): Promise<boolean> {
+    const options: Electron.MessageBoxOptions = {
+      type: 'question',
+      title: 'Plugin Permissions',
+      message: request.update
+        ? `${request.name} ${request.version} requests new permissions`
+        : `Allow ${request.name} ${request.version} to:`,
+      detail: request.permissions.map(item => `• ${item.description}`).join('\n')
+        + '\n\nYou can revoke permissions later in Settings > Plugin Permissions.',
+      buttons: ['Allow', 'Don\'t Activate'],
+      defaultId: 0,
+      cancelId: 1,
+      noLink: true,
+    };
+
+    const result = this.mainWindow
+      ? await dialog.showMessageBox(this.mainWindow, options)
+      : await dialog.showMessageBox(options);
+
+    return result.response === 0;
+  }
+
   /**
    * Show a notification from a plugin
    */
@@ -352,6 +391,41 @@ class PluginManager {
     await this.registry.deactivatePlugin(pluginId);
   }
 
+  /**
+   * Get the permissions of every loaded plugin with the user's decisions
+   */
+  async getPluginPermissions(): Promise<Array<{
+    pluginId: string;
+    name: string;
+    version: string;
+    status: PluginState['status'];
+    permissions: PluginPermissionStatus[];
+  }>> {
+    if (!this.registry) {
+      return [];
+    }
+
+    const registry = this.registry;
+    return Promise.all(registry.getAllPlugins().map(async plugin => ({
+      pluginId: plugin.id,
+      name: plugin.manifest.name,
+      version: plugin.manifest.version,
+      status: plugin.status,
+      permissions: await registry.getPermissions(plugin.id),
+    })));
+  }
+
+  /**
+   * Grant or revoke one of a plugin's permissions
+   */
+  async setPluginPermission(pluginId: string, key: string, granted: boolean): Promise<void> {
+    if (!this.registry) {
+      throw new Error('Plugin manager not initialized');
+    }
+
+    await this.registry.setPermission(pluginId, key, granted);
+  }
+
   /**
    * Reload a plugin
    */
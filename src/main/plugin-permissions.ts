@@ -0,0 +1,346 @@
+/**
+ * Plugin Permission Grants
+ *
+ * A manifest only requests permissions; the user decides which of them a
+ * plugin gets. Requested permissions are split into individual items (one
+ * per MCP server, file system root, database schema, ...) so each can be
+ * granted or revoked on its own.
+ *
+ * Decisions are stored per plugin version in
+ * userData/plugin-access/<plugin-id>/grants.json. A new version inherits the
+ * decisions of the previous one; only items the previous version did not
+ * request need the user's consent.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { logWithCategory, LogCategory } from './logger';
+import { FileSystemRoot, PluginError, PluginErrorType, PluginManifest, PluginPermissions } from '../types/plugin-api';
+
+/**
+ * One permission that can be granted or revoked on its own
+ */
+export interface PluginPermissionItem {
+  /** Stable key, e.g. 'network' or 'mcp:workflow-manager' */
+  key: string;
+
+  /** What the permission allows, phrased for the user */
+  description: string;
+}
+
+/**
+ * Permission item with the user's decision
+ */
+export interface PluginPermissionStatus extends PluginPermissionItem {
+  status: 'granted' | 'revoked' | 'pending';
+}
+
+/**
+ * Decision for one plugin version
+ */
+export interface PluginPermissionGrant {
+  /** Keys the manifest of this version requested */
+  requested: string[];
+
+  /** Keys the user granted */
+  granted: string[];
+
+  /** ISO timestamp of the last change */
+  decidedAt: string;
+}
+
+/**
+ * Permissions a plugin may use right now
+ */
+export interface ResolvedPluginPermissions {
+  /** The manifest's permissions reduced to the granted items */
+  permissions: PluginPermissions;
+
+  /** Requested items the user has not decided on yet */
+  pending: PluginPermissionItem[];
+}
+
+/**
+ * Consent the registry asks for before activating a plugin
+ */
+export interface PluginConsentRequest {
+  pluginId: string;
+  name: string;
+  version: string;
+  permissions: PluginPermissionItem[];
+
+  /** Whether an earlier version was already granted permissions */
+  update: boolean;
+}
+
+interface GrantsFile {
+  versions: Record<string, PluginPermissionGrant>;
+}
+
+/** Permissions that are only ever granted or not (no scopes) */
+type BooleanPermission = {
+  [K in keyof PluginPermissions]-?: PluginPermissions[K] extends boolean | undefined ? K : never;
+}[keyof PluginPermissions];
+
+const BOOLEAN_PERMISSIONS: Record<BooleanPermission, string> = {
+  docker: 'Use Docker',
+  clipboard: 'Read and write the clipboard',
+  dialogs: 'Show system dialogs',
+};
+
+/**
+ * Split requested permissions into individually grantable items
+ */
+export function listPermissionItems(permissions: PluginPermissions): PluginPermissionItem[] {
+  const items: PluginPermissionItem[] = [];
+
+  if (permissions.database === true) {
+    items.push({ key: 'database', description: 'Read and write the FictionLab database' });
+  } else if (Array.isArray(permissions.database)) {
+    for (const schema of permissions.database) {
+      items.push({ key: `database:${schema}`, description: `Read and write the ${schema} database schema` });
+    }
+  }
+
+  for (const server of permissions.mcp || []) {
+    items.push({ key: `mcp:${server}`, description: `Use the ${server} MCP server` });
+  }
+
+  if (permissions.fileSystem === true) {
+    items.push({ key: 'fileSystem', description: 'Read and write files in the FictionLab workspace' });
+  } else if (permissions.fileSystem === 'readonly') {
+    items.push({ key: 'fileSystem:readonly', description: 'Read files in the FictionLab workspace' });
+  } else if (Array.isArray(permissions.fileSystem)) {
+    for (const root of permissions.fileSystem) {
+      items.push({ key: fileSystemRootKey(root), description: describeFileSystemRoot(root) });
+    }
+  }
+
+  if (permissions.network === true) {
+    items.push({ key: 'network', description: 'Make network requests to any host' });
+  } else if (Array.isArray(permissions.network)) {
+    for (const host of permissions.network) {
+      items.push({ key: `network:${host}`, description: `Make network requests to ${host}` });
+    }
+  }
+
+  if (permissions.childProcesses === true) {
+    items.push({ key: 'childProcesses', description: 'Run any program on this computer' });
+  } else if (Array.isArray(permissions.childProcesses)) {
+    for (const command of permissions.childProcesses) {
+      items.push({ key: `childProcesses:${command}`, description: `Run ${command}` });
+    }
+  }
+
+  for (const [name, description] of Object.entries(BOOLEAN_PERMISSIONS) as Array<[BooleanPermission, string]>) {
+    if (permissions[name] === true) {
+      items.push({ key: name, description });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Reduce requested permissions to the granted items
+ */
+export function restrictPermissions(permissions: PluginPermissions, granted: string[]): PluginPermissions {
+  const allowed = new Set(granted);
+  const restricted: PluginPermissions = {};
+
+  if (permissions.database === true && allowed.has('database')) {
+    restricted.database = true;
+  } else if (Array.isArray(permissions.database)) {
+    const schemas = permissions.database.filter(schema => allowed.has(`database:${schema}`));
+    if (schemas.length > 0) {
+      restricted.database = schemas;
+    }
+  }
+
+  if (permissions.mcp) {
+    restricted.mcp = permissions.mcp.filter(server => allowed.has(`mcp:${server}`));
+  }
+
+  if (permissions.fileSystem === true && allowed.has('fileSystem')) {
+    restricted.fileSystem = true;
+  } else if (permissions.fileSystem === 'readonly' && allowed.has('fileSystem:readonly')) {
+    restricted.fileSystem = 'readonly';
+  } else if (Array.isArray(permissions.fileSystem)) {
+    const roots = permissions.fileSystem.filter(root => allowed.has(fileSystemRootKey(root)));
+    if (roots.length > 0) {
+      restricted.fileSystem = roots;
+    }
+  }
+
+  for (const name of ['network', 'childProcesses'] as const) {
+    const value = permissions[name];
+    if (value === true && allowed.has(name)) {
+      restricted[name] = true;
+    } else if (Array.isArray(value)) {
+      const entries = value.filter(entry => allowed.has(`${name}:${entry}`));
+      if (entries.length > 0) {
+        restricted[name] = entries;
+      }
+    }
+  }
+
+  for (const name of Object.keys(BOOLEAN_PERMISSIONS) as BooleanPermission[]) {
+    if (permissions[name] === true && allowed.has(name)) {
+      restricted[name] = true;
+    }
+  }
+
+  return restricted;
+}
+
+/**
+ * Stored permission decisions for all plugins
+ */
+export class PluginPermissionStore {
+  /**
+   * @param directory Directory holding one subdirectory per plugin
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Permissions the plugin may use, and the items still awaiting consent
+   */
+  async resolve(manifest: PluginManifest): Promise<ResolvedPluginPermissions> {
+    const { permissions, granted, pending } = await this.evaluate(manifest);
+    return { permissions: restrictPermissions(permissions, granted), pending };
+  }
+
+  /**
+   * Whether an earlier version of the plugin was granted permissions
+   */
+  async hasPreviousGrant(manifest: PluginManifest): Promise<boolean> {
+    const file = await this.read(manifest.id);
+    return Object.keys(file.versions).some(version => version !== manifest.version);
+  }
+
+  /**
+   * Grant every item awaiting consent
+   */
+  async grantPending(manifest: PluginManifest): Promise<void> {
+    const { items, granted, pending } = await this.evaluate(manifest);
+    await this.save(manifest, items, [...granted, ...pending.map(item => item.key)]);
+
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Plugin ${manifest.id} v${manifest.version} granted permissions: ${pending.map(item => item.key).join(', ')}`
+    );
+  }
+
+  /**
+   * Grant or revoke a single item
+   *
+   * @throws PluginError (PERMISSION_DENIED) if the manifest does not request the item
+   */
+  async setPermission(manifest: PluginManifest, key: string, grant: boolean): Promise<void> {
+    const { items, granted } = await this.evaluate(manifest);
+
+    if (!items.some(item => item.key === key)) {
+      throw new PluginError(
+        PluginErrorType.PERMISSION_DENIED,
+        manifest.id,
+        `Permission '${key}' is not requested by the plugin`
+      );
+    }
+
+    const next = grant ? [...granted, key] : granted.filter(entry => entry !== key);
+    await this.save(manifest, items, next);
+
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Plugin ${manifest.id} v${manifest.version}: permission ${key} ${grant ? 'granted' : 'revoked'}`
+    );
+  }
+
+  /**
+   * Requested items with the user's decision on each
+   */
+  async describe(manifest: PluginManifest): Promise<PluginPermissionStatus[]> {
+    const { items, granted, pending } = await this.evaluate(manifest);
+    const pendingKeys = new Set(pending.map(item => item.key));
+
+    return items.map(item => ({
+      ...item,
+      status: granted.includes(item.key) ? 'granted' : pendingKeys.has(item.key) ? 'pending' : 'revoked',
+    }));
+  }
+
+  /**
+   * Compare the manifest with the stored decisions
+   *
+   * Uses the record for the manifest's version, or the most recent record of
+   * another version after an update. Items that record did not request are
+   * pending. A new version that requests nothing new inherits the previous
+   * decisions without asking.
+   */
+  private async evaluate(manifest: PluginManifest): Promise<{
+    permissions: PluginPermissions;
+    items: PluginPermissionItem[];
+    granted: string[];
+    pending: PluginPermissionItem[];
+  }> {
+    const permissions = manifest.permissions || {};
+    const items = listPermissionItems(permissions);
+    const keys = items.map(item => item.key);
+
+    const file = await this.read(manifest.id);
+    const current = file.versions[manifest.version];
+    const base = current ?? latestGrant(file);
+
+    const granted = base ? base.granted.filter(key => keys.includes(key)) : [];
+    const pending = items.filter(item => !base?.requested.includes(item.key));
+
+    if (pending.length === 0 && !current && items.length > 0) {
+      await this.save(manifest, items, granted);
+    }
+
+    return { permissions, items, granted, pending };
+  }
+
+  private async save(manifest: PluginManifest, items: PluginPermissionItem[], granted: string[]): Promise<void> {
+    const file = await this.read(manifest.id);
+    const keys = items.map(item => item.key);
+
+    file.versions[manifest.version] = {
+      requested: keys,
+      granted: keys.filter(key => granted.includes(key)),
+      decidedAt: new Date().toISOString(),
+    };
+
+    await fs.outputJson(this.grantsPath(manifest.id), file, { spaces: 2 });
+  }
+
+  private async read(pluginId: string): Promise<GrantsFile> {
+    // Missing or unreadable: nothing has been granted
+    const file = await fs.readJson(this.grantsPath(pluginId)).catch(() => null);
+    return file?.versions ? file : { versions: {} };
+  }
+
+  private grantsPath(pluginId: string): string {
+    return path.join(this.directory, pluginId, 'grants.json');
+  }
+}
+
+function latestGrant(file: GrantsFile): PluginPermissionGrant | undefined {
+  return Object.values(file.versions).sort((a, b) => b.decidedAt.localeCompare(a.decidedAt))[0];
+}
+
+function fileSystemRootKey(root: FileSystemRoot): string {
+  return `fileSystem:${root.path}:${root.access ?? 'read'}`;
+}
+
+function describeFileSystemRoot(root: FileSystemRoot): string {
+  const verb = root.access === 'readwrite' ? 'Read and write files in' : 'Read files in';
+  switch (root.path) {
+    case 'pluginData':
+      return `${verb} its own data folder`;
+    case 'workspace':
+      return `${verb} the FictionLab workspace`;
+    case 'userSelected':
+      return `${verb} folders you choose`;
+    default:
+      return `${verb} ${root.path}`;
+  }
+}
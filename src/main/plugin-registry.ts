@@ -6,10 +6,16 @@
  */
 
 import { EventEmitter } from 'events';
+import * as path from 'path';
+import { app } from 'electron';
 import { Pool } from 'pg';
 import { logWithCategory, LogCategory } from './logger';
-import { PluginLoader } from './plugin-loader';
+import { PluginLoader, getPluginDependencies } from './plugin-loader';
 import { createPluginContext } from './plugin-context';
+import { pluginActions } from './plugin-actions';
+import { PluginHost } from './plugin-host';
+import { PLUGIN_ACCESS_DIRECTORY } from './plugin-file-access';
+import { PluginConsentRequest, PluginPermissionStatus, PluginPermissionStore } from './plugin-permissions';
 import {
   PluginState,
   PluginManifest,
@@ -21,6 +27,7 @@ import {
   PluginContext,
   PluginMenuItem,
   PluginNotification,
+  PluginCrashReport,
 } from '../types/plugin-api';
 
 /**
@@ -31,6 +38,7 @@ export interface PluginRegistryEvents {
   'plugin-activated': (pluginId: string, plugin: PluginState) => void;
   'plugin-deactivated': (pluginId: string) => void;
   'plugin-error': (pluginId: string, error: Error) => void;
+  'plugin-crashed': (pluginId: string, report: PluginCrashReport) => void;
   'menu-item-registered': (pluginId: string, item: PluginMenuItem) => void;
   'notification': (pluginId: string, notification: PluginNotification) => void;
 }
@@ -45,8 +53,19 @@ export interface PluginRegistryOptions {
   /** Auto-activate plugins after loading */
   autoActivate?: boolean;
 
-  /** Skip dependency checks during loading */
+  /** Skip version and dependency checks during activation */
   skipDependencyChecks?: boolean;
+
+  /**
+   * Ask the user to grant permissions before activation
+   *
+   * Resolves to true if the user agreed. Without it, plugins that need
+   * consent are not activated.
+   */
+  requestConsent?: (request: PluginConsentRequest) => Promise<boolean>;
+
+  /** Where permission grants are stored (defaults to userData/plugin-access) */
+  permissionsDirectory?: string;
 }
 
 /**
@@ -56,13 +75,22 @@ export interface PluginRegistryOptions {
  */
 export class PluginRegistry extends EventEmitter {
   private plugins: Map<string, PluginState>;
+  private hosts: Map<string, PluginHost> = new Map();
   private loader: PluginLoader;
+  private permissions: PluginPermissionStore;
   private options: PluginRegistryOptions;
 
+  /** Plugins being activated or deactivated, so cascades stop at cycles */
+  private activating = new Set<string>();
+  private deactivating = new Set<string>();
+
   constructor(options: PluginRegistryOptions) {
     super();
     this.plugins = new Map();
     this.loader = new PluginLoader();
+    this.permissions = new PluginPermissionStore(
+      options.permissionsDirectory ?? path.join(app.getPath('userData'), PLUGIN_ACCESS_DIRECTORY)
+    );
     this.options = options;
 
     logWithCategory('info', LogCategory.SYSTEM, 'Plugin registry initialized');
@@ -130,9 +158,7 @@ export class PluginRegistry extends EventEmitter {
       // Load each plugin
       for (const result of sorted) {
         try {
-          await this.loadPlugin(result.path, {
-            skipDependencyCheck: this.options.skipDependencyChecks,
-          });
+          await this.loadPlugin(result.path);
         } catch (error: any) {
           logWithCategory('error', LogCategory.SYSTEM, `Failed to load plugin ${result.manifest.id}:`, error);
           this.emit('plugin-error', result.manifest.id, error);
@@ -163,8 +189,8 @@ export class PluginRegistry extends EventEmitter {
     pluginPath: string,
     options: PluginLoadOptions = {}
   ): Promise<PluginState> {
-    const instance = await this.loader.loadPlugin(pluginPath, options);
-    const pluginId = instance.id;
+    const { manifest, entryPath } = await this.loader.loadPlugin(pluginPath, options);
+    const pluginId = manifest.id;
 
     // Check if already loaded
     if (this.plugins.has(pluginId) && !options.force) {
@@ -175,35 +201,30 @@ export class PluginRegistry extends EventEmitter {
       );
     }
 
-    // Load manifest
-    const manifestPath = require('path').join(pluginPath, 'plugin.json');
-    const manifest: PluginManifest = require('fs-extra').readJsonSync(manifestPath);
-
-    // Validate dependencies
-    if (!options.skipDependencyCheck) {
-      const depErrors = this.loader.validateDependencies(manifest, this.plugins);
-      if (depErrors) {
-        throw new PluginError(
-          PluginErrorType.DEPENDENCY_MISSING,
-          pluginId,
-          `Missing dependencies: ${depErrors.join(', ')}`,
-          { errors: depErrors }
-        );
-      }
-    }
-
-    // Create plugin context
+    // Create plugin context, limited to what the user granted
+    const { permissions } = await this.permissions.resolve(manifest);
     const context = createPluginContext(
       pluginId,
       manifest,
+      permissions,
       pluginPath,
       this.options.databasePool,
       (pid, item) => this.handleMenuItemRegistered(pid, item),
       (notification) => this.handleNotification(pluginId, notification)
     );
 
+    // Start the plugin's host process; the instance stands in for the plugin there
+    if (this.hosts.has(pluginId)) {
+      await this.stopHost(pluginId);
+    }
+    const host = new PluginHost(pluginId, entryPath, context);
+    const instance = await host.start();
+    this.hosts.set(pluginId, host);
+
     // Create plugin state
-    const state = this.loader.createPluginState(pluginId, instance, manifest, context);
+    const state = this.loader.createPluginState(pluginId, instance, manifest, context, permissions);
+    state.hostPid = host.pid;
+    this.watchHost(pluginId, host);
 
     // Store in registry
     this.plugins.set(pluginId, state);
@@ -217,10 +238,13 @@ export class PluginRegistry extends EventEmitter {
   /**
    * Activate a plugin
    *
-   * Calls the plugin's onActivate() method
+   * Checks the plugin's version constraints, activates its dependencies, and
+   * calls the plugin's onActivate() method
+   *
+   * @throws PluginError (VERSION_MISMATCH or DEPENDENCY_MISSING) naming each unmet requirement
    */
   async activatePlugin(pluginId: string): Promise<void> {
-    const state = this.plugins.get(pluginId);
+    let state = this.plugins.get(pluginId);
 
     if (!state) {
       throw new PluginError(
@@ -235,8 +259,26 @@ export class PluginRegistry extends EventEmitter {
       return;
     }
 
+    if (this.activating.has(pluginId)) {
+      return;
+    }
+
     logWithCategory('info', LogCategory.SYSTEM, `Activating plugin: ${pluginId}...`);
 
+    this.activating.add(pluginId);
+    try {
+      await this.activateDependencies(state);
+    } finally {
+      this.activating.delete(pluginId);
+    }
+
+    // New or newly requested permissions need the user's consent first
+    const { pending } = await this.permissions.resolve(state.manifest);
+    if (pending.length > 0) {
+      await this.requestConsent(state);
+      state = await this.restartHost(pluginId);
+    }
+
     state.status = 'loading';
 
     try {
@@ -251,6 +293,9 @@ export class PluginRegistry extends EventEmitter {
       state.status = 'error';
       state.error = error;
 
+      // Drop anything registered before activation failed
+      pluginActions.unregisterPlugin(pluginId);
+
       logWithCategory('error', LogCategory.SYSTEM, `Failed to activate plugin ${pluginId}:`, error);
 
       const pluginError = new PluginError(
@@ -269,7 +314,8 @@ export class PluginRegistry extends EventEmitter {
   /**
    * Deactivate a plugin
    *
-   * Calls the plugin's onDeactivate() method and cleans up resources
+   * Deactivates active plugins that depend on it first, then calls the
+   * plugin's onDeactivate() method and cleans up resources
    */
   async deactivatePlugin(pluginId: string): Promise<void> {
     const state = this.plugins.get(pluginId);
@@ -287,12 +333,21 @@ export class PluginRegistry extends EventEmitter {
       return;
     }
 
+    if (this.deactivating.has(pluginId)) {
+      return;
+    }
+
+    await this.deactivateDependents(pluginId);
+
     logWithCategory('info', LogCategory.SYSTEM, `Deactivating plugin: ${pluginId}...`);
 
     try {
       // Call onDeactivate
       await state.instance.onDeactivate();
 
+      // Remove the plugin's actions so nothing can call into it anymore
+      pluginActions.unregisterPlugin(pluginId);
+
       // Clean up IPC handlers
       for (const channel of state.ipcChannels) {
         const { ipcMain } = require('electron');
@@ -329,7 +384,8 @@ export class PluginRegistry extends EventEmitter {
   /**
    * Reload a plugin
    *
-   * Deactivates, unloads, reloads, and reactivates the plugin
+   * Deactivates, unloads, reloads, and reactivates the plugin, along with any
+   * dependents its deactivation took down
    */
   async reloadPlugin(pluginId: string): Promise<void> {
     const state = this.plugins.get(pluginId);
@@ -346,14 +402,15 @@ export class PluginRegistry extends EventEmitter {
 
     const wasActive = state.status === 'active';
     const pluginPath = state.context.plugin.installPath;
+    const activeBefore = this.getPluginsByStatus('active').map(p => p.id);
 
     // Deactivate if active
     if (wasActive) {
       await this.deactivatePlugin(pluginId);
     }
 
-    // Unload from memory
-    this.loader.unloadPlugin(pluginPath, state.manifest);
+    // Stop the host process
+    await this.stopHost(pluginId);
 
     // Remove from registry
     this.plugins.delete(pluginId);
@@ -361,9 +418,19 @@ export class PluginRegistry extends EventEmitter {
     // Reload
     const newState = await this.loadPlugin(pluginPath, { force: true });
 
-    // Reactivate if it was active before
+    // Reactivate if it was active before, then its dependents in their original order
     if (wasActive) {
       await this.activatePlugin(pluginId);
+
+      for (const id of activeBefore) {
+        if (id !== pluginId && this.plugins.get(id)?.status === 'inactive') {
+          try {
+            await this.activatePlugin(id);
+          } catch (error: any) {
+            logWithCategory('error', LogCategory.SYSTEM, `Failed to reactivate dependent plugin ${id}:`, error);
+          }
+        }
+      }
     }
 
     logWithCategory('info', LogCategory.SYSTEM, `Plugin reloaded: ${pluginId}`);
@@ -392,8 +459,8 @@ export class PluginRegistry extends EventEmitter {
       await this.deactivatePlugin(pluginId);
     }
 
-    // Unload from memory
-    this.loader.unloadPlugin(state.context.plugin.installPath, state.manifest);
+    // Stop the host process
+    await this.stopHost(pluginId);
 
     // Remove from registry
     this.plugins.delete(pluginId);
@@ -401,6 +468,43 @@ export class PluginRegistry extends EventEmitter {
     logWithCategory('info', LogCategory.SYSTEM, `Plugin unloaded: ${pluginId}`);
   }
 
+  /**
+   * Requested permissions of a plugin with the user's decision on each
+   */
+  async getPermissions(pluginId: string): Promise<PluginPermissionStatus[]> {
+    const state = this.plugins.get(pluginId);
+
+    if (!state) {
+      throw new PluginError(
+        PluginErrorType.NOT_LOADED,
+        pluginId,
+        'Plugin is not loaded'
+      );
+    }
+
+    return this.permissions.describe(state.manifest);
+  }
+
+  /**
+   * Grant or revoke one of a plugin's permissions
+   *
+   * The plugin is reloaded so its context reflects the change.
+   */
+  async setPermission(pluginId: string, key: string, granted: boolean): Promise<void> {
+    const state = this.plugins.get(pluginId);
+
+    if (!state) {
+      throw new PluginError(
+        PluginErrorType.NOT_LOADED,
+        pluginId,
+        'Plugin is not loaded'
+      );
+    }
+
+    await this.permissions.setPermission(state.manifest, key, granted);
+    await this.reloadPlugin(pluginId);
+  }
+
   /**
    * Activate all loaded plugins
    */
@@ -464,6 +568,209 @@ export class PluginRegistry extends EventEmitter {
     };
   }
 
+  /**
+   * Track crashes and restarts of a plugin's host process
+   */
+  private watchHost(pluginId: string, host: PluginHost): void {
+    host.on('crash', (report: PluginCrashReport) => {
+      const state = this.plugins.get(pluginId);
+      if (!state) {
+        return;
+      }
+
+      state.crashCount++;
+      state.lastCrash = report;
+      state.hostPid = undefined;
+      if (state.status === 'active' && report.restarting) {
+        state.status = 'loading';
+      }
+
+      logWithCategory('error', LogCategory.SYSTEM,
+        `Plugin ${pluginId} crashed (${state.crashCount} total): ${report.reason}`
+      );
+      this.emit('plugin-crashed', pluginId, report);
+    });
+
+    host.on('restarted', (reactivated: boolean) => {
+      const state = this.plugins.get(pluginId);
+      if (!state) {
+        return;
+      }
+
+      state.hostPid = host.pid;
+      if (reactivated) {
+        state.status = 'active';
+        state.error = undefined;
+        this.emit('plugin-activated', pluginId, state);
+      }
+    });
+
+    host.on('failed', (error: PluginError) => {
+      const state = this.plugins.get(pluginId);
+      if (!state) {
+        return;
+      }
+
+      state.status = 'error';
+      state.error = error;
+      state.hostPid = undefined;
+      pluginActions.unregisterPlugin(pluginId);
+
+      this.emit('plugin-error', pluginId, error);
+
+      // The host gave up restarting, so plugins built on this one lose it for good
+      this.deactivateDependents(pluginId).catch(cascadeError => {
+        logWithCategory('error', LogCategory.SYSTEM, `Failed to deactivate plugins depending on ${pluginId}:`, cascadeError);
+      });
+    });
+  }
+
+  /**
+   * Ask the user to grant a plugin's pending permissions
+   *
+   * @throws PluginError (PERMISSION_DENIED) if the user declines
+   */
+  private async requestConsent(state: PluginState): Promise<void> {
+    const { manifest } = state;
+    const { pending } = await this.permissions.resolve(manifest);
+
+    const agreed = this.options.requestConsent
+      ? await this.options.requestConsent({
+        pluginId: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        permissions: pending,
+        update: await this.permissions.hasPreviousGrant(manifest),
+      })
+      : false;
+
+    if (!agreed) {
+      logWithCategory('warn', LogCategory.SYSTEM,
+        `Plugin ${manifest.id} not activated: permissions not granted (${pending.map(item => item.key).join(', ')})`
+      );
+      throw new PluginError(
+        PluginErrorType.PERMISSION_DENIED,
+        manifest.id,
+        `Permissions not granted: ${pending.map(item => item.description).join('; ')}`
+      );
+    }
+
+    await this.permissions.grantPending(manifest);
+  }
+
+  /**
+   * Start a fresh host for an inactive plugin, picking up changed grants
+   */
+  private async restartHost(pluginId: string): Promise<PluginState> {
+    const state = this.plugins.get(pluginId)!;
+
+    await this.stopHost(pluginId);
+    this.plugins.delete(pluginId);
+
+    return this.loadPlugin(state.context.plugin.installPath, { force: true });
+  }
+
+  /**
+   * Check a plugin's requirements and activate the plugins it depends on
+   *
+   * @throws PluginError if a requirement is unmet or a dependency fails to activate
+   */
+  private async activateDependencies(state: PluginState): Promise<void> {
+    const pluginId = state.id;
+
+    if (!this.options.skipDependencyChecks) {
+      const failures = this.loader.checkRequirements(state.manifest, this.plugins);
+
+      if (failures.length > 0) {
+        const error = new PluginError(
+          failures[0].type,
+          pluginId,
+          `Cannot activate: ${failures.map(failure => failure.message).join('; ')}`,
+          { failures }
+        );
+
+        state.status = 'error';
+        state.error = error;
+        logWithCategory('error', LogCategory.SYSTEM, `Plugin ${pluginId}: ${error.message}`);
+        this.emit('plugin-error', pluginId, error);
+
+        throw error;
+      }
+    }
+
+    for (const dep of getPluginDependencies(state.manifest)) {
+      const dependency = this.plugins.get(dep.id);
+      if (!dependency || dependency.status === 'active') {
+        continue;
+      }
+
+      try {
+        await this.activatePlugin(dep.id);
+      } catch (error: any) {
+        throw new PluginError(
+          PluginErrorType.DEPENDENCY_MISSING,
+          pluginId,
+          `Cannot activate: dependency ${dep.id} could not be activated (${error.message})`,
+          { originalError: error }
+        );
+      }
+
+      // A dependency further up a cycle is still activating; consent may have replaced its state
+      const status = this.plugins.get(dep.id)?.status;
+      if (status !== 'active') {
+        throw new PluginError(
+          PluginErrorType.DEPENDENCY_MISSING,
+          pluginId,
+          `Cannot activate: dependency ${dep.id} is ${status ?? 'not loaded'}, not active`
+        );
+      }
+    }
+  }
+
+  /**
+   * Deactivate the active plugins that depend on a plugin
+   */
+  private async deactivateDependents(pluginId: string): Promise<void> {
+    if (this.deactivating.has(pluginId)) {
+      return;
+    }
+
+    this.deactivating.add(pluginId);
+    try {
+      for (const dependent of this.getActiveDependents(pluginId)) {
+        logWithCategory('info', LogCategory.SYSTEM, `Deactivating ${dependent.id}, which depends on ${pluginId}`);
+        try {
+          await this.deactivatePlugin(dependent.id);
+        } catch (error: any) {
+          logWithCategory('error', LogCategory.SYSTEM, `Failed to deactivate dependent plugin ${dependent.id}:`, error);
+        }
+      }
+    } finally {
+      this.deactivating.delete(pluginId);
+    }
+  }
+
+  /**
+   * Active plugins that list a plugin in dependencies.plugins
+   */
+  private getActiveDependents(pluginId: string): PluginState[] {
+    return this.getPluginsByStatus('active').filter(plugin =>
+      getPluginDependencies(plugin.manifest).some(dep => dep.id === pluginId)
+    );
+  }
+
+  /**
+   * Stop and forget a plugin's host process
+   */
+  private async stopHost(pluginId: string): Promise<void> {
+    const host = this.hosts.get(pluginId);
+    if (host) {
+      this.hosts.delete(pluginId);
+      host.removeAllListeners();
+      await host.stop();
+    }
+  }
+
   /**
    * Handle menu item registration from plugins
    */
@@ -493,6 +800,10 @@ export class PluginRegistry extends EventEmitter {
 
     await this.deactivateAll();
 
+    for (const pluginId of Array.from(this.hosts.keys())) {
+      await this.stopHost(pluginId);
+    }
+
     this.plugins.clear();
 
     logWithCategory('info', LogCategory.SYSTEM, 'Plugin registry cleaned up');
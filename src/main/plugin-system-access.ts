@@ -0,0 +1,335 @@
+/**
+ * Plugin Network and Process Access
+ *
+ * services.http and services.process, the only sanctioned ways for a plugin
+ * to reach the network or run programs. Both honor the allow-lists in the
+ * `network` and `childProcesses` permissions; every denied request is
+ * logged.
+ *
+ * Plugins can still require() Node's modules directly, which bypasses these
+ * checks. The loader warns about bundles that do (see findRawModuleImports).
+ */
+
+import axios from 'axios';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logWithCategory, LogCategory } from './logger';
+import { getFixedEnv } from './prerequisites';
+import {
+  HttpRequestOptions,
+  HttpResponse,
+  HttpService,
+  PluginError,
+  PluginErrorType,
+  PluginPermissions,
+  ProcessResult,
+  ProcessRunOptions,
+  ProcessService,
+} from '../types/plugin-api';
+
+const DEFAULT_HTTP_TIMEOUT = 30000;
+const DEFAULT_PROCESS_TIMEOUT = 60000;
+const MAX_REDIRECTS = 5;
+
+/** Output kept per stream; the rest is dropped */
+const MAX_PROCESS_OUTPUT = 10 * 1024 * 1024;
+
+/**
+ * Variables that decide which program or libraries get loaded; plugins may not set them
+ */
+const PROTECTED_ENV_VARIABLES = ['PATH', 'PATHEXT', 'LD_PRELOAD', 'LD_LIBRARY_PATH', 'LD_AUDIT', 'NODE_OPTIONS'];
+const PROTECTED_ENV_PREFIXES = ['DYLD_'];
+
+/**
+ * Modules that bypass the permission checks, with the service to use instead
+ */
+const RAW_MODULES: Record<string, string> = {
+  child_process: 'services.process',
+  http: 'services.http',
+  https: 'services.http',
+  net: 'services.http',
+  axios: 'services.http',
+  'node-fetch': 'services.http',
+  undici: 'services.http',
+};
+
+/**
+ * Creates the HTTP service
+ *
+ * @param permission The plugin's network permission (true or allowed hosts)
+ */
+export function createHttpService(
+  pluginId: string,
+  permission: PluginPermissions['network']
+): HttpService {
+  const hosts = Array.isArray(permission) ? permission : null;
+
+  const deny = (url: string, reason: string): PluginError => {
+    logWithCategory('warn', LogCategory.SYSTEM, `Plugin ${pluginId} denied network access to ${url}: ${reason}`);
+    return new PluginError(
+      PluginErrorType.PERMISSION_DENIED,
+      pluginId,
+      `Network access to '${url}' not permitted: ${reason}`
+    );
+  };
+
+  const checkTarget = (url: string, protocol: string, hostname: string): void => {
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw deny(url, `unsupported protocol ${protocol}`);
+    }
+    if (hosts && !hosts.some(pattern => matchesHost(pattern, hostname))) {
+      throw deny(url, `host ${hostname} is not in the plugin's allowed hosts (${hosts.join(', ') || 'none'})`);
+    }
+  };
+
+  const request = async (url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      throw deny(String(url), 'invalid URL');
+    }
+    checkTarget(url, target.protocol, target.hostname);
+
+    // Redirects are checked like the original request
+    let denied: PluginError | null = null;
+    try {
+      const response = await axios.request({
+        url,
+        method: options.method || 'GET',
+        headers: options.headers,
+        data: options.body,
+        timeout: options.timeout ?? DEFAULT_HTTP_TIMEOUT,
+        maxRedirects: MAX_REDIRECTS,
+        adapter: 'http',
+        responseType: 'text',
+        transformResponse: [(data: any) => data],
+        validateStatus: () => true,
+        beforeRedirect: (redirect: Record<string, any>) => {
+          const redirectUrl = `${redirect.protocol}//${redirect.hostname}${redirect.path ?? ''}`;
+          try {
+            checkTarget(redirectUrl, redirect.protocol, redirect.hostname);
+          } catch (error: any) {
+            denied = error;
+            throw error;
+          }
+        },
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined && value !== null) {
+          headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: parseBody(response.data, options.responseType),
+      };
+    } catch (error: any) {
+      if (denied) {
+        throw denied;
+      }
+      throw new Error(`Request to ${url} failed: ${error.message}`);
+    }
+  };
+
+  return {
+    request,
+
+    get(url: string, options?: Omit<HttpRequestOptions, 'method' | 'body'>) {
+      return request(url, { ...options, method: 'GET' });
+    },
+
+    post(url: string, body?: any, options?: Omit<HttpRequestOptions, 'method' | 'body'>) {
+      return request(url, { ...options, method: 'POST', body });
+    },
+  };
+}
+
+/**
+ * Creates the process service
+ *
+ * Program names are looked up on FictionLab's own PATH, never on one the
+ * plugin supplies, so an allowed name always runs the same program.
+ *
+ * @param permission The plugin's childProcesses permission (true or allowed commands)
+ * @param defaultCwd Working directory when the plugin gives none
+ * @param resolveCwd Checks a working directory the plugin gives against its file system access
+ */
+export function createProcessService(
+  pluginId: string,
+  permission: PluginPermissions['childProcesses'],
+  defaultCwd: string,
+  resolveCwd: (cwd: string) => Promise<string>
+): ProcessService {
+  const commands = Array.isArray(permission) ? permission : null;
+
+  const deny = (command: string, reason: string): PluginError => {
+    logWithCategory('warn', LogCategory.SYSTEM, `Plugin ${pluginId} denied running ${command}: ${reason}`);
+    return new PluginError(
+      PluginErrorType.PERMISSION_DENIED,
+      pluginId,
+      `Running '${command}' not permitted: ${reason}`
+    );
+  };
+
+  return {
+    async run(command: string, args: string[] = [], options: ProcessRunOptions = {}): Promise<ProcessResult> {
+      if (typeof command !== 'string' || command.length === 0 || command.includes('\0')) {
+        throw deny(String(command), 'invalid command');
+      }
+      if (!Array.isArray(args) || args.some(arg => typeof arg !== 'string')) {
+        throw deny(command, 'arguments must be strings');
+      }
+      // A relative path would run whatever is at that path in the working directory
+      if (/[\\/]/.test(command) && !path.isAbsolute(command)) {
+        throw deny(command, 'use a program name or an absolute path');
+      }
+      if (commands && !commands.includes(command)) {
+        throw deny(command, `command is not in the plugin's allowed commands (${commands.join(', ') || 'none'})`);
+      }
+
+      const protectedVariable = Object.keys(options.env || {}).find(isProtectedEnvVariable);
+      if (protectedVariable) {
+        throw deny(command, `plugins may not set ${protectedVariable}`);
+      }
+
+      const cwd = options.cwd ? await resolveCwd(options.cwd) : defaultCwd;
+      const env = getFixedEnv();
+      const program = path.isAbsolute(command) ? command : await findExecutable(command, env);
+      if (!program) {
+        throw new Error(`Failed to run ${command}: not found on PATH`);
+      }
+
+      logWithCategory('debug', LogCategory.SYSTEM, `Plugin ${pluginId} running ${program} ${args.join(' ')}`);
+
+      return new Promise<ProcessResult>((resolve, reject) => {
+        const child = spawn(program, args, {
+          cwd,
+          env: { ...env, ...options.env },
+          shell: false,
+          windowsHide: true,
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+
+        const timer = setTimeout(() => {
+          timedOut = true;
+          child.kill();
+        }, options.timeout ?? DEFAULT_PROCESS_TIMEOUT);
+
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => {
+          stdout = (stdout + chunk).slice(0, MAX_PROCESS_OUTPUT);
+        });
+        child.stderr.on('data', (chunk: string) => {
+          stderr = (stderr + chunk).slice(0, MAX_PROCESS_OUTPUT);
+        });
+
+        child.on('error', (error) => {
+          clearTimeout(timer);
+          reject(new Error(`Failed to run ${command}: ${error.message}`));
+        });
+
+        child.on('close', (exitCode, signal) => {
+          clearTimeout(timer);
+          resolve({ exitCode, signal, stdout, stderr, timedOut });
+        });
+
+        // Ignore EPIPE from programs that exit without reading their input
+        child.stdin.on('error', () => {});
+        child.stdin.end(options.input);
+      });
+    },
+  };
+}
+
+/**
+ * Modules a plugin bundle requires or imports that bypass the permission checks
+ *
+ * @param source Source code of the plugin's entry point
+ * @returns Module names with the service to use instead
+ */
+export function findRawModuleImports(source: string): Array<{ module: string; replacement: string }> {
+  const pattern = /(?:require\s*\(\s*|import\s*\(\s*|\bfrom\s+)['"](?:node:)?([\w-]+)['"]/g;
+  const found = new Set<string>();
+
+  for (const match of source.matchAll(pattern)) {
+    if (Object.prototype.hasOwnProperty.call(RAW_MODULES, match[1])) {
+      found.add(match[1]);
+    }
+  }
+
+  return Array.from(found, module => ({ module, replacement: RAW_MODULES[module] }));
+}
+
+/**
+ * Whether a hostname matches an allow-list entry
+ *
+ * 'example.com' matches only that host, '*.example.com' any of its subdomains.
+ */
+export function matchesHost(pattern: string, hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const expected = pattern.toLowerCase();
+
+  if (expected.startsWith('*.')) {
+    return host.endsWith(expected.slice(1));
+  }
+  return host === expected;
+}
+
+function isProtectedEnvVariable(name: string): boolean {
+  const upper = name.toUpperCase();
+  return PROTECTED_ENV_VARIABLES.includes(upper) || PROTECTED_ENV_PREFIXES.some(prefix => upper.startsWith(prefix));
+}
+
+/**
+ * Find a program on the PATH of the given environment
+ *
+ * @returns Absolute path of the program, or null if it is not found
+ */
+async function findExecutable(name: string, env: NodeJS.ProcessEnv): Promise<string | null> {
+  const pathValue = env.PATH ?? env.Path ?? '';
+  const extensions = process.platform === 'win32'
+    ? ['', ...(env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)]
+    : [''];
+
+  for (const directory of pathValue.split(path.delimiter)) {
+    if (!path.isAbsolute(directory)) {
+      continue;
+    }
+    for (const extension of extensions) {
+      const candidate = path.join(directory, name + extension);
+      try {
+        await fs.promises.access(candidate, fs.constants.X_OK);
+        if ((await fs.promises.stat(candidate)).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not here
+      }
+    }
+  }
+
+  return null;
+}
+
+function parseBody(data: any, responseType: HttpRequestOptions['responseType']): any {
+  if (responseType === 'text' || typeof data !== 'string' || data.length === 0) {
+    return data ?? '';
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
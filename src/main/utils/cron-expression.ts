@@ -0,0 +1,278 @@
+/**
+ * Cron expression parsing and matching
+ *
+ * Supports the standard 5-field format evaluated in local time:
+ *
+ *   ┌──────── minute (0-59)
+ *   │ ┌────── hour (0-23)
+ *   │ │ ┌──── day of month (1-31)
+ *   │ │ │ ┌── month (1-12 or JAN-DEC)
+ *   │ │ │ │ ┌ day of week (0-7 or SUN-SAT, 0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `10-40/10`). The macros @yearly, @monthly, @weekly, @daily and
+ * @hourly are also accepted.
+ *
+ * As in Vixie cron, when both day of month and day of week are restricted a
+ * time matches if either of them matches.
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** False when the day-of-month field is `*` */
+  daysOfMonthRestricted: boolean;
+  /** False when the day-of-week field is `*` */
+  daysOfWeekRestricted: boolean;
+}
+
+/**
+ * Raised when a cron expression cannot be parsed
+ */
+export class CronParseError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, aliases: DAY_NAMES },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Upper bound for the search in getNextCronTime (a little over four years, covers Feb 29) */
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * Parse a cron expression
+ *
+ * @throws CronParseError if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = (expression || '').trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const parts = expanded.split(/\s+/).filter(Boolean);
+
+  if (parts.length !== 5) {
+    throw new CronParseError(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`,
+      expression
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*' && parts[2] !== '?',
+    daysOfWeekRestricted: parts[4] !== '*' && parts[4] !== '?',
+  };
+}
+
+/**
+ * Validate a cron expression
+ *
+ * @returns Error message, or null if the expression is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Parse a single field into the set of values it matches
+ */
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart, ...extra] = item.split('/');
+    if (extra.length > 0 || rangePart === '') {
+      throw new CronParseError(`Invalid ${spec.name} field "${field}"`, expression);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      step = Number(stepPart);
+      if (!/^\d+$/.test(stepPart) || step < 1) {
+        throw new CronParseError(`Invalid step "${stepPart}" in ${spec.name} field`, expression);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronParseError(`Invalid range "${rangePart}" in ${spec.name} field`, expression);
+      }
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const alias = spec.aliases?.[raw.toUpperCase()];
+  const value = alias !== undefined ? alias : /^\d+$/.test(raw) ? Number(raw) : NaN;
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      `Invalid ${spec.name} value "${raw}" (expected ${spec.min}-${spec.max})`,
+      expression
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Check whether a time (to the minute) matches a schedule
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getMinutes())) return false;
+  if (!schedule.hours.has(date.getHours())) return false;
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+  return matchesDay(schedule, date);
+}
+
+/**
+ * Get the first time strictly after `after` that matches the schedule
+ *
+ * @returns The next matching minute, or null if none exists (e.g. "0 0 31 2 *")
+ */
+export function getNextCronTime(schedule: CronSchedule | string, after: Date): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!parsed.months.has(candidate.getMonth() + 1)) {
+      // Jump to the start of next month
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(parsed, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!parsed.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (matchesCron(parsed, candidate)) {
+      return candidate;
+    }
+
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+
+  return null;
+}
+
+/**
+ * Get every time in (`from`, `to`] that matches the schedule, oldest first
+ *
+ * @param limit Stop after this many matches
+ */
+export function getCronTimesBetween(
+  schedule: CronSchedule | string,
+  from: Date,
+  to: Date,
+  limit: number = Infinity
+): Date[] {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const times: Date[] = [];
+
+  let next = getNextCronTime(parsed, from);
+  while (next && next.getTime() <= to.getTime() && times.length < limit) {
+    times.push(next);
+    next = getNextCronTime(parsed, next);
+  }
+
+  return times;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
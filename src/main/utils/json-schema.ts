@@ -0,0 +1,198 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Covers the subset of JSON Schema (draft-07) used for plugin action and
+ * workflow definitions: type, enum, const, properties, required,
+ * additionalProperties, items, min/max (length, items, value), pattern,
+ * anyOf, oneOf and local $refs ('#' or '#/definitions/<name>'). Unknown
+ * keywords are ignored.
+ */
+
+import type { JsonSchema, JsonSchemaType } from '../../types/plugin-api';
+
+/**
+ * A single validation problem
+ */
+export interface SchemaValidationError {
+  /** Location of the offending value, e.g. ['steps', 2, 'id'] */
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns List of problems (empty if the value is valid)
+ */
+export function validateJsonSchema(
+  value: any,
+  schema: JsonSchema,
+  path: Array<string | number> = [],
+  root: JsonSchema = schema
+): SchemaValidationError[] {
+  if (schema.$ref !== undefined) {
+    return validateJsonSchema(value, resolveRef(schema.$ref, root), path, root);
+  }
+
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${describeType(value)}`);
+      // Further keywords would only add noise
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some(option => isEqual(option, value))) {
+    fail(`must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, [...path, index], root));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: [...path, key], message: 'is required' });
+      }
+    }
+
+    const properties = schema.properties || {};
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) continue;
+
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], [...path, key], root));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: [...path, key], message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, [...path, key], root));
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateJsonSchema(value, option, path, root).length === 0)) {
+    fail('does not match any of the allowed schemas');
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateJsonSchema(value, option, path, root).length === 0).length;
+    if (matches !== 1) {
+      fail(matches === 0 ? 'does not match any of the allowed schemas' : 'matches more than one of the allowed schemas');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format a path for messages, e.g. ['steps', 2, 'id'] → "steps[2].id"
+ */
+export function formatSchemaPath(path: Array<string | number>, root: string = ''): string {
+  let result = root;
+  for (const part of path) {
+    if (typeof part === 'number') {
+      result += `[${part}]`;
+    } else {
+      result += result ? `.${part}` : part;
+    }
+  }
+  return result || '(root)';
+}
+
+/**
+ * Format validation errors as one line per problem
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[], root: string = ''): string[] {
+  return errors.map(error => `${formatSchemaPath(error.path, root)}: ${error.message}`);
+}
+
+/**
+ * Resolve a local reference against the root schema
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (ref === '#') {
+    return root;
+  }
+
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  const target = match ? root.definitions?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return target;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,162 @@
+/**
+ * Minimal tar.gz reader and writer
+ *
+ * Handles the subset of the ustar format needed for workflow packages:
+ * regular files and directories with names up to 255 bytes. Links, devices
+ * and other entry types are rejected when reading, as are absolute paths and
+ * paths that leave the archive root (`..`).
+ */
+
+import * as zlib from 'zlib';
+
+/**
+ * A file in an archive
+ */
+export interface TarEntry {
+  /** Relative path with '/' separators */
+  path: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Create a gzipped tar archive
+ */
+export function createTarGz(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  const mtime = Math.floor(Date.now() / 1000);
+
+  for (const entry of entries) {
+    const path = normalizeEntryPath(entry.path);
+    blocks.push(createHeader(path, entry.data.length, mtime));
+    blocks.push(entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    blocks.push(Buffer.alloc(padding));
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Read the files of a gzipped tar archive (directories are skipped)
+ *
+ * @throws Error if the archive is corrupt or contains unsupported entries
+ */
+export function readTarGz(archive: Buffer): TarEntry[] {
+  let tar: Buffer;
+  try {
+    tar = zlib.gunzipSync(archive);
+  } catch (error: any) {
+    throw new Error(`Not a gzip archive: ${error.message}`);
+  }
+
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error(`Corrupt archive: bad header checksum at offset ${offset}`);
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const rawPath = prefix ? `${prefix}/${name}` : name;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK_SIZE;
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === '5') {
+      continue;
+    }
+    if (type !== '0') {
+      throw new Error(`Unsupported archive entry "${rawPath}" (only files and directories are allowed)`);
+    }
+    if (dataStart + size > tar.length) {
+      throw new Error(`Corrupt archive: "${rawPath}" is truncated`);
+    }
+
+    entries.push({ path: normalizeEntryPath(rawPath), data: Buffer.from(tar.subarray(dataStart, dataStart + size)) });
+  }
+
+  return entries;
+}
+
+/**
+ * Validate and normalize an entry path
+ */
+function normalizeEntryPath(path: string): string {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  const parts = normalized.split('/');
+  if (!normalized || normalized.startsWith('/') || /^[A-Za-z]:/.test(normalized)
+    || parts.some(part => part === '..' || part === '' || part === '.')) {
+    throw new Error(`Invalid archive path: "${path}"`);
+  }
+  return normalized;
+}
+
+function createHeader(path: string, size: number, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  let name = path;
+  let prefix = '';
+
+  if (Buffer.byteLength(path) > 100) {
+    // Split at the first '/' that leaves a name of at most 100 bytes; the prefix holds 155
+    let index = path.indexOf('/');
+    while (index >= 0 && Buffer.byteLength(path.substring(index + 1)) > 100) {
+      index = path.indexOf('/', index + 1);
+    }
+    if (index < 0 || Buffer.byteLength(path.substring(0, index)) > 155) {
+      throw new Error(`Archive path is too long: "${path}"`);
+    }
+    prefix = path.substring(0, index);
+    name = path.substring(index + 1);
+  }
+
+  header.write(name, 0, 100, 'utf8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\u0000', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // Checksum is computed with its own field set to spaces
+  header.fill(0x20, 148, 156);
+  const sum = checksum(header);
+  header.write(sum.toString(8).padStart(6, '0') + '\u0000 ', 148, 8, 'ascii');
+  return header;
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\u0000', offset, length, 'ascii');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? length : end).toString('utf8');
+}
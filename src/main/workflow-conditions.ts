@@ -0,0 +1,469 @@
+/**
+ * Workflow Condition Expressions
+ *
+ * Parses and evaluates the `condition` expressions attached to workflow steps.
+ * Expressions are turned into a small AST and walked by an interpreter; nothing
+ * is handed to eval() or the Function constructor, so a workflow file cannot
+ * execute code in the main process.
+ *
+ * Supported syntax:
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null
+ * - References: {{step-1.seriesId}}, {{bookCount}} or bare paths (book.title)
+ * - Comparisons: ==, !=, <, <=, >, >=
+ * - Boolean logic: &&, ||, ! (or the keywords and, or, not)
+ * - Functions: exists(x), empty(x), len(x), contains(haystack, needle)
+ * - Grouping with parentheses
+ */
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionFunction = 'exists' | 'empty' | 'len' | 'contains';
+
+/**
+ * Parsed condition expression
+ */
+export type ConditionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'reference'; path: string }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode }
+  | { kind: 'call'; name: ConditionFunction; args: ConditionNode[] };
+
+/**
+ * Resolves a reference path (e.g. "step-1.seriesId") to a value
+ */
+export type ConditionResolver = (path: string) => any;
+
+/**
+ * Raised when a condition expression cannot be parsed
+ */
+export class ConditionParseError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position: number
+  ) {
+    super(`${message} at position ${position} in condition "${expression}"`);
+    this.name = 'ConditionParseError';
+  }
+}
+
+type TokenType = 'number' | 'string' | 'reference' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const FUNCTION_ARITY: Record<ConditionFunction, number> = {
+  exists: 1,
+  empty: 1,
+  len: 1,
+  contains: 2,
+};
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // {{reference}}
+    if (expression.startsWith('{{', i)) {
+      const end = expression.indexOf('}}', i + 2);
+      if (end === -1) {
+        throw new ConditionParseError('Unterminated {{ reference', expression, i);
+      }
+      const path = expression.substring(i + 2, end).trim();
+      if (!path) {
+        throw new ConditionParseError('Empty {{ }} reference', expression, i);
+      }
+      tokens.push({ type: 'reference', value: path, position: i });
+      i = end + 2;
+      continue;
+    }
+
+    // Quoted string
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== char) {
+        if (expression[j] === '\\' && j + 1 < expression.length) {
+          j++;
+        }
+        value += expression[j];
+        j++;
+      }
+      if (j >= expression.length) {
+        throw new ConditionParseError('Unterminated string literal', expression, i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    // Number (negative numbers are only allowed as literals)
+    const numberMatch = expression.substring(i).match(/^-?\d+(\.\d+)?/);
+    if (numberMatch && (char !== '-' || /\d/.test(expression[i + 1] || ''))) {
+      tokens.push({ type: 'number', value: numberMatch[0], position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    // Identifier / bare path (hyphens allowed so "step-1.seriesId" works unquoted)
+    const identMatch = expression.substring(i).match(/^[A-Za-z_$][\w$-]*(\.[\w$-]+)*/);
+    if (identMatch) {
+      const word = identMatch[0];
+      if (Object.prototype.hasOwnProperty.call(KEYWORD_OPERATORS, word)) {
+        tokens.push({ type: 'operator', value: KEYWORD_OPERATORS[word], position: i });
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const twoChar = expression.substring(i, i + 2);
+    if (['==', '!=', '<=', '>=', '&&', '||'].includes(twoChar)) {
+      tokens.push({ type: 'operator', value: twoChar, position: i });
+      i += 2;
+      continue;
+    }
+
+    if (['<', '>', '!'].includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ConditionParseError(`Unexpected character '${char}'`, expression, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser
+ *
+ * or         := and ('||' and)*
+ * and        := not ('&&' not)*
+ * not        := '!' not | comparison
+ * comparison := primary (compareOp primary)?
+ * primary    := literal | reference | call | '(' or ')'
+ */
+class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): ConditionNode {
+    if (this.peek().type === 'eof') {
+      throw new ConditionParseError('Empty condition', this.expression, 0);
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ConditionParseError(`Unexpected token '${next.value}'`, this.expression, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.isOperator('||')) {
+      this.next();
+      left = { kind: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.isOperator('&&')) {
+      this.next();
+      left = { kind: 'logical', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isOperator('!')) {
+      this.next();
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    if (token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.next();
+      const right = this.parsePrimary();
+      return { kind: 'comparison', operator: token.value as ComparisonOperator, left, right };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'reference':
+        return { kind: 'reference', path: token.value };
+
+      case 'lparen': {
+        const inner = this.parseOr();
+        const close = this.next();
+        if (close.type !== 'rparen') {
+          throw new ConditionParseError("Expected ')'", this.expression, close.position);
+        }
+        return inner;
+      }
+
+      case 'identifier': {
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+
+        if (this.peek().type === 'lparen') {
+          return this.parseCall(token);
+        }
+
+        return { kind: 'reference', path: token.value };
+      }
+
+      case 'eof':
+        throw new ConditionParseError('Unexpected end of condition', this.expression, token.position);
+
+      default:
+        throw new ConditionParseError(`Unexpected token '${token.value}'`, this.expression, token.position);
+    }
+  }
+
+  private parseCall(nameToken: Token): ConditionNode {
+    const name = nameToken.value as ConditionFunction;
+    if (!Object.prototype.hasOwnProperty.call(FUNCTION_ARITY, name)) {
+      throw new ConditionParseError(`Unknown function '${nameToken.value}'`, this.expression, nameToken.position);
+    }
+
+    this.next(); // (
+    const args: ConditionNode[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      args.push(this.parseOr());
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+
+    const close = this.next();
+    if (close.type !== 'rparen') {
+      throw new ConditionParseError("Expected ')'", this.expression, close.position);
+    }
+
+    if (args.length !== FUNCTION_ARITY[name]) {
+      throw new ConditionParseError(
+        `Function '${name}' expects ${FUNCTION_ARITY[name]} argument(s), got ${args.length}`,
+        this.expression,
+        nameToken.position
+      );
+    }
+
+    return { kind: 'call', name, args };
+  }
+}
+
+/**
+ * Parse a condition expression into an AST
+ *
+ * @throws ConditionParseError if the expression is malformed
+ */
+export function parseCondition(expression: string): ConditionNode {
+  return new ConditionParser(expression).parse();
+}
+
+/**
+ * Validate a condition expression without evaluating it
+ *
+ * @returns Error message, or null if the expression is valid
+ */
+export function validateCondition(expression: string): string | null {
+  try {
+    parseCondition(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Evaluate a condition (expression string or parsed AST) to a boolean
+ */
+export function evaluateCondition(condition: string | ConditionNode, resolve: ConditionResolver): boolean {
+  const node = typeof condition === 'string' ? parseCondition(condition) : condition;
+  return isTruthy(evaluateNode(node, resolve));
+}
+
+function evaluateNode(node: ConditionNode, resolve: ConditionResolver): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'reference':
+      return resolve(node.path);
+
+    case 'not':
+      return !isTruthy(evaluateNode(node.operand, resolve));
+
+    case 'logical': {
+      const left = isTruthy(evaluateNode(node.left, resolve));
+      if (node.operator === '&&') {
+        return left && isTruthy(evaluateNode(node.right, resolve));
+      }
+      return left || isTruthy(evaluateNode(node.right, resolve));
+    }
+
+    case 'comparison':
+      return compare(node.operator, evaluateNode(node.left, resolve), evaluateNode(node.right, resolve));
+
+    case 'call':
+      return callFunction(node.name, node.args.map(arg => evaluateNode(arg, resolve)));
+  }
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+function compare(operator: ComparisonOperator, left: any, right: any): boolean {
+  // Compare numerically when both sides look like numbers (MCP tools often return numeric strings)
+  const numeric = isNumeric(left) && isNumeric(right) && (typeof left === 'number' || typeof right === 'number');
+  const a = numeric ? Number(left) : left;
+  const b = numeric ? Number(right) : right;
+
+  switch (operator) {
+    case '==':
+      return (a ?? null) === (b ?? null);
+    case '!=':
+      return (a ?? null) !== (b ?? null);
+  }
+
+  // Ordering only makes sense for two numbers or two strings
+  const comparable =
+    (typeof a === 'number' && typeof b === 'number') ||
+    (typeof a === 'string' && typeof b === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+function callFunction(name: ConditionFunction, args: any[]): any {
+  switch (name) {
+    case 'exists':
+      return args[0] !== undefined && args[0] !== null;
+
+    case 'empty': {
+      const value = args[0];
+      if (value === undefined || value === null || value === '') return true;
+      if (Array.isArray(value)) return value.length === 0;
+      if (typeof value === 'object') return Object.keys(value).length === 0;
+      return false;
+    }
+
+    case 'len': {
+      const value = args[0];
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      return 0;
+    }
+
+    case 'contains': {
+      const [haystack, needle] = args;
+      if (typeof haystack === 'string') return typeof needle === 'string' && haystack.includes(needle);
+      if (Array.isArray(haystack)) return haystack.includes(needle);
+      if (haystack && typeof haystack === 'object') return Object.prototype.hasOwnProperty.call(haystack, needle);
+      return false;
+    }
+  }
+}
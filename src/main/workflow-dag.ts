@@ -0,0 +1,344 @@
+/**
+ * Workflow Step Graph
+ *
+ * Builds a dependency graph from workflow steps and schedules them as a DAG
+ * with a concurrency limit.
+ *
+ * A step declares its prerequisites with `dependsOn`. Steps that omit it
+ * depend on the step immediately before them, so existing linear workflows
+ * keep running in order. `dependsOn: []` marks a step as a root that can
+ * start right away.
+ *
+ * A step may return a `goto` directive (used by `onError: 'goto:<stepId>'`).
+ * The target step and everything downstream of it are reset and run again.
+ */
+
+import type { WorkflowStep } from './workflow-engine';
+
+/**
+ * Dependency graph for a list of steps
+ */
+export interface StepGraph {
+  /** Step IDs in a valid topological order */
+  order: string[];
+  /** stepId → IDs of steps it waits for */
+  dependencies: Map<string, string[]>;
+  /** stepId → IDs of steps waiting for it */
+  dependents: Map<string, string[]>;
+  /** stepId → position in the original steps array */
+  indexes: Map<string, number>;
+}
+
+/**
+ * Raised when a step fails while the graph is running
+ */
+export class StepGraphError extends Error {
+  constructor(
+    public readonly stepId: string,
+    public readonly stepIndex: number,
+    public readonly originalError: any
+  ) {
+    super(originalError?.message || String(originalError));
+    this.name = 'StepGraphError';
+  }
+}
+
+/**
+ * Instruction returned by a step to redirect the schedule
+ */
+export interface StepGraphDirective {
+  /** Re-run this step and all of its downstream steps */
+  goto: string;
+}
+
+/**
+ * Options for running a step graph
+ */
+export interface RunStepGraphOptions {
+  /** Maximum number of steps running at the same time */
+  maxConcurrency: number;
+  /** Steps that are already done and must not run again */
+  completed?: Iterable<string>;
+  /** Maximum number of goto jumps before the run is aborted (guards against endless loops) */
+  maxJumps?: number;
+  /** Stops launching new steps once aborted; the next pending step is reported as the failure */
+  signal?: AbortSignal;
+  /** Executes a single step */
+  runStep: (step: WorkflowStep, index: number) => Promise<void | StepGraphDirective>;
+}
+
+const DEFAULT_MAX_JUMPS = 20;
+
+/**
+ * Get the effective dependencies of the step at `index`
+ */
+export function getStepDependencies(steps: WorkflowStep[], index: number): string[] {
+  const step = steps[index];
+  if (Array.isArray(step.dependsOn)) {
+    return step.dependsOn;
+  }
+  return index > 0 ? [steps[index - 1].id] : [];
+}
+
+/**
+ * Validate step IDs and dependencies
+ *
+ * @returns List of problems (empty if the graph is valid)
+ */
+export function validateStepGraph(steps: WorkflowStep[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  steps.forEach((step, index) => {
+    if (!step.id) {
+      errors.push(`Step ${index + 1}: missing id`);
+    } else if (ids.has(step.id)) {
+      errors.push(`Step "${step.id}": duplicate step id`);
+    } else {
+      ids.add(step.id);
+    }
+
+    if (step.dependsOn !== undefined && !Array.isArray(step.dependsOn)) {
+      errors.push(`Step "${step.id}": dependsOn must be an array of step ids`);
+    }
+  });
+
+  steps.forEach((step, index) => {
+    if (!Array.isArray(step.dependsOn)) return;
+    for (const dep of step.dependsOn) {
+      if (!ids.has(dep)) {
+        errors.push(`Step "${step.id}": depends on unknown step "${dep}"`);
+      } else if (dep === step.id) {
+        errors.push(`Step "${step.id}": cannot depend on itself`);
+      }
+    }
+  });
+
+  if (errors.length === 0) {
+    const cycle = findCycle(steps);
+    if (cycle) {
+      errors.push(`Circular step dependency: ${cycle.join(' → ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find a dependency cycle, if any
+ */
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const deps = new Map<string, string[]>();
+  steps.forEach((step, index) => deps.set(step.id, getStepDependencies(steps, index)));
+
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    if (onStack.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) return null;
+
+    visited.add(id);
+    onStack.add(id);
+    stack.push(id);
+
+    for (const dep of deps.get(id) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+
+    stack.pop();
+    onStack.delete(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Build the dependency graph for a list of steps
+ *
+ * @throws Error if the steps contain unknown dependencies or cycles
+ */
+export function buildStepGraph(steps: WorkflowStep[]): StepGraph {
+  const errors = validateStepGraph(steps);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow graph:\n${errors.join('\n')}`);
+  }
+
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  const indexes = new Map<string, number>();
+
+  steps.forEach((step, index) => {
+    indexes.set(step.id, index);
+    dependencies.set(step.id, getStepDependencies(steps, index));
+    dependents.set(step.id, []);
+  });
+
+  for (const [id, deps] of dependencies) {
+    for (const dep of deps) {
+      dependents.get(dep)!.push(id);
+    }
+  }
+
+  // Kahn's algorithm, ties broken by declaration order
+  const order: string[] = [];
+  const remaining = new Map<string, number>();
+  for (const [id, deps] of dependencies) {
+    remaining.set(id, deps.length);
+  }
+
+  const ready = steps.filter(step => remaining.get(step.id) === 0).map(step => step.id);
+  while (ready.length > 0) {
+    ready.sort((a, b) => indexes.get(a)! - indexes.get(b)!);
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependent of dependents.get(id)!) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) {
+        ready.push(dependent);
+      }
+    }
+  }
+
+  return { order, dependencies, dependents, indexes };
+}
+
+/**
+ * Get a step and every step that (transitively) depends on it
+ */
+export function getDownstreamSteps(graph: StepGraph, stepId: string): Set<string> {
+  const downstream = new Set<string>([stepId]);
+  const queue = [stepId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const dependent of graph.dependents.get(id) || []) {
+      if (!downstream.has(dependent)) {
+        downstream.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  return downstream;
+}
+
+/**
+ * Run steps in dependency order, up to `maxConcurrency` at a time
+ *
+ * When a step fails (or the signal is aborted) no new steps are started;
+ * steps already in flight are allowed to finish, then a StepGraphError for
+ * the first failure is thrown.
+ */
+export async function runStepGraph(
+  steps: WorkflowStep[],
+  graph: StepGraph,
+  options: RunStepGraphOptions
+): Promise<void> {
+  const maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency) || 1);
+  const maxJumps = options.maxJumps ?? DEFAULT_MAX_JUMPS;
+  const done = new Set<string>(options.completed || []);
+  const started = new Set<string>(done);
+  const inFlight = new Map<string, Promise<void>>();
+  // Steps that were reset by a goto while still running; their result is discarded
+  const stale = new Set<string>();
+  let jumps = 0;
+  let failure = null as StepGraphError | null;
+
+  const isReady = (id: string) =>
+    !started.has(id) && graph.dependencies.get(id)!.every(dep => done.has(dep));
+
+  const jump = (fromId: string, directive: StepGraphDirective) => {
+    const fromIndex = graph.indexes.get(fromId)!;
+
+    if (!graph.indexes.has(directive.goto)) {
+      throw new StepGraphError(fromId, fromIndex, new Error(`goto target "${directive.goto}" does not exist`));
+    }
+
+    jumps++;
+    if (jumps > maxJumps) {
+      throw new StepGraphError(
+        fromId,
+        fromIndex,
+        new Error(`Exceeded maximum of ${maxJumps} goto jumps (last: ${fromId} → ${directive.goto})`)
+      );
+    }
+
+    for (const id of getDownstreamSteps(graph, directive.goto)) {
+      done.delete(id);
+      started.delete(id);
+      if (id !== fromId && inFlight.has(id)) {
+        stale.add(id);
+        started.add(id); // re-queued once the running attempt finishes
+      }
+    }
+  };
+
+  const launch = (id: string) => {
+    const index = graph.indexes.get(id)!;
+    started.add(id);
+
+    const promise = options
+      .runStep(steps[index], index)
+      .then((directive) => {
+        if (stale.delete(id)) {
+          started.delete(id);
+          return;
+        }
+        done.add(id);
+        if (directive && directive.goto) {
+          jump(id, directive);
+        }
+      })
+      .catch((error) => {
+        if (!failure) {
+          failure = error instanceof StepGraphError ? error : new StepGraphError(id, index, error);
+        }
+      })
+      .finally(() => {
+        inFlight.delete(id);
+      });
+
+    inFlight.set(id, promise);
+  };
+
+  while (true) {
+    if (!failure && options.signal?.aborted) {
+      // Report the step the run stopped at: the next one that would have started
+      const nextId = graph.order.find(isReady);
+      if (nextId) {
+        failure = new StepGraphError(nextId, graph.indexes.get(nextId)!, options.signal.reason ?? new Error('Aborted'));
+      }
+    }
+
+    if (!failure) {
+      for (const id of graph.order) {
+        if (inFlight.size >= maxConcurrency) break;
+        if (isReady(id)) {
+          launch(id);
+        }
+      }
+    }
+
+    if (inFlight.size === 0) {
+      break;
+    }
+
+    await Promise.race(inFlight.values());
+  }
+
+  if (failure) {
+    throw failure;
+  }
+}
@@ -6,23 +6,121 @@
  */
 
 import { Pool } from 'pg';
-import { BrowserWindow, ipcMain } from 'electron';
+import { BrowserWindow } from 'electron';
 import { logWithCategory, LogCategory } from './logger';
+import { evaluateCondition as evaluateConditionExpression, validateCondition } from './workflow-conditions';
+import {
+  buildStepGraph,
+  runStepGraph,
+  validateStepGraph,
+  getDownstreamSteps,
+  StepGraphError,
+  StepGraphDirective,
+} from './workflow-dag';
+import { RetryStrategy } from '../utils/retry-strategy';
+import { pluginActions } from './plugin-actions';
+import { callMcpTool, isKnownMcpServer } from './mcp-tools';
+import { evaluateGate } from './workflow-gates';
+import { diffWorkflowVersions, WorkflowVersion, WorkflowVersionDiff } from './workflow-versions';
+import { WORKFLOW_FILE_SCHEMA, assertWorkflowSchema } from './workflow-schema';
+import { loadYamlWithPositions } from './parsers/yaml-positions';
+import {
+  WorkflowPackageManifest,
+  WorkflowPackagePlan,
+  createWorkflowPackage,
+  readWorkflowPackage,
+  planWorkflowPackageInstall,
+  applyWorkflowPackagePlan,
+  getComponentDirectories,
+} from './workflow-package';
 
 export interface WorkflowStep {
   id: string;
   name: string;
-  pluginId: string;
-  action: string;
-  config: Record<string, any>;
+  type?: WorkflowStepType;  // Defaults to 'action'
+  pluginId?: string;  // action/gate: plugin that owns the action
+  action?: string;  // action/gate: action name
+  config: Record<string, any>;  // action/gate: check input; subworkflow: initial variables of the sub-workflow
   outputMapping?: Record<string, string>;  // JSONPath mappings for output
-  condition?: string;  // Optional condition for executing step
+  condition?: string;  // Optional condition for executing step (see workflow-conditions.ts)
+  dependsOn?: string[];  // Step IDs that must finish first (defaults to the previous step)
+  retry?: WorkflowStepRetryPolicy;  // Retry the plugin action with exponential backoff
+  timeoutMs?: number;  // Give up on an attempt after this many milliseconds
+  onError?: WorkflowStepErrorPolicy;  // What to do once all attempts have failed (default: 'fail')
+  items?: string;  // foreach: reference to the array to iterate, e.g. "{{step-1.chapters}}"
+  itemVariable?: string;  // foreach: variable holding the current item (default 'item')
+  while?: string;  // while: condition checked before each iteration
+  maxIterations?: number;  // while: safety limit (default 100)
+  steps?: WorkflowStep[];  // foreach/while: body run once per iteration
+  workflowId?: string;  // subworkflow: workflow to run
+  prompt?: string;  // approval: question shown to the user (config is shown as the output to review)
+  mcpServer?: string;  // gate: MCP server of the check tool (instead of pluginId/action)
+  tool?: string;  // gate: MCP tool that performs the check
+  gateType?: string;  // gate: kind of check recorded in the gate history, e.g. 'npe_validation'
+  gateCondition?: string;  // gate: pass condition, e.g. "score >= 80" (see workflow-gates.ts)
+  scorePath?: string;  // gate: where the score is in the check result (default 'score')
+  position?: { x: number; y: number };  // Canvas position in the workflow builder
 }
 
+/**
+ * Step types
+ * - 'action': invoke a plugin action
+ * - 'foreach': run the body once for every item of an array
+ * - 'while': run the body while a condition holds
+ * - 'subworkflow': run another workflow
+ * - 'approval': pause the run until the user approves or rejects
+ * - 'gate': run a quality check and pass or fail on its score
+ *
+ * foreach, while and subworkflow iterations are recorded as nested runs
+ * (workflow_runs.parent_run_id). Loop bodies see the enclosing variables and
+ * step outputs, but what they write stays inside the iteration; while loops
+ * share one scope across iterations so the condition can observe progress.
+ * Sub-workflows only see the variables passed in through `config`.
+ *
+ * An approval step stores its resolved `config` as the pending output and
+ * moves the run to 'paused'. The run continues once the user decides (see
+ * WorkflowEngine.decideApproval): approving completes the step with
+ * { approved, comment, decidedBy, decidedAt }; rejecting fails it, so its
+ * onError policy applies (e.g. 'goto:<stepId>' to revise and ask again).
+ * Approval steps are only supported in top-level workflows.
+ *
+ * Every gate evaluation is recorded in workflow_quality_gates. A gate's
+ * output is { result, score, gateType, details }; a failing gate fails the
+ * step, so its onError policy routes the run ('goto:<stepId>' loops back to
+ * an earlier step, the default stops the run).
+ */
+export type WorkflowStepType = 'action' | 'foreach' | 'while' | 'subworkflow' | 'approval' | 'gate';
+
+const STEP_TYPES: WorkflowStepType[] = ['action', 'foreach', 'while', 'subworkflow', 'approval', 'gate'];
+
+/**
+ * Retry policy for a workflow step (see RetryStrategy)
+ */
+export interface WorkflowStepRetryPolicy {
+  maxAttempts: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffMultiplier?: number;
+}
+
+/**
+ * Error policy for a workflow step
+ * - 'fail': fail the run (default)
+ * - 'continue': record the error in the step output and carry on
+ * - 'goto:<stepId>': jump back (or ahead) to another step and re-run from there
+ */
+export type WorkflowStepErrorPolicy = 'fail' | 'continue' | `goto:${string}`;
+
+/**
+ * Outcome of running a single step
+ */
+type StepOutcome = 'completed' | 'skipped' | 'continued' | StepGraphDirective;
+
 export interface Workflow {
   id: string;
   name: string;
   description: string;
+  version: number;  // Revision of the definition (see workflow_versions)
   steps: WorkflowStep[];
   target_type?: string;
   target_id?: string;
@@ -34,6 +132,47 @@ export interface WorkflowContext {
   stepOutputs: Record<string, any>;  // Outputs from each step
 }
 
+export interface WorkflowEngineOptions {
+  /** Maximum number of independent steps executed at the same time */
+  maxConcurrency?: number;
+}
+
+/**
+ * Live progress of a run, sent to the renderer on the 'workflows:progress' channel
+ */
+export interface WorkflowProgressEvent {
+  type: WorkflowProgressEventType;
+  runId: string;
+  /** Top-level run this event belongs to (equals runId unless it comes from a nested run) */
+  rootRunId: string;
+  workflowId: string;
+  workflowName: string;
+  timestamp: string;
+  totalSteps?: number;
+  stepId?: string;
+  stepIndex?: number;
+  stepName?: string;
+  /** variable-changed: name and new value */
+  variable?: string;
+  value?: any;
+  /** run-finished: 'completed', 'failed' or 'cancelled' */
+  status?: string;
+  error?: string;
+}
+
+export type WorkflowProgressEventType =
+  | 'run-started'
+  | 'step-started'
+  | 'step-completed'
+  | 'step-skipped'
+  | 'step-failed'
+  | 'variable-changed'
+  | 'run-paused'
+  | 'run-finished';
+
+/** IPC channel for WorkflowProgressEvent */
+export const WORKFLOW_PROGRESS_CHANNEL = 'workflows:progress';
+
 export interface WorkflowRunResult {
   success: boolean;
   runId: string;
@@ -42,13 +181,280 @@ export interface WorkflowRunResult {
   context: WorkflowContext;
   error?: string;
   errorStep?: number;
+  cancelled?: boolean;
+  /** The run is waiting for an approval decision */
+  paused?: boolean;
+  pendingApproval?: PendingApproval;
+}
+
+/**
+ * Approval a paused run is waiting for (workflow_runs.pending_approval)
+ */
+export interface PendingApproval {
+  stepId: string;
+  stepIndex: number;
+  stepName: string;
+  prompt: string | null;
+  /** Resolved step config, shown to the user for review */
+  output: Record<string, any>;
+  requestedAt: string;
+}
+
+export type ApprovalDecisionType = 'approved' | 'rejected';
+
+/**
+ * Decision on an approval step (appended to workflow_runs.approval_decisions)
+ */
+export interface WorkflowApprovalDecision {
+  stepId: string;
+  stepIndex: number;
+  decision: ApprovalDecisionType;
+  comment: string | null;
+  decidedBy: string | null;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+/**
+ * Validate workflow steps before they are stored
+ *
+ * Returns a list of human-readable problems (empty if the steps are valid).
+ */
+export function validateWorkflowSteps(steps: WorkflowStep[]): string[] {
+  const errors: string[] = validateStepGraph(steps);
+  const stepIds = new Set(steps.map(step => step.id));
+
+  steps.forEach((step, index) => {
+    const label = step.id ? `Step "${step.id}"` : `Step ${index + 1}`;
+
+    if (step.condition !== undefined && step.condition !== null) {
+      if (typeof step.condition !== 'string') {
+        errors.push(`${label}: condition must be a string`);
+      } else {
+        const conditionError = validateCondition(step.condition);
+        if (conditionError) {
+          errors.push(`${label}: ${conditionError}`);
+        }
+      }
+    }
+
+    if (step.outputMapping !== undefined) {
+      const mapping = step.outputMapping;
+      if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+        errors.push(`${label}: outputMapping must be an object of variable names to JSONPath expressions`);
+      } else {
+        for (const [variable, path] of Object.entries(mapping)) {
+          if (typeof path !== 'string' || path.trim() === '') {
+            errors.push(`${label}: outputMapping for "${variable}" must be a non-empty JSONPath string`);
+          }
+        }
+      }
+    }
+
+    if (step.retry !== undefined) {
+      if (!step.retry || !Number.isInteger(step.retry.maxAttempts) || step.retry.maxAttempts < 1) {
+        errors.push(`${label}: retry.maxAttempts must be a positive integer`);
+      }
+    }
+
+    if (step.timeoutMs !== undefined && (typeof step.timeoutMs !== 'number' || step.timeoutMs <= 0)) {
+      errors.push(`${label}: timeoutMs must be a positive number`);
+    }
+
+    if (step.onError !== undefined) {
+      if (typeof step.onError !== 'string') {
+        errors.push(`${label}: onError must be 'fail', 'continue' or 'goto:<stepId>'`);
+      } else if (step.onError.startsWith('goto:')) {
+        const target = step.onError.substring('goto:'.length);
+        if (!stepIds.has(target)) {
+          errors.push(`${label}: onError goto target "${target}" does not exist`);
+        }
+      } else if (step.onError !== 'fail' && step.onError !== 'continue') {
+        errors.push(`${label}: onError must be 'fail', 'continue' or 'goto:<stepId>'`);
+      }
+    }
+
+    errors.push(...validateStepType(step, label));
+  });
+
+  return errors;
+}
+
+/**
+ * Validate the fields specific to a step's type (recursing into loop bodies)
+ */
+function validateStepType(step: WorkflowStep, label: string): string[] {
+  const errors: string[] = [];
+  const type = step.type ?? 'action';
+
+  if (!STEP_TYPES.includes(type)) {
+    return [`${label}: type must be one of: ${STEP_TYPES.join(', ')}`];
+  }
+
+  if (type === 'action') {
+    if (!step.pluginId || !step.action) {
+      errors.push(`${label}: pluginId and action are required`);
+    }
+    return errors;
+  }
+
+  if (type === 'gate') {
+    const usesAction = Boolean(step.pluginId || step.action);
+    const usesTool = Boolean(step.mcpServer || step.tool);
+    if (usesAction === usesTool) {
+      errors.push(`${label}: a gate needs either pluginId and action, or mcpServer and tool`);
+    } else if (usesAction && (!step.pluginId || !step.action)) {
+      errors.push(`${label}: pluginId and action are required`);
+    } else if (usesTool && (!step.mcpServer || !step.tool)) {
+      errors.push(`${label}: mcpServer and tool are required`);
+    } else if (usesTool && !isKnownMcpServer(step.mcpServer!)) {
+      errors.push(`${label}: unknown MCP server "${step.mcpServer}"`);
+    }
+
+    const conditionError = typeof step.gateCondition === 'string'
+      ? validateCondition(step.gateCondition)
+      : 'gateCondition is required (e.g. "score >= 80")';
+    if (conditionError) {
+      errors.push(`${label}: ${conditionError}`);
+    }
+    if (step.scorePath !== undefined && typeof step.scorePath !== 'string') {
+      errors.push(`${label}: scorePath must be a string`);
+    }
+    return errors;
+  }
+
+  if (step.retry !== undefined || step.timeoutMs !== undefined) {
+    errors.push(`${label}: retry and timeoutMs are only supported on action and gate steps`);
+  }
+
+  if (type === 'approval') {
+    if (step.prompt !== undefined && typeof step.prompt !== 'string') {
+      errors.push(`${label}: prompt must be a string`);
+    }
+    return errors;
+  }
+
+  if (type === 'subworkflow') {
+    if (!step.workflowId || typeof step.workflowId !== 'string') {
+      errors.push(`${label}: workflowId is required`);
+    }
+    return errors;
+  }
+
+  if (type === 'foreach') {
+    if (!step.items || typeof step.items !== 'string') {
+      errors.push(`${label}: items is required (e.g. "{{step-1.chapters}}")`);
+    }
+    if (step.itemVariable !== undefined && !/^[A-Za-z_][\w]*$/.test(step.itemVariable)) {
+      errors.push(`${label}: itemVariable must be a plain identifier`);
+    }
+  }
+
+  if (type === 'while') {
+    const conditionError = typeof step.while === 'string' ? validateCondition(step.while) : 'while condition is required';
+    if (conditionError) {
+      errors.push(`${label}: ${conditionError}`);
+    }
+    if (step.maxIterations !== undefined && (!Number.isInteger(step.maxIterations) || step.maxIterations < 1)) {
+      errors.push(`${label}: maxIterations must be a positive integer`);
+    }
+  }
+
+  if (!Array.isArray(step.steps) || step.steps.length === 0) {
+    errors.push(`${label}: steps must be a non-empty array`);
+  } else {
+    errors.push(...validateWorkflowSteps(step.steps).map(error => `${label} > ${error}`));
+    if (containsApprovalStep(step.steps)) {
+      errors.push(`${label}: approval steps are not supported inside loops`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether any step (including loop bodies) is an approval step
+ */
+function containsApprovalStep(steps: WorkflowStep[]): boolean {
+  return steps.some(step => step.type === 'approval' || (Array.isArray(step.steps) && containsApprovalStep(step.steps)));
+}
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_STEP_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_WHILE_ITERATIONS = 100;
+/** Maximum depth of nested runs (loops and sub-workflows) */
+const MAX_NESTING_DEPTH = 8;
+
+/**
+ * Execution state shared by a run and the steps inside it
+ */
+interface RunScope {
+  /** Aborted when the run (or one of its parents) is cancelled */
+  signal: AbortSignal;
+  /** Workflow IDs from the top-level run down to this one */
+  lineage: string[];
+  /** Approval decisions waiting to be applied, keyed by step ID (consumed when used) */
+  decisions: Map<string, WorkflowApprovalDecision>;
+  /** Top-level run, for progress events */
+  rootRunId: string;
 }
 
+/**
+ * Options for running a workflow's steps
+ */
+interface RunGraphOptions {
+  /** The run was resumed after a failure (affects statistics) */
+  resumed?: boolean;
+  /** Workflow IDs of the enclosing runs (nested runs only) */
+  lineage?: string[];
+  /** Top-level run (nested runs only) */
+  rootRunId?: string;
+  /** Signal of the parent run; cancelling the parent cancels this run */
+  parentSignal?: AbortSignal;
+  /** Record the outcome in the workflow's statistics (default true) */
+  updateStats?: boolean;
+  /** Decision for the approval step the run was paused at */
+  decision?: WorkflowApprovalDecision;
+}
+
+/**
+ * Raised inside a run when it is cancelled
+ */
+export class WorkflowCancelledError extends Error {
+  constructor(public readonly runId: string) {
+    super('Cancelled by user');
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+/**
+ * Raised by an approval step to pause the run until the user decides
+ */
+export class WorkflowPausedError extends Error {
+  constructor(
+    public readonly runId: string,
+    public readonly approval: PendingApproval
+  ) {
+    super(`Waiting for approval: ${approval.stepName}`);
+    this.name = 'WorkflowPausedError';
+  }
+}
+
+/**
+ * Abort controllers for runs executing in this process, keyed by run ID.
+ * Module-level so any engine instance can cancel a run started by another.
+ */
+const activeRuns = new Map<string, AbortController>();
+
 export class WorkflowEngine {
   private dbPool: Pool;
+  private options: Required<WorkflowEngineOptions>;
 
-  constructor(dbPool: Pool) {
+  constructor(dbPool: Pool, options: WorkflowEngineOptions = {}) {
     this.dbPool = dbPool;
+    this.options = {
+      maxConcurrency: options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY,
+    };
   }
 
   /**
@@ -69,7 +475,7 @@ export class WorkflowEngine {
     }
 
     // Create workflow run record
-    const runId = await this.createWorkflowRun(workflowId, workflow.steps.length, triggeredBy, triggeredByUser);
+    const runId = await this.createWorkflowRun(workflow, triggeredBy, triggeredByUser);
 
     // Initialize execution context
     const context: WorkflowContext = {
@@ -77,89 +483,791 @@ export class WorkflowEngine {
       stepOutputs: {},
     };
 
-    let completedSteps = 0;
-    let currentStepIndex = 0;
+    return this.runWorkflowGraph(runId, workflow, context, new Set());
+  }
+
+  /**
+   * Resume a failed workflow run from the step that failed
+   *
+   * Reloads the persisted context, optionally overrides variables, and runs
+   * the remaining steps. Steps that already completed (or were skipped) are
+   * not executed again. The run continues with the workflow version it
+   * started with, even if the workflow was edited since.
+   */
+  async resumeWorkflowRun(
+    runId: string,
+    variableOverrides: Record<string, any> = {}
+  ): Promise<WorkflowRunResult> {
+    logWithCategory('info', LogCategory.SYSTEM, `Resuming workflow run: ${runId}`);
+
+    const result = await this.dbPool.query(
+      `SELECT id, workflow_id, workflow_version, status, context, execution_log, error_step, parent_run_id
+       FROM workflow_runs WHERE id = $1`,
+      [runId]
+    );
+    const run = result.rows[0];
+    if (!run) {
+      throw new Error(`Workflow run not found: ${runId}`);
+    }
+    if (run.parent_run_id) {
+      throw new Error(`Run ${runId} is a nested run; resume its parent run ${run.parent_run_id} instead`);
+    }
+    if (run.status === 'paused') {
+      throw new Error(`Run ${runId} is waiting for approval; approve or reject it instead`);
+    }
+    if (run.status !== 'failed') {
+      throw new Error(`Only failed runs can be resumed (run ${runId} is ${run.status})`);
+    }
+
+    const workflow = await this.getWorkflowAtVersion(run.workflow_id, run.workflow_version);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${run.workflow_id}`);
+    }
+
+    const context: WorkflowContext = {
+      variables: { ...(run.context?.variables || {}), ...variableOverrides },
+      stepOutputs: { ...(run.context?.stepOutputs || {}) },
+    };
+    const finished = this.getFinishedStepIds(workflow, run.execution_log || []);
+
+    await this.dbPool.query(
+      `UPDATE workflow_runs
+       SET status = 'running',
+           completed_at = NULL,
+           error_message = NULL,
+           error_step = NULL
+       WHERE id = $1`,
+      [runId]
+    );
+    await this.logStepExecution(runId, run.error_step ?? 0, 'resumed', {
+      skippedSteps: Array.from(finished),
+      overriddenVariables: Object.keys(variableOverrides),
+    });
+
+    return this.runWorkflowGraph(runId, workflow, context, finished, { resumed: true });
+  }
+
+  /**
+   * Approve or reject the step a paused run is waiting on, and continue the run
+   *
+   * The decision is stored with the run (approval_decisions). Paused runs live
+   * only in the database, so this works after an app restart.
+   */
+  async decideApproval(
+    runId: string,
+    decision: ApprovalDecisionType,
+    comment?: string,
+    decidedBy?: string
+  ): Promise<WorkflowRunResult> {
+    if (decision !== 'approved' && decision !== 'rejected') {
+      throw new Error(`Invalid approval decision: ${decision}`);
+    }
+
+    logWithCategory('info', LogCategory.SYSTEM, `Recording approval decision for run ${runId}: ${decision}`);
+
+    const result = await this.dbPool.query(
+      `SELECT id, workflow_id, workflow_version, status, context, execution_log, pending_approval
+       FROM workflow_runs WHERE id = $1`,
+      [runId]
+    );
+    const run = result.rows[0];
+    if (!run) {
+      throw new Error(`Workflow run not found: ${runId}`);
+    }
+    if (run.status !== 'paused' || !run.pending_approval) {
+      throw new Error(`Run ${runId} is not waiting for approval (it is ${run.status})`);
+    }
+
+    const workflow = await this.getWorkflowAtVersion(run.workflow_id, run.workflow_version);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${run.workflow_id}`);
+    }
+
+    const pending: PendingApproval = run.pending_approval;
+    const approvalDecision: WorkflowApprovalDecision = {
+      stepId: pending.stepId,
+      stepIndex: pending.stepIndex,
+      decision,
+      comment: comment || null,
+      decidedBy: decidedBy || null,
+      requestedAt: pending.requestedAt,
+      decidedAt: new Date().toISOString(),
+    };
+
+    // Claim the pending approval so a second decision can't race this one
+    const claimed = await this.dbPool.query(
+      `UPDATE workflow_runs
+       SET status = 'running',
+           pending_approval = NULL,
+           approval_decisions = approval_decisions || $1::jsonb
+       WHERE id = $2 AND status = 'paused'`,
+      [JSON.stringify([approvalDecision]), runId]
+    );
+    if (claimed.rowCount === 0) {
+      throw new Error(`Run ${runId} is no longer waiting for approval`);
+    }
+    await this.logStepExecution(runId, pending.stepIndex, decision, approvalDecision, undefined,
+      workflow.steps[pending.stepIndex]);
+
+    const executionLog: any[] = run.execution_log || [];
+    const context: WorkflowContext = {
+      variables: { ...(run.context?.variables || {}) },
+      stepOutputs: { ...(run.context?.stepOutputs || {}) },
+    };
+
+    return this.runWorkflowGraph(runId, workflow, context, this.getFinishedStepIds(workflow, executionLog), {
+      // A run resumed after a failure was already counted (see updateWorkflowStats)
+      resumed: executionLog.some(entry => entry.status === 'resumed'),
+      decision: approvalDecision,
+    });
+  }
+
+  /**
+   * Start a new run of a workflow from a checkpoint of an earlier run
+   *
+   * The new run starts with the context saved at the checkpoint (optionally
+   * with overridden variables) and skips the steps that were done at that
+   * point, so an alternate path can be tried without redoing earlier steps.
+   * The original run is left untouched. The fork runs the current version
+   * of the workflow.
+   */
+  async forkRunFromCheckpoint(
+    checkpointId: string,
+    variableOverrides: Record<string, any> = {},
+    triggeredByUser?: string
+  ): Promise<WorkflowRunResult> {
+    logWithCategory('info', LogCategory.SYSTEM, `Forking workflow run from checkpoint: ${checkpointId}`);
+
+    const result = await this.dbPool.query(
+      `SELECT c.id, c.run_id, c.step_index, c.context, c.finished_steps, r.workflow_id
+       FROM workflow_checkpoints c
+       JOIN workflow_runs r ON r.id = c.run_id
+       WHERE c.id = $1`,
+      [checkpointId]
+    );
+    const checkpoint = result.rows[0];
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const workflow = await this.getWorkflow(checkpoint.workflow_id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${checkpoint.workflow_id}`);
+    }
+
+    // The workflow may have been edited since; only skip steps that still exist
+    const stepIds = new Set(workflow.steps.map(step => step.id));
+    const finished = new Set<string>((checkpoint.finished_steps || []).filter((id: string) => stepIds.has(id)));
+
+    const context: WorkflowContext = {
+      variables: { ...(checkpoint.context?.variables || {}), ...variableOverrides },
+      stepOutputs: { ...(checkpoint.context?.stepOutputs || {}) },
+    };
+
+    const runId = await this.createWorkflowRun(workflow, 'fork', triggeredByUser);
+    await this.dbPool.query(
+      'UPDATE workflow_runs SET forked_from_run_id = $1, forked_from_checkpoint_id = $2 WHERE id = $3',
+      [checkpoint.run_id, checkpoint.id, runId]
+    );
+    await this.logStepExecution(runId, checkpoint.step_index, 'forked', {
+      fromRunId: checkpoint.run_id,
+      checkpointId: checkpoint.id,
+      skippedSteps: Array.from(finished),
+      overriddenVariables: Object.keys(variableOverrides),
+    });
+
+    return this.runWorkflowGraph(runId, workflow, context, finished);
+  }
+
+  /**
+   * Determine which steps finished in a previous attempt from its execution log
+   * Uses the most recent entry for each step, so a step that completed and was
+   * later re-run and failed is not treated as finished. A failure the run
+   * continued past (onError: 'continue') counts as finished, as it does in
+   * checkpoints.
+   */
+  private getFinishedStepIds(workflow: Workflow, executionLog: any[]): Set<string> {
+    const lastStatus = new Map<string, string>();
+
+    for (const entry of executionLog) {
+      const stepId = entry.stepId ?? workflow.steps[entry.step]?.id;
+      if (stepId && ['started', 'completed', 'skipped', 'failed'].includes(entry.status)) {
+        const continued = entry.status === 'failed' && entry.output?.onError === 'continue';
+        lastStatus.set(stepId, continued ? 'continued' : entry.status);
+      }
+    }
+
+    const finished = new Set<string>();
+    for (const [stepId, status] of lastStatus) {
+      if (status === 'completed' || status === 'skipped' || status === 'continued') {
+        finished.add(stepId);
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * Run the steps of a workflow run that have not finished yet, then record the outcome
+   */
+  private async runWorkflowGraph(
+    runId: string,
+    workflow: Workflow,
+    context: WorkflowContext,
+    finished: Set<string>,
+    options: RunGraphOptions = {}
+  ): Promise<WorkflowRunResult> {
+    const { resumed = false, parentSignal, updateStats = true } = options;
+    const completedStepIds = new Set(finished);
+    // Steps done so far (completed, skipped or continued past); saved with each checkpoint
+    const finishedStepIds = new Set(finished);
+    const controller = new AbortController();
+    const scope: RunScope = {
+      signal: controller.signal,
+      lineage: [...(options.lineage || []), workflow.id],
+      decisions: new Map(options.decision ? [[options.decision.stepId, options.decision]] : []),
+      rootRunId: options.rootRunId ?? runId,
+    };
+    activeRuns.set(runId, controller);
+
+    // Cancelling the parent run cancels this one too
+    const abortFromParent = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) {
+      abortFromParent();
+    } else {
+      parentSignal?.addEventListener('abort', abortFromParent, { once: true });
+    }
+
+    this.emitProgress('run-started', runId, workflow, scope, { totalSteps: workflow.steps.length });
+
+    try {
+      const graph = buildStepGraph(workflow.steps);
+
+      // Execute steps as a DAG - independent branches run concurrently
+      await runStepGraph(workflow.steps, graph, {
+        maxConcurrency: this.options.maxConcurrency,
+        completed: finished,
+        signal: controller.signal,
+        runStep: async (step, index) => {
+          const outcome = await this.runWorkflowStep(runId, workflow, step, index, context, scope);
+          if (outcome === 'completed') {
+            completedStepIds.add(step.id);
+          }
+          if (typeof outcome === 'object') {
+            // A goto re-runs the target and everything downstream of it
+            for (const id of getDownstreamSteps(graph, outcome.goto)) {
+              finishedStepIds.delete(id);
+            }
+          } else {
+            finishedStepIds.add(step.id);
+          }
+          // Nested runs are covered by the checkpoint of the step that started them
+          if (scope.lineage.length === 1) {
+            await this.createCheckpoint(runId, step, index, context, finishedStepIds);
+          }
+          return typeof outcome === 'object' ? outcome : undefined;
+        },
+      });
+
+      // Mark workflow run as completed
+      await this.completeWorkflowRun(runId, 'completed', context);
+
+      // Update workflow statistics
+      if (updateStats) {
+        await this.updateWorkflowStats(workflow.id, 'success', resumed);
+      }
+
+      logWithCategory('info', LogCategory.SYSTEM, `Workflow execution completed: ${workflow.id}`);
+      this.emitProgress('run-finished', runId, workflow, scope, { status: 'completed' });
+
+      return {
+        success: true,
+        runId,
+        completedSteps: completedStepIds.size,
+        totalSteps: workflow.steps.length,
+        context,
+      };
+
+    } catch (error: any) {
+      if (error instanceof StepGraphError && error.originalError instanceof WorkflowPausedError && !controller.signal.aborted) {
+        const approval = error.originalError.approval;
+        this.emitProgress('run-paused', runId, workflow, scope, {
+          stepId: approval.stepId,
+          stepIndex: approval.stepIndex,
+          stepName: approval.stepName,
+        });
+        return this.pauseWorkflowRun(runId, workflow, context, approval, completedStepIds.size);
+      }
+
+      const failedStep = error instanceof StepGraphError ? workflow.steps[error.stepIndex] : undefined;
+      const errorStepIndex = error instanceof StepGraphError ? error.stepIndex : 0;
+      const status = controller.signal.aborted ? 'cancelled' : 'failed';
+      const errorMessage = controller.signal.aborted ? controller.signal.reason?.message || 'Cancelled' : error.message;
+
+      if (status === 'cancelled') {
+        logWithCategory('info', LogCategory.SYSTEM, `Workflow run ${runId} cancelled at step ${errorStepIndex + 1}`);
+      } else {
+        logWithCategory('error', LogCategory.SYSTEM, `Workflow execution failed at step ${errorStepIndex + 1}:`, error);
+      }
+
+      // Log error
+      await this.logStepExecution(runId, errorStepIndex, status, null, errorMessage, failedStep);
+
+      // Mark workflow run as failed or cancelled
+      await this.completeWorkflowRun(runId, status, context, errorMessage, errorStepIndex);
+
+      // Update workflow statistics
+      if (updateStats) {
+        await this.updateWorkflowStats(workflow.id, status, resumed);
+      }
+
+      this.emitProgress('run-finished', runId, workflow, scope, {
+        status,
+        stepIndex: errorStepIndex,
+        stepId: failedStep?.id,
+        stepName: failedStep?.name,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        runId,
+        completedSteps: completedStepIds.size,
+        totalSteps: workflow.steps.length,
+        context,
+        error: errorMessage,
+        errorStep: errorStepIndex,
+        cancelled: status === 'cancelled',
+      };
+    } finally {
+      activeRuns.delete(runId);
+      parentSignal?.removeEventListener('abort', abortFromParent);
+    }
+  }
+
+  /**
+   * Record that a run is waiting for approval
+   *
+   * The run keeps its context and stays open (no completed_at, no statistics)
+   * until decideApproval() continues it.
+   */
+  private async pauseWorkflowRun(
+    runId: string,
+    workflow: Workflow,
+    context: WorkflowContext,
+    approval: PendingApproval,
+    completedSteps: number
+  ): Promise<WorkflowRunResult> {
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Workflow run ${runId} paused at step ${approval.stepIndex + 1} waiting for approval`
+    );
+
+    await this.logStepExecution(runId, approval.stepIndex, 'paused', approval, undefined, workflow.steps[approval.stepIndex]);
+    await this.dbPool.query(
+      `UPDATE workflow_runs
+       SET status = 'paused',
+           current_step = $1,
+           context = $2,
+           pending_approval = $3
+       WHERE id = $4`,
+      [approval.stepIndex, JSON.stringify(context), JSON.stringify(approval), runId]
+    );
+
+    return {
+      success: false,
+      runId,
+      completedSteps,
+      totalSteps: workflow.steps.length,
+      context,
+      paused: true,
+      pendingApproval: approval,
+    };
+  }
 
+  /**
+   * Run a single step of a workflow, applying its retry, timeout and error policies
+   */
+  private async runWorkflowStep(
+    runId: string,
+    workflow: Workflow,
+    step: WorkflowStep,
+    index: number,
+    context: WorkflowContext,
+    scope: RunScope
+  ): Promise<StepOutcome> {
+    const { signal } = scope;
+    const stepInfo = { stepId: step.id, stepIndex: index, stepName: step.name, totalSteps: workflow.steps.length };
+    logWithCategory('info', LogCategory.SYSTEM, `Executing workflow step ${index + 1}/${workflow.steps.length}: ${step.name}`);
+
+    // Update run status
+    await this.updateWorkflowRunProgress(runId, index, 'running');
+
+    // Check condition if present
+    if (step.condition && !this.evaluateCondition(step.condition, context)) {
+      logWithCategory('info', LogCategory.SYSTEM, `Skipping step ${step.name} - condition not met`);
+      await this.logStepExecution(runId, index, 'skipped', null, 'Condition not met', step);
+      this.emitProgress('step-skipped', runId, workflow, scope, stepInfo);
+      return 'skipped';
+    }
+
+    await this.logStepExecution(runId, index, 'started', null, undefined, step);
+    this.emitProgress('step-started', runId, workflow, scope, stepInfo);
+
+    // Substitute variables in step config
+    const resolvedConfig = this.substituteVariables(step.config, context);
+
+    let stepResult: any;
     try {
-      // Execute each step sequentially
-      for (let i = 0; i < workflow.steps.length; i++) {
-        currentStepIndex = i;
-        const step = workflow.steps[i];
+      if ((step.type ?? 'action') === 'action') {
+        // Execute the step (call plugin action)
+        stepResult = await this.executeStepWithPolicy(runId, step, index, resolvedConfig, signal);
+      } else if (step.type === 'gate') {
+        stepResult = await this.executeGateStep(runId, workflow, step, index, resolvedConfig, context, signal);
+      } else if (step.type === 'approval') {
+        // Pauses the run unless a decision for this step is waiting
+        stepResult = this.executeApprovalStep(runId, step, index, resolvedConfig, scope);
+      } else {
+        // Loop or sub-workflow: runs nested workflow runs
+        stepResult = await this.executeNestedStep(runId, workflow, step, index, resolvedConfig, context, scope);
+      }
+    } catch (error: any) {
+      const onError = step.onError || 'fail';
+      if (!signal.aborted && !(error instanceof WorkflowPausedError)) {
+        this.emitProgress('step-failed', runId, workflow, scope, { ...stepInfo, error: error.message });
+      }
+
+      // Error policies never apply to cancellation or a pause
+      if (onError === 'fail' || signal.aborted || error instanceof WorkflowPausedError) {
+        throw error;
+      }
+
+      logWithCategory('warn', LogCategory.SYSTEM, `Step ${step.name} failed, applying onError '${onError}': ${error.message}`);
+      await this.logStepExecution(runId, index, 'failed', { onError }, error.message, step);
+
+      // Expose the failure to later steps and conditions: {{step-id.error}}
+      context.stepOutputs[step.id] = { ...(context.stepOutputs[step.id] || {}), error: error.message };
+
+      if (onError === 'continue') {
+        return 'continued';
+      }
+      return { goto: onError.substring('goto:'.length) };
+    }
+
+    // Extract output variables using JSONPath
+    if (step.outputMapping) {
+      for (const [varName, jsonPath] of Object.entries(step.outputMapping)) {
+        const value = this.extractValue(stepResult, jsonPath);
+        context.stepOutputs[step.id] = context.stepOutputs[step.id] || {};
+        context.stepOutputs[step.id][varName] = value;
+
+        // Also add to global variables for easier access
+        context.variables[varName] = value;
+        this.emitProgress('variable-changed', runId, workflow, scope, { ...stepInfo, variable: varName, value });
+      }
+    }
+
+    // Log successful step execution
+    await this.logStepExecution(runId, index, 'completed', stepResult, undefined, step);
+    this.emitProgress('step-completed', runId, workflow, scope, stepInfo);
+
+    return 'completed';
+  }
+
+  /**
+   * Execute a step's plugin action, honouring its retry and timeout settings
+   */
+  private async executeStepWithPolicy(
+    runId: string,
+    step: WorkflowStep,
+    index: number,
+    config: Record<string, any>,
+    signal: AbortSignal
+  ): Promise<any> {
+    if (!step.retry && !step.timeoutMs) {
+      return this.executeStep(runId, step, config, signal);
+    }
+
+    const strategy = new RetryStrategy({
+      maxAttempts: step.retry?.maxAttempts ?? 1,
+      initialDelay: step.retry?.initialDelay,
+      maxDelay: step.retry?.maxDelay,
+      backoffMultiplier: step.retry?.backoffMultiplier,
+      timeout: step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS,
+      signal,
+      onRetry: (error, attempt, delay) => {
+        this.logStepExecution(runId, index, 'retrying', { attempt, delay }, error.technicalMessage || error.message, step)
+          .catch((logError) => logWithCategory('warn', LogCategory.SYSTEM, 'Failed to log step retry:', logError));
+      },
+    });
+
+    // Each attempt gets its own signal, aborted on timeout, so it stops before the next attempt starts
+    const result = await strategy.execute(attemptSignal => this.executeStep(runId, step, config, attemptSignal), {
+      workflowRunId: runId,
+      stepId: step.id,
+    });
+
+    if (!result.success) {
+      // Surface the original plugin error rather than the generic classified message
+      throw result.error?.originalError || result.error || new Error(`Step ${step.id} failed`);
+    }
 
-        logWithCategory('info', LogCategory.SYSTEM, `Executing workflow step ${i + 1}/${workflow.steps.length}: ${step.name}`);
+    return result.result;
+  }
+
+  /**
+   * Run a gate's check, record the verdict in the gate history and fail the step if the gate fails
+   *
+   * The verdict is exposed to later steps either way: {{gate-id.result}}, {{gate-id.score}}
+   */
+  private async executeGateStep(
+    runId: string,
+    workflow: Workflow,
+    step: WorkflowStep,
+    index: number,
+    config: Record<string, any>,
+    context: WorkflowContext,
+    signal: AbortSignal
+  ): Promise<any> {
+    const output = await this.executeStepWithPolicy(runId, step, index, config, signal);
+    const { result, score } = evaluateGate(step.gateCondition!, output, step.scorePath,
+      (varPath) => this.resolveVariable(varPath, context));
+
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Quality gate ${step.name}: ${result} (score ${score ?? 'n/a'}, requires ${step.gateCondition})`
+    );
+
+    await this.dbPool.query(
+      `INSERT INTO workflow_quality_gates (run_id, workflow_id, step_id, step_index, gate_type, criteria, result, score, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [runId, workflow.id, step.id, index, step.gateType || null, step.gateCondition, result, score,
+        JSON.stringify(output ?? null)]
+    );
+
+    context.stepOutputs[step.id] = { result, score, gateType: step.gateType ?? null };
+
+    if (result === 'fail') {
+      throw new Error(`Quality gate "${step.name}" failed: score ${score ?? 'n/a'} does not meet ${step.gateCondition}`);
+    }
+
+    return { result, score, gateType: step.gateType ?? null, details: output };
+  }
+
+  /**
+   * Apply the user's decision to an approval step, or pause the run to ask for one
+   *
+   * @throws WorkflowPausedError when no decision is available yet
+   * @throws Error if the step was rejected
+   */
+  private executeApprovalStep(
+    runId: string,
+    step: WorkflowStep,
+    index: number,
+    config: Record<string, any>,
+    scope: RunScope
+  ): any {
+    if (scope.lineage.length > 1) {
+      throw new Error('Approval steps are only supported in top-level workflows');
+    }
+
+    const decision = scope.decisions.get(step.id);
+    if (!decision) {
+      throw new WorkflowPausedError(runId, {
+        stepId: step.id,
+        stepIndex: index,
+        stepName: step.name,
+        prompt: step.prompt ?? null,
+        output: config,
+        requestedAt: new Date().toISOString(),
+      });
+    }
+
+    // A decision applies once; if the step runs again (e.g. after a goto) it asks again
+    scope.decisions.delete(step.id);
+
+    if (decision.decision === 'rejected') {
+      throw new Error(decision.comment ? `Rejected: ${decision.comment}` : 'Rejected');
+    }
 
-        // Update run status
-        await this.updateWorkflowRunProgress(runId, i, 'running');
+    return {
+      approved: true,
+      comment: decision.comment,
+      decidedBy: decision.decidedBy,
+      decidedAt: decision.decidedAt,
+    };
+  }
 
-        // Check condition if present
-        if (step.condition && !this.evaluateCondition(step.condition, context)) {
-          logWithCategory('info', LogCategory.SYSTEM, `Skipping step ${step.name} - condition not met`);
-          await this.logStepExecution(runId, i, 'skipped', null, 'Condition not met');
-          continue;
-        }
+  /**
+   * Execute a foreach, while or subworkflow step
+   *
+   * @returns { iterations, results, runIds } for loops (results[i] holds the
+   * body step outputs of iteration i), { runId, variables, stepOutputs } for
+   * sub-workflows
+   */
+  private async executeNestedStep(
+    runId: string,
+    workflow: Workflow,
+    step: WorkflowStep,
+    index: number,
+    config: Record<string, any>,
+    context: WorkflowContext,
+    scope: RunScope
+  ): Promise<any> {
+    if (scope.lineage.length >= MAX_NESTING_DEPTH) {
+      throw new Error(`Maximum nesting depth of ${MAX_NESTING_DEPTH} exceeded`);
+    }
 
-        // Substitute variables in step config
-        const resolvedConfig = this.substituteVariables(step.config, context);
+    if (step.type === 'subworkflow') {
+      if (scope.lineage.includes(step.workflowId!)) {
+        throw new Error(`Recursive sub-workflow: ${step.workflowId} is already running in this run`);
+      }
+      const subWorkflow = await this.getWorkflow(step.workflowId!);
+      if (!subWorkflow) {
+        throw new Error(`Sub-workflow not found: ${step.workflowId}`);
+      }
 
-        // Execute the step (call plugin action)
-        const stepResult = await this.executeStep(step, resolvedConfig);
+      const child = await this.runNestedRun(runId, step, index, subWorkflow, {
+        variables: { ...config },
+        stepOutputs: {},
+      }, scope, null, true);
 
-        // Extract output variables using JSONPath
-        if (step.outputMapping) {
-          for (const [varName, jsonPath] of Object.entries(step.outputMapping)) {
-            const value = this.extractValue(stepResult, jsonPath);
-            context.stepOutputs[step.id] = context.stepOutputs[step.id] || {};
-            context.stepOutputs[step.id][varName] = value;
+      return {
+        runId: child.runId,
+        variables: child.context.variables,
+        stepOutputs: child.context.stepOutputs,
+      };
+    }
 
-            // Also add to global variables for easier access
-            context.variables[varName] = value;
-          }
-        }
+    // Loop body runs as a workflow made of the nested steps
+    const body: Workflow = { ...workflow, steps: step.steps || [] };
+    const results: Record<string, any>[] = [];
+    const runIds: string[] = [];
 
-        // Log successful step execution
-        await this.logStepExecution(runId, i, 'completed', stepResult);
+    if (step.type === 'foreach') {
+      const items = this.resolveVariable(step.items!.replace(/^\s*\{\{(.+?)\}\}\s*$/, '$1').trim(), context);
+      if (!Array.isArray(items)) {
+        throw new Error(`foreach items "${step.items}" is not an array`);
+      }
+      const itemVariable = step.itemVariable || 'item';
 
-        completedSteps++;
+      for (let i = 0; i < items.length; i++) {
+        // Each iteration gets its own copy of the enclosing scope
+        const iterationContext: WorkflowContext = {
+          variables: {
+            ...context.variables,
+            [itemVariable]: items[i],
+            loop: { index: i, count: items.length, first: i === 0, last: i === items.length - 1 },
+          },
+          stepOutputs: { ...context.stepOutputs },
+        };
+        const child = await this.runNestedRun(runId, step, index, body, iterationContext, scope, i, false);
+        runIds.push(child.runId);
+        results.push(this.pickStepOutputs(child.context, body.steps));
       }
+    } else {
+      // while: one scope shared by all iterations so the condition sees progress
+      const maxIterations = step.maxIterations ?? DEFAULT_MAX_WHILE_ITERATIONS;
+      const loopContext: WorkflowContext = {
+        variables: { ...context.variables },
+        stepOutputs: { ...context.stepOutputs },
+      };
 
-      // Mark workflow run as completed
-      await this.completeWorkflowRun(runId, 'completed', context);
+      let i = 0;
+      while (this.evaluateCondition(step.while!, loopContext)) {
+        if (i >= maxIterations) {
+          throw new Error(`while loop exceeded maxIterations (${maxIterations})`);
+        }
+        loopContext.variables.loop = { index: i, first: i === 0 };
+        const child = await this.runNestedRun(runId, step, index, body, loopContext, scope, i, false);
+        runIds.push(child.runId);
+        results.push(this.pickStepOutputs(child.context, body.steps));
+        i++;
+      }
+    }
 
-      // Update workflow statistics
-      await this.updateWorkflowStats(workflowId, true);
+    return { iterations: results.length, results, runIds };
+  }
 
-      logWithCategory('info', LogCategory.SYSTEM, `Workflow execution completed: ${workflowId}`);
+  /**
+   * Run a workflow (or loop body) as a nested run of a parent step
+   *
+   * @throws Error if the nested run fails; the parent's cancellation reason if it was cancelled
+   */
+  private async runNestedRun(
+    parentRunId: string,
+    parentStep: WorkflowStep,
+    parentStepIndex: number,
+    workflow: Workflow,
+    context: WorkflowContext,
+    scope: RunScope,
+    iteration: number | null,
+    updateStats: boolean
+  ): Promise<WorkflowRunResult> {
+    const childRunId = await this.createWorkflowRun(workflow, 'workflow', undefined, {
+      runId: parentRunId,
+      stepId: parentStep.id,
+      iteration,
+    });
+    await this.logStepExecution(parentRunId, parentStepIndex, 'nested-run', { childRunId, iteration }, undefined, parentStep);
 
-      return {
-        success: true,
-        runId,
-        completedSteps,
-        totalSteps: workflow.steps.length,
-        context,
-      };
+    const result = await this.runWorkflowGraph(childRunId, workflow, context, new Set(), {
+      lineage: scope.lineage,
+      rootRunId: scope.rootRunId,
+      parentSignal: scope.signal,
+      updateStats,
+    });
 
-    } catch (error: any) {
-      logWithCategory('error', LogCategory.SYSTEM, `Workflow execution failed at step ${currentStepIndex + 1}:`, error);
+    if (!result.success) {
+      if (scope.signal.aborted) {
+        throw scope.signal.reason ?? new Error('Cancelled');
+      }
+      const where = iteration === null ? 'Sub-workflow' : `Iteration ${iteration + 1}`;
+      throw new Error(`${where} failed (run ${childRunId}): ${result.error}`);
+    }
 
-      // Log error
-      await this.logStepExecution(runId, currentStepIndex, 'failed', null, error.message);
+    return result;
+  }
 
-      // Mark workflow run as failed
-      await this.completeWorkflowRun(runId, 'failed', context, error.message, currentStepIndex);
+  /**
+   * Send a progress event for a run to every window
+   */
+  private emitProgress(
+    type: WorkflowProgressEventType,
+    runId: string,
+    workflow: Workflow,
+    scope: RunScope,
+    details: Partial<WorkflowProgressEvent> = {}
+  ): void {
+    const event: WorkflowProgressEvent = {
+      ...details,
+      type,
+      runId,
+      rootRunId: scope.rootRunId,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      timestamp: new Date().toISOString(),
+    };
 
-      // Update workflow statistics
-      await this.updateWorkflowStats(workflowId, false);
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (window.isDestroyed()) continue;
+      try {
+        window.webContents.send(WORKFLOW_PROGRESS_CHANNEL, event);
+      } catch (error) {
+        // e.g. a variable value that can't be cloned; progress is best-effort
+        logWithCategory('debug', LogCategory.SYSTEM, `Could not send workflow progress event ${type}:`, error);
+      }
+    }
+  }
 
-      return {
-        success: false,
-        runId,
-        completedSteps,
-        totalSteps: workflow.steps.length,
-        context,
-        error: error.message,
-        errorStep: currentStepIndex,
-      };
+  /**
+   * Collect the outputs of the given steps from a nested run's context
+   */
+  private pickStepOutputs(context: WorkflowContext, steps: WorkflowStep[]): Record<string, any> {
+    const outputs: Record<string, any> = {};
+    for (const step of steps) {
+      if (step.id in context.stepOutputs) {
+        outputs[step.id] = context.stepOutputs[step.id];
+      }
     }
+    return outputs;
   }
 
   /**
@@ -167,7 +1275,7 @@ export class WorkflowEngine {
    */
   private async getWorkflow(workflowId: string): Promise<Workflow | null> {
     const result = await this.dbPool.query(
-      'SELECT id, name, description, steps, target_type, target_id, status FROM workflows WHERE id = $1',
+      'SELECT id, name, description, version, steps, target_type, target_id, status FROM workflows WHERE id = $1',
       [workflowId]
     );
 
@@ -179,24 +1287,81 @@ export class WorkflowEngine {
   }
 
   /**
-   * Create a new workflow run record
+   * Get a workflow as it was at a given version
+   *
+   * Runs are pinned to the version they started with, so resuming or
+   * continuing a run uses the same steps even if the workflow was edited
+   * since. Falls back to the current definition for runs recorded before
+   * versioning existed.
+   */
+  private async getWorkflowAtVersion(workflowId: string, version: number | null): Promise<Workflow | null> {
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow || version === null || version === workflow.version) {
+      return workflow;
+    }
+
+    const snapshot = await this.getWorkflowVersion(workflowId, version);
+    if (!snapshot) {
+      logWithCategory('warn', LogCategory.SYSTEM,
+        `Version ${version} of workflow ${workflowId} not found; using the current definition`);
+      return workflow;
+    }
+
+    return {
+      ...workflow,
+      name: snapshot.name,
+      description: snapshot.description || '',
+      version: snapshot.version,
+      steps: snapshot.steps,
+    };
+  }
+
+  /**
+   * Create a new workflow run record, pinned to the workflow's current version
    */
   private async createWorkflowRun(
-    workflowId: string,
-    totalSteps: number,
+    workflow: Workflow,
     triggeredBy: string,
-    triggeredByUser?: string
+    triggeredByUser?: string,
+    parent?: { runId: string; stepId: string; iteration: number | null }
   ): Promise<string> {
     const result = await this.dbPool.query(
-      `INSERT INTO workflow_runs (workflow_id, total_steps, triggered_by, triggered_by_user, execution_log, context)
-       VALUES ($1, $2, $3, $4, '[]'::jsonb, '{}'::jsonb)
+      `INSERT INTO workflow_runs (workflow_id, workflow_version, total_steps, triggered_by, triggered_by_user,
+                                  execution_log, context, parent_run_id, parent_step_id, iteration)
+       VALUES ($1, $2, $3, $4, $5, '[]'::jsonb, '{}'::jsonb, $6, $7, $8)
        RETURNING id`,
-      [workflowId, totalSteps, triggeredBy, triggeredByUser || null]
+      [
+        workflow.id,
+        workflow.version ?? null,
+        workflow.steps.length,
+        triggeredBy,
+        triggeredByUser || null,
+        parent?.runId ?? null,
+        parent?.stepId ?? null,
+        parent?.iteration ?? null,
+      ]
     );
 
     return result.rows[0].id;
   }
 
+  /**
+   * Save the run's context after a step, with the steps done so far
+   */
+  private async createCheckpoint(
+    runId: string,
+    step: WorkflowStep,
+    stepIndex: number,
+    context: WorkflowContext,
+    finishedStepIds: Set<string>
+  ): Promise<void> {
+    await this.dbPool.query(
+      `INSERT INTO workflow_checkpoints (run_id, step_id, step_index, context, finished_steps)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [runId, step.id, stepIndex, JSON.stringify(context), JSON.stringify(Array.from(finishedStepIds))]
+    );
+  }
+
   /**
    * Update workflow run progress
    */
@@ -215,10 +1380,13 @@ export class WorkflowEngine {
     stepIndex: number,
     status: string,
     output: any,
-    errorMessage?: string
+    errorMessage?: string,
+    step?: WorkflowStep
   ): Promise<void> {
     const logEntry = {
       step: stepIndex,
+      stepId: step?.id ?? null,
+      stepName: step?.name ?? null,
       status,
       timestamp: new Date().toISOString(),
       output,
@@ -257,55 +1425,103 @@ export class WorkflowEngine {
 
   /**
    * Update workflow statistics after execution
+   *
+   * A resumed run was already counted as a failure, so it does not add to
+   * run_count; if it now succeeds, the failure is moved to the success column.
+   * Cancelled runs count as runs but neither as successes nor failures.
    */
-  private async updateWorkflowStats(workflowId: string, success: boolean): Promise<void> {
+  private async updateWorkflowStats(
+    workflowId: string,
+    outcome: 'success' | 'failed' | 'cancelled',
+    resumed: boolean = false
+  ): Promise<void> {
+    if (resumed) {
+      await this.dbPool.query(
+        `UPDATE workflows
+         SET success_count = success_count + CASE WHEN $1 = 'success' THEN 1 ELSE 0 END,
+             failure_count = GREATEST(failure_count - CASE WHEN $1 = 'success' THEN 1 ELSE 0 END, 0),
+             last_run_at = NOW(),
+             last_run_status = $1
+         WHERE id = $2`,
+        [outcome, workflowId]
+      );
+      return;
+    }
+
     await this.dbPool.query(
       `UPDATE workflows
        SET run_count = run_count + 1,
-           success_count = success_count + CASE WHEN $1 THEN 1 ELSE 0 END,
-           failure_count = failure_count + CASE WHEN $1 THEN 0 ELSE 1 END,
+           success_count = success_count + CASE WHEN $1 = 'success' THEN 1 ELSE 0 END,
+           failure_count = failure_count + CASE WHEN $1 = 'failed' THEN 1 ELSE 0 END,
            last_run_at = NOW(),
-           last_run_status = CASE WHEN $1 THEN 'success' ELSE 'failed' END
+           last_run_status = $1
        WHERE id = $2`,
-      [success, workflowId]
+      [outcome, workflowId]
     );
   }
 
   /**
-   * Execute a single workflow step by calling plugin action via IPC
+   * Execute a single workflow step by invoking the plugin action (or a gate's MCP tool)
+   *
+   * The action receives the run's cancellation signal. Actions that ignore it
+   * are abandoned: the engine stops waiting for them.
    */
-  private async executeStep(step: WorkflowStep, config: Record<string, any>): Promise<any> {
-    const ipcChannel = `plugin:${step.pluginId}:${step.action}`;
+  private async executeStep(
+    runId: string,
+    step: WorkflowStep,
+    config: Record<string, any>,
+    signal: AbortSignal
+  ): Promise<any> {
+    if (step.mcpServer) {
+      return this.executeMcpTool(step, config, signal);
+    }
 
     logWithCategory('info', LogCategory.SYSTEM, `Executing plugin action: ${step.pluginId}.${step.action}`);
-    logWithCategory('debug', LogCategory.SYSTEM, `IPC channel: ${ipcChannel}`, config);
-
-    try {
-      // We need to get the handler that was registered by the plugin
-      // Unfortunately, Electron doesn't expose a direct way to call IPC handlers from main process
-      // So we need to create a mock IpcMainInvokeEvent
-      const mockEvent = {} as any;
-
-      // Get all registered listeners for this channel
-      const listeners = ipcMain.listeners(ipcChannel);
+    logWithCategory('debug', LogCategory.SYSTEM, `Action input for ${step.pluginId}.${step.action}`, config);
 
-      if (listeners.length === 0) {
-        throw new Error(`No plugin handler registered for channel: ${ipcChannel}`);
-      }
+    if (signal.aborted) {
+      throw signal.reason ?? new Error('Cancelled');
+    }
 
-      // Call the first (and should be only) handler
-      const handler = listeners[0] as any;
-      const result = await handler(mockEvent, config);
+    try {
+      const result = await raceAbort(
+        pluginActions.invoke(step.pluginId!, step.action!, config, { caller: `workflow:${runId}`, signal }),
+        signal
+      );
 
       logWithCategory('debug', LogCategory.SYSTEM, `Plugin action completed: ${step.pluginId}.${step.action}`, result);
 
       return result;
     } catch (error: any) {
+      if (signal.aborted) {
+        throw signal.reason ?? error;
+      }
       logWithCategory('error', LogCategory.SYSTEM, `Plugin action failed: ${step.pluginId}.${step.action}`, error);
       throw new Error(`Plugin action ${step.pluginId}.${step.action} failed: ${error.message}`);
     }
   }
 
+  /**
+   * Call the MCP tool of a gate step
+   */
+  private async executeMcpTool(step: WorkflowStep, config: Record<string, any>, signal: AbortSignal): Promise<any> {
+    logWithCategory('info', LogCategory.SYSTEM, `Calling MCP tool: ${step.mcpServer}.${step.tool}`);
+
+    if (signal.aborted) {
+      throw signal.reason ?? new Error('Cancelled');
+    }
+
+    try {
+      return await raceAbort(callMcpTool(step.mcpServer!, step.tool!, config, { signal }), signal);
+    } catch (error: any) {
+      if (signal.aborted) {
+        throw signal.reason ?? error;
+      }
+      logWithCategory('error', LogCategory.SYSTEM, `MCP tool failed: ${step.mcpServer}.${step.tool}`, error);
+      throw new Error(`MCP tool ${step.mcpServer}.${step.tool} failed: ${error.message}`);
+    }
+  }
+
   /**
    * Substitute variables in config using context
    * Replaces {{step-id.variable}} with actual values
@@ -341,14 +1557,26 @@ export class WorkflowEngine {
   private resolveVariable(varPath: string, context: WorkflowContext): any {
     const parts = varPath.split('.');
 
-    if (parts[0].startsWith('step-')) {
+    if (parts[0].startsWith('step-') || Object.prototype.hasOwnProperty.call(context.stepOutputs, parts[0])) {
       // Step output variable
       const stepId = parts[0];
       const varName = parts.slice(1).join('.');
-      return context.stepOutputs[stepId]?.[varName];
-    } else {
+      const output = context.stepOutputs[stepId];
+      return output && Object.prototype.hasOwnProperty.call(output, varName) ? output[varName] : undefined;
+    } else if (Object.prototype.hasOwnProperty.call(context.variables, varPath)) {
       // Global variable
       return context.variables[varPath];
+    } else {
+      // Nested global variable: "book.title" → context.variables.book.title
+      let current: any = context.variables;
+      for (const part of parts) {
+        if (current && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, part)) {
+          current = current[part];
+        } else {
+          return undefined;
+        }
+      }
+      return current;
     }
   }
 
@@ -376,27 +1604,40 @@ export class WorkflowEngine {
   }
 
   /**
-   * Evaluate a condition expression
-   * Simple implementation - supports basic comparisons
+   * Evaluate a condition expression against the workflow context
+   * References resolve the same way as {{...}} substitutions in step config
    */
   private evaluateCondition(condition: string, context: WorkflowContext): boolean {
-    // TODO: Implement proper condition evaluation
-    // For now, always return true
-    return true;
+    return evaluateConditionExpression(condition, (varPath) => this.resolveVariable(varPath, context));
   }
 
   /**
-   * Cancel a running workflow
+   * Cancel a running or paused workflow
    */
   async cancelWorkflow(runId: string): Promise<void> {
-    await this.dbPool.query(
+    const controller = activeRuns.get(runId);
+    if (controller) {
+      // The run loop stops at the next step boundary and records the cancellation
+      controller.abort(new WorkflowCancelledError(runId));
+      logWithCategory('info', LogCategory.SYSTEM, `Cancellation requested for workflow run: ${runId}`);
+      return;
+    }
+
+    // Paused, or not running in this process (e.g. left over from a crash): just close the record
+    const result = await this.dbPool.query(
       `UPDATE workflow_runs
        SET status = 'cancelled',
            completed_at = NOW(),
-           error_message = 'Cancelled by user'
-       WHERE id = $1 AND status = 'running'`,
+           error_message = 'Cancelled by user',
+           pending_approval = NULL
+       WHERE id = $1 AND status IN ('running', 'paused')
+       RETURNING workflow_id, parent_run_id`,
       [runId]
     );
+    const run = result.rows[0];
+    if (run && !run.parent_run_id) {
+      await this.updateWorkflowStats(run.workflow_id, 'cancelled');
+    }
 
     logWithCategory('info', LogCategory.SYSTEM, `Workflow run cancelled: ${runId}`);
   }
@@ -407,7 +1648,7 @@ export class WorkflowEngine {
   async getWorkflowRuns(workflowId: string, limit: number = 50): Promise<any[]> {
     const result = await this.dbPool.query(
       `SELECT * FROM workflow_runs
-       WHERE workflow_id = $1
+       WHERE workflow_id = $1 AND parent_run_id IS NULL
        ORDER BY started_at DESC
        LIMIT $2`,
       [workflowId, limit]
@@ -415,8 +1656,175 @@ export class WorkflowEngine {
 
     return result.rows;
   }
+
+  /**
+   * Get the checkpoints of a run, oldest first
+   */
+  async getCheckpoints(runId: string): Promise<any[]> {
+    const result = await this.dbPool.query(
+      `SELECT id, run_id, step_id, step_index, context, finished_steps, created_at
+       FROM workflow_checkpoints
+       WHERE run_id = $1
+       ORDER BY created_at, id`,
+      [runId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get the quality gate history of a run, including gates evaluated in its nested runs
+   */
+  async getGateResults(runId: string): Promise<any[]> {
+    const result = await this.dbPool.query(
+      `WITH RECURSIVE run_tree AS (
+         SELECT id FROM workflow_runs WHERE id = $1
+         UNION ALL
+         SELECT r.id FROM workflow_runs r JOIN run_tree t ON r.parent_run_id = t.id
+       )
+       SELECT g.*
+       FROM workflow_quality_gates g
+       JOIN run_tree t ON g.run_id = t.id
+       ORDER BY g.created_at`,
+      [runId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get the runs waiting for an approval decision, oldest first
+   */
+  async getPendingApprovals(): Promise<any[]> {
+    const result = await this.dbPool.query(
+      `SELECT r.id AS run_id, r.workflow_id, w.name AS workflow_name, r.started_at, r.pending_approval
+       FROM workflow_runs r
+       JOIN workflows w ON w.id = r.workflow_id
+       WHERE r.status = 'paused' AND r.pending_approval IS NOT NULL
+       ORDER BY r.pending_approval->>'requestedAt'`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get the nested runs (loop iterations and sub-workflows) started by a run
+   */
+  async getChildRuns(runId: string): Promise<any[]> {
+    const result = await this.dbPool.query(
+      `SELECT * FROM workflow_runs
+       WHERE parent_run_id = $1
+       ORDER BY started_at, iteration`,
+      [runId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * List the revisions of a workflow, newest first, with the number of runs of each
+   */
+  async getWorkflowVersions(workflowId: string): Promise<any[]> {
+    const result = await this.dbPool.query(
+      `SELECT v.version, v.name, v.description, jsonb_array_length(v.steps) AS step_count, v.created_at,
+              (SELECT COUNT(*)::int FROM workflow_runs r
+               WHERE r.workflow_id = v.workflow_id AND r.workflow_version = v.version AND r.parent_run_id IS NULL) AS run_count
+       FROM workflow_versions v
+       WHERE v.workflow_id = $1
+       ORDER BY v.version DESC`,
+      [workflowId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get one revision of a workflow
+   */
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | null> {
+    const result = await this.dbPool.query(
+      `SELECT workflow_id, version, name, description, steps, created_at
+       FROM workflow_versions
+       WHERE workflow_id = $1 AND version = $2`,
+      [workflowId, version]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      workflowId: row.workflow_id,
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      steps: row.steps,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Compare two revisions of a workflow
+   */
+  async compareWorkflowVersions(workflowId: string, fromVersion: number, toVersion: number): Promise<WorkflowVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.getWorkflowVersion(workflowId, fromVersion),
+      this.getWorkflowVersion(workflowId, toVersion),
+    ]);
+    if (!from) {
+      throw new Error(`Version ${fromVersion} of workflow ${workflowId} not found`);
+    }
+    if (!to) {
+      throw new Error(`Version ${toVersion} of workflow ${workflowId} not found`);
+    }
+
+    return diffWorkflowVersions(from, to);
+  }
+
+  /**
+   * Restore an earlier revision of a workflow
+   *
+   * The old definition is saved as a new revision, so the history is kept
+   * and runs of the versions in between still match their definitions.
+   *
+   * @returns The updated workflow row
+   */
+  async restoreWorkflowVersion(workflowId: string, version: number): Promise<any> {
+    logWithCategory('info', LogCategory.SYSTEM, `Restoring version ${version} of workflow ${workflowId}`);
+
+    const snapshot = await this.getWorkflowVersion(workflowId, version);
+    if (!snapshot) {
+      throw new Error(`Version ${version} of workflow ${workflowId} not found`);
+    }
+
+    const stepErrors = validateWorkflowSteps(snapshot.steps);
+    if (stepErrors.length > 0) {
+      throw new Error(`Version ${version} can no longer be used:\n${stepErrors.join('\n')}`);
+    }
+
+    // Triggers bump the version and record the revision (see migration 011)
+    const result = await this.dbPool.query(
+      `UPDATE workflows
+       SET name = $1, description = $2, steps = $3
+       WHERE id = $4
+       RETURNING *`,
+      [snapshot.name, snapshot.description, JSON.stringify(snapshot.steps), workflowId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    return result.rows[0];
+  }
+
   /**
-   * Import a workflow from a JSON file
+   * Import a workflow from a JSON or YAML file
+   *
+   * The file is validated against WORKFLOW_FILE_SCHEMA (docs/schemas/);
+   * violations in YAML files are reported with their line and column.
+   * Importing over an existing workflow (same `id`) records a new revision;
+   * earlier revisions stay in workflow_versions.
    */
   async importWorkflow(sourcePath: string): Promise<string> {
     logWithCategory('info', LogCategory.SYSTEM, `Importing workflow from ${sourcePath}...`);
@@ -428,62 +1836,171 @@ export class WorkflowEngine {
         throw new Error(`Source path does not exist: ${sourcePath}`);
       }
       
-      const workflow = await fs.readJson(sourcePath);
-      
-      // 2. Validate basic structure
-      if (!workflow.name || !workflow.steps || !Array.isArray(workflow.steps)) {
-        throw new Error('Invalid workflow format: missing name or steps');
-      }
-      
-      // 3. Insert into database
-      // If ID exists, we upsert, otherwise insert
-      let query = '';
-      let params: any[] = [];
-      
-      if (workflow.id) {
-        query = `
-          INSERT INTO workflows (id, name, description, target_type, target_id, steps, status)
-          VALUES ($1, $2, $3, $4, $5, $6, $7)
-          ON CONFLICT (id) DO UPDATE SET
-            name = EXCLUDED.name,
-            description = EXCLUDED.description,
-            target_type = EXCLUDED.target_type,
-            target_id = EXCLUDED.target_id,
-            steps = EXCLUDED.steps,
-            updated_at = NOW()
-          RETURNING id
-        `;
-        params = [
-          workflow.id,
-          workflow.name,
-          workflow.description || '',
-          workflow.target_type || 'global',
-          workflow.target_id || null,
-          JSON.stringify(workflow.steps),
-          workflow.status || 'draft'
-        ];
+      const path = require('path');
+      const fileName = path.basename(sourcePath);
+      let workflow: any;
+
+      // 2. Validate against the workflow file schema
+      if (/\.ya?ml$/i.test(sourcePath)) {
+        const document = loadYamlWithPositions(await fs.readFile(sourcePath, 'utf-8'));
+        workflow = document.data;
+        assertWorkflowSchema(workflow, WORKFLOW_FILE_SCHEMA, fileName, document.positionOf);
       } else {
-        query = `
-          INSERT INTO workflows (name, description, target_type, target_id, steps, status)
-          VALUES ($1, $2, $3, $4, $5, $6)
-          RETURNING id
-        `;
-        params = [
-          workflow.name,
-          workflow.description || '',
-          workflow.target_type || 'global',
-          workflow.target_id || null,
-          JSON.stringify(workflow.steps),
-          workflow.status || 'draft'
-        ];
+        workflow = await fs.readJson(sourcePath);
+        assertWorkflowSchema(workflow, WORKFLOW_FILE_SCHEMA, fileName);
       }
-      
-      const result = await this.dbPool.query(query, params);
-      return result.rows[0].id;
-      
+
+      // 3. Insert into database
+      return await this.saveImportedWorkflow(workflow);
     } catch (error: any) {
       logWithCategory('error', LogCategory.SYSTEM, 'Failed to import workflow:', error);
       throw error;
     }
   }
+
+  /**
+   * Export a workflow with the agents and skills it refers to as a package file
+   */
+  async exportWorkflowPackage(workflowId: string, destinationPath: string): Promise<WorkflowPackageManifest> {
+    logWithCategory('info', LogCategory.SYSTEM, `Exporting workflow ${workflowId} to ${destinationPath}...`);
+    const fs = require('fs-extra');
+
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const { archive, manifest } = await createWorkflowPackage(workflow, getComponentDirectories());
+    await fs.writeFile(destinationPath, archive);
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Exported workflow ${workflowId} with ${manifest.dependencies.agents.length} agents and ${manifest.dependencies.skills.length} skills`);
+    return manifest;
+  }
+
+  /**
+   * List what importing a workflow package would install or overwrite, without changing anything
+   */
+  async planWorkflowPackageImport(packagePath: string): Promise<WorkflowPackagePlan> {
+    const { plan } = await this.loadWorkflowPackagePlan(packagePath);
+    return plan;
+  }
+
+  /**
+   * Import a workflow package: install its agents and skills, then the workflow
+   *
+   * The plan is computed again from the file, so it reflects the state at the
+   * time of installation.
+   */
+  async importWorkflowPackage(packagePath: string): Promise<{ workflowId: string; plan: WorkflowPackagePlan }> {
+    logWithCategory('info', LogCategory.SYSTEM, `Importing workflow package from ${packagePath}...`);
+
+    try {
+      const { pkg, plan } = await this.loadWorkflowPackagePlan(packagePath);
+      await applyWorkflowPackagePlan(pkg, plan);
+      const workflowId = await this.saveImportedWorkflow(pkg.workflow);
+      return { workflowId, plan };
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Failed to import workflow package:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read and verify a package and plan its installation
+   */
+  private async loadWorkflowPackagePlan(packagePath: string) {
+    const fs = require('fs-extra');
+    const path = require('path');
+
+    const pkg = readWorkflowPackage(await fs.readFile(packagePath), path.basename(packagePath));
+    const stepErrors = validateWorkflowSteps(pkg.workflow.steps);
+    if (stepErrors.length > 0) {
+      throw new Error(`Invalid workflow steps:\n${stepErrors.join('\n')}`);
+    }
+
+    const existing = pkg.workflow.id ? await this.getWorkflow(pkg.workflow.id) : null;
+    const plan = await planWorkflowPackageInstall(
+      pkg,
+      getComponentDirectories(),
+      existing ? { id: existing.id, name: existing.name, version: existing.version } : null
+    );
+    return { pkg, plan };
+  }
+
+  /**
+   * Validate the steps of an imported workflow and insert (or update) it
+   */
+  private async saveImportedWorkflow(workflow: any): Promise<string> {
+    // Reject malformed step definitions (e.g. unparseable conditions) up front
+    // rather than failing halfway through a run
+    const stepErrors = validateWorkflowSteps(workflow.steps);
+    if (stepErrors.length > 0) {
+      throw new Error(`Invalid workflow steps:\n${stepErrors.join('\n')}`);
+    }
+
+    // If ID exists, we upsert, otherwise insert
+    let query = '';
+    let params: any[] = [];
+
+    if (workflow.id) {
+      query = `
+        INSERT INTO workflows (id, name, description, target_type, target_id, steps, status)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name,
+          description = EXCLUDED.description,
+          target_type = EXCLUDED.target_type,
+          target_id = EXCLUDED.target_id,
+          steps = EXCLUDED.steps,
+          updated_at = NOW()
+        RETURNING id
+      `;
+      params = [
+        workflow.id,
+        workflow.name,
+        workflow.description || '',
+        workflow.target_type || 'global',
+        workflow.target_id || null,
+        JSON.stringify(workflow.steps),
+        workflow.status || 'draft'
+      ];
+    } else {
+      query = `
+        INSERT INTO workflows (name, description, target_type, target_id, steps, status)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id
+      `;
+      params = [
+        workflow.name,
+        workflow.description || '',
+        workflow.target_type || 'global',
+        workflow.target_id || null,
+        JSON.stringify(workflow.steps),
+        workflow.status || 'draft'
+      ];
+    }
+
+    const result = await this.dbPool.query(query, params);
+    return result.rows[0].id;
+  }
+}
+
+/**
+ * Resolve or reject with `promise`, or reject with the abort reason as soon as `signal` fires
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new Error('Cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
 }
@@ -0,0 +1,78 @@
+/**
+ * Workflow Quality Gates
+ *
+ * A gate step runs a check (a plugin action or an MCP tool), reads a score
+ * from the result and evaluates its `gateCondition` to decide between 'pass'
+ * and 'fail'. The condition uses the workflow condition language with two
+ * extra references:
+ * - `score`: the score read from the result (via `scorePath`, default 'score')
+ * - `result`: the raw check result, e.g. `result.issues`
+ *
+ * Other references resolve against the run context as usual, so a threshold
+ * can come from a variable: `score >= {{minScore}}`.
+ */
+
+import type { GateResult } from '../types/workflow';
+import { evaluateCondition, ConditionResolver } from './workflow-conditions';
+
+const DEFAULT_SCORE_PATH = 'score';
+
+/**
+ * Outcome of evaluating a gate
+ */
+export interface GateEvaluation {
+  result: Exclude<GateResult, 'pending'>;
+  /** Score read from the check result, or null if it has none */
+  score: number | null;
+}
+
+/**
+ * Read the score from a check result
+ *
+ * A bare number is the score itself. Otherwise `scorePath` is a dotted path
+ * into the result ('score', 'npe.score' or '$.npe.score'); numeric strings are
+ * accepted.
+ *
+ * @returns The score, or null if the result has no numeric score
+ */
+export function extractGateScore(output: any, scorePath: string = DEFAULT_SCORE_PATH): number | null {
+  if (typeof output === 'number') {
+    return Number.isFinite(output) ? output : null;
+  }
+
+  const value = getPath(output, scorePath.replace(/^\$\./, ''));
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+/**
+ * Evaluate a gate condition against a check result
+ *
+ * @param resolve Resolves references other than `score` and `result`
+ */
+export function evaluateGate(
+  gateCondition: string,
+  output: any,
+  scorePath: string | undefined,
+  resolve: ConditionResolver
+): GateEvaluation {
+  const score = extractGateScore(output, scorePath);
+
+  const passed = evaluateCondition(gateCondition, (path) => {
+    if (path === 'score') return score;
+    if (path === 'result') return output;
+    if (path.startsWith('result.')) return getPath(output, path.substring('result.'.length));
+    return resolve(path);
+  });
+
+  return { result: passed ? 'pass' : 'fail', score };
+}
+
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current: any, key) => (current == null ? undefined : current[key]), value);
+}
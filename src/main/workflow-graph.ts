@@ -0,0 +1,219 @@
+/**
+ * Workflow Graph Conversion
+ *
+ * Converts between the steps stored in the `workflows` table and the
+ * WorkflowGraph edited by the visual workflow builder.
+ *
+ * - Every step becomes a node; the full step definition travels in
+ *   `node.data.step` and its canvas position in `step.position`.
+ * - Dependencies become 'sequential' edges ('conditional' when the target
+ *   step has a condition).
+ * - `onError: 'goto:<stepId>'` is shown as a 'loop' edge. Loop edges are
+ *   display-only; the policy itself is part of the step.
+ * - Steps without a saved position are placed by layoutWorkflowGraph().
+ */
+
+import type {
+  WorkflowGraph,
+  WorkflowNode,
+  WorkflowEdge,
+  WorkflowPhase,
+  PhaseType,
+} from '../types/workflow';
+import type { PluginActionInfo } from '../types/plugin-api';
+import type { WorkflowStep, WorkflowStepType } from './workflow-engine';
+import { getStepDependencies } from './workflow-dag';
+import { layoutWorkflowGraph } from './workflow-layout';
+
+const PHASE_TYPES: Record<WorkflowStepType, PhaseType> = {
+  action: 'action',
+  gate: 'gate',
+  approval: 'user',
+  foreach: 'loop',
+  while: 'loop',
+  subworkflow: 'subworkflow',
+};
+
+/**
+ * Build the builder graph of a workflow
+ */
+export function stepsToGraph(workflow: { id: string; name: string; version?: number; steps: WorkflowStep[] }): WorkflowGraph {
+  const { steps } = workflow;
+  const stepIds = new Set(steps.map(step => step.id));
+
+  const edges: WorkflowEdge[] = [];
+  steps.forEach((step, index) => {
+    for (const dependency of getStepDependencies(steps, index)) {
+      edges.push({
+        id: `${dependency}->${step.id}`,
+        source: dependency,
+        target: step.id,
+        type: step.condition ? 'conditional' : 'sequential',
+        condition: step.condition,
+        label: step.condition,
+      });
+    }
+
+    if (step.onError?.startsWith('goto:')) {
+      const target = step.onError.substring('goto:'.length);
+      if (stepIds.has(target)) {
+        edges.push({
+          id: `${step.id}->${target}:onError`,
+          source: step.id,
+          target,
+          type: 'loop',
+          label: 'on error',
+        });
+      }
+    }
+  });
+
+  // Steps without a saved position (e.g. imported files) get an automatic layout
+  const layout = layoutWorkflowGraph(steps.map(step => ({ id: step.id, type: phaseTypeOf(step) })), edges);
+
+  const nodes: WorkflowNode[] = steps.map((step, index) => {
+    const position = step.position ?? layout.get(step.id)!;
+    const type = phaseTypeOf(step);
+
+    const phase: WorkflowPhase = {
+      id: index + 1,
+      name: step.name,
+      fullName: step.name,
+      type,
+      agent: step.pluginId ?? '',
+      skill: step.action,
+      subWorkflowId: step.workflowId,
+      description: '',
+      process: [],
+      output: Object.keys(step.outputMapping || {}).join(', '),
+      mcp: step.mcpServer ? `${step.mcpServer}.${step.tool}` : 'No database interaction',
+      gate: step.type === 'gate',
+      gateCondition: step.gateCondition,
+      requiresApproval: step.type === 'approval',
+      position,
+    };
+
+    return {
+      id: step.id,
+      type,
+      label: step.name,
+      agent: step.pluginId ?? '',
+      skill: step.action,
+      subWorkflowId: step.workflowId,
+      data: { phase, step },
+      position,
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    metadata: {
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      version: String(workflow.version ?? 1),
+    },
+  };
+}
+
+/**
+ * Turn a builder graph back into workflow steps
+ *
+ * Steps are ordered so every step comes after the steps it depends on (ties
+ * keep the node order). `dependsOn` is omitted where it would equal the
+ * implicit "previous step" dependency. Cycles are left in place for
+ * validateWorkflowSteps() to report.
+ */
+export function graphToSteps(graph: WorkflowGraph): WorkflowStep[] {
+  const nodeIds = new Set(graph.nodes.map(node => node.id));
+  const incoming = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+
+  for (const edge of graph.edges) {
+    if (edge.type === 'loop') continue;
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) continue;
+    const sources = incoming.get(edge.target)!;
+    if (!sources.includes(edge.source)) {
+      sources.push(edge.source);
+    }
+  }
+
+  const ordered = orderNodes(graph.nodes, incoming);
+
+  return ordered.map((node, index) => {
+    const { position: _ignored, dependsOn: _previous, ...definition } = (node.data.step || {}) as WorkflowStep;
+    const step: WorkflowStep = {
+      ...definition,
+      id: node.id,
+      name: node.label || definition.name || node.id,
+      config: definition.config || {},
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+    };
+
+    const dependencies = incoming.get(node.id)!;
+    const implicit = index > 0 ? [ordered[index - 1].id] : [];
+    const isImplicit = dependencies.length === implicit.length && dependencies.every(id => implicit.includes(id));
+    if (!isImplicit) {
+      step.dependsOn = dependencies;
+    }
+
+    return step;
+  });
+}
+
+/**
+ * Order nodes topologically, keeping the given order among independent nodes
+ */
+function orderNodes(nodes: WorkflowNode[], incoming: Map<string, string[]>): WorkflowNode[] {
+  const placed = new Set<string>();
+  const ordered: WorkflowNode[] = [];
+
+  while (ordered.length < nodes.length) {
+    const next = nodes.find(node => !placed.has(node.id) && incoming.get(node.id)!.every(id => placed.has(id)));
+    if (!next) {
+      // Cycle: append the rest as-is
+      ordered.push(...nodes.filter(node => !placed.has(node.id)));
+      break;
+    }
+    placed.add(next.id);
+    ordered.push(next);
+  }
+
+  return ordered;
+}
+
+/**
+ * Check the plugin actions used by steps against the registered actions
+ *
+ * These are warnings rather than errors: the plugin may simply not be active
+ * right now, and config values can be filled from templates at run time.
+ *
+ * @param lookup Returns the registered action, or null if there is none
+ */
+export function checkStepActions(
+  steps: WorkflowStep[],
+  lookup: (pluginId: string, action: string) => PluginActionInfo | null
+): string[] {
+  const warnings: string[] = [];
+
+  for (const step of steps) {
+    if (!step.pluginId || !step.action) continue;
+
+    const action = lookup(step.pluginId, step.action);
+    if (!action) {
+      warnings.push(`Step "${step.id}": action ${step.pluginId}.${step.action} is not registered (is the plugin active?)`);
+      continue;
+    }
+
+    const required = action.inputSchema?.required ?? [];
+    const missing = required.filter(property => !(property in (step.config || {})));
+    if (missing.length > 0) {
+      warnings.push(`Step "${step.id}": config is missing required input ${missing.map(name => `"${name}"`).join(', ')}`);
+    }
+  }
+
+  return warnings;
+}
+
+function phaseTypeOf(step: WorkflowStep): PhaseType {
+  return PHASE_TYPES[step.type ?? 'action'] ?? 'action';
+}
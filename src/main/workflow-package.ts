@@ -0,0 +1,434 @@
+/**
+ * Workflow Packages
+ *
+ * A workflow package is a single `.flworkflow` file (a gzipped tar archive)
+ * that carries a workflow together with what it needs to run elsewhere:
+ *
+ *   manifest.json           format version, dependencies, SHA-256 of every file
+ *   workflow.json           the workflow (WORKFLOW_FILE_SCHEMA)
+ *   agents/<name>.md        agent definitions (~/.claude/agents/)
+ *   skills/<name>/...       skill directories (~/.claude/skills/)
+ *
+ * Agents and skills are included when a step refers to them by name, e.g.
+ * `config: { agent: 'series-architect' }` or a `/series-planning` command.
+ *
+ * Importing is done in two stages so the user can review the changes first:
+ * planWorkflowPackageInstall() lists what would be installed or overwritten,
+ * applyWorkflowPackagePlan() copies the agents and skills.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { InstallationPlan } from '../types/workflow';
+import type { JsonSchema } from '../types/plugin-api';
+import { createTarGz, readTarGz, TarEntry } from './utils/tar-archive';
+import { validateJsonSchema, formatSchemaErrors } from './utils/json-schema';
+import { WORKFLOW_FILE_SCHEMA, WORKFLOW_SCHEMA_VERSION, assertWorkflowSchema } from './workflow-schema';
+import { isKnownMcpServer } from './mcp-tools';
+import type { WorkflowStep } from './workflow-engine';
+
+export const WORKFLOW_PACKAGE_EXTENSION = 'flworkflow';
+export const WORKFLOW_PACKAGE_FORMAT_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const WORKFLOW_PATH = 'workflow.json';
+
+/** Agent and skill names double as file and directory names */
+const COMPONENT_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * manifest.json
+ */
+export interface WorkflowPackageManifest {
+  formatVersion: number;
+  name: string;
+  workflowId?: string;
+  workflowVersion?: number;
+  createdAt: string;
+  dependencies: {
+    agents: string[];
+    skills: string[];
+    mcpServers: string[];
+  };
+  files: Array<{ path: string; size: number; sha256: string }>;
+}
+
+/**
+ * Verified content of a package
+ */
+export interface WorkflowPackage {
+  manifest: WorkflowPackageManifest;
+  workflow: { id?: string; name: string; description?: string; steps: WorkflowStep[]; [key: string]: any };
+  /** Agent name → markdown */
+  agents: Map<string, Buffer>;
+  /** Skill name → files relative to the skill directory */
+  skills: Map<string, TarEntry[]>;
+}
+
+/**
+ * What importing a package would change
+ */
+export interface WorkflowPackagePlan extends Omit<InstallationPlan, 'workflow'> {
+  packageName: string;
+  workflow: {
+    id: string | null;
+    name: string;
+    stepCount: number;
+    /** Existing workflow with the same ID, which the import replaces (as a new revision) */
+    replaces: { id: string; name: string; version: number } | null;
+  };
+}
+
+/**
+ * Where agents and skills are installed
+ */
+export interface ComponentDirectories {
+  agentsDir: string;
+  skillsDir: string;
+}
+
+const MANIFEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['formatVersion', 'name', 'createdAt', 'dependencies', 'files'],
+  properties: {
+    formatVersion: { type: 'integer' },
+    name: { type: 'string', minLength: 1 },
+    workflowId: { type: 'string' },
+    workflowVersion: { type: 'integer' },
+    createdAt: { type: 'string' },
+    dependencies: {
+      type: 'object',
+      required: ['agents', 'skills', 'mcpServers'],
+      properties: {
+        agents: { type: 'array', items: { type: 'string', pattern: COMPONENT_NAME.source } },
+        skills: { type: 'array', items: { type: 'string', pattern: COMPONENT_NAME.source } },
+        mcpServers: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['path', 'size', 'sha256'],
+        properties: {
+          path: { type: 'string', minLength: 1 },
+          size: { type: 'integer', minimum: 0 },
+          sha256: { type: 'string', pattern: '^[0-9a-f]{64}$' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Default agent and skill directories (~/.claude/agents, ~/.claude/skills)
+ */
+export function getComponentDirectories(): ComponentDirectories {
+  const claudeDir = path.join(os.homedir(), '.claude');
+  return { agentsDir: path.join(claudeDir, 'agents'), skillsDir: path.join(claudeDir, 'skills') };
+}
+
+/**
+ * Build a package for a workflow
+ */
+export async function createWorkflowPackage(
+  workflow: { id: string; name: string; description?: string; version?: number; steps: WorkflowStep[]; target_type?: string; target_id?: string | null },
+  directories: ComponentDirectories
+): Promise<{ archive: Buffer; manifest: WorkflowPackageManifest }> {
+  const references = collectStrings(workflow.steps);
+  const isReferenced = (name: string) =>
+    references.some(text => new RegExp(`(^|[^\\w-])${escapeRegExp(name)}($|[^\\w-])`).test(text));
+
+  const agents = (await listComponents(directories.agentsDir, 'file'))
+    .filter(name => name.endsWith('.md'))
+    .map(name => name.slice(0, -'.md'.length))
+    .filter(name => COMPONENT_NAME.test(name) && isReferenced(name));
+  const skills = (await listComponents(directories.skillsDir, 'directory'))
+    .filter(name => COMPONENT_NAME.test(name) && isReferenced(name));
+
+  const workflowFile = {
+    schemaVersion: WORKFLOW_SCHEMA_VERSION,
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description ?? '',
+    target_type: workflow.target_type || 'global',
+    target_id: workflow.target_id ?? null,
+    steps: workflow.steps,
+  };
+
+  const entries: TarEntry[] = [{ path: WORKFLOW_PATH, data: Buffer.from(JSON.stringify(workflowFile, null, 2)) }];
+  for (const agent of agents) {
+    entries.push({ path: `agents/${agent}.md`, data: await fs.readFile(path.join(directories.agentsDir, `${agent}.md`)) });
+  }
+  for (const skill of skills) {
+    const skillDir = path.join(directories.skillsDir, skill);
+    for (const file of await listFiles(skillDir)) {
+      entries.push({ path: `skills/${skill}/${file}`, data: await fs.readFile(path.join(skillDir, file)) });
+    }
+  }
+
+  const manifest: WorkflowPackageManifest = {
+    formatVersion: WORKFLOW_PACKAGE_FORMAT_VERSION,
+    name: workflow.name,
+    workflowId: workflow.id,
+    workflowVersion: workflow.version,
+    createdAt: new Date().toISOString(),
+    dependencies: { agents, skills, mcpServers: collectMcpServers(workflow.steps) },
+    files: entries.map(entry => ({ path: entry.path, size: entry.data.length, sha256: sha256(entry.data) })),
+  };
+
+  const archive = createTarGz([{ path: MANIFEST_PATH, data: Buffer.from(JSON.stringify(manifest, null, 2)) }, ...entries]);
+  return { archive, manifest };
+}
+
+/**
+ * Read and verify a package
+ *
+ * @throws Error if the archive is corrupt, a checksum doesn't match, a file
+ *   is not listed in the manifest, or the workflow doesn't match its schema
+ */
+export function readWorkflowPackage(archive: Buffer, source: string = 'package'): WorkflowPackage {
+  const entries = new Map(readTarGz(archive).map(entry => [entry.path, entry.data]));
+
+  const manifestData = entries.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new Error(`Invalid workflow package ${source}: ${MANIFEST_PATH} is missing`);
+  }
+  const manifest = parseJson(manifestData, `${source}/${MANIFEST_PATH}`) as WorkflowPackageManifest;
+  const manifestErrors = formatSchemaErrors(validateJsonSchema(manifest, MANIFEST_SCHEMA), MANIFEST_PATH);
+  if (manifestErrors.length > 0) {
+    throw new Error(`Invalid workflow package ${source}:\n${manifestErrors.join('\n')}`);
+  }
+  if (manifest.formatVersion > WORKFLOW_PACKAGE_FORMAT_VERSION) {
+    throw new Error(`Workflow package ${source} uses format version ${manifest.formatVersion}; update FictionLab to import it`);
+  }
+
+  const listed = new Set<string>();
+  for (const file of manifest.files) {
+    const data = entries.get(file.path);
+    if (!data) {
+      throw new Error(`Invalid workflow package ${source}: ${file.path} is listed in the manifest but missing`);
+    }
+    if (data.length !== file.size || sha256(data) !== file.sha256) {
+      throw new Error(`Invalid workflow package ${source}: checksum mismatch for ${file.path}`);
+    }
+    listed.add(file.path);
+  }
+
+  const agents = new Map<string, Buffer>();
+  const skills = new Map<string, TarEntry[]>();
+  for (const [entryPath, data] of entries) {
+    if (entryPath !== MANIFEST_PATH && !listed.has(entryPath)) {
+      throw new Error(`Invalid workflow package ${source}: ${entryPath} is not listed in the manifest`);
+    }
+    if (entryPath === MANIFEST_PATH || entryPath === WORKFLOW_PATH) {
+      continue;
+    }
+
+    const agent = /^agents\/([^/]+)\.md$/.exec(entryPath);
+    const skill = /^skills\/([^/]+)\/(.+)$/.exec(entryPath);
+    if (agent && COMPONENT_NAME.test(agent[1])) {
+      agents.set(agent[1], data);
+    } else if (skill && COMPONENT_NAME.test(skill[1])) {
+      const files = skills.get(skill[1]) ?? [];
+      files.push({ path: skill[2], data });
+      skills.set(skill[1], files);
+    } else {
+      throw new Error(`Invalid workflow package ${source}: unexpected file ${entryPath}`);
+    }
+  }
+
+  const workflowData = entries.get(WORKFLOW_PATH);
+  if (!workflowData) {
+    throw new Error(`Invalid workflow package ${source}: ${WORKFLOW_PATH} is missing`);
+  }
+  const workflow = parseJson(workflowData, `${source}/${WORKFLOW_PATH}`);
+  assertWorkflowSchema(workflow, WORKFLOW_FILE_SCHEMA, `${source}/${WORKFLOW_PATH}`);
+
+  return { manifest, workflow, agents, skills };
+}
+
+/**
+ * List what importing a package would install or overwrite
+ *
+ * Agents and skills identical to the installed copy need no action.
+ */
+export async function planWorkflowPackageInstall(
+  pkg: WorkflowPackage,
+  directories: ComponentDirectories,
+  existingWorkflow: { id: string; name: string; version: number } | null
+): Promise<WorkflowPackagePlan> {
+  const plan: WorkflowPackagePlan = {
+    packageName: pkg.manifest.name,
+    workflow: {
+      id: pkg.workflow.id ?? null,
+      name: pkg.workflow.name,
+      stepCount: pkg.workflow.steps.length,
+      replaces: existingWorkflow,
+    },
+    missing: { agents: [], skills: [], mcpServers: [] },
+    existing: { agents: [], skills: [], mcpServers: [] },
+    actions: [],
+  };
+
+  for (const [name, data] of pkg.agents) {
+    const destination = path.join(directories.agentsDir, `${name}.md`);
+    const installed = await fs.pathExists(destination);
+    (installed ? plan.existing : plan.missing).agents.push(name);
+    if (installed && (await fs.readFile(destination)).equals(data)) {
+      continue;
+    }
+    plan.actions.push({
+      type: 'copy_agent',
+      component: name,
+      destination,
+      overwrite: installed,
+      description: installed ? `Overwrite agent ${name}` : `Install agent ${name}`,
+    });
+  }
+
+  for (const [name, files] of pkg.skills) {
+    const destination = path.join(directories.skillsDir, name);
+    const installed = await fs.pathExists(destination);
+    (installed ? plan.existing : plan.missing).skills.push(name);
+    if (installed && await isSameDirectory(destination, files)) {
+      continue;
+    }
+    plan.actions.push({
+      type: 'copy_skill',
+      component: name,
+      destination,
+      overwrite: installed,
+      description: installed
+        ? `Replace skill ${name} (${files.length} file${files.length === 1 ? '' : 's'})`
+        : `Install skill ${name} (${files.length} file${files.length === 1 ? '' : 's'})`,
+    });
+  }
+
+  for (const server of pkg.manifest.dependencies.mcpServers) {
+    (isKnownMcpServer(server) ? plan.existing : plan.missing).mcpServers.push(server);
+  }
+
+  plan.actions.push({
+    type: 'import_workflow',
+    component: pkg.workflow.name,
+    destination: pkg.workflow.id ?? 'new',
+    overwrite: existingWorkflow !== null,
+    description: existingWorkflow
+      ? `Replace workflow "${existingWorkflow.name}" (currently version ${existingWorkflow.version}; earlier versions are kept)`
+      : `Add workflow "${pkg.workflow.name}"`,
+  });
+
+  return plan;
+}
+
+/**
+ * Install the agents and skills of a plan
+ *
+ * Skill directories are replaced as a whole, so files removed from a skill
+ * don't linger. The workflow itself is imported by the caller.
+ */
+export async function applyWorkflowPackagePlan(pkg: WorkflowPackage, plan: WorkflowPackagePlan): Promise<void> {
+  for (const action of plan.actions) {
+    if (action.type === 'copy_agent') {
+      await fs.outputFile(action.destination, pkg.agents.get(action.component)!);
+    } else if (action.type === 'copy_skill') {
+      const staging = `${action.destination}.installing`;
+      await fs.remove(staging);
+      for (const file of pkg.skills.get(action.component)!) {
+        await fs.outputFile(path.join(staging, file.path), file.data);
+      }
+      await fs.remove(action.destination);
+      await fs.move(staging, action.destination);
+    }
+  }
+}
+
+/**
+ * MCP servers used by gate steps (including loop bodies)
+ */
+function collectMcpServers(steps: WorkflowStep[]): string[] {
+  const servers = new Set<string>();
+  const visit = (list: WorkflowStep[]) => {
+    for (const step of list) {
+      if (step.mcpServer) servers.add(step.mcpServer);
+      if (Array.isArray(step.steps)) visit(step.steps);
+    }
+  };
+  visit(steps);
+  return Array.from(servers).sort();
+}
+
+/**
+ * All string values in a value (recursively)
+ */
+function collectStrings(value: any, result: string[] = []): string[] {
+  if (typeof value === 'string') {
+    result.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, result));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStrings(item, result));
+  }
+  return result;
+}
+
+async function listComponents(directory: string, kind: 'file' | 'directory'): Promise<string[]> {
+  if (!await fs.pathExists(directory)) {
+    return [];
+  }
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  return entries
+    .filter(entry => (kind === 'file' ? entry.isFile() : entry.isDirectory()))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Files in a directory (recursively), relative and with '/' separators
+ */
+async function listFiles(directory: string, prefix: string = ''): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(directory, prefix), { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(directory, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+async function isSameDirectory(directory: string, files: TarEntry[]): Promise<boolean> {
+  const installed = await listFiles(directory);
+  if (installed.length !== files.length) {
+    return false;
+  }
+  for (const file of files) {
+    const target = path.join(directory, file.path);
+    if (!await fs.pathExists(target) || !(await fs.readFile(target)).equals(file.data)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parseJson(data: Buffer, source: string): any {
+  try {
+    return JSON.parse(data.toString('utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${source}: ${error.message}`);
+  }
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
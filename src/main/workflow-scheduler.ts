@@ -0,0 +1,254 @@
+/**
+ * Workflow Scheduler
+ *
+ * Runs active workflows that have `auto_run` enabled and a `schedule_cron`
+ * expression. The scheduler wakes up at the start of every minute, works out
+ * which cron slots have come due since `last_scheduled_at` and executes the
+ * workflow with `triggeredBy: 'schedule'`.
+ *
+ * Slots that passed while the app was closed are handled according to the
+ * workflow's `missed_run_policy` ('skip', 'run_once' or 'run_all').
+ */
+
+import { Pool } from 'pg';
+import { logWithCategory, LogCategory } from './logger';
+import { getDatabasePool } from './database-connection';
+import { parseCron, getCronTimesBetween, validateCronExpression } from './utils/cron-expression';
+
+export type MissedRunPolicy = 'skip' | 'run_once' | 'run_all';
+
+export const MISSED_RUN_POLICIES: MissedRunPolicy[] = ['skip', 'run_once', 'run_all'];
+
+/**
+ * Scheduled workflow as loaded from the database
+ */
+interface ScheduledWorkflowRow {
+  id: string;
+  name: string;
+  schedule_cron: string;
+  missed_run_policy: MissedRunPolicy | null;
+  last_scheduled_at: Date | null;
+}
+
+/** Slots older than this when the scheduler sees them count as missed */
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+
+/** Upper bound on catch-up runs for 'run_all' so a long absence can't flood the queue */
+const MAX_CATCH_UP_RUNS = 10;
+
+/**
+ * Validate schedule settings before they are stored
+ *
+ * @returns List of problems (empty if the settings are valid)
+ */
+export function validateWorkflowSchedule(settings: {
+  schedule_cron?: string | null;
+  missed_run_policy?: string | null;
+}): string[] {
+  const errors: string[] = [];
+
+  if (settings.schedule_cron) {
+    const cronError = validateCronExpression(settings.schedule_cron);
+    if (cronError) {
+      errors.push(`schedule_cron: ${cronError}`);
+    }
+  }
+
+  if (settings.missed_run_policy && !MISSED_RUN_POLICIES.includes(settings.missed_run_policy as MissedRunPolicy)) {
+    errors.push(`missed_run_policy must be one of: ${MISSED_RUN_POLICIES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Workflow Scheduler Class
+ *
+ * Singleton that owns the minute timer for scheduled workflows
+ */
+class WorkflowScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: boolean = false;
+  /** Workflow ID → promise for the scheduled runs currently executing */
+  private activeRuns: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Start the scheduler
+   *
+   * Should be called after the database pool is initialized. Missed runs are
+   * handled on the first tick.
+   */
+  start(): void {
+    if (this.timer) {
+      logWithCategory('warn', LogCategory.SYSTEM, 'Workflow scheduler already started');
+      return;
+    }
+
+    logWithCategory('info', LogCategory.SYSTEM, 'Starting workflow scheduler');
+    this.scheduleNextTick(0);
+  }
+
+  /**
+   * Stop the scheduler
+   *
+   * Runs that are already executing are left to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      logWithCategory('info', LogCategory.SYSTEM, 'Workflow scheduler stopped');
+    }
+  }
+
+  private scheduleNextTick(delay: number): void {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      if (this.timer) {
+        // Wake up just after the start of the next minute
+        const now = new Date();
+        this.scheduleNextTick(60_000 - (now.getSeconds() * 1000 + now.getMilliseconds()) + 500);
+      }
+    }, delay);
+  }
+
+  /**
+   * Check every scheduled workflow for due cron slots
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const pool = getDatabasePool();
+      const result = await pool.query<ScheduledWorkflowRow>(
+        `SELECT id, name, schedule_cron, missed_run_policy, last_scheduled_at
+         FROM workflows
+         WHERE status = 'active' AND auto_run = TRUE AND schedule_cron IS NOT NULL`
+      );
+
+      const now = new Date();
+      for (const workflow of result.rows) {
+        try {
+          await this.processWorkflow(pool, workflow, now);
+        } catch (error: any) {
+          logWithCategory('error', LogCategory.SYSTEM, `Error scheduling workflow ${workflow.name}:`, error);
+        }
+      }
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Workflow scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Work out which slots are due for a workflow and start its runs
+   */
+  private async processWorkflow(pool: Pool, workflow: ScheduledWorkflowRow, now: Date): Promise<void> {
+    const schedule = parseCron(workflow.schedule_cron);
+    const lastScheduledAt = workflow.last_scheduled_at;
+
+    // Claim the window first so a slot is never handled twice
+    const claimed = await pool.query(
+      `UPDATE workflows
+       SET last_scheduled_at = $2
+       WHERE id = $1 AND last_scheduled_at IS NOT DISTINCT FROM $3
+       RETURNING id`,
+      [workflow.id, now, lastScheduledAt]
+    );
+    if (claimed.rowCount === 0 || !lastScheduledAt) {
+      // Newly scheduled workflows start counting from now
+      return;
+    }
+
+    const missedUntil = new Date(Math.max(lastScheduledAt.getTime(), now.getTime() - MISSED_GRACE_MS));
+    const policy = workflow.missed_run_policy || 'skip';
+
+    const missed = getCronTimesBetween(schedule, lastScheduledAt, missedUntil, MAX_CATCH_UP_RUNS + 1);
+    const onTime = getCronTimesBetween(schedule, missedUntil, now, 1);
+
+    const slots: Array<{ scheduledFor: Date; missedRun: boolean }> = [];
+
+    if (missed.length > 0) {
+      if (policy === 'run_all') {
+        if (missed.length > MAX_CATCH_UP_RUNS) {
+          logWithCategory('warn', LogCategory.SYSTEM,
+            `Workflow ${workflow.name} missed more than ${MAX_CATCH_UP_RUNS} scheduled runs; only the first ${MAX_CATCH_UP_RUNS} will run`
+          );
+        }
+        for (const scheduledFor of missed.slice(0, MAX_CATCH_UP_RUNS)) {
+          slots.push({ scheduledFor, missedRun: true });
+        }
+      } else if (policy === 'run_once' && onTime.length === 0) {
+        slots.push({ scheduledFor: missed[missed.length - 1], missedRun: true });
+      } else {
+        logWithCategory('info', LogCategory.SYSTEM,
+          `Skipping missed scheduled run(s) of workflow ${workflow.name} (policy: ${policy})`
+        );
+      }
+    }
+
+    for (const scheduledFor of onTime) {
+      slots.push({ scheduledFor, missedRun: false });
+    }
+
+    if (slots.length > 0) {
+      this.startRuns(workflow, slots);
+    }
+  }
+
+  /**
+   * Execute the due slots of a workflow one after another
+   */
+  private startRuns(
+    workflow: ScheduledWorkflowRow,
+    slots: Array<{ scheduledFor: Date; missedRun: boolean }>
+  ): void {
+    if (this.activeRuns.has(workflow.id)) {
+      logWithCategory('warn', LogCategory.SYSTEM,
+        `Workflow ${workflow.name} is still running from a previous schedule; skipping ${slots.length} run(s)`
+      );
+      return;
+    }
+
+    const runs = (async () => {
+      const { WorkflowEngine } = await import('./workflow-engine');
+      const engine = new WorkflowEngine(getDatabasePool());
+
+      for (const slot of slots) {
+        logWithCategory('info', LogCategory.SYSTEM,
+          `Running scheduled workflow ${workflow.name} for ${slot.scheduledFor.toISOString()}` +
+          (slot.missedRun ? ' (missed run)' : '')
+        );
+
+        try {
+          const result = await engine.executeWorkflow(
+            workflow.id,
+            { scheduledFor: slot.scheduledFor.toISOString(), missedRun: slot.missedRun },
+            'schedule',
+            'scheduler'
+          );
+          if (result.paused) {
+            logWithCategory('info', LogCategory.SYSTEM,
+              `Scheduled workflow ${workflow.name} is waiting for approval: ${result.pendingApproval?.stepName}`
+            );
+          } else if (!result.success) {
+            logWithCategory('warn', LogCategory.SYSTEM, `Scheduled workflow ${workflow.name} failed: ${result.error}`);
+          }
+        } catch (error: any) {
+          logWithCategory('error', LogCategory.SYSTEM, `Error running scheduled workflow ${workflow.name}:`, error);
+        }
+      }
+    })().finally(() => {
+      this.activeRuns.delete(workflow.id);
+    });
+
+    this.activeRuns.set(workflow.id, runs);
+  }
+}
+
+// Export singleton instance
+export const workflowScheduler = new WorkflowScheduler();
@@ -0,0 +1,212 @@
+/**
+ * Workflow File Schemas
+ *
+ * Versioned JSON Schemas for the two workflow file formats:
+ * - WORKFLOW_FILE_SCHEMA: engine workflows (`steps`), as imported through
+ *   WorkflowEngine.importWorkflow
+ * - WORKFLOW_DEFINITION_SCHEMA: phase-based definitions (`phases`), as read
+ *   by WorkflowParser
+ *
+ * Published copies live in docs/schemas/ so editors can validate files with
+ * `"$schema"` / `# yaml-language-server: $schema=...`; a test keeps them in
+ * sync with the constants below. Bump WORKFLOW_SCHEMA_VERSION (and publish new
+ * files) for changes that reject previously valid files.
+ */
+
+import type { JsonSchema } from '../types/plugin-api';
+import { validateJsonSchema, formatSchemaPath } from './utils/json-schema';
+import type { SourcePosition } from './parsers/yaml-positions';
+
+export const WORKFLOW_SCHEMA_VERSION = 1;
+
+const POSITION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { x: { type: 'number' }, y: { type: 'number' } },
+  required: ['x', 'y'],
+  additionalProperties: false,
+};
+
+/**
+ * Engine workflow file (see WorkflowStep)
+ */
+export const WORKFLOW_FILE_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `urn:fictionlab:workflow-file:v${WORKFLOW_SCHEMA_VERSION}`,
+  title: 'FictionLab workflow',
+  type: 'object',
+  required: ['name', 'steps'],
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { enum: [WORKFLOW_SCHEMA_VERSION] },
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    description: { type: ['string', 'null'] },
+    target_type: { type: 'string' },
+    target_id: { type: ['string', 'null'] },
+    status: { type: 'string' },
+    steps: { type: 'array', items: { $ref: '#/definitions/step' } },
+  },
+  definitions: {
+    step: {
+      type: 'object',
+      required: ['id', 'name'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string', minLength: 1 },
+        type: { enum: ['action', 'foreach', 'while', 'subworkflow', 'approval', 'gate'] },
+        pluginId: { type: 'string' },
+        action: { type: 'string' },
+        config: { type: 'object' },
+        outputMapping: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } },
+        condition: { type: ['string', 'null'] },
+        dependsOn: { type: 'array', items: { type: 'string', minLength: 1 } },
+        retry: {
+          type: 'object',
+          required: ['maxAttempts'],
+          additionalProperties: false,
+          properties: {
+            maxAttempts: { type: 'integer', minimum: 1 },
+            initialDelay: { type: 'number', minimum: 0 },
+            maxDelay: { type: 'number', minimum: 0 },
+            backoffMultiplier: { type: 'number', minimum: 1 },
+          },
+        },
+        timeoutMs: { type: 'number', minimum: 1 },
+        onError: {
+          anyOf: [{ enum: ['fail', 'continue'] }, { type: 'string', pattern: '^goto:.+' }],
+        },
+        items: { type: 'string', minLength: 1 },
+        itemVariable: { type: 'string', pattern: '^[A-Za-z_]\\w*$' },
+        while: { type: 'string', minLength: 1 },
+        maxIterations: { type: 'integer', minimum: 1 },
+        steps: { type: 'array', minItems: 1, items: { $ref: '#/definitions/step' } },
+        workflowId: { type: 'string', minLength: 1 },
+        prompt: { type: 'string' },
+        mcpServer: { type: 'string' },
+        tool: { type: 'string' },
+        gateType: { type: 'string' },
+        gateCondition: { type: 'string' },
+        scorePath: { type: 'string' },
+        position: POSITION_SCHEMA,
+      },
+    },
+  },
+};
+
+/**
+ * Phase-based workflow definition (see WorkflowDefinition)
+ */
+export const WORKFLOW_DEFINITION_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `urn:fictionlab:workflow-definition:v${WORKFLOW_SCHEMA_VERSION}`,
+  title: 'FictionLab workflow definition',
+  type: 'object',
+  required: ['name', 'phases'],
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { enum: [WORKFLOW_SCHEMA_VERSION] },
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'string' },
+    description: { type: 'string' },
+    phases: { type: 'array', items: { $ref: '#/definitions/phase' } },
+    dependencies: {
+      type: 'object',
+      required: ['agents', 'skills', 'mcpServers'],
+      properties: {
+        agents: { type: 'array', items: { type: 'string' } },
+        skills: { type: 'array', items: { type: 'string' } },
+        mcpServers: { type: 'array', items: { type: 'string' } },
+        subWorkflows: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    metadata: {
+      type: 'object',
+      properties: {
+        author: { type: 'string' },
+        created: { type: 'string' },
+        updated: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+  definitions: {
+    phase: {
+      type: 'object',
+      required: ['name', 'agent'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'integer', minimum: 0 },
+        name: { type: 'string', minLength: 1 },
+        fullName: { type: 'string' },
+        type: { enum: ['planning', 'gate', 'writing', 'loop', 'user', 'subworkflow', 'action'] },
+        agent: { type: 'string', minLength: 1 },
+        skill: { type: 'string' },
+        subWorkflowId: { type: 'string' },
+        description: { type: 'string' },
+        process: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+        output: { type: 'string' },
+        mcp: { type: 'string' },
+        gate: { type: 'boolean' },
+        gateCondition: { type: 'string' },
+        requiresApproval: { type: 'boolean' },
+        position: POSITION_SCHEMA,
+      },
+    },
+  },
+};
+
+/**
+ * A schema violation in a workflow file
+ */
+export interface WorkflowSchemaIssue {
+  /** Formatted location, e.g. 'steps[2].id' */
+  path: string;
+  message: string;
+  /** 1-based position in the file (YAML only) */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Error raised for a workflow file that doesn't match its schema
+ */
+export class WorkflowSchemaError extends Error {
+  constructor(public readonly source: string, public readonly issues: WorkflowSchemaIssue[]) {
+    super(`Invalid workflow file ${source}:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'WorkflowSchemaError';
+  }
+}
+
+/**
+ * Validate parsed workflow file content against a schema
+ *
+ * @param positionOf Source position lookup (see loadYamlWithPositions)
+ * @throws WorkflowSchemaError listing every violation
+ */
+export function assertWorkflowSchema(
+  data: any,
+  schema: JsonSchema,
+  source: string,
+  positionOf?: (path: Array<string | number>) => SourcePosition | null
+): void {
+  const errors = validateJsonSchema(data, schema);
+  if (errors.length === 0) {
+    return;
+  }
+
+  throw new WorkflowSchemaError(source, errors.map(error => {
+    const position = positionOf?.(error.path);
+    return {
+      path: formatSchemaPath(error.path),
+      message: error.message,
+      ...(position ? { line: position.line, column: position.column } : {}),
+    };
+  }));
+}
+
+function formatIssue(issue: WorkflowSchemaIssue): string {
+  const position = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : '';
+  return `${issue.path}${position}: ${issue.message}`;
+}
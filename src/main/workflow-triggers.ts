@@ -0,0 +1,453 @@
+/**
+ * Workflow Triggers
+ *
+ * Starts workflows in response to events on the event bus. A workflow
+ * subscribes with its `triggers` column, an array of:
+ *
+ *   { "source": "plugin:bq-studio", "event": "chapter-completed" }
+ *   { "source": "system", "event": "mcp-system-started" }
+ *   { "source": "database:books", "event": "insert", "condition": "row.genre == 'romance'" }
+ *
+ * `event` may be '*' to match every event from the source, and `condition`
+ * uses the workflow condition language against the event payload. Only
+ * active workflows with `auto_run` enabled are triggered.
+ *
+ * Database events come from Postgres NOTIFY. A row-level trigger is installed
+ * on each table referenced by a `database:<table>` trigger, and dropped again
+ * once no workflow references the table.
+ *
+ * A NOTIFY does not say which code changed the row, so database events take
+ * the depth of the deepest event-triggered run that is active (or finished
+ * within DATABASE_EVENT_GRACE_MS). A workflow that writes to its own trigger
+ * table is then stopped by MAX_EVENT_DEPTH like any other event chain.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { logWithCategory, LogCategory } from './logger';
+import { getDatabasePool } from './database-connection';
+import { eventBus, runWithEventDepth, AppEvent } from './event-bus';
+import { evaluateCondition, validateCondition } from './workflow-conditions';
+
+/**
+ * Event subscription stored on a workflow
+ */
+export interface WorkflowTrigger {
+  /** 'system', 'plugin:<pluginId>' or 'database:<table>' */
+  source: string;
+  /** Event type, or '*' for any */
+  event: string;
+  /** Optional condition evaluated against the event payload */
+  condition?: string;
+}
+
+interface TriggeredWorkflow {
+  id: string;
+  name: string;
+  triggers: WorkflowTrigger[];
+}
+
+/** Postgres NOTIFY channel used by notify_workflow_table_event() (migration 006) */
+const TABLE_EVENTS_CHANNEL = 'workflow_table_events';
+
+/** Name of the row-level trigger installed on watched tables */
+const TABLE_TRIGGER_NAME = 'workflow_table_event_trigger';
+
+/** Maximum chain of workflows triggering each other through events */
+const MAX_EVENT_DEPTH = 5;
+
+/** Delay before re-establishing a lost LISTEN connection */
+const LISTEN_RETRY_MS = 30_000;
+
+/** How long after a triggered run finishes its table changes still count as caused by it */
+const DATABASE_EVENT_GRACE_MS = 5_000;
+
+const SOURCE_PATTERN = /^(system|plugin:[\w.-]+|database:[a-z_][a-z0-9_]*)$/;
+
+/**
+ * Validate workflow triggers before they are stored
+ *
+ * @returns List of problems (empty if the triggers are valid)
+ */
+export function validateWorkflowTriggers(triggers: any): string[] {
+  if (triggers === undefined || triggers === null) {
+    return [];
+  }
+  if (!Array.isArray(triggers)) {
+    return ['triggers must be an array'];
+  }
+
+  const errors: string[] = [];
+  triggers.forEach((trigger: WorkflowTrigger, index: number) => {
+    const label = `Trigger ${index + 1}`;
+    if (!trigger || typeof trigger.source !== 'string' || !SOURCE_PATTERN.test(trigger.source)) {
+      errors.push(`${label}: source must be 'system', 'plugin:<pluginId>' or 'database:<table>'`);
+    }
+    if (!trigger || typeof trigger.event !== 'string' || !trigger.event) {
+      errors.push(`${label}: event is required`);
+    }
+    if (trigger && trigger.condition !== undefined) {
+      const conditionError = typeof trigger.condition === 'string'
+        ? validateCondition(trigger.condition)
+        : 'condition must be a string';
+      if (conditionError) {
+        errors.push(`${label}: ${conditionError}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Build the initial workflow context for an event
+ *
+ * The payload becomes the workflow variables; `event` holds the metadata.
+ */
+export function buildEventContext(event: AppEvent): Record<string, any> {
+  return {
+    ...event.payload,
+    event: {
+      id: event.id,
+      source: event.source,
+      type: event.type,
+      timestamp: event.timestamp,
+    },
+  };
+}
+
+/**
+ * Check whether an event matches a trigger
+ */
+export function matchesTrigger(trigger: WorkflowTrigger, event: AppEvent): boolean {
+  if (trigger.source !== event.source) return false;
+  if (trigger.event !== '*' && trigger.event !== event.type) return false;
+  if (!trigger.condition) return true;
+
+  const context = buildEventContext(event);
+  return evaluateCondition(trigger.condition, (path) => {
+    if (Object.prototype.hasOwnProperty.call(context, path)) return context[path];
+
+    // Only own keys, so names like 'toString' don't resolve to inherited members
+    let value: any = context;
+    for (const key of path.split('.')) {
+      if (value == null || !Object.prototype.hasOwnProperty.call(value, key)) return undefined;
+      value = value[key];
+    }
+    return value;
+  });
+}
+
+/**
+ * Workflow Trigger Manager Class
+ *
+ * Singleton that listens on the event bus and starts matching workflows
+ */
+class WorkflowTriggerManager {
+  private workflows: TriggeredWorkflow[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private listenClient: PoolClient | null = null;
+  private listenRetryTimer: NodeJS.Timeout | null = null;
+  private watchedTables: Set<string> = new Set();
+  /** Event-triggered runs, kept until DATABASE_EVENT_GRACE_MS after they finish */
+  private triggeredRuns: Array<{ depth: number; finishedAt: number | null }> = [];
+
+  /**
+   * Start listening for events
+   *
+   * Should be called after the database pool is initialized.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      logWithCategory('warn', LogCategory.SYSTEM, 'Workflow trigger manager already started');
+      return;
+    }
+
+    logWithCategory('info', LogCategory.SYSTEM, 'Starting workflow trigger manager');
+    this.unsubscribe = eventBus.subscribe((event) => this.handleEvent(event));
+    await this.refresh();
+  }
+
+  /**
+   * Stop listening for events
+   */
+  async stop(): Promise<void> {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.listenRetryTimer) {
+      clearTimeout(this.listenRetryTimer);
+      this.listenRetryTimer = null;
+    }
+    await this.unlisten();
+    this.watchedTables.clear();
+  }
+
+  /**
+   * Reload triggers from the database
+   *
+   * Call after workflows are created, updated or deleted.
+   */
+  async refresh(): Promise<void> {
+    if (!this.unsubscribe) {
+      return;
+    }
+
+    try {
+      const pool = getDatabasePool();
+      const result = await pool.query<TriggeredWorkflow>(
+        `SELECT id, name, triggers
+         FROM workflows
+         WHERE status = 'active' AND auto_run = TRUE
+           AND triggers IS NOT NULL AND jsonb_array_length(triggers) > 0`
+      );
+      this.workflows = result.rows;
+
+      logWithCategory('info', LogCategory.SYSTEM,
+        `Loaded ${this.workflows.length} event-triggered workflow(s)`
+      );
+
+      await this.watchTables(pool);
+    } catch (error: any) {
+      logWithCategory('error', LogCategory.SYSTEM, 'Failed to load workflow triggers:', error);
+    }
+  }
+
+  /**
+   * Start every workflow whose triggers match the event
+   */
+  private handleEvent(event: AppEvent): void {
+    for (const workflow of this.workflows) {
+      const trigger = workflow.triggers.find((t) => {
+        try {
+          return matchesTrigger(t, event);
+        } catch (error: any) {
+          logWithCategory('warn', LogCategory.SYSTEM,
+            `Invalid trigger condition on workflow ${workflow.name}: ${error.message}`
+          );
+          return false;
+        }
+      });
+      if (!trigger) continue;
+
+      if (event.depth >= MAX_EVENT_DEPTH) {
+        logWithCategory('warn', LogCategory.SYSTEM,
+          `Not triggering workflow ${workflow.name} from ${event.source} ${event.type}: ` +
+          `event chain is ${event.depth} workflows deep (limit ${MAX_EVENT_DEPTH})`
+        );
+        continue;
+      }
+
+      this.runWorkflow(workflow, event);
+    }
+  }
+
+  private runWorkflow(workflow: TriggeredWorkflow, event: AppEvent): void {
+    logWithCategory('info', LogCategory.SYSTEM,
+      `Triggering workflow ${workflow.name} from ${event.source} ${event.type}`
+    );
+
+    const run = { depth: event.depth + 1, finishedAt: null as number | null };
+    this.triggeredRuns.push(run);
+
+    // Events published while this run executes are one level deeper
+    runWithEventDepth(run.depth, async () => {
+      try {
+        const { WorkflowEngine } = await import('./workflow-engine');
+        const engine = new WorkflowEngine(getDatabasePool());
+        const result = await engine.executeWorkflow(workflow.id, buildEventContext(event), 'event', event.source);
+        if (result.paused) {
+          logWithCategory('info', LogCategory.SYSTEM,
+            `Event-triggered workflow ${workflow.name} is waiting for approval: ${result.pendingApproval?.stepName}`
+          );
+        } else if (!result.success) {
+          logWithCategory('warn', LogCategory.SYSTEM, `Event-triggered workflow ${workflow.name} failed: ${result.error}`);
+        }
+      } catch (error: any) {
+        logWithCategory('error', LogCategory.SYSTEM, `Error running event-triggered workflow ${workflow.name}:`, error);
+      } finally {
+        run.finishedAt = Date.now();
+      }
+    });
+  }
+
+  /**
+   * Depth for a database event: that of the deepest triggered run that may have caused it
+   */
+  private getDatabaseEventDepth(): number {
+    const now = Date.now();
+    this.triggeredRuns = this.triggeredRuns.filter(
+      (run) => run.finishedAt === null || now - run.finishedAt <= DATABASE_EVENT_GRACE_MS
+    );
+    return this.triggeredRuns.reduce((depth, run) => Math.max(depth, run.depth), 0);
+  }
+
+  /**
+   * Install row triggers on tables referenced by database triggers and LISTEN for their events
+   *
+   * Row triggers on tables no workflow references anymore are dropped.
+   */
+  private async watchTables(pool: Pool): Promise<void> {
+    const tables = new Set<string>();
+    for (const workflow of this.workflows) {
+      for (const trigger of workflow.triggers) {
+        if (trigger.source.startsWith('database:')) {
+          tables.add(trigger.source.substring('database:'.length));
+        }
+      }
+    }
+
+    // Includes triggers left over from earlier sessions
+    const existing = await pool.query<{ table_name: string; name: string }>(
+      `SELECT tgrelid::regclass::text AS table_name, c.relname AS name
+       FROM pg_trigger t JOIN pg_class c ON c.oid = t.tgrelid
+       WHERE t.tgname = $1`,
+      [TABLE_TRIGGER_NAME]
+    );
+    for (const row of existing.rows) {
+      if (tables.has(row.name)) continue;
+      // regclass text is already a quoted, schema-qualified-if-needed identifier
+      await pool.query(`DROP TRIGGER IF EXISTS ${TABLE_TRIGGER_NAME} ON ${row.table_name}`);
+      logWithCategory('info', LogCategory.SYSTEM, `Removed workflow event trigger from table ${row.table_name}`);
+    }
+    for (const table of Array.from(this.watchedTables)) {
+      if (!tables.has(table)) {
+        this.watchedTables.delete(table);
+      }
+    }
+
+    for (const table of tables) {
+      if (this.watchedTables.has(table)) continue;
+      if (!/^[a-z_][a-z0-9_]*$/.test(table)) {
+        logWithCategory('warn', LogCategory.SYSTEM, `Ignoring invalid table name in workflow trigger: ${table}`);
+        continue;
+      }
+
+      const exists = await pool.query(`SELECT to_regclass($1) AS oid`, [table]);
+      if (!exists.rows[0].oid) {
+        logWithCategory('warn', LogCategory.SYSTEM, `Workflow trigger references missing table: ${table}`);
+        continue;
+      }
+
+      const installed = await pool.query(
+        `SELECT 1 FROM pg_trigger WHERE tgname = $1 AND tgrelid = to_regclass($2)`,
+        [TABLE_TRIGGER_NAME, table]
+      );
+      if (installed.rowCount === 0) {
+        // Table name is validated above; identifiers can't be parameterized
+        await pool.query(
+          `CREATE TRIGGER ${TABLE_TRIGGER_NAME}
+           AFTER INSERT OR UPDATE OR DELETE ON ${table}
+           FOR EACH ROW EXECUTE FUNCTION notify_workflow_table_event()`
+        );
+        logWithCategory('info', LogCategory.SYSTEM, `Installed workflow event trigger on table ${table}`);
+      }
+
+      this.watchedTables.add(table);
+    }
+
+    if (this.watchedTables.size > 0 && !this.listenClient) {
+      await this.listen(pool);
+    } else if (this.watchedTables.size === 0) {
+      await this.unlisten();
+    }
+  }
+
+  /**
+   * Hold a dedicated connection that LISTENs for table events
+   *
+   * On failure the connection is released and LISTEN retried until it works.
+   */
+  private async listen(pool: Pool): Promise<void> {
+    let client: PoolClient;
+    try {
+      client = await pool.connect();
+    } catch (error) {
+      this.scheduleListenRetry(pool);
+      throw error;
+    }
+    this.listenClient = client;
+
+    client.on('notification', (message) => {
+      if (message.channel !== TABLE_EVENTS_CHANNEL || !message.payload) return;
+      try {
+        const { table, operation, ...payload } = JSON.parse(message.payload);
+        runWithEventDepth(this.getDatabaseEventDepth(), () => {
+          eventBus.publish(`database:${table}`, operation, { table, operation, ...payload });
+        });
+      } catch (error) {
+        logWithCategory('warn', LogCategory.SYSTEM, 'Invalid table event notification:', error);
+      }
+    });
+
+    client.on('error', (error) => {
+      logWithCategory('error', LogCategory.SYSTEM, 'Workflow table event connection lost:', error);
+      if (this.releaseListenClient(client, error)) {
+        this.scheduleListenRetry(pool);
+      }
+    });
+
+    try {
+      await client.query(`LISTEN ${TABLE_EVENTS_CHANNEL}`);
+    } catch (error: any) {
+      if (this.releaseListenClient(client, error)) {
+        this.scheduleListenRetry(pool);
+      }
+      throw error;
+    }
+    logWithCategory('info', LogCategory.SYSTEM, 'Listening for workflow table events');
+  }
+
+  /**
+   * Stop listening and release the connection
+   */
+  private async unlisten(): Promise<void> {
+    const client = this.listenClient;
+    if (!client) {
+      return;
+    }
+
+    this.listenClient = null;
+    try {
+      await client.query(`UNLISTEN ${TABLE_EVENTS_CHANNEL}`);
+    } catch {
+      // Connection may already be gone
+    }
+    client.release();
+  }
+
+  /**
+   * Release the LISTEN connection after an error
+   *
+   * @returns false if the client was already replaced or released
+   */
+  private releaseListenClient(client: PoolClient, error: Error): boolean {
+    if (this.listenClient !== client) {
+      return false;
+    }
+    this.listenClient = null;
+    client.release(error);
+    return true;
+  }
+
+  private scheduleListenRetry(pool: Pool): void {
+    if (this.listenRetryTimer || !this.unsubscribe) {
+      return;
+    }
+
+    this.listenRetryTimer = setTimeout(() => {
+      this.listenRetryTimer = null;
+      if (this.unsubscribe && !this.listenClient && this.watchedTables.size > 0) {
+        // listen() schedules the next attempt if this one fails
+        this.listen(pool).catch((retryError) => {
+          logWithCategory('error', LogCategory.SYSTEM,
+            `Failed to re-listen for table events; retrying in ${LISTEN_RETRY_MS / 1000}s:`, retryError
+          );
+        });
+      }
+    }, LISTEN_RETRY_MS);
+  }
+}
+
+// Export singleton instance
+export const workflowTriggerManager = new WorkflowTriggerManager();
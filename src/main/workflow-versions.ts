@@ -0,0 +1,131 @@
+/**
+ * Workflow Versions
+ *
+ * Every change to a workflow's name, description or steps is stored as a new
+ * revision in workflow_versions (see migration 011), and each run records the
+ * version it executed (workflow_runs.workflow_version). This module compares
+ * two revisions.
+ *
+ * Step positions are builder layout, not behaviour, so they are left out of
+ * the comparison.
+ */
+
+import type { WorkflowStep } from './workflow-engine';
+
+/**
+ * A stored revision of a workflow (workflow_versions row)
+ */
+export interface WorkflowVersion {
+  workflowId: string;
+  version: number;
+  name: string;
+  description: string | null;
+  steps: WorkflowStep[];
+  createdAt: string;
+}
+
+/**
+ * A changed field of a workflow or step
+ */
+export interface WorkflowFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Differences between two revisions of a workflow
+ */
+export interface WorkflowVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  /** Changes to the workflow's name and description */
+  changes: WorkflowFieldChange[];
+  addedSteps: WorkflowStep[];
+  removedSteps: WorkflowStep[];
+  changedSteps: Array<{ stepId: string; changes: WorkflowFieldChange[] }>;
+  /** The steps both revisions have are in a different order */
+  reordered: boolean;
+}
+
+/** Step fields ignored when comparing revisions */
+const LAYOUT_FIELDS = new Set(['position']);
+
+/**
+ * Compare two revisions of a workflow
+ */
+export function diffWorkflowVersions(from: WorkflowVersion, to: WorkflowVersion): WorkflowVersionDiff {
+  const changes: WorkflowFieldChange[] = [];
+  if (from.name !== to.name) {
+    changes.push({ field: 'name', from: from.name, to: to.name });
+  }
+  if ((from.description || null) !== (to.description || null)) {
+    changes.push({ field: 'description', from: from.description, to: to.description });
+  }
+
+  const fromSteps = new Map(from.steps.map(step => [step.id, step]));
+  const toSteps = new Map(to.steps.map(step => [step.id, step]));
+
+  const changedSteps: WorkflowVersionDiff['changedSteps'] = [];
+  for (const step of to.steps) {
+    const previous = fromSteps.get(step.id);
+    if (!previous) continue;
+    const stepChanges = diffSteps(previous, step);
+    if (stepChanges.length > 0) {
+      changedSteps.push({ stepId: step.id, changes: stepChanges });
+    }
+  }
+
+  const keptOrder = (steps: WorkflowStep[], other: Map<string, WorkflowStep>) =>
+    steps.filter(step => other.has(step.id)).map(step => step.id);
+  const fromOrder = keptOrder(from.steps, toSteps);
+  const toOrder = keptOrder(to.steps, fromSteps);
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes,
+    addedSteps: to.steps.filter(step => !fromSteps.has(step.id)),
+    removedSteps: from.steps.filter(step => !toSteps.has(step.id)),
+    changedSteps,
+    reordered: fromOrder.some((id, index) => toOrder[index] !== id),
+  };
+}
+
+/**
+ * Compare the fields of two versions of a step
+ */
+function diffSteps(from: WorkflowStep, to: WorkflowStep): WorkflowFieldChange[] {
+  const fromFields: Record<string, unknown> = { ...from };
+  const toFields: Record<string, unknown> = { ...to };
+  const fields = new Set([...Object.keys(fromFields), ...Object.keys(toFields)]);
+  const changes: WorkflowFieldChange[] = [];
+
+  for (const field of fields) {
+    if (LAYOUT_FIELDS.has(field)) continue;
+    const before = fromFields[field];
+    const after = toFields[field];
+    if (!isEqual(before, after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Structural equality of JSON values (object key order is ignored)
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+
+  const keys = Object.keys(a).filter(key => a[key] !== undefined);
+  const otherKeys = Object.keys(b).filter(key => b[key] !== undefined);
+  return keys.length === otherKeys.length && keys.every(key => isEqual(a[key], b[key]));
+}
@@ -1409,12 +1409,27 @@ contextBridge.exposeInMainWorld('electronAPI', {
     },
 
     /**
-     * Import a workflow from a JSON file
+     * Import a workflow from a JSON or YAML file
      * Returns the workflow ID
      */
     workflow: (path: string): Promise<string> => {
       return ipcRenderer.invoke('import:workflow', path);
     },
+
+    /**
+     * List what importing a workflow package would install or overwrite (changes nothing)
+     */
+    planWorkflowPackage: (path: string): Promise<any> => {
+      return ipcRenderer.invoke('import:plan-workflow-package', path);
+    },
+
+    /**
+     * Import a workflow package: install its agents and skills, then the workflow
+     * Returns { workflowId, plan }
+     */
+    workflowPackage: (path: string): Promise<{ workflowId: string; plan: any }> => {
+      return ipcRenderer.invoke('import:workflow-package', path);
+    },
   },
 
   /**
@@ -1427,6 +1442,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
     showOpenDialog: (options: any): Promise<any> => {
       return ipcRenderer.invoke('dialog:show-open-dialog', options);
     },
+
+    /**
+     * Show save dialog
+     */
+    showSaveDialog: (options: any): Promise<{ canceled: boolean; filePath?: string }> => {
+      return ipcRenderer.invoke('dialog:show-save-dialog', options);
+    },
   },
 
   /**
@@ -2076,6 +2098,35 @@ contextBridge.exposeInMainWorld('electronAPI', {
       return ipcRenderer.invoke('plugin:list');
     },
 
+    /**
+     * Get the permissions of every loaded plugin and whether each is granted
+     */
+    getPermissions: (): Promise<{ success: boolean; plugins?: any[]; error?: string }> => {
+      return ipcRenderer.invoke('plugins:get-permissions');
+    },
+
+    /**
+     * Grant or revoke one of a plugin's permissions (reloads the plugin)
+     */
+    setPermission: (pluginId: string, key: string, granted: boolean): Promise<{ success: boolean; message?: string; error?: string }> => {
+      return ipcRenderer.invoke('plugins:set-permission', pluginId, key, granted);
+    },
+
+    /**
+     * List registered plugin actions (optionally for one plugin)
+     */
+    listActions: (pluginId?: string): Promise<any[]> => {
+      return ipcRenderer.invoke('plugins:list-actions', pluginId);
+    },
+
+    /**
+     * Invoke a plugin action
+     * Input is validated against the action's input schema
+     */
+    invokeAction: (pluginId: string, action: string, input?: any): Promise<any> => {
+      return ipcRenderer.invoke('plugins:invoke-action', pluginId, action, input);
+    },
+
     /**
      * Show a plugin view (DEPRECATED - kept for compatibility)
      * @deprecated Use ViewRouter navigation instead
@@ -2144,7 +2195,29 @@ contextBridge.exposeInMainWorld('electronAPI', {
     },
 
     /**
-     * Cancel a running workflow
+     * Resume a failed workflow run from the failing step
+     * Completed steps are skipped; variableOverrides replace context variables
+     */
+    resume: (runId: string, variableOverrides?: Record<string, any>): Promise<any> => {
+      return ipcRenderer.invoke('workflows:resume', runId, variableOverrides);
+    },
+
+    /**
+     * Approve or reject the step a paused run is waiting on; the run then continues
+     */
+    decideApproval: (runId: string, decision: 'approved' | 'rejected', comment?: string): Promise<any> => {
+      return ipcRenderer.invoke('workflows:decide-approval', runId, decision, comment);
+    },
+
+    /**
+     * Get the paused runs waiting for an approval decision
+     */
+    getPendingApprovals: (): Promise<any[]> => {
+      return ipcRenderer.invoke('workflows:get-pending-approvals');
+    },
+
+    /**
+     * Cancel a running or paused workflow
      */
     cancel: (runId: string): Promise<any> => {
       return ipcRenderer.invoke('workflows:cancel', runId);
@@ -2157,6 +2230,48 @@ contextBridge.exposeInMainWorld('electronAPI', {
       return ipcRenderer.invoke('workflows:get-runs', workflowId, limit);
     },
 
+    /**
+     * Get the nested runs (loop iterations, sub-workflows) started by a run
+     */
+    getChildRuns: (runId: string): Promise<any[]> => {
+      return ipcRenderer.invoke('workflows:get-child-runs', runId);
+    },
+
+    /**
+     * Get the checkpoints (context saved after each step) of a run
+     */
+    getCheckpoints: (runId: string): Promise<any[]> => {
+      return ipcRenderer.invoke('workflows:get-checkpoints', runId);
+    },
+
+    /**
+     * Start a new run from a checkpoint; steps done at that point are skipped
+     */
+    forkRun: (checkpointId: string, variableOverrides?: Record<string, any>): Promise<any> => {
+      return ipcRenderer.invoke('workflows:fork-run', checkpointId, variableOverrides);
+    },
+
+    /**
+     * Get the quality gate history of a run (including its nested runs)
+     */
+    getGateResults: (runId: string): Promise<any[]> => {
+      return ipcRenderer.invoke('workflows:get-gate-results', runId);
+    },
+
+    /**
+     * Listen for live run progress (step started/completed/failed, variable changes)
+     */
+    onProgress: (callback: (event: any) => void): void => {
+      ipcRenderer.on('workflows:progress', (_, event) => callback(event));
+    },
+
+    /**
+     * Remove run progress listener
+     */
+    removeProgressListener: (): void => {
+      ipcRenderer.removeAllListeners('workflows:progress');
+    },
+
     /**
      * Delete a workflow
      */
@@ -2177,6 +2292,63 @@ contextBridge.exposeInMainWorld('electronAPI', {
     update: (workflowId: string, updates: any): Promise<any> => {
       return ipcRenderer.invoke('workflows:update', workflowId, updates);
     },
+
+    /**
+     * List the revisions of a workflow (newest first)
+     */
+    getVersions: (workflowId: string): Promise<any[]> => {
+      return ipcRenderer.invoke('workflows:get-versions', workflowId);
+    },
+
+    /**
+     * Get the definition of a workflow at one revision
+     */
+    getVersion: (workflowId: string, version: number): Promise<any> => {
+      return ipcRenderer.invoke('workflows:get-version', workflowId, version);
+    },
+
+    /**
+     * Compare two revisions of a workflow (added, removed and changed steps)
+     */
+    compareVersions: (workflowId: string, fromVersion: number, toVersion: number): Promise<any> => {
+      return ipcRenderer.invoke('workflows:compare-versions', workflowId, fromVersion, toVersion);
+    },
+
+    /**
+     * Restore an earlier revision of a workflow (saved as a new revision)
+     */
+    restoreVersion: (workflowId: string, version: number): Promise<any> => {
+      return ipcRenderer.invoke('workflows:restore-version', workflowId, version);
+    },
+
+    /**
+     * Export a workflow with the agents and skills it refers to as a package file
+     * Returns the package manifest
+     */
+    exportPackage: (workflowId: string, destinationPath: string): Promise<any> => {
+      return ipcRenderer.invoke('workflows:export-package', workflowId, destinationPath);
+    },
+
+    /**
+     * Get a workflow as a graph for the workflow builder
+     */
+    getGraph: (workflowId: string): Promise<any> => {
+      return ipcRenderer.invoke('workflows:get-graph', workflowId);
+    },
+
+    /**
+     * Validate a builder graph; returns { errors, warnings }
+     */
+    validateGraph: (graph: any): Promise<{ errors: string[]; warnings: string[] }> => {
+      return ipcRenderer.invoke('workflows:validate-graph', graph);
+    },
+
+    /**
+     * Save a builder graph as a new workflow (workflowId null) or as the next version of one
+     */
+    saveGraph: (workflowId: string | null, workflow: { name: string; description?: string; graph: any }): Promise<any> => {
+      return ipcRenderer.invoke('workflows:save-graph', workflowId, workflow);
+    },
   },
 
   /**
@@ -84,6 +84,7 @@ export class Sidebar {
           { id: 'settings-database', label: 'Database', icon: '' },
           { id: 'settings-services', label: 'Services', icon: '' },
           { id: 'settings-logs', label: 'Logs', icon: '' },
+          { id: 'settings-plugin-permissions', label: 'Plugin Permissions', icon: '' },
         ],
       },
 
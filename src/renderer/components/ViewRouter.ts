@@ -74,10 +74,12 @@ export class ViewRouter {
       const { DatabaseView } = await import('../views/DatabaseView.js');
       const { ServicesView } = await import('../views/ServicesView.js');
       const { LogsView } = await import('../views/LogsView.js');
+      const { PluginPermissionsView } = await import('../views/PluginPermissionsView.js');
       this.registerView('settings-setup', SetupView);
       this.registerView('settings-database', DatabaseView);
       this.registerView('settings-services', ServicesView);
       this.registerView('settings-logs', LogsView);
+      this.registerView('settings-plugin-permissions', PluginPermissionsView);
 
       // New views
       const { PluginsLauncher } = await import('../views/PluginsLauncher.js');
@@ -262,6 +264,7 @@ export class ViewRouter {
       'settings-database': 'Database',
       'settings-services': 'Services',
       'settings-logs': 'Logs',
+      'settings-plugin-permissions': 'Plugin Permissions',
       'help': 'Help',
       'about': 'About',
     };
@@ -0,0 +1,1065 @@
+/**
+ * WorkflowBuilder Component
+ * Canvas editor for workflow steps
+ *
+ * Features:
+ * - Palette of registered plugin actions (grouped by plugin) and built-in
+ *   step types, dragged onto the canvas to add steps
+ * - Node dragging and edge wiring (output port → input port); an edge means
+ *   "target depends on source"
+ * - Properties panel for the selected step: config and outputMapping are
+ *   edited as JSON and checked as you type
+ * - Validation and saving through the main process (see workflow-graph.ts);
+ *   saving an existing workflow bumps its version
+ *
+ * Loop bodies (foreach/while) are kept as they are; only the loop's own
+ * fields can be edited here.
+ */
+
+export interface WorkflowBuilderEvents {
+  onSaved?: (workflow: { id: string; name: string; version: number }) => void;
+  onClose?: () => void;
+}
+
+/**
+ * Step definition carried by a node (see WorkflowStep in workflow-engine.ts)
+ */
+interface StepDefinition {
+  id: string;
+  name: string;
+  type?: string;
+  pluginId?: string;
+  action?: string;
+  config: Record<string, any>;
+  outputMapping?: Record<string, string>;
+  condition?: string;
+  onError?: string;
+  [field: string]: any;
+}
+
+/**
+ * Builder graph (see WorkflowGraph in types/workflow.ts)
+ */
+interface BuilderNode {
+  id: string;
+  type: string;
+  label: string;
+  agent: string;
+  skill?: string;
+  data: { step: StepDefinition; [key: string]: any };
+  position: { x: number; y: number };
+}
+
+interface BuilderEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: 'sequential' | 'conditional' | 'loop';
+  condition?: string;
+  label?: string;
+}
+
+interface BuilderGraph {
+  nodes: BuilderNode[];
+  edges: BuilderEdge[];
+  metadata: { workflowId: string; workflowName: string; version: string };
+}
+
+interface PluginAction {
+  pluginId: string;
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: { required?: string[]; properties?: Record<string, { type?: string | string[]; description?: string }> };
+}
+
+/**
+ * Palette entry dropped on the canvas
+ */
+interface StepTemplate {
+  type: string;
+  label: string;
+  pluginId?: string;
+  action?: string;
+}
+
+type Selection = { kind: 'node' | 'edge'; id: string } | null;
+
+/** Node size on the canvas (matches .builder-node in workflows.css) */
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 64;
+
+/** Margin kept around the nodes when sizing the canvas */
+const CANVAS_MARGIN = 400;
+
+const BUILT_IN_STEPS: StepTemplate[] = [
+  { type: 'gate', label: 'Quality Gate' },
+  { type: 'approval', label: 'Approval' },
+  { type: 'subworkflow', label: 'Sub-workflow' },
+];
+
+/** Node type shown for each step type (see PHASE_TYPES in workflow-graph.ts) */
+const NODE_TYPES: Record<string, string> = {
+  action: 'action',
+  gate: 'gate',
+  approval: 'user',
+  foreach: 'loop',
+  while: 'loop',
+  subworkflow: 'subworkflow',
+};
+
+const STEP_ICONS: Record<string, string> = {
+  action: '⚙️',
+  gate: '🚦',
+  approval: '✋',
+  foreach: '🔁',
+  while: '🔁',
+  subworkflow: '📦',
+};
+
+export class WorkflowBuilder {
+  private container: HTMLElement;
+  private events: WorkflowBuilderEvents;
+  private workflowId: string | null = null;
+  private name: string = '';
+  private description: string = '';
+  private graph: BuilderGraph = this.emptyGraph();
+  private actions: PluginAction[] = [];
+  private workflows: Array<{ id: string; name: string }> = [];
+  private selection: Selection = null;
+  private dirty: boolean = false;
+  /** Field → parse error of the selected step's JSON fields */
+  private fieldErrors: Map<string, string> = new Map();
+  private validation: { errors: string[]; warnings: string[] } | null = null;
+  private saving: boolean = false;
+
+  /** Active mouse gesture on the canvas */
+  private drag: { nodeId: string; offsetX: number; offsetY: number; moved: boolean } | null = null;
+  private wiring: { sourceId: string; x: number; y: number } | null = null;
+  /** Set when a gesture re-rendered the canvas, so the click that ends it is ignored */
+  private suppressClick: boolean = false;
+
+  private readonly onMouseMove = (e: MouseEvent) => this.handleMouseMove(e);
+  private readonly onMouseUp = (e: MouseEvent) => this.handleMouseUp(e);
+
+  constructor(container: HTMLElement, events: WorkflowBuilderEvents = {}) {
+    this.container = container;
+    this.events = events;
+    this.container.tabIndex = -1;
+    this.container.addEventListener('click', (e) => this.handleClick(e));
+    this.container.addEventListener('input', (e) => this.handleInput(e));
+    this.container.addEventListener('change', (e) => this.handleChange(e));
+    this.container.addEventListener('keydown', (e) => this.handleKeyDown(e));
+    this.container.addEventListener('mousedown', (e) => this.handleMouseDown(e));
+    this.container.addEventListener('dragstart', (e) => this.handleDragStart(e));
+    this.container.addEventListener('dragover', (e) => this.handleDragOver(e));
+    this.container.addEventListener('drop', (e) => this.handleDrop(e));
+  }
+
+  /**
+   * Open a workflow, or an empty canvas for a new workflow
+   *
+   * @param workflows Workflows that sub-workflow steps can run
+   */
+  public async open(
+    workflow: { id: string; name: string; description?: string | null } | null,
+    workflows: Array<{ id: string; name: string }> = []
+  ): Promise<void> {
+    this.workflowId = workflow?.id ?? null;
+    this.name = workflow?.name ?? '';
+    this.description = workflow?.description ?? '';
+    this.workflows = workflows.filter(w => w.id !== this.workflowId);
+    this.selection = null;
+    this.dirty = false;
+    this.validation = null;
+    this.fieldErrors.clear();
+
+    this.container.innerHTML = '<div class="workflow-builder"><div class="history-loading">Loading workflow...</div></div>';
+
+    const electronAPI = (window as any).electronAPI;
+    try {
+      this.actions = await electronAPI.plugins.listActions();
+    } catch (error) {
+      console.error('[WorkflowBuilder] Failed to load plugin actions:', error);
+      this.actions = [];
+    }
+
+    try {
+      this.graph = this.workflowId ? await electronAPI.workflows.getGraph(this.workflowId) : this.emptyGraph();
+      // Error routes are drawn from each step's onError policy
+      this.graph.edges = this.graph.edges.filter(edge => edge.type !== 'loop');
+    } catch (error) {
+      console.error('[WorkflowBuilder] Failed to load workflow graph:', error);
+      this.validation = { errors: [error instanceof Error ? error.message : 'Failed to load workflow'], warnings: [] };
+      this.graph = this.emptyGraph();
+    }
+
+    this.render();
+    this.container.focus();
+  }
+
+  /**
+   * Close the builder, asking first if there are unsaved changes
+   */
+  public close(): void {
+    if (this.dirty && !confirm('Discard unsaved changes to this workflow?')) {
+      return;
+    }
+    window.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('mouseup', this.onMouseUp);
+    this.events.onClose?.();
+  }
+
+  // ========================================
+  // Rendering
+  // ========================================
+
+  private render(): void {
+    const version = this.workflowId ? `v${this.escapeHtml(this.graph.metadata.version)}` : 'new';
+
+    this.container.innerHTML = `
+      <div class="workflow-builder">
+        <div class="builder-toolbar">
+          <input class="builder-name" data-workflow-field="name" placeholder="Workflow name" value="${this.escapeHtml(this.name)}" />
+          <input class="builder-description" data-workflow-field="description" placeholder="Description" value="${this.escapeHtml(this.description)}" />
+          <span class="builder-version">${version}</span>
+          <button class="workflow-action-btn" data-builder-action="validate">✔ Validate</button>
+          <button class="workflow-action-btn primary" data-builder-action="save">💾 Save</button>
+          <button class="workflow-action-btn" data-builder-action="close">✕</button>
+        </div>
+        <div class="builder-body">
+          <div class="builder-palette">${this.renderPalette()}</div>
+          <div class="builder-canvas">
+            <div class="builder-surface"></div>
+          </div>
+          <div class="builder-properties"></div>
+        </div>
+        <div class="builder-validation"></div>
+      </div>
+    `;
+
+    this.renderCanvas();
+    this.renderProperties();
+    this.renderValidation();
+  }
+
+  private renderPalette(): string {
+    const byPlugin = new Map<string, PluginAction[]>();
+    for (const action of this.actions) {
+      const list = byPlugin.get(action.pluginId) || [];
+      list.push(action);
+      byPlugin.set(action.pluginId, list);
+    }
+
+    const groups = Array.from(byPlugin.entries()).map(([pluginId, actions]) => `
+      <div class="builder-palette-group">
+        <div class="builder-palette-title">${this.escapeHtml(pluginId)}</div>
+        ${actions.map(action => this.renderPaletteItem({
+          type: 'action',
+          label: action.title || action.name,
+          pluginId: action.pluginId,
+          action: action.name,
+        }, action.description)).join('')}
+      </div>
+    `).join('');
+
+    return `
+      <div class="builder-palette-group">
+        <div class="builder-palette-title">Steps</div>
+        ${BUILT_IN_STEPS.map(template => this.renderPaletteItem(template)).join('')}
+      </div>
+      ${groups || '<div class="builder-hint">No plugin actions registered. Activate plugins to use their actions.</div>'}
+    `;
+  }
+
+  private renderPaletteItem(template: StepTemplate, description?: string): string {
+    return `
+      <div class="builder-palette-item" draggable="true"
+           data-template="${this.escapeHtml(JSON.stringify(template))}"
+           title="${this.escapeHtml(description || template.label)}">
+        ${STEP_ICONS[template.type] || '⚙️'} ${this.escapeHtml(template.label)}
+      </div>
+    `;
+  }
+
+  /**
+   * Render nodes and edges (keeps the scroll position of the canvas)
+   */
+  private renderCanvas(): void {
+    const surface = this.container.querySelector('.builder-surface') as HTMLElement | null;
+    if (!surface) return;
+
+    this.resizeSurface(surface);
+    surface.innerHTML = `
+      <svg class="builder-edges">${this.renderEdges()}</svg>
+      ${this.graph.nodes.map(node => this.renderNode(node)).join('')}
+      ${this.graph.nodes.length === 0
+        ? '<div class="builder-empty">Drag steps from the palette to start building the workflow.</div>'
+        : ''}
+    `;
+  }
+
+  /**
+   * Size the canvas to its nodes plus a margin to drop and drag into
+   */
+  private resizeSurface(surface: HTMLElement): void {
+    const width = Math.max(...this.graph.nodes.map(node => node.position.x + NODE_WIDTH), 0) + CANVAS_MARGIN;
+    const height = Math.max(...this.graph.nodes.map(node => node.position.y + NODE_HEIGHT), 0) + CANVAS_MARGIN;
+    surface.style.width = `${Math.max(width, 1600)}px`;
+    surface.style.height = `${Math.max(height, 1000)}px`;
+  }
+
+  private renderNode(node: BuilderNode): string {
+    const step = node.data.step;
+    const type = step.type || 'action';
+    const selected = this.selection?.kind === 'node' && this.selection.id === node.id;
+    const detail = step.pluginId && step.action
+      ? `${step.pluginId}.${step.action}`
+      : step.mcpServer && step.tool ? `${step.mcpServer}.${step.tool}` : type;
+
+    return `
+      <div class="builder-node ${this.escapeHtml(node.type)} ${selected ? 'selected' : ''}"
+           data-node-id="${this.escapeHtml(node.id)}"
+           style="left: ${node.position.x}px; top: ${node.position.y}px;">
+        <span class="builder-port input" data-port="input"></span>
+        <div class="builder-node-label">${STEP_ICONS[type] || '⚙️'} ${this.escapeHtml(node.label)}</div>
+        <div class="builder-node-detail">${this.escapeHtml(detail)}</div>
+        ${step.condition ? '<div class="builder-node-badge" title="Runs only when its condition holds">if</div>' : ''}
+        <span class="builder-port output" data-port="output"></span>
+      </div>
+    `;
+  }
+
+  private renderEdges(): string {
+    const positions = new Map(this.graph.nodes.map(node => [node.id, node.position]));
+    const steps = new Map(this.graph.nodes.map(node => [node.id, node.data.step]));
+    const paths: string[] = [];
+
+    for (const edge of this.graph.edges) {
+      const source = positions.get(edge.source);
+      const target = positions.get(edge.target);
+      if (!source || !target) continue;
+
+      const selected = this.selection?.kind === 'edge' && this.selection.id === edge.id;
+      const conditional = Boolean(steps.get(edge.target)?.condition);
+      const d = this.edgePath(source.x + NODE_WIDTH, source.y + NODE_HEIGHT / 2, target.x, target.y + NODE_HEIGHT / 2);
+      paths.push(`
+        <path class="builder-edge-hit" data-edge-id="${this.escapeHtml(edge.id)}" d="${d}" />
+        <path class="builder-edge ${conditional ? 'conditional' : ''} ${selected ? 'selected' : ''}" d="${d}" />
+      `);
+    }
+
+    // Error routes (onError: 'goto:<stepId>'), drawn under the nodes
+    for (const node of this.graph.nodes) {
+      const onError = node.data.step.onError;
+      if (!onError || !onError.startsWith('goto:')) continue;
+      const source = node.position;
+      const target = positions.get(onError.substring('goto:'.length));
+      if (!target) continue;
+
+      const d = `M ${source.x + NODE_WIDTH / 2} ${source.y + NODE_HEIGHT}
+                 C ${source.x + NODE_WIDTH / 2} ${source.y + NODE_HEIGHT + 80},
+                   ${target.x + NODE_WIDTH / 2} ${target.y + NODE_HEIGHT + 80},
+                   ${target.x + NODE_WIDTH / 2} ${target.y + NODE_HEIGHT}`;
+      paths.push(`<path class="builder-edge error-route" d="${d}"><title>On error</title></path>`);
+    }
+
+    if (this.wiring) {
+      const source = positions.get(this.wiring.sourceId);
+      if (source) {
+        const d = this.edgePath(source.x + NODE_WIDTH, source.y + NODE_HEIGHT / 2, this.wiring.x, this.wiring.y);
+        paths.push(`<path class="builder-edge wiring" d="${d}" />`);
+      }
+    }
+
+    return paths.join('');
+  }
+
+  private edgePath(x1: number, y1: number, x2: number, y2: number): string {
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  }
+
+  /**
+   * Render the properties of the selected node or edge
+   */
+  private renderProperties(): void {
+    const panel = this.container.querySelector('.builder-properties') as HTMLElement | null;
+    if (!panel) return;
+
+    if (this.selection?.kind === 'edge') {
+      const edge = this.graph.edges.find(e => e.id === this.selection!.id);
+      panel.innerHTML = edge ? `
+        <h4>Dependency</h4>
+        <p class="builder-hint">"${this.escapeHtml(edge.target)}" runs after "${this.escapeHtml(edge.source)}".</p>
+        <button class="workflow-action-btn danger" data-builder-action="delete-selection">🗑️ Remove</button>
+      ` : '';
+      return;
+    }
+
+    const node = this.selectedNode();
+    if (!node) {
+      panel.innerHTML = `
+        <h4>Properties</h4>
+        <p class="builder-hint">Select a step to edit it. Connect a step's right port to another step's left port to make the second step wait for the first.</p>
+      `;
+      return;
+    }
+
+    const step = node.data.step;
+    const type = step.type || 'action';
+    const otherIds = this.graph.nodes.filter(n => n.id !== node.id).map(n => n.id);
+    const onErrorOptions = ['fail', 'continue', ...otherIds.map(id => `goto:${id}`)];
+
+    panel.innerHTML = `
+      <h4>${STEP_ICONS[type] || '⚙️'} ${this.escapeHtml(type)} step</h4>
+      ${this.renderTextField('id', 'ID', step.id)}
+      ${this.renderTextField('name', 'Name', step.name)}
+      ${this.renderTypeFields(step)}
+      ${this.renderTextField('condition', 'Condition', step.condition, 'e.g. {{step-1.approved}} == true')}
+      <label class="builder-field">
+        <span>On error</span>
+        <select data-step-field="onError">
+          ${onErrorOptions.map(option => `
+            <option value="${this.escapeHtml(option)}" ${(step.onError || 'fail') === option ? 'selected' : ''}>${this.escapeHtml(option)}</option>
+          `).join('')}
+        </select>
+      </label>
+      ${this.renderJsonField('config', type === 'subworkflow' ? 'Variables' : 'Config', step.config || {})}
+      ${this.renderInputHints(step)}
+      ${this.renderJsonField('outputMapping', 'Output mapping', step.outputMapping || {},
+        'Variable name → JSONPath into the step output, e.g. { "outline": "$.outline" }')}
+      <button class="workflow-action-btn danger" data-builder-action="delete-selection">🗑️ Delete step</button>
+    `;
+  }
+
+  private renderTypeFields(step: StepDefinition): string {
+    switch (step.type || 'action') {
+      case 'action':
+        return this.renderActionSelect(step);
+      case 'gate':
+        return `
+          ${step.mcpServer
+            ? `${this.renderTextField('mcpServer', 'MCP server', step.mcpServer)}${this.renderTextField('tool', 'Tool', step.tool)}`
+            : this.renderActionSelect(step)}
+          ${this.renderTextField('gateCondition', 'Pass condition', step.gateCondition, 'e.g. score >= 80')}
+          ${this.renderTextField('scorePath', 'Score path', step.scorePath, 'score')}
+          ${this.renderTextField('gateType', 'Gate type', step.gateType, 'e.g. npe_validation')}
+        `;
+      case 'approval':
+        return this.renderTextField('prompt', 'Prompt', step.prompt, 'Question shown to the reviewer');
+      case 'subworkflow':
+        return `
+          <label class="builder-field">
+            <span>Workflow</span>
+            <select data-step-field="workflowId">
+              <option value="">Select a workflow...</option>
+              ${this.workflows.map(workflow => `
+                <option value="${this.escapeHtml(workflow.id)}" ${step.workflowId === workflow.id ? 'selected' : ''}>${this.escapeHtml(workflow.name)}</option>
+              `).join('')}
+            </select>
+          </label>
+        `;
+      case 'foreach':
+        return `
+          ${this.renderTextField('items', 'Items', step.items, 'e.g. {{step-1.chapters}}')}
+          ${this.renderTextField('itemVariable', 'Item variable', step.itemVariable, 'item')}
+          <p class="builder-hint">Loop body: ${(step.steps || []).length} step(s)</p>
+        `;
+      case 'while':
+        return `
+          ${this.renderTextField('while', 'While', step.while)}
+          ${this.renderTextField('maxIterations', 'Max iterations', step.maxIterations?.toString(), '100')}
+          <p class="builder-hint">Loop body: ${(step.steps || []).length} step(s)</p>
+        `;
+      default:
+        return '';
+    }
+  }
+
+  private renderActionSelect(step: StepDefinition): string {
+    const current = step.pluginId && step.action ? `${step.pluginId}:${step.action}` : '';
+    const registered = this.actions.some(action => `${action.pluginId}:${action.name}` === current);
+
+    return `
+      <label class="builder-field">
+        <span>Plugin action</span>
+        <select data-step-field="pluginAction">
+          <option value="">Select an action...</option>
+          ${current && !registered
+            ? `<option value="${this.escapeHtml(current)}" selected>${this.escapeHtml(`${step.pluginId}.${step.action}`)} (not registered)</option>`
+            : ''}
+          ${this.actions.map(action => {
+            const value = `${action.pluginId}:${action.name}`;
+            return `<option value="${this.escapeHtml(value)}" ${value === current ? 'selected' : ''}>${this.escapeHtml(`${action.pluginId}.${action.name}`)}</option>`;
+          }).join('')}
+        </select>
+      </label>
+    `;
+  }
+
+  /**
+   * List the inputs declared by the step's action
+   */
+  private renderInputHints(step: StepDefinition): string {
+    const action = this.findAction(step);
+    const properties = action?.inputSchema?.properties;
+    if (!properties || Object.keys(properties).length === 0) {
+      return '';
+    }
+
+    const required = new Set(action!.inputSchema!.required || []);
+    return `
+      <div class="builder-hint">
+        Inputs:
+        ${Object.entries(properties).map(([name, schema]) => `
+          <div>
+            <code>${this.escapeHtml(name)}</code>${required.has(name) ? '*' : ''}
+            ${schema.type ? `<span>(${this.escapeHtml(([] as string[]).concat(schema.type).join(' | '))})</span>` : ''}
+            ${schema.description ? `— ${this.escapeHtml(schema.description)}` : ''}
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  private renderTextField(field: string, label: string, value: string | undefined, placeholder: string = ''): string {
+    return `
+      <label class="builder-field">
+        <span>${this.escapeHtml(label)}</span>
+        <input data-step-field="${field}" value="${this.escapeHtml(value ?? '')}" placeholder="${this.escapeHtml(placeholder)}" />
+        <span class="builder-field-error" data-error-for="${field}">${this.escapeHtml(this.fieldErrors.get(field) || '')}</span>
+      </label>
+    `;
+  }
+
+  private renderJsonField(field: string, label: string, value: any, hint?: string): string {
+    return `
+      <label class="builder-field">
+        <span>${this.escapeHtml(label)}</span>
+        <textarea data-step-field="${field}" rows="5" spellcheck="false">${this.escapeHtml(JSON.stringify(value, null, 2))}</textarea>
+        ${hint ? `<span class="builder-hint">${this.escapeHtml(hint)}</span>` : ''}
+        <span class="builder-field-error" data-error-for="${field}">${this.escapeHtml(this.fieldErrors.get(field) || '')}</span>
+      </label>
+    `;
+  }
+
+  private renderValidation(): void {
+    const panel = this.container.querySelector('.builder-validation') as HTMLElement | null;
+    if (!panel) return;
+
+    if (!this.validation || (this.validation.errors.length === 0 && this.validation.warnings.length === 0)) {
+      panel.innerHTML = this.validation ? '<div class="builder-valid">✓ No problems found</div>' : '';
+      return;
+    }
+
+    panel.innerHTML = `
+      ${this.validation.errors.map(error => `<div class="builder-error">✗ ${this.escapeHtml(error)}</div>`).join('')}
+      ${this.validation.warnings.map(warning => `<div class="builder-warning">⚠ ${this.escapeHtml(warning)}</div>`).join('')}
+    `;
+  }
+
+  // ========================================
+  // Editing
+  // ========================================
+
+  /**
+   * Add a step from a palette template
+   */
+  private addStep(template: StepTemplate, x: number, y: number): void {
+    const id = this.uniqueStepId(template.action || template.type);
+    const step: StepDefinition = { id, name: template.label, type: template.type, config: {} };
+    if (template.pluginId) {
+      step.pluginId = template.pluginId;
+      step.action = template.action;
+    }
+    if (template.type === 'gate') {
+      step.gateCondition = 'score >= 80';
+    }
+
+    const node: BuilderNode = {
+      id,
+      type: NODE_TYPES[template.type] || 'action',
+      label: template.label,
+      agent: template.pluginId || '',
+      skill: template.action,
+      data: { step },
+      position: { x: Math.max(0, Math.round(x - NODE_WIDTH / 2)), y: Math.max(0, Math.round(y - NODE_HEIGHT / 2)) },
+    };
+
+    // New steps follow the selected step, or else stand alone
+    const previous = this.selectedNode();
+    this.graph.nodes.push(node);
+    if (previous) {
+      this.addEdge(previous.id, id);
+    }
+
+    this.selection = { kind: 'node', id };
+    this.fieldErrors.clear();
+    this.markDirty();
+    this.renderCanvas();
+    this.renderProperties();
+  }
+
+  private addEdge(source: string, target: string): void {
+    if (source === target) return;
+    if (this.graph.edges.some(edge => edge.source === source && edge.target === target)) return;
+    this.graph.edges.push({ id: `${source}->${target}`, source, target, type: 'sequential' });
+  }
+
+  private deleteSelection(): void {
+    if (!this.selection) return;
+
+    if (this.selection.kind === 'edge') {
+      const edgeId = this.selection.id;
+      this.graph.edges = this.graph.edges.filter(edge => edge.id !== edgeId);
+    } else {
+      const nodeId = this.selection.id;
+      this.graph.nodes = this.graph.nodes.filter(node => node.id !== nodeId);
+      this.graph.edges = this.graph.edges.filter(edge => edge.source !== nodeId && edge.target !== nodeId);
+      for (const node of this.graph.nodes) {
+        if (node.data.step.onError === `goto:${nodeId}`) {
+          delete node.data.step.onError;
+        }
+      }
+    }
+
+    this.selection = null;
+    this.fieldErrors.clear();
+    this.markDirty();
+    this.renderCanvas();
+    this.renderProperties();
+  }
+
+  /**
+   * Apply a properties panel field to the selected step
+   *
+   * @returns Error message if the value was rejected
+   */
+  private applyStepField(node: BuilderNode, field: string, value: string): string | null {
+    const step = node.data.step;
+
+    switch (field) {
+      case 'id':
+        return this.renameStep(node, value.trim());
+      case 'name':
+        if (!value.trim()) return 'Name is required';
+        step.name = value.trim();
+        node.label = step.name;
+        return null;
+      case 'config':
+      case 'outputMapping': {
+        let parsed: any;
+        try {
+          parsed = value.trim() ? JSON.parse(value) : {};
+        } catch (error) {
+          return `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`;
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          return 'Must be a JSON object';
+        }
+        if (field === 'outputMapping') {
+          const invalid = Object.entries(parsed).find(([, path]) => typeof path !== 'string' || !path.trim());
+          if (invalid) return `"${invalid[0]}" must map to a JSONPath string`;
+          if (Object.keys(parsed).length === 0) {
+            delete step.outputMapping;
+            return null;
+          }
+        }
+        step[field] = parsed;
+        return null;
+      }
+      case 'pluginAction': {
+        const separator = value.indexOf(':');
+        step.pluginId = separator > 0 ? value.substring(0, separator) : undefined;
+        step.action = separator > 0 ? value.substring(separator + 1) : undefined;
+        node.agent = step.pluginId || '';
+        node.skill = step.action;
+        return null;
+      }
+      case 'onError':
+        if (value === 'fail') {
+          delete step.onError;
+        } else {
+          step.onError = value;
+        }
+        return null;
+      case 'maxIterations': {
+        if (!value.trim()) {
+          delete step.maxIterations;
+          return null;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 1) return 'Must be a positive integer';
+        step.maxIterations = parsed;
+        return null;
+      }
+      default:
+        if (value.trim()) {
+          step[field] = value;
+        } else {
+          delete step[field];
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Change a step ID, updating the edges and error routes that refer to it
+   */
+  private renameStep(node: BuilderNode, newId: string): string | null {
+    if (newId === node.id) return null;
+    if (!/^[A-Za-z0-9_-]+$/.test(newId)) return 'Use letters, numbers, "-" and "_" only';
+    if (this.graph.nodes.some(other => other.id === newId)) return `A step with ID "${newId}" already exists`;
+
+    const oldId = node.id;
+    node.id = newId;
+    node.data.step.id = newId;
+    for (const edge of this.graph.edges) {
+      if (edge.source === oldId) edge.source = newId;
+      if (edge.target === oldId) edge.target = newId;
+      edge.id = `${edge.source}->${edge.target}`;
+    }
+    for (const other of this.graph.nodes) {
+      if (other.data.step.onError === `goto:${oldId}`) {
+        other.data.step.onError = `goto:${newId}`;
+      }
+    }
+    this.selection = { kind: 'node', id: newId };
+    return null;
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    this.validation = null;
+    this.renderValidation();
+  }
+
+  // ========================================
+  // Validation and saving
+  // ========================================
+
+  private async validate(): Promise<boolean> {
+    if (this.fieldErrors.size > 0) {
+      this.validation = { errors: Array.from(this.fieldErrors.values()), warnings: [] };
+      this.renderValidation();
+      return false;
+    }
+
+    try {
+      const electronAPI = (window as any).electronAPI;
+      this.validation = await electronAPI.workflows.validateGraph(this.graph);
+    } catch (error) {
+      this.validation = { errors: [error instanceof Error ? error.message : 'Validation failed'], warnings: [] };
+    }
+    this.renderValidation();
+    return this.validation!.errors.length === 0;
+  }
+
+  private async save(): Promise<void> {
+    if (this.saving) return;
+    if (!this.name.trim()) {
+      this.validation = { errors: ['Workflow name is required'], warnings: [] };
+      this.renderValidation();
+      return;
+    }
+    if (!(await this.validate())) return;
+
+    this.saving = true;
+    try {
+      const electronAPI = (window as any).electronAPI;
+      const saved = await electronAPI.workflows.saveGraph(this.workflowId, {
+        name: this.name,
+        description: this.description,
+        graph: this.graph,
+      });
+
+      this.workflowId = saved.id;
+      this.graph.metadata = { workflowId: saved.id, workflowName: saved.name, version: String(saved.version) };
+      this.dirty = false;
+      this.render();
+      this.events.onSaved?.(saved);
+    } catch (error) {
+      this.validation = { errors: [error instanceof Error ? error.message : 'Save failed'], warnings: [] };
+      this.renderValidation();
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  // ========================================
+  // Event handling
+  // ========================================
+
+  private handleClick(e: Event): void {
+    const target = e.target as HTMLElement;
+
+    const actionButton = target.closest('[data-builder-action]') as HTMLElement | null;
+    if (actionButton) {
+      switch (actionButton.dataset.builderAction) {
+        case 'validate':
+          this.validate();
+          break;
+        case 'save':
+          this.save();
+          break;
+        case 'close':
+          this.close();
+          break;
+        case 'delete-selection':
+          this.deleteSelection();
+          break;
+      }
+      return;
+    }
+
+    // Nodes are selected on mousedown (see handleMouseDown)
+    if (!target.closest('.builder-surface') || target.closest('[data-node-id]')) return;
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      return;
+    }
+
+    const edgeId = target.closest('[data-edge-id]')?.getAttribute('data-edge-id');
+    this.select(edgeId ? { kind: 'edge', id: edgeId } : null);
+    this.renderCanvas();
+  }
+
+  /**
+   * Change the selection and show its properties
+   */
+  private select(selection: Selection): void {
+    if (selection?.kind === this.selection?.kind && selection?.id === this.selection?.id) return;
+    this.selection = selection;
+    this.fieldErrors.clear();
+    this.renderProperties();
+  }
+
+  /**
+   * Check JSON fields as you type
+   */
+  private handleInput(e: Event): void {
+    const target = e.target as HTMLInputElement | HTMLTextAreaElement;
+    const field = target.dataset.workflowField;
+    if (field === 'name' || field === 'description') {
+      this[field] = target.value;
+      this.dirty = true;
+      return;
+    }
+
+    const stepField = target.dataset.stepField;
+    if (stepField !== 'config' && stepField !== 'outputMapping') return;
+
+    const node = this.selectedNode();
+    if (!node) return;
+    const error = this.applyStepField(node, stepField, target.value);
+    this.setFieldError(stepField, error);
+    if (!error) {
+      this.markDirty();
+    }
+  }
+
+  private handleChange(e: Event): void {
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
+    const field = target.dataset.stepField;
+    if (!field || field === 'config' || field === 'outputMapping') return;
+
+    const node = this.selectedNode();
+    if (!node) return;
+
+    const error = this.applyStepField(node, field, target.value);
+    this.setFieldError(field, error);
+    if (error) return;
+
+    this.markDirty();
+    this.renderCanvas();
+    if (field === 'id' || field === 'pluginAction') {
+      // Other fields (onError targets, input hints) depend on these
+      this.renderProperties();
+    }
+  }
+
+  private setFieldError(field: string, error: string | null): void {
+    if (error) {
+      this.fieldErrors.set(field, error);
+    } else {
+      this.fieldErrors.delete(field);
+    }
+
+    const element = this.container.querySelector(`[data-error-for="${field}"]`);
+    if (element) {
+      element.textContent = error || '';
+    }
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement;
+    if (target.matches('input, textarea, select')) return;
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && this.selection) {
+      e.preventDefault();
+      this.deleteSelection();
+    } else if (e.key === 'Escape') {
+      this.close();
+    }
+  }
+
+  /**
+   * Start dragging a node or wiring an edge from an output port
+   */
+  private handleMouseDown(e: MouseEvent): void {
+    if (e.button !== 0) return;
+    const target = e.target as HTMLElement;
+    const nodeElement = target.closest('[data-node-id]') as HTMLElement | null;
+    if (!nodeElement) return;
+
+    const node = this.graph.nodes.find(n => n.id === nodeElement.dataset.nodeId);
+    if (!node) return;
+    this.suppressClick = false;
+
+    const point = this.canvasPoint(e);
+    if (target.dataset.port === 'output') {
+      this.wiring = { sourceId: node.id, x: point.x, y: point.y };
+    } else {
+      this.drag = { nodeId: node.id, offsetX: point.x - node.position.x, offsetY: point.y - node.position.y, moved: false };
+
+      // Select without re-rendering the node, so the click still lands on it
+      this.select({ kind: 'node', id: node.id });
+      this.container.querySelectorAll('.builder-node.selected').forEach(element => element.classList.remove('selected'));
+      nodeElement.classList.add('selected');
+      const edges = this.container.querySelector('.builder-edges');
+      if (edges) {
+        edges.innerHTML = this.renderEdges();
+      }
+    }
+
+    e.preventDefault();
+    this.container.focus();
+    window.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('mouseup', this.onMouseUp);
+  }
+
+  private handleMouseMove(e: MouseEvent): void {
+    const point = this.canvasPoint(e);
+
+    if (this.drag) {
+      const node = this.graph.nodes.find(n => n.id === this.drag!.nodeId);
+      if (!node) return;
+      node.position = {
+        x: Math.max(0, Math.round(point.x - this.drag.offsetX)),
+        y: Math.max(0, Math.round(point.y - this.drag.offsetY)),
+      };
+
+      const element = this.container.querySelector(`[data-node-id="${CSS.escape(node.id)}"]`) as HTMLElement | null;
+      if (element) {
+        element.style.left = `${node.position.x}px`;
+        element.style.top = `${node.position.y}px`;
+      }
+      this.drag.moved = true;
+      this.dirty = true;
+    } else if (this.wiring) {
+      this.wiring.x = point.x;
+      this.wiring.y = point.y;
+    } else {
+      return;
+    }
+
+    const edges = this.container.querySelector('.builder-edges');
+    if (edges) {
+      edges.innerHTML = this.renderEdges();
+    }
+  }
+
+  private handleMouseUp(e: MouseEvent): void {
+    window.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('mouseup', this.onMouseUp);
+
+    if (this.wiring) {
+      const targetElement = (e.target as HTMLElement).closest?.('[data-node-id]') as HTMLElement | null;
+      const targetId = targetElement?.dataset.nodeId;
+      if (targetId && targetId !== this.wiring.sourceId) {
+        this.addEdge(this.wiring.sourceId, targetId);
+        this.markDirty();
+      }
+      this.wiring = null;
+      this.suppressClick = true;
+      this.renderCanvas();
+    } else if (this.drag) {
+      if (this.drag.moved) {
+        // Grow the canvas if the node was dragged towards its edge
+        const surface = this.container.querySelector('.builder-surface') as HTMLElement | null;
+        if (surface) this.resizeSurface(surface);
+      }
+      this.drag = null;
+    }
+  }
+
+  private handleDragStart(e: DragEvent): void {
+    const item = (e.target as HTMLElement).closest?.('[data-template]') as HTMLElement | null;
+    if (!item || !e.dataTransfer) return;
+    e.dataTransfer.setData('application/x-workflow-step', item.dataset.template || '');
+    e.dataTransfer.effectAllowed = 'copy';
+  }
+
+  private handleDragOver(e: DragEvent): void {
+    if ((e.target as HTMLElement).closest('.builder-canvas') && e.dataTransfer?.types.includes('application/x-workflow-step')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  }
+
+  private handleDrop(e: DragEvent): void {
+    const data = e.dataTransfer?.getData('application/x-workflow-step');
+    if (!data || !(e.target as HTMLElement).closest('.builder-canvas')) return;
+    e.preventDefault();
+
+    try {
+      const point = this.canvasPoint(e);
+      this.addStep(JSON.parse(data), point.x, point.y);
+    } catch (error) {
+      console.error('[WorkflowBuilder] Invalid palette item:', error);
+    }
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  private selectedNode(): BuilderNode | null {
+    if (this.selection?.kind !== 'node') return null;
+    return this.graph.nodes.find(node => node.id === this.selection!.id) || null;
+  }
+
+  private findAction(step: StepDefinition): PluginAction | undefined {
+    return this.actions.find(action => action.pluginId === step.pluginId && action.name === step.action);
+  }
+
+  /**
+   * Position of a mouse event on the canvas surface
+   */
+  private canvasPoint(e: MouseEvent): { x: number; y: number } {
+    const surface = this.container.querySelector('.builder-surface') as HTMLElement | null;
+    const rect = surface?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : { x: e.clientX, y: e.clientY };
+  }
+
+  private uniqueStepId(base: string): string {
+    const slug = base.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'step';
+    const ids = new Set(this.graph.nodes.map(node => node.id));
+    let index = 1;
+    while (ids.has(`${slug}-${index}`)) {
+      index++;
+    }
+    return `${slug}-${index}`;
+  }
+
+  private emptyGraph(): BuilderGraph {
+    return { nodes: [], edges: [], metadata: { workflowId: '', workflowName: '', version: '1' } };
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
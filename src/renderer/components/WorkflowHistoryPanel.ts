@@ -0,0 +1,422 @@
+/**
+ * WorkflowHistoryPanel Component
+ * Execution history of a workflow
+ *
+ * Features:
+ * - List of runs with status, trigger, duration and failing step
+ * - Per-step execution log of a run
+ * - Side-by-side comparison of two runs (variables, step outputs, step statuses)
+ */
+
+export interface WorkflowHistoryPanelEvents {
+  onClose?: () => void;
+}
+
+interface WorkflowRun {
+  id: string;
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+  triggered_by: string | null;
+  triggered_by_user: string | null;
+  workflow_version: number | null;
+  error_message: string | null;
+  error_step: number | null;
+  current_step: number;
+  total_steps: number;
+  execution_log: ExecutionLogEntry[] | null;
+  context: { variables?: Record<string, any>; stepOutputs?: Record<string, any> } | null;
+}
+
+interface ExecutionLogEntry {
+  step: number;
+  stepId: string | null;
+  stepName: string | null;
+  status: string;
+  timestamp: string;
+  output: any;
+  error: string | null;
+}
+
+/**
+ * One row of a run comparison
+ */
+interface RunDiffRow {
+  path: string;
+  left: string | undefined;
+  right: string | undefined;
+  changed: boolean;
+}
+
+/** Maximum number of runs loaded into the list */
+const HISTORY_LIMIT = 100;
+
+/** Depth to which contexts are flattened for comparison (deeper values are compared as JSON) */
+const DIFF_DEPTH = 3;
+
+export class WorkflowHistoryPanel {
+  private container: HTMLElement;
+  private events: WorkflowHistoryPanelEvents;
+  private workflowId: string = '';
+  private workflowName: string = '';
+  private runs: WorkflowRun[] = [];
+  private selectedRunIds: string[] = [];
+  private mode: 'list' | 'details' | 'compare' = 'list';
+  private detailsRunId: string | null = null;
+  private changesOnly: boolean = true;
+
+  constructor(container: HTMLElement, events: WorkflowHistoryPanelEvents = {}) {
+    this.container = container;
+    this.events = events;
+    this.container.addEventListener('click', (e) => this.handleClick(e));
+    this.container.addEventListener('change', (e) => this.handleChange(e));
+  }
+
+  /**
+   * Show the history of a workflow
+   */
+  public async open(workflowId: string, workflowName: string): Promise<void> {
+    this.workflowId = workflowId;
+    this.workflowName = workflowName;
+    this.selectedRunIds = [];
+    this.mode = 'list';
+    this.detailsRunId = null;
+
+    this.container.innerHTML = this.renderFrame('<div class="history-loading">Loading runs...</div>');
+    await this.loadRuns();
+    this.render();
+  }
+
+  /**
+   * Load the workflow's runs
+   */
+  private async loadRuns(): Promise<void> {
+    try {
+      const electronAPI = (window as any).electronAPI;
+      this.runs = await electronAPI.workflows.getRuns(this.workflowId, HISTORY_LIMIT);
+    } catch (error) {
+      console.error('[WorkflowHistoryPanel] Failed to load runs:', error);
+      this.runs = [];
+    }
+  }
+
+  /**
+   * Render the current mode
+   */
+  private render(): void {
+    let body: string;
+    switch (this.mode) {
+      case 'details':
+        body = this.renderDetails();
+        break;
+      case 'compare':
+        body = this.renderComparison();
+        break;
+      default:
+        body = this.renderRunList();
+    }
+    this.container.innerHTML = this.renderFrame(body);
+  }
+
+  private renderFrame(body: string): string {
+    return `
+      <div class="workflow-history">
+        <div class="workflow-history-header">
+          ${this.mode !== 'list'
+            ? '<button class="workflow-action-btn" data-history-action="back">← Runs</button>'
+            : ''}
+          <h3 class="workflow-history-title">History: ${this.escapeHtml(this.workflowName)}</h3>
+          <button class="workflow-action-btn" data-history-action="close">✕</button>
+        </div>
+        <div class="workflow-history-body">${body}</div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the list of runs
+   */
+  private renderRunList(): string {
+    if (this.runs.length === 0) {
+      return '<div class="history-empty">This workflow has not been run yet.</div>';
+    }
+
+    return `
+      <div class="history-toolbar">
+        <span>${this.runs.length} run${this.runs.length === 1 ? '' : 's'} · select two to compare</span>
+        <button class="workflow-action-btn primary" data-history-action="compare"
+          ${this.selectedRunIds.length === 2 ? '' : 'disabled'}>Compare</button>
+      </div>
+      <table class="history-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th>Started</th>
+            <th>Status</th>
+            <th>Version</th>
+            <th>Trigger</th>
+            <th>Duration</th>
+            <th>Failing step</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.runs.map(run => this.renderRunRow(run)).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private renderRunRow(run: WorkflowRun): string {
+    const selected = this.selectedRunIds.includes(run.id);
+    const failingStep = this.getFailingStep(run);
+
+    return `
+      <tr class="${selected ? 'selected' : ''}" data-run-id="${run.id}">
+        <td><input type="checkbox" class="history-select" ${selected ? 'checked' : ''}></td>
+        <td>${new Date(run.started_at).toLocaleString()}</td>
+        <td><span class="workflow-status ${this.escapeHtml(run.status)}">${this.escapeHtml(run.status)}</span></td>
+        <td>${run.workflow_version ? `v${run.workflow_version}` : '—'}</td>
+        <td>${this.escapeHtml(run.triggered_by || 'manual')}${run.triggered_by_user ? ` (${this.escapeHtml(run.triggered_by_user)})` : ''}</td>
+        <td>${this.formatDuration(run)}</td>
+        <td class="history-failing-step" title="${this.escapeHtml(run.error_message || '').replace(/"/g, '&quot;')}">
+          ${failingStep ? this.escapeHtml(failingStep) : '—'}
+        </td>
+        <td><button class="workflow-action-btn" data-history-action="details">Details</button></td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Render the execution log of a run
+   */
+  private renderDetails(): string {
+    const run = this.runs.find(r => r.id === this.detailsRunId);
+    if (!run) {
+      return '<div class="history-empty">Run not found.</div>';
+    }
+
+    const log = run.execution_log || [];
+
+    return `
+      <div class="history-run-summary">
+        <span class="workflow-status ${this.escapeHtml(run.status)}">${this.escapeHtml(run.status)}</span>
+        <span>Started ${new Date(run.started_at).toLocaleString()}</span>
+        ${run.workflow_version ? `<span>Workflow v${run.workflow_version}</span>` : ''}
+        <span>Duration ${this.formatDuration(run)}</span>
+        <span>Trigger ${this.escapeHtml(run.triggered_by || 'manual')}</span>
+      </div>
+      ${run.error_message ? `<div class="history-error">${this.escapeHtml(run.error_message)}</div>` : ''}
+      ${log.length === 0
+        ? '<div class="history-empty">No steps were logged for this run.</div>'
+        : `<table class="history-table history-log">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Step</th>
+                <th>Status</th>
+                <th>Output / error</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${log.map(entry => this.renderLogRow(entry)).join('')}
+            </tbody>
+          </table>`}
+    `;
+  }
+
+  private renderLogRow(entry: ExecutionLogEntry): string {
+    const step = entry.stepName || entry.stepId || `Step ${entry.step + 1}`;
+    let detail = '';
+    if (entry.error) {
+      detail = `<div class="history-error">${this.escapeHtml(entry.error)}</div>`;
+    }
+    if (entry.output !== null && entry.output !== undefined) {
+      detail += `<details><summary>Output</summary><pre>${this.escapeHtml(JSON.stringify(entry.output, null, 2))}</pre></details>`;
+    }
+
+    return `
+      <tr class="log-${this.escapeHtml(entry.status)}">
+        <td>${new Date(entry.timestamp).toLocaleTimeString()}</td>
+        <td>${this.escapeHtml(step)}</td>
+        <td>${this.escapeHtml(entry.status)}</td>
+        <td>${detail}</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Render two runs side by side
+   */
+  private renderComparison(): string {
+    const [left, right] = this.selectedRunIds.map(id => this.runs.find(r => r.id === id));
+    if (!left || !right) {
+      return '<div class="history-empty">Select two runs to compare.</div>';
+    }
+
+    const rows = [
+      ...this.diffValues('status', left.status, right.status),
+      ...this.diffValues('version', left.workflow_version, right.workflow_version),
+      ...this.diffValues('steps', this.getStepStatuses(left), this.getStepStatuses(right)),
+      ...this.diffValues('variables', left.context?.variables || {}, right.context?.variables || {}),
+      ...this.diffValues('outputs', left.context?.stepOutputs || {}, right.context?.stepOutputs || {}),
+    ];
+    const visible = this.changesOnly ? rows.filter(row => row.changed) : rows;
+    const changedCount = rows.filter(row => row.changed).length;
+
+    return `
+      <div class="history-toolbar">
+        <span>${changedCount} difference${changedCount === 1 ? '' : 's'}</span>
+        <label><input type="checkbox" class="history-changes-only" ${this.changesOnly ? 'checked' : ''}> Only show differences</label>
+      </div>
+      <table class="history-table history-diff">
+        <thead>
+          <tr>
+            <th></th>
+            <th>${new Date(left.started_at).toLocaleString()} (${this.escapeHtml(left.status)})</th>
+            <th>${new Date(right.started_at).toLocaleString()} (${this.escapeHtml(right.status)})</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${visible.length === 0
+            ? '<tr><td colspan="3" class="history-empty">No differences.</td></tr>'
+            : visible.map(row => `
+              <tr class="${row.changed ? 'changed' : ''}">
+                <td class="history-diff-path">${this.escapeHtml(row.path)}</td>
+                <td><pre>${row.left === undefined ? '<span class="history-missing">—</span>' : this.escapeHtml(row.left)}</pre></td>
+                <td><pre>${row.right === undefined ? '<span class="history-missing">—</span>' : this.escapeHtml(row.right)}</pre></td>
+              </tr>
+            `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Flatten two values and compare them path by path
+   */
+  private diffValues(root: string, left: any, right: any): RunDiffRow[] {
+    const leftValues = this.flatten(left, root, DIFF_DEPTH);
+    const rightValues = this.flatten(right, root, DIFF_DEPTH);
+    const paths = Array.from(new Set([...leftValues.keys(), ...rightValues.keys()])).sort();
+
+    return paths.map(path => {
+      const a = leftValues.get(path);
+      const b = rightValues.get(path);
+      return { path, left: a, right: b, changed: a !== b };
+    });
+  }
+
+  /**
+   * Flatten a value into path → JSON text, descending into plain objects up to `depth` levels
+   */
+  private flatten(value: any, path: string, depth: number, result: Map<string, string> = new Map()): Map<string, string> {
+    const isObject = value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (isObject && depth > 0 && Object.keys(value).length > 0) {
+      for (const [key, child] of Object.entries(value)) {
+        this.flatten(child, `${path}.${key}`, depth - 1, result);
+      }
+    } else if (value !== undefined) {
+      result.set(path, typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+    }
+    return result;
+  }
+
+  /**
+   * Final status of each step in a run's execution log
+   */
+  private getStepStatuses(run: WorkflowRun): Record<string, string> {
+    const statuses: Record<string, string> = {};
+    for (const entry of run.execution_log || []) {
+      if (entry.stepId && ['started', 'completed', 'skipped', 'failed', 'cancelled', 'paused'].includes(entry.status)) {
+        statuses[entry.stepId] = entry.status;
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Name of the step a failed or cancelled run stopped at
+   */
+  private getFailingStep(run: WorkflowRun): string | null {
+    if (run.status !== 'failed' && run.status !== 'cancelled') {
+      return null;
+    }
+
+    const log = run.execution_log || [];
+    for (let i = log.length - 1; i >= 0; i--) {
+      if ((log[i].status === 'failed' || log[i].status === 'cancelled') && (log[i].stepName || log[i].stepId)) {
+        return log[i].stepName || log[i].stepId;
+      }
+    }
+    return run.error_step !== null ? `Step ${run.error_step + 1}` : null;
+  }
+
+  private handleClick(e: Event): void {
+    const button = (e.target as HTMLElement).closest('[data-history-action]') as HTMLElement | null;
+    if (!button) return;
+
+    const runId = (button.closest('[data-run-id]') as HTMLElement | null)?.dataset.runId;
+
+    switch (button.dataset.historyAction) {
+      case 'close':
+        this.events.onClose?.();
+        break;
+      case 'back':
+        this.mode = 'list';
+        this.render();
+        break;
+      case 'details':
+        if (runId) {
+          this.detailsRunId = runId;
+          this.mode = 'details';
+          this.render();
+        }
+        break;
+      case 'compare':
+        if (this.selectedRunIds.length === 2) {
+          this.mode = 'compare';
+          this.render();
+        }
+        break;
+    }
+  }
+
+  private handleChange(e: Event): void {
+    const target = e.target as HTMLInputElement;
+
+    if (target.classList.contains('history-select')) {
+      const runId = (target.closest('[data-run-id]') as HTMLElement | null)?.dataset.runId;
+      if (!runId) return;
+
+      if (target.checked) {
+        // Keep the two most recently selected runs
+        this.selectedRunIds = [...this.selectedRunIds.filter(id => id !== runId), runId].slice(-2);
+      } else {
+        this.selectedRunIds = this.selectedRunIds.filter(id => id !== runId);
+      }
+      this.render();
+    } else if (target.classList.contains('history-changes-only')) {
+      this.changesOnly = target.checked;
+      this.render();
+    }
+  }
+
+  private formatDuration(run: WorkflowRun): string {
+    if (!run.completed_at) {
+      return run.status === 'paused' ? 'paused' : 'running';
+    }
+
+    const seconds = Math.max(0, Math.round((new Date(run.completed_at).getTime() - new Date(run.started_at).getTime()) / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * PluginPermissionsView
+ * Lists the permissions each plugin requested and lets the user revoke
+ * (or re-grant) them one by one
+ */
+
+import type { View } from '../components/ViewRouter.js';
+import type { TopBarConfig } from '../components/TopBar.js';
+
+export class PluginPermissionsView implements View {
+  private container: HTMLElement | null = null;
+  private plugins: any[] = [];
+  private error: string | null = null;
+  private busy: boolean = false;
+
+  /**
+   * Mount the plugin permissions view
+   */
+  async mount(container: HTMLElement): Promise<void> {
+    this.container = container;
+
+    await this.loadPermissions();
+    this.render();
+
+    console.log('[PluginPermissionsView] Mounted with', this.plugins.length, 'plugins');
+  }
+
+  /**
+   * Load permissions from the plugin manager
+   */
+  private async loadPermissions(): Promise<void> {
+    try {
+      const electronAPI = (window as any).electronAPI;
+      const result = await electronAPI.plugins.getPermissions();
+      if (result.success) {
+        this.plugins = result.plugins || [];
+        this.error = null;
+      } else {
+        this.plugins = [];
+        this.error = result.error || 'Unknown error';
+      }
+    } catch (error) {
+      console.error('[PluginPermissionsView] Failed to load permissions:', error);
+      this.plugins = [];
+      this.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  /**
+   * Render the view
+   */
+  private render(): void {
+    if (!this.container) return;
+
+    if (this.error) {
+      this.container.innerHTML = `
+        <div class="error-message">
+          <h2>Failed to load plugin permissions</h2>
+          <p>Error: ${this.escapeHtml(this.error)}</p>
+        </div>
+      `;
+      return;
+    }
+
+    this.container.innerHTML = `
+      <div class="plugin-permissions">
+        <p class="plugin-permissions-intro">
+          Plugins only get the permissions you allow. Revoking a permission reloads the plugin.
+        </p>
+        ${this.plugins.length > 0
+          ? this.plugins.map((plugin, index) => this.renderPlugin(plugin, index)).join('')
+          : `
+            <div class="plugins-empty">
+              <div class="empty-icon">🔌</div>
+              <h3>No Plugins Loaded</h3>
+              <p>Installed plugins and their permissions will appear here.</p>
+            </div>
+          `}
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  /**
+   * Render one plugin and its permissions
+   */
+  private renderPlugin(plugin: any, pluginIndex: number): string {
+    return `
+      <div class="plugin-permissions-card">
+        <div class="plugin-permissions-header">
+          <h3 class="plugin-name">${this.escapeHtml(plugin.name || plugin.pluginId)}</h3>
+          <span class="plugin-version">v${this.escapeHtml(plugin.version)}</span>
+        </div>
+        ${plugin.permissions.length > 0 ? `
+          <ul class="plugin-permission-list">
+            ${plugin.permissions.map((permission: any, index: number) => this.renderPermission(pluginIndex, index, permission)).join('')}
+          </ul>
+        ` : '<p class="plugin-description">This plugin requests no permissions.</p>'}
+      </div>
+    `;
+  }
+
+  /**
+   * Render one permission row
+   */
+  private renderPermission(pluginIndex: number, permissionIndex: number, permission: any): string {
+    const labels: Record<string, string> = {
+      granted: 'Allowed',
+      revoked: 'Revoked',
+      pending: 'Not yet decided',
+    };
+
+    return `
+      <li class="plugin-permission ${permission.status}">
+        <span class="plugin-permission-description">${this.escapeHtml(permission.description)}</span>
+        <span class="plugin-permission-status">${labels[permission.status] || permission.status}</span>
+        ${permission.status === 'granted' ? `
+          <button class="plugin-action-btn"
+                  data-plugin="${pluginIndex}"
+                  data-permission="${permissionIndex}"
+                  data-grant="false"
+                  ${this.busy ? 'disabled' : ''}>
+            Revoke
+          </button>
+        ` : permission.status === 'revoked' ? `
+          <button class="plugin-action-btn"
+                  data-plugin="${pluginIndex}"
+                  data-permission="${permissionIndex}"
+                  data-grant="true"
+                  ${this.busy ? 'disabled' : ''}>
+            Allow
+          </button>
+        ` : ''}
+      </li>
+    `;
+  }
+
+  /**
+   * Attach event listeners
+   */
+  private attachEventListeners(): void {
+    if (!this.container) return;
+
+    this.container.querySelectorAll('.plugin-permission .plugin-action-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const { dataset } = btn as HTMLElement;
+        const plugin = this.plugins[Number(dataset.plugin)];
+        const permission = plugin?.permissions[Number(dataset.permission)];
+        if (permission) {
+          this.setPermission(plugin.pluginId, permission.key, dataset.grant === 'true');
+        }
+      });
+    });
+  }
+
+  /**
+   * Grant or revoke a permission and refresh the list
+   */
+  private async setPermission(pluginId: string, key: string, granted: boolean): Promise<void> {
+    this.busy = true;
+    this.render();
+
+    try {
+      const electronAPI = (window as any).electronAPI;
+      const result = await electronAPI.plugins.setPermission(pluginId, key, granted);
+      if (!result.success) {
+        alert(`Failed to update permission: ${result.error}`);
+      }
+    } catch (error: any) {
+      console.error('[PluginPermissionsView] Failed to update permission:', error);
+      alert(`Failed to update permission: ${error.message}`);
+    }
+
+    this.busy = false;
+    await this.loadPermissions();
+    this.render();
+  }
+
+  /**
+   * Unmount the view
+   */
+  async unmount(): Promise<void> {
+    this.container = null;
+  }
+
+  /**
+   * Get top bar configuration
+   */
+  getTopBarConfig(): TopBarConfig {
+    return {
+      title: 'Plugin Permissions',
+      breadcrumb: ['Settings', 'Plugin Permissions'],
+      actions: [
+        { id: 'refresh', label: 'Refresh', icon: '🔄' },
+      ],
+      global: {
+        projectSelector: false,
+        environmentIndicator: true,
+      },
+    };
+  }
+
+  /**
+   * Handle action from top bar
+   */
+  async handleAction(actionId: string): Promise<void> {
+    switch (actionId) {
+      case 'refresh':
+        await this.loadPermissions();
+        this.render();
+        break;
+      default:
+        console.warn('[PluginPermissionsView] Unknown action:', actionId);
+    }
+  }
+
+  /**
+   * Escape HTML
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
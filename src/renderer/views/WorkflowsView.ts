@@ -7,10 +7,21 @@
  * - Create/edit/delete workflows
  * - Execute workflows
  * - View execution history
+ * - Approve or reject paused runs
+ * - Follow running workflows live
+ * - Export and import workflow packages (workflow + agents + skills)
  */
 
 import type { View } from '../components/ViewRouter.js';
 import type { TopBarConfig } from '../components/TopBar.js';
+import { WorkflowHistoryPanel } from '../components/WorkflowHistoryPanel.js';
+import { WorkflowBuilder } from '../components/WorkflowBuilder.js';
+
+/** Number of log lines kept per live run */
+const MAX_LIVE_LOG_ENTRIES = 500;
+
+/** File extension of workflow packages (see workflow-package.ts) */
+const WORKFLOW_PACKAGE_EXTENSION = 'flworkflow';
 
 interface Workflow {
   id: string;
@@ -26,10 +37,96 @@ interface Workflow {
   last_run_status?: string;
 }
 
+interface PendingApproval {
+  run_id: string;
+  workflow_id: string;
+  workflow_name: string;
+  started_at: string;
+  pending_approval: {
+    stepId: string;
+    stepIndex: number;
+    stepName: string;
+    prompt: string | null;
+    output: Record<string, any>;
+    requestedAt: string;
+  };
+}
+
+/**
+ * Progress event sent by the workflow engine (see WorkflowProgressEvent in workflow-engine.ts)
+ */
+interface WorkflowProgressEvent {
+  type: 'run-started' | 'step-started' | 'step-completed' | 'step-skipped' | 'step-failed'
+    | 'variable-changed' | 'run-paused' | 'run-finished';
+  runId: string;
+  rootRunId: string;
+  workflowId: string;
+  workflowName: string;
+  timestamp: string;
+  totalSteps?: number;
+  stepId?: string;
+  stepIndex?: number;
+  stepName?: string;
+  variable?: string;
+  value?: any;
+  status?: string;
+  error?: string;
+}
+
+interface LiveRunLogEntry {
+  time: string;
+  level: 'info' | 'success' | 'error' | 'muted';
+  text: string;
+}
+
+/**
+ * What importing a workflow package would change (see WorkflowPackagePlan in workflow-package.ts)
+ */
+interface WorkflowPackagePlan {
+  packageName: string;
+  workflow: {
+    id: string | null;
+    name: string;
+    stepCount: number;
+    replaces: { id: string; name: string; version: number } | null;
+  };
+  missing: { agents: string[]; skills: string[]; mcpServers: string[] };
+  existing: { agents: string[]; skills: string[]; mcpServers: string[] };
+  actions: Array<{
+    type: 'copy_agent' | 'copy_skill' | 'initialize_mcp' | 'import_workflow';
+    component: string;
+    destination: string;
+    description: string;
+    overwrite?: boolean;
+  }>;
+}
+
+/**
+ * A run followed in the live run panel
+ */
+interface LiveRun {
+  runId: string;
+  workflowName: string;
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  startedAt: number;
+  finishedAt: number | null;
+  currentStep: string | null;
+  stepIndex: number | null;
+  totalSteps: number;
+  log: LiveRunLogEntry[];
+}
+
 export class WorkflowsView implements View {
   private container: HTMLElement | null = null;
   private workflows: Workflow[] = [];
+  private pendingApprovals: PendingApproval[] = [];
   private selectedWorkflow: Workflow | null = null;
+  private listenersAttached = false;
+  private liveRuns: Map<string, LiveRun> = new Map();
+  private elapsedTimer: number | null = null;
+  private historyOverlay: HTMLElement | null = null;
+  private builderOverlay: HTMLElement | null = null;
+  private packageOverlay: HTMLElement | null = null;
 
   /**
    * Mount the workflows view
@@ -46,6 +143,9 @@ export class WorkflowsView implements View {
     // Attach event listeners
     this.attachEventListeners();
 
+    // Follow workflow runs as they progress
+    this.subscribeToProgress();
+
     console.log('[WorkflowsView] Mounted with', this.workflows.length, 'workflows');
   }
 
@@ -65,6 +165,26 @@ export class WorkflowsView implements View {
       console.error('[WorkflowsView] Failed to load workflows:', error);
       this.workflows = [];
     }
+
+    // Paused runs are listed above the workflows
+    await this.loadPendingApprovals();
+  }
+
+  /**
+   * Load runs waiting for an approval decision
+   */
+  private async loadPendingApprovals(): Promise<void> {
+    try {
+      const electronAPI = (window as any).electronAPI;
+      if (electronAPI && electronAPI.workflows && electronAPI.workflows.getPendingApprovals) {
+        this.pendingApprovals = await electronAPI.workflows.getPendingApprovals();
+      } else {
+        this.pendingApprovals = [];
+      }
+    } catch (error) {
+      console.error('[WorkflowsView] Failed to load pending approvals:', error);
+      this.pendingApprovals = [];
+    }
   }
 
   /**
@@ -93,12 +213,24 @@ export class WorkflowsView implements View {
         </div>
 
         <div class="workflows-content">
+          <div class="workflow-live-runs">${this.renderLiveRuns()}</div>
+          ${this.pendingApprovals.length > 0 ? this.renderPendingApprovals() : ''}
           ${this.workflows.length > 0
             ? this.renderWorkflowsList()
             : this.renderEmptyState()}
         </div>
       </div>
     `;
+
+    // Keep an open history panel or builder across re-renders
+    if (this.historyOverlay) {
+      this.container.appendChild(this.historyOverlay);
+    }
+    if (this.builderOverlay) {
+      this.container.appendChild(this.builderOverlay);
+    }
+
+    this.scrollLiveLogsToBottom();
   }
 
   /**
@@ -112,12 +244,108 @@ export class WorkflowsView implements View {
     `;
   }
 
+  /**
+   * Render the live run panels
+   */
+  private renderLiveRuns(): string {
+    return Array.from(this.liveRuns.values()).map(run => this.renderLiveRun(run)).join('');
+  }
+
+  /**
+   * Render the panel of a live run: current step, elapsed time and log
+   */
+  private renderLiveRun(run: LiveRun): string {
+    const step = run.currentStep
+      ? `Step ${(run.stepIndex ?? 0) + 1}/${run.totalSteps}: ${this.escapeHtml(run.currentStep)}`
+      : 'Starting...';
+
+    return `
+      <div class="live-run ${run.status}" data-run-id="${run.runId}">
+        <div class="live-run-header">
+          <div class="live-run-info">
+            <h4 class="live-run-title">${this.escapeHtml(run.workflowName)}</h4>
+            <span class="live-run-step">${run.status === 'running' || run.status === 'paused' ? step : this.escapeHtml(run.status)}</span>
+          </div>
+          <span class="live-run-elapsed">${this.formatElapsed(run)}</span>
+          <span class="workflow-status ${run.status}">${run.status}</span>
+          ${run.status === 'running'
+            ? `<button class="workflow-action-btn danger" data-action="cancel-run">
+                 <span class="btn-icon">⏹</span>
+                 <span>Cancel</span>
+               </button>`
+            : run.status !== 'paused'
+              ? `<button class="workflow-action-btn" data-action="dismiss-run">
+                   <span>Dismiss</span>
+                 </button>`
+              : ''}
+        </div>
+        <div class="live-run-log">${run.log.map(entry => this.renderLogEntry(entry)).join('')}</div>
+      </div>
+    `;
+  }
+
+  private renderLogEntry(entry: LiveRunLogEntry): string {
+    return `<div class="live-run-log-entry ${entry.level}">`
+      + `<span class="live-run-log-time">${entry.time}</span>${this.escapeHtml(entry.text)}</div>`;
+  }
+
+  /**
+   * Render the runs waiting for approval
+   */
+  private renderPendingApprovals(): string {
+    return `
+      <div class="workflow-approvals">
+        <h3 class="workflow-approvals-title">Waiting for your approval (${this.pendingApprovals.length})</h3>
+        ${this.pendingApprovals.map(approval => this.renderApprovalCard(approval)).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a paused run with the output to review
+   */
+  private renderApprovalCard(approval: PendingApproval): string {
+    const pending = approval.pending_approval;
+
+    return `
+      <div class="approval-card" data-run-id="${approval.run_id}">
+        <div class="approval-header">
+          <div>
+            <h4 class="approval-title">${this.escapeHtml(approval.workflow_name)}: ${this.escapeHtml(pending.stepName)}</h4>
+            <span class="approval-meta">Step ${pending.stepIndex + 1} · waiting since ${new Date(pending.requestedAt).toLocaleString()}</span>
+          </div>
+          <span class="workflow-status paused">paused</span>
+        </div>
+        ${pending.prompt ? `<p class="approval-prompt">${this.escapeHtml(pending.prompt)}</p>` : ''}
+        <pre class="approval-output">${this.escapeHtml(JSON.stringify(pending.output, null, 2))}</pre>
+        <textarea class="approval-comment" rows="2" placeholder="Comment (optional; sent back with a rejection)"></textarea>
+        <div class="workflow-actions">
+          <button class="workflow-action-btn primary" data-action="approve">
+            <span class="btn-icon">✓</span>
+            <span>Approve</span>
+          </button>
+          <button class="workflow-action-btn" data-action="reject">
+            <span class="btn-icon">✗</span>
+            <span>Reject</span>
+          </button>
+          <button class="workflow-action-btn danger" data-action="cancel-run">
+            <span class="btn-icon">⏹</span>
+            <span>Cancel Run</span>
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
   /**
    * Render a single workflow card
    */
   private renderWorkflowCard(workflow: Workflow): string {
     const statusClass = workflow.status === 'active' ? 'active' : workflow.status === 'draft' ? 'draft' : 'archived';
-    const lastRunIcon = workflow.last_run_status === 'success' ? '✓' : workflow.last_run_status === 'failed' ? '✗' : '—';
+    const lastRunIcon = workflow.last_run_status === 'success' ? '✓'
+      : workflow.last_run_status === 'failed' ? '✗'
+      : workflow.last_run_status === 'cancelled' ? '⏹'
+      : '—';
     const successRate = workflow.run_count > 0
       ? Math.round((workflow.success_count / workflow.run_count) * 100)
       : 0;
@@ -171,6 +399,10 @@ export class WorkflowsView implements View {
             <span class="btn-icon">📊</span>
             <span>History</span>
           </button>
+          <button class="workflow-action-btn" data-action="export">
+            <span class="btn-icon">📦</span>
+            <span>Export</span>
+          </button>
           <button class="workflow-action-btn danger" data-action="delete">
             <span class="btn-icon">🗑️</span>
             <span>Delete</span>
@@ -200,7 +432,9 @@ export class WorkflowsView implements View {
    * Attach event listeners
    */
   private attachEventListeners(): void {
-    if (!this.container) return;
+    // The container survives re-renders; one delegated listener is enough
+    if (!this.container || this.listenersAttached) return;
+    this.listenersAttached = true;
 
     // Workflow action buttons
     this.container.addEventListener('click', async (e) => {
@@ -212,6 +446,8 @@ export class WorkflowsView implements View {
       const action = button.dataset.action;
       const card = button.closest('.workflow-card') as HTMLElement;
       const workflowId = card?.dataset.workflowId;
+      const runCard = button.closest('[data-run-id]') as HTMLElement;
+      const runId = runCard?.dataset.runId;
 
       switch (action) {
         case 'run':
@@ -221,7 +457,10 @@ export class WorkflowsView implements View {
           if (workflowId) this.editWorkflow(workflowId);
           break;
         case 'history':
-          if (workflowId) this.showWorkflowHistory(workflowId);
+          if (workflowId) await this.showWorkflowHistory(workflowId);
+          break;
+        case 'export':
+          if (workflowId) await this.exportWorkflowPackage(workflowId);
           break;
         case 'delete':
           if (workflowId) await this.deleteWorkflow(workflowId);
@@ -229,10 +468,214 @@ export class WorkflowsView implements View {
         case 'create':
           this.createWorkflow();
           break;
+        case 'approve':
+        case 'reject':
+          if (runId) await this.decideApproval(runId, action === 'approve' ? 'approved' : 'rejected', runCard);
+          break;
+        case 'cancel-run':
+          if (runId) await this.cancelRun(runId);
+          break;
+        case 'dismiss-run':
+          if (runId) this.dismissLiveRun(runId);
+          break;
       }
     });
   }
 
+  /**
+   * Listen for progress events of workflow runs
+   */
+  private subscribeToProgress(): void {
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI || !electronAPI.workflows || !electronAPI.workflows.onProgress) {
+      return;
+    }
+
+    electronAPI.workflows.onProgress((event: WorkflowProgressEvent) => this.handleProgress(event));
+    this.elapsedTimer = window.setInterval(() => this.updateElapsedTimes(), 1000);
+  }
+
+  /**
+   * Apply a progress event to its live run and update the panel
+   *
+   * Events of nested runs (loop iterations, sub-workflows) are logged under
+   * the top-level run.
+   */
+  private handleProgress(event: WorkflowProgressEvent): void {
+    const nested = event.runId !== event.rootRunId;
+    let run = this.liveRuns.get(event.rootRunId);
+
+    if (!run) {
+      if (nested) return;
+      run = {
+        runId: event.runId,
+        workflowName: event.workflowName,
+        status: 'running',
+        startedAt: Date.now(),
+        finishedAt: null,
+        currentStep: null,
+        stepIndex: null,
+        totalSteps: event.totalSteps ?? 0,
+        log: [],
+      };
+      this.liveRuns.set(event.runId, run);
+    }
+
+    if (!nested) {
+      this.applyRunProgress(run, event);
+    }
+
+    const entry = this.describeProgress(event);
+    if (entry) {
+      if (nested) {
+        entry.text = `  ↳ ${entry.text}`;
+      }
+      run.log.push(entry);
+      if (run.log.length > MAX_LIVE_LOG_ENTRIES) {
+        run.log.splice(0, run.log.length - MAX_LIVE_LOG_ENTRIES);
+      }
+    }
+
+    this.updateLiveRunPanel(run, entry);
+  }
+
+  /**
+   * Update a top-level run's state from one of its own events
+   */
+  private applyRunProgress(run: LiveRun, event: WorkflowProgressEvent): void {
+    switch (event.type) {
+      case 'run-started':
+        // Also sent when a paused or failed run continues
+        run.status = 'running';
+        run.finishedAt = null;
+        run.totalSteps = event.totalSteps ?? run.totalSteps;
+        break;
+      case 'step-started':
+        run.currentStep = event.stepName ?? null;
+        run.stepIndex = event.stepIndex ?? null;
+        break;
+      case 'run-paused':
+        run.status = 'paused';
+        run.currentStep = event.stepName ?? run.currentStep;
+        run.stepIndex = event.stepIndex ?? run.stepIndex;
+        break;
+      case 'run-finished':
+        run.status = event.status === 'completed' || event.status === 'cancelled' ? event.status : 'failed';
+        run.finishedAt = Date.now();
+        break;
+    }
+  }
+
+  /**
+   * Turn a progress event into a log line
+   */
+  private describeProgress(event: WorkflowProgressEvent): LiveRunLogEntry | null {
+    const time = new Date(event.timestamp).toLocaleTimeString();
+    const step = event.stepName || event.stepId || '';
+
+    switch (event.type) {
+      case 'run-started':
+        return { time, level: 'info', text: `Started ${event.workflowName}` };
+      case 'step-started':
+        return { time, level: 'info', text: `▶ ${step}` };
+      case 'step-completed':
+        return { time, level: 'success', text: `✓ ${step}` };
+      case 'step-skipped':
+        return { time, level: 'muted', text: `⤼ ${step} (skipped)` };
+      case 'step-failed':
+        return { time, level: 'error', text: `✗ ${step}: ${event.error || 'failed'}` };
+      case 'variable-changed':
+        return { time, level: 'muted', text: `${event.variable} = ${this.formatValue(event.value)}` };
+      case 'run-paused':
+        return { time, level: 'info', text: `⏸ Waiting for approval: ${step}` };
+      case 'run-finished':
+        return event.status === 'completed'
+          ? { time, level: 'success', text: 'Run completed' }
+          : { time, level: 'error', text: `Run ${event.status}${event.error ? `: ${event.error}` : ''}` };
+    }
+    return null;
+  }
+
+  /**
+   * Update a live run's panel in place, appending the new log line
+   *
+   * The log only auto-scrolls if the user hasn't scrolled up to read it.
+   */
+  private updateLiveRunPanel(run: LiveRun, entry: LiveRunLogEntry | null): void {
+    if (!this.container) return;
+
+    const liveRuns = this.container.querySelector('.workflow-live-runs');
+    const panel = this.container.querySelector(`.live-run[data-run-id="${run.runId}"]`) as HTMLElement | null;
+    if (!liveRuns) return;
+
+    if (!panel) {
+      liveRuns.insertAdjacentHTML('afterbegin', this.renderLiveRun(run));
+      this.scrollLiveLogsToBottom();
+      return;
+    }
+
+    const log = panel.querySelector('.live-run-log') as HTMLElement;
+    const atBottom = log.scrollHeight - log.scrollTop - log.clientHeight < 24;
+
+    // Re-render the header (status, step, buttons) but keep the log element and its scroll position
+    const fresh = document.createElement('div');
+    fresh.innerHTML = this.renderLiveRun(run);
+    const freshPanel = fresh.firstElementChild as HTMLElement;
+    panel.className = freshPanel.className;
+    panel.querySelector('.live-run-header')!.replaceWith(freshPanel.querySelector('.live-run-header')!);
+
+    if (entry) {
+      log.insertAdjacentHTML('beforeend', this.renderLogEntry(entry));
+      while (log.childElementCount > MAX_LIVE_LOG_ENTRIES) {
+        log.firstElementChild!.remove();
+      }
+    }
+    if (atBottom) {
+      log.scrollTop = log.scrollHeight;
+    }
+  }
+
+  /**
+   * Tick the elapsed time of running runs
+   */
+  private updateElapsedTimes(): void {
+    if (!this.container) return;
+
+    for (const run of this.liveRuns.values()) {
+      if (run.finishedAt !== null) continue;
+      const elapsed = this.container.querySelector(`.live-run[data-run-id="${run.runId}"] .live-run-elapsed`);
+      if (elapsed) {
+        elapsed.textContent = this.formatElapsed(run);
+      }
+    }
+  }
+
+  private scrollLiveLogsToBottom(): void {
+    this.container?.querySelectorAll('.live-run-log').forEach(log => {
+      log.scrollTop = log.scrollHeight;
+    });
+  }
+
+  /**
+   * Remove a finished run from the live panel
+   */
+  private dismissLiveRun(runId: string): void {
+    this.liveRuns.delete(runId);
+    this.container?.querySelector(`.live-run[data-run-id="${runId}"]`)?.remove();
+  }
+
+  private formatElapsed(run: LiveRun): string {
+    const seconds = Math.floor(((run.finishedAt ?? Date.now()) - run.startedAt) / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private formatValue(value: any): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (text === undefined) return 'undefined';
+    return text.length > 120 ? `${text.substring(0, 117)}...` : text;
+  }
+
   /**
    * Run a workflow
    */
@@ -251,13 +694,11 @@ export class WorkflowsView implements View {
       // Execute workflow
       const result = await electronAPI.workflows.execute(workflowId);
 
-      if (result.success) {
-        this.showNotification('success', 'Workflow completed', `Completed ${result.completedSteps}/${result.totalSteps} steps`);
+      this.notifyRunResult(result);
+      if (result.success || result.paused) {
         await this.loadWorkflows();
         this.render();
         this.attachEventListeners();
-      } else {
-        this.showNotification('error', 'Workflow failed', result.error || 'Unknown error');
       }
     } catch (error) {
       console.error('[WorkflowsView] Failed to run workflow:', error);
@@ -265,22 +706,227 @@ export class WorkflowsView implements View {
     }
   }
 
+  /**
+   * Approve or reject a paused run, then wait until it finishes or pauses again
+   */
+  private async decideApproval(runId: string, decision: 'approved' | 'rejected', card: HTMLElement): Promise<void> {
+    const comment = (card.querySelector('.approval-comment') as HTMLTextAreaElement | null)?.value.trim() || undefined;
+
+    try {
+      const electronAPI = (window as any).electronAPI;
+      if (!electronAPI || !electronAPI.workflows) {
+        throw new Error('Workflow API not available');
+      }
+
+      card.querySelectorAll('button').forEach(button => (button as HTMLButtonElement).disabled = true);
+      this.showNotification('info', decision === 'approved' ? 'Approved' : 'Rejected', 'Continuing workflow...');
+
+      const result = await electronAPI.workflows.decideApproval(runId, decision, comment);
+      this.notifyRunResult(result);
+    } catch (error) {
+      console.error('[WorkflowsView] Failed to record approval decision:', error);
+      this.showNotification('error', 'Decision failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    await this.loadWorkflows();
+    this.render();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Cancel a paused run
+   */
+  private async cancelRun(runId: string): Promise<void> {
+    if (!confirm('Cancel this workflow run?')) {
+      return;
+    }
+
+    try {
+      const electronAPI = (window as any).electronAPI;
+      if (!electronAPI || !electronAPI.workflows) {
+        throw new Error('Workflow API not available');
+      }
+
+      await electronAPI.workflows.cancel(runId);
+      this.showNotification('success', 'Run cancelled', 'The workflow run has been cancelled');
+      await this.loadWorkflows();
+      this.render();
+      this.attachEventListeners();
+    } catch (error) {
+      console.error('[WorkflowsView] Failed to cancel run:', error);
+      this.showNotification('error', 'Cancel failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Show the outcome of a run (or of continuing one)
+   */
+  private notifyRunResult(result: any): void {
+    if (result.paused) {
+      this.showNotification('info', 'Waiting for approval', result.pendingApproval?.stepName || 'Workflow paused');
+    } else if (result.success) {
+      this.showNotification('success', 'Workflow completed', `Completed ${result.completedSteps}/${result.totalSteps} steps`);
+    } else if (result.cancelled) {
+      this.showNotification('info', 'Workflow cancelled', result.error || 'Cancelled');
+    } else {
+      this.showNotification('error', 'Workflow failed', result.error || 'Unknown error');
+    }
+  }
+
   /**
    * Edit a workflow
    */
-  private editWorkflow(workflowId: string): void {
+  private async editWorkflow(workflowId: string): Promise<void> {
     console.log('[WorkflowsView] Edit workflow:', workflowId);
-    // TODO: Open workflow builder
-    this.showNotification('info', 'Coming soon', 'Workflow builder will be available soon');
+    const workflow = this.workflows.find(w => w.id === workflowId);
+    if (!workflow) return;
+    await this.openWorkflowBuilder(workflow);
   }
 
   /**
    * Show workflow execution history
    */
-  private showWorkflowHistory(workflowId: string): void {
+  private async showWorkflowHistory(workflowId: string): Promise<void> {
     console.log('[WorkflowsView] Show history:', workflowId);
-    // TODO: Open history panel
-    this.showNotification('info', 'Coming soon', 'Workflow history viewer will be available soon');
+    if (!this.container) return;
+
+    this.closeWorkflowHistory();
+    const workflow = this.workflows.find(w => w.id === workflowId);
+
+    this.historyOverlay = document.createElement('div');
+    this.historyOverlay.className = 'workflow-history-overlay';
+    this.container.appendChild(this.historyOverlay);
+
+    const panel = new WorkflowHistoryPanel(this.historyOverlay, {
+      onClose: () => this.closeWorkflowHistory(),
+    });
+    await panel.open(workflowId, workflow?.name || 'Workflow');
+  }
+
+  /**
+   * Close the history panel
+   */
+  private closeWorkflowHistory(): void {
+    this.historyOverlay?.remove();
+    this.historyOverlay = null;
+  }
+
+  /**
+   * Export a workflow with its agents and skills as a package file
+   */
+  private async exportWorkflowPackage(workflowId: string): Promise<void> {
+    const workflow = this.workflows.find(w => w.id === workflowId);
+    if (!workflow) return;
+
+    try {
+      const electronAPI = (window as any).electronAPI;
+      const fileName = workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+      const result = await electronAPI.dialog.showSaveDialog({
+        title: 'Export Workflow Package',
+        defaultPath: `${fileName}.${WORKFLOW_PACKAGE_EXTENSION}`,
+        filters: [{ name: 'Workflow Packages', extensions: [WORKFLOW_PACKAGE_EXTENSION] }],
+        buttonLabel: 'Export',
+      });
+      if (result.canceled || !result.filePath) {
+        return;
+      }
+
+      const manifest = await electronAPI.workflows.exportPackage(workflowId, result.filePath);
+      const { agents, skills } = manifest.dependencies;
+      this.showNotification('success', 'Workflow exported',
+        `${workflow.name} with ${agents.length} agent${agents.length === 1 ? '' : 's'} and ${skills.length} skill${skills.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('[WorkflowsView] Export failed:', error);
+      this.showNotification('error', 'Export failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Show what a workflow package would install, and install it once confirmed
+   */
+  private async importWorkflowPackage(path: string): Promise<void> {
+    const electronAPI = (window as any).electronAPI;
+    const plan: WorkflowPackagePlan = await electronAPI.import.planWorkflowPackage(path);
+    if (!await this.confirmPackagePlan(plan)) {
+      return;
+    }
+
+    await electronAPI.import.workflowPackage(path);
+    const installed = plan.actions.filter(action => action.type !== 'import_workflow').length;
+    this.showNotification('success', 'Import Successful',
+      `${plan.workflow.name} imported${installed > 0 ? ` with ${installed} agent and skill change${installed === 1 ? '' : 's'}` : ''}`);
+  }
+
+  /**
+   * Show the installation plan of a package and wait for the user's decision
+   */
+  private confirmPackagePlan(plan: WorkflowPackagePlan): Promise<boolean> {
+    if (!this.container) return Promise.resolve(false);
+
+    this.closePackagePlan();
+    this.packageOverlay = document.createElement('div');
+    this.packageOverlay.className = 'workflow-package-overlay';
+    this.packageOverlay.innerHTML = this.renderPackagePlan(plan);
+    this.container.appendChild(this.packageOverlay);
+
+    return new Promise(resolve => {
+      this.packageOverlay!.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest('[data-package-action]') as HTMLElement | null;
+        if (!button) return;
+        this.closePackagePlan();
+        resolve(button.dataset.packageAction === 'install');
+      });
+    });
+  }
+
+  /**
+   * Render the installation plan of a package
+   */
+  private renderPackagePlan(plan: WorkflowPackagePlan): string {
+    const actions = plan.actions.map(action => `
+      <li class="package-action ${action.overwrite ? 'overwrite' : 'install'}">
+        <span class="package-action-badge">${action.overwrite ? 'Overwrite' : 'Install'}</span>
+        <span class="package-action-text">${this.escapeHtml(action.description)}</span>
+        ${action.type === 'import_workflow' ? '' : `<code class="package-action-path">${this.escapeHtml(action.destination)}</code>`}
+      </li>
+    `).join('');
+
+    const unchanged = [...plan.existing.agents, ...plan.existing.skills]
+      .filter(name => !plan.actions.some(action => action.component === name));
+    const missingServers = plan.missing.mcpServers;
+
+    return `
+      <div class="workflow-package-plan">
+        <div class="workflow-history-header">
+          <h3 class="workflow-history-title">Import ${this.escapeHtml(plan.packageName)}</h3>
+          <button class="workflow-action-btn" data-package-action="cancel">✕</button>
+        </div>
+        <div class="workflow-history-body">
+          <p class="package-plan-summary">
+            ${this.escapeHtml(plan.workflow.name)} · ${plan.workflow.stepCount} step${plan.workflow.stepCount === 1 ? '' : 's'}
+          </p>
+          <ul class="package-actions">${actions}</ul>
+          ${unchanged.length > 0
+            ? `<p class="package-plan-note">Already installed and unchanged: ${unchanged.map(name => this.escapeHtml(name)).join(', ')}</p>`
+            : ''}
+          ${missingServers.length > 0
+            ? `<p class="package-plan-warning">Requires MCP servers that are not available: ${missingServers.map(name => this.escapeHtml(name)).join(', ')}</p>`
+            : ''}
+        </div>
+        <div class="package-plan-footer">
+          <button class="workflow-action-btn" data-package-action="cancel">Cancel</button>
+          <button class="workflow-action-btn primary" data-package-action="install">Install</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Close the package plan dialog
+   */
+  private closePackagePlan(): void {
+    this.packageOverlay?.remove();
+    this.packageOverlay = null;
   }
 
   /**
@@ -312,10 +958,40 @@ export class WorkflowsView implements View {
   /**
    * Create a new workflow
    */
-  private createWorkflow(): void {
+  private async createWorkflow(): Promise<void> {
     console.log('[WorkflowsView] Create new workflow');
-    // TODO: Open workflow builder
-    this.showNotification('info', 'Coming soon', 'Workflow builder will be available soon');
+    await this.openWorkflowBuilder(null);
+  }
+
+  /**
+   * Open the workflow builder for a workflow, or for a new one
+   */
+  private async openWorkflowBuilder(workflow: Workflow | null): Promise<void> {
+    if (!this.container) return;
+
+    this.closeWorkflowBuilder();
+    this.builderOverlay = document.createElement('div');
+    this.builderOverlay.className = 'workflow-builder-overlay';
+    this.container.appendChild(this.builderOverlay);
+
+    const builder = new WorkflowBuilder(this.builderOverlay, {
+      onSaved: async (saved) => {
+        this.showNotification('success', 'Workflow saved', `${saved.name} (version ${saved.version})`);
+        await this.loadWorkflows();
+        this.render();
+        this.attachEventListeners();
+      },
+      onClose: () => this.closeWorkflowBuilder(),
+    });
+    await builder.open(workflow, this.workflows.map(w => ({ id: w.id, name: w.name })));
+  }
+
+  /**
+   * Close the workflow builder
+   */
+  private closeWorkflowBuilder(): void {
+    this.builderOverlay?.remove();
+    this.builderOverlay = null;
   }
 
   /**
@@ -342,7 +1018,18 @@ export class WorkflowsView implements View {
    * Unmount the view
    */
   async unmount(): Promise<void> {
+    const electronAPI = (window as any).electronAPI;
+    electronAPI?.workflows?.removeProgressListener?.();
+    if (this.elapsedTimer !== null) {
+      window.clearInterval(this.elapsedTimer);
+      this.elapsedTimer = null;
+    }
+
+    this.closeWorkflowHistory();
+    this.closeWorkflowBuilder();
+    this.closePackagePlan();
     this.container = null;
+    this.listenersAttached = false;
   }
 
   /**
@@ -376,15 +1063,22 @@ export class WorkflowsView implements View {
           const electronAPI = (window as any).electronAPI;
           const result = await electronAPI.dialog.showOpenDialog({
             title: 'Import Workflow',
-            filters: [{ name: 'JSON Files', extensions: ['json'] }],
+            filters: [
+              { name: 'Workflow Files', extensions: ['json', 'yaml', 'yml', WORKFLOW_PACKAGE_EXTENSION] },
+              { name: 'Workflow Packages', extensions: [WORKFLOW_PACKAGE_EXTENSION] },
+            ],
             properties: ['openFile'],
             buttonLabel: 'Import Workflow',
           });
           
           if (!result.canceled && result.filePaths.length > 0) {
             const path = result.filePaths[0];
-            await electronAPI.import.workflow(path);
-            this.showNotification('success', 'Import Successful', 'Workflow imported successfully');
+            if (path.toLowerCase().endsWith(`.${WORKFLOW_PACKAGE_EXTENSION}`)) {
+              await this.importWorkflowPackage(path);
+            } else {
+              await electronAPI.import.workflow(path);
+              this.showNotification('success', 'Import Successful', 'Workflow imported successfully');
+            }
             // Refresh list
             await this.loadWorkflows();
             this.render();
@@ -7,6 +7,14 @@
 
 import { IpcMain, IpcMainInvokeEvent } from 'electron';
 
+/**
+ * Version of the plugin API described in this file
+ *
+ * Plugins declare the range they support in dependencies.fictionlabApi.
+ * Bump the major version for breaking changes.
+ */
+export const PLUGIN_API_VERSION = '1.0.0';
+
 /**
  * Plugin Manifest
  *
@@ -52,10 +60,10 @@ export interface PluginManifest {
     /** MCP servers required by this plugin */
     mcpServers?: Array<string | { id: string; version: string }>;
 
-    /** Other plugins required */
+    /** Other plugins required (version is a semver range) */
     plugins?: Array<string | { id: string; version: string }>;
 
-    /** FictionLab API version */
+    /** Supported plugin API versions (semver range, checked against PLUGIN_API_VERSION) */
     fictionlabApi?: string;
   };
 
@@ -93,14 +101,29 @@ export interface PluginPermissions {
   /** Access to MCP servers (array of server IDs) */
   mcp?: string[];
 
-  /** File system access */
-  fileSystem?: boolean | 'readonly';
+  /**
+   * File system access
+   *
+   * A list of directories the plugin may use, or a shorthand for the plugin
+   * data directory and the workspace: true (read and write) or 'readonly'.
+   */
+  fileSystem?: boolean | 'readonly' | FileSystemRoot[];
 
-  /** Network access */
-  network?: boolean;
+  /**
+   * Network access through services.http
+   *
+   * true for any host, or a list of allowed hosts ('api.example.com', or
+   * '*.example.com' for its subdomains)
+   */
+  network?: boolean | string[];
 
-  /** Ability to spawn child processes */
-  childProcesses?: boolean;
+  /**
+   * Ability to run programs through services.process
+   *
+   * true for any program, or a list of allowed commands (names looked up on
+   * PATH, or absolute paths)
+   */
+  childProcesses?: boolean | string[];
 
   /** Access to Docker API */
   docker?: boolean;
@@ -112,6 +135,21 @@ export interface PluginPermissions {
   dialogs?: boolean;
 }
 
+/**
+ * Directory a plugin may access through services.fileSystem
+ */
+export interface FileSystemRoot {
+  /**
+   * 'pluginData' (the plugin's data directory), 'workspace', 'userSelected'
+   * (folders the user picks with fileSystem.selectFolder()), or an absolute
+   * path (may start with ~/)
+   */
+  path: string;
+
+  /** Defaults to 'read' */
+  access?: 'read' | 'readwrite';
+}
+
 /**
  * Plugin UI Configuration
  *
@@ -167,6 +205,12 @@ export interface PluginContext {
 
   /** Logger instance for this plugin */
   logger: PluginLogger;
+
+  /** Event publishing (can trigger workflows) */
+  events: PluginEvents;
+
+  /** Named actions callable by workflows, the UI and other plugins */
+  actions: PluginActions;
 }
 
 /**
@@ -187,6 +231,12 @@ export interface PluginServices {
   /** Docker management (if permission granted) */
   docker?: DockerService;
 
+  /** HTTP client (if network permission granted) */
+  http?: HttpService;
+
+  /** Program runner (if childProcesses permission granted) */
+  process?: ProcessService;
+
   /** Environment configuration */
   environment: EnvironmentService;
 }
@@ -334,6 +384,16 @@ export interface FileSystemService {
    */
   delete(path: string, recursive?: boolean): Promise<void>;
 
+  /**
+   * Ask the user to pick a folder and grant the plugin access to it
+   *
+   * Requires a 'userSelected' root in the fileSystem permission. The grant is
+   * remembered across restarts.
+   * @param title Dialog title
+   * @returns The chosen folder, or null if the user cancelled
+   */
+  selectFolder(title?: string): Promise<string | null>;
+
   /**
    * Get file stats
    * @param path File path
@@ -393,6 +453,109 @@ export interface DockerContainer {
   ports?: Array<{ internal: number; external?: number }>;
 }
 
+/**
+ * HTTP Service
+ *
+ * Makes HTTP requests to the hosts the network permission allows, including
+ * every redirect (requires permission)
+ */
+export interface HttpService {
+  /**
+   * Send a request
+   * @param url Absolute http(s) URL
+   * @param options Method, headers, body and timeout
+   * @returns Response; non-2xx statuses are returned, not thrown
+   */
+  request<T = any>(url: string, options?: HttpRequestOptions): Promise<HttpResponse<T>>;
+
+  /**
+   * Send a GET request
+   */
+  get<T = any>(url: string, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<HttpResponse<T>>;
+
+  /**
+   * Send a POST request
+   * @param body String, or an object sent as JSON
+   */
+  post<T = any>(url: string, body?: any, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<HttpResponse<T>>;
+}
+
+/**
+ * HTTP Request Options
+ */
+export interface HttpRequestOptions {
+  /** Defaults to GET */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+  headers?: Record<string, string>;
+
+  /** String, or an object sent as JSON */
+  body?: any;
+
+  /** Timeout in milliseconds (default 30000) */
+  timeout?: number;
+
+  /** 'json' (default; falls back to text) or 'text' */
+  responseType?: 'json' | 'text';
+}
+
+/**
+ * HTTP Response
+ */
+export interface HttpResponse<T = any> {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Process Service
+ *
+ * Runs programs the childProcesses permission allows. Programs are started
+ * directly, never through a shell (requires permission).
+ */
+export interface ProcessService {
+  /**
+   * Run a program to completion
+   * @param command Program name (looked up on PATH) or absolute path
+   * @param args Arguments, passed as-is
+   * @param options Working directory, environment, input and timeout
+   * @returns Exit status and output; a non-zero exit code is returned, not thrown
+   */
+  run(command: string, args?: string[], options?: ProcessRunOptions): Promise<ProcessResult>;
+}
+
+/**
+ * Process Run Options
+ */
+export interface ProcessRunOptions {
+  /** Working directory (defaults to the plugin data directory; must be readable under the fileSystem permission) */
+  cwd?: string;
+
+  /** Variables added to FictionLab's environment (PATH and loader variables such as LD_PRELOAD cannot be set) */
+  env?: Record<string, string>;
+
+  /** Written to the program's standard input */
+  input?: string;
+
+  /** Kill the program after this many milliseconds (default 60000) */
+  timeout?: number;
+}
+
+/**
+ * Process Result
+ */
+export interface ProcessResult {
+  /** Exit code, or null if the program was killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+
+  /** Whether the program was killed for exceeding the timeout */
+  timedOut: boolean;
+}
+
 /**
  * Environment Service
  *
@@ -444,6 +607,14 @@ export interface WorkspaceInfo {
  *
  * Allows plugins to register IPC handlers and communicate with renderer
  */
+/**
+ * Event passed to a plugin IPC handler
+ *
+ * Calls from the renderer pass Electron's event. Workflows and other plugins
+ * call the handler as a legacy action and pass the action invocation instead.
+ */
+export type PluginIpcEvent = IpcMainInvokeEvent | PluginActionInvocation;
+
 export interface PluginIPC {
   /**
    * Register an IPC handler
@@ -451,7 +622,7 @@ export interface PluginIPC {
    * @param channel Channel name (without prefix)
    * @param handler Handler function
    */
-  handle(channel: string, handler: (event: IpcMainInvokeEvent, ...args: any[]) => Promise<any> | any): void;
+  handle(channel: string, handler: (event: PluginIpcEvent, ...args: any[]) => Promise<any> | any): void;
 
   /**
    * Send a message to renderer
@@ -670,6 +841,152 @@ export interface PluginLogger {
   debug(message: string, ...args: any[]): void;
 }
 
+/**
+ * Plugin Events
+ *
+ * Publishes events on the FictionLab event bus. Events are published with the
+ * source `plugin:[plugin-id]`, and workflows can subscribe to them with a trigger
+ * such as `{ "source": "plugin:my-plugin", "event": "chapter-completed" }`.
+ */
+export interface PluginEvents {
+  /**
+   * Publish an event
+   * @param type Event type (e.g. 'chapter-completed')
+   * @param payload Event data, passed to triggered workflows as variables
+   */
+  publish(type: string, payload?: Record<string, any>): void;
+}
+
+/**
+ * JSON Schema (subset) used to describe action input and output
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  /** Local reference: '#' or '#/definitions/<name>' */
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  title?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: any[];
+  const?: any;
+  default?: any;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * Information passed to an action handler about the current invocation
+ */
+export interface PluginActionInvocation {
+  /** Who is calling: 'workflow:[run-id]', 'ui' or 'plugin:[plugin-id]' */
+  caller: string;
+
+  /** Aborted when the caller cancels (e.g. the workflow run is cancelled) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Action handler
+ */
+export type PluginActionHandler<TInput = any, TOutput = any> = (
+  input: TInput,
+  invocation: PluginActionInvocation
+) => Promise<TOutput> | TOutput;
+
+/**
+ * Action definition registered by a plugin
+ */
+export interface PluginActionDefinition<TInput = any, TOutput = any> {
+  /** Action name, unique within the plugin (e.g. 'generate-outline') */
+  name: string;
+
+  /** Human-readable title shown in the workflow builder */
+  title?: string;
+
+  /** Description of what the action does */
+  description?: string;
+
+  /** Schema the input is validated against before the handler runs */
+  inputSchema?: JsonSchema;
+
+  /** Schema the handler's result is validated against */
+  outputSchema?: JsonSchema;
+
+  /** Implementation */
+  handler: PluginActionHandler<TInput, TOutput>;
+}
+
+/**
+ * Registered action as seen by callers (no handler)
+ */
+export interface PluginActionInfo {
+  pluginId: string;
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;
+  /** True for handlers registered through ipc.handle() rather than actions.register() */
+  legacy: boolean;
+}
+
+/**
+ * Options for invoking an action
+ */
+export interface PluginActionInvokeOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Plugin Actions
+ *
+ * Registry of named actions. Workflow steps call `[pluginId].[action]`
+ * through this registry.
+ */
+export interface PluginActions {
+  /**
+   * Register an action for this plugin
+   * @param action Action definition
+   */
+  register<TInput = any, TOutput = any>(action: PluginActionDefinition<TInput, TOutput>): void;
+
+  /**
+   * Remove one of this plugin's actions
+   * @param name Action name
+   */
+  unregister(name: string): void;
+
+  /**
+   * Invoke an action of any active plugin
+   * @param pluginId Plugin that owns the action
+   * @param name Action name
+   * @param input Action input (validated against the input schema)
+   * @returns Action result
+   */
+  invoke<TOutput = any>(pluginId: string, name: string, input?: any, options?: PluginActionInvokeOptions): Promise<TOutput>;
+
+  /**
+   * List registered actions
+   * @param pluginId Only list actions of this plugin
+   */
+  list(pluginId?: string): PluginActionInfo[];
+}
+
 /**
  * Plugin Interface
  *
@@ -722,6 +1039,9 @@ export interface PluginState {
   /** Plugin context */
   context: PluginContext;
 
+  /** Permissions the user granted (a subset of manifest.permissions) */
+  permissions: PluginPermissions;
+
   /** Activation status */
   status: 'loading' | 'active' | 'inactive' | 'error';
 
@@ -736,6 +1056,35 @@ export interface PluginState {
 
   /** Menu items registered by this plugin */
   menuItems: string[];
+
+  /** Process id of the plugin's host process */
+  hostPid?: number;
+
+  /** Number of times the host process has crashed since the plugin was loaded */
+  crashCount: number;
+
+  /** Most recent host process crash */
+  lastCrash?: PluginCrashReport;
+}
+
+/**
+ * Plugin Crash Report
+ *
+ * Plugins run in their own host process; this describes one exit or kill of
+ * that process that FictionLab did not ask for.
+ */
+export interface PluginCrashReport {
+  /** When the crash was detected */
+  at: Date;
+
+  /** Why the host went down (uncaught error, exit code, or unresponsive) */
+  reason: string;
+
+  /** Exit code of the host process */
+  exitCode: number | null;
+
+  /** Whether the host is being restarted (false once the restart limit is reached) */
+  restarting: boolean;
 }
 
 /**
@@ -762,9 +1111,6 @@ export interface PluginLoadOptions {
   /** Skip permission validation */
   skipPermissionCheck?: boolean;
 
-  /** Skip dependency resolution */
-  skipDependencyCheck?: boolean;
-
   /** Force reload if already loaded */
   force?: boolean;
 }
@@ -784,6 +1130,10 @@ export enum PluginErrorType {
   VERSION_MISMATCH = 'VERSION_MISMATCH',
   ALREADY_LOADED = 'ALREADY_LOADED',
   NOT_LOADED = 'NOT_LOADED',
+  ACTION_NOT_FOUND = 'ACTION_NOT_FOUND',
+  ACTION_INPUT_INVALID = 'ACTION_INPUT_INVALID',
+  ACTION_OUTPUT_INVALID = 'ACTION_OUTPUT_INVALID',
+  HOST_CRASHED = 'HOST_CRASHED',
 }
 
 /**
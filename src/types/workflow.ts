@@ -11,7 +11,7 @@
 /**
  * Phase types in the workflow
  */
-export type PhaseType = 'planning' | 'gate' | 'writing' | 'loop' | 'user' | 'subworkflow';
+export type PhaseType = 'planning' | 'gate' | 'writing' | 'loop' | 'user' | 'subworkflow' | 'action';
 
 /**
  * Workflow execution status
@@ -100,6 +100,7 @@ export interface WorkflowNode {
     phase: WorkflowPhase;
     status?: PhaseStatus;
     executionData?: any;
+    step?: Record<string, any>;     // Engine step definition edited by the workflow builder
   };
   position: { x: number; y: number };
   style?: Record<string, any>;      // Custom styling
@@ -217,11 +218,12 @@ export interface InstallationPlan {
  * Individual installation action
  */
 export interface InstallationAction {
-  type: 'copy_agent' | 'copy_skill' | 'initialize_mcp';
+  type: 'copy_agent' | 'copy_skill' | 'initialize_mcp' | 'import_workflow';
   component: string;
   source?: string;
   destination: string;
   description: string;
+  overwrite?: boolean;              // Replaces an installed component
 }
 
 /**
@@ -27,12 +27,14 @@ export interface RetryOptions {
   shouldRetry?: (error: any, attempt: number) => boolean;
   /** Callback for retry attempts */
   onRetry?: (error: any, attempt: number, delay: number) => void;
+  /** Cancels the current attempt and any further retries */
+  signal?: AbortSignal;
 }
 
 /**
  * Default retry configuration
  */
-export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal'>> & Pick<RetryOptions, 'signal'> = {
   maxAttempts: 3,
   initialDelay: 1000, // 1 second
   maxDelay: 30000, // 30 seconds
@@ -58,7 +60,7 @@ export interface RetryResult<T> {
  * RetryStrategy class implementing exponential backoff with jitter
  */
 export class RetryStrategy {
-  private options: Required<RetryOptions>;
+  private options: typeof DEFAULT_RETRY_OPTIONS;
 
   constructor(options: RetryOptions = {}) {
     this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
@@ -66,9 +68,13 @@ export class RetryStrategy {
 
   /**
    * Execute a function with retry logic
+   *
+   * Each attempt gets its own signal, aborted when the attempt times out or
+   * options.signal aborts, so a timed-out attempt can stop before the next
+   * one starts.
    */
   async execute<T>(
-    fn: () => Promise<T>,
+    fn: (signal: AbortSignal) => Promise<T>,
     context?: Record<string, any>
   ): Promise<RetryResult<T>> {
     const startTime = Date.now();
@@ -118,6 +124,7 @@ export class RetryStrategy {
 
         // Check if we should retry
         const shouldRetry =
+          !this.options.signal?.aborted &&
           attempt < this.options.maxAttempts &&
           ErrorHandler.shouldRetry(buildError) &&
           this.options.shouldRetry(buildError, attempt);
@@ -155,6 +162,11 @@ export class RetryStrategy {
 
         // Wait before retrying
         await this.sleep(delay);
+
+        // Cancelled while waiting
+        if (this.options.signal?.aborted) {
+          break;
+        }
       }
     }
 
@@ -193,13 +205,24 @@ export class RetryStrategy {
   /**
    * Execute function with timeout
    */
-  private async executeWithTimeout<T>(fn: () => Promise<T>, timeout: number): Promise<T> {
-    return new Promise((resolve, reject) => {
+  private async executeWithTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, timeout: number): Promise<T> {
+    const controller = new AbortController();
+    const parent = this.options.signal;
+    const abortFromParent = () => controller.abort(parent?.reason);
+    if (parent?.aborted) {
+      abortFromParent();
+    } else {
+      parent?.addEventListener('abort', abortFromParent, { once: true });
+    }
+
+    return new Promise<T>((resolve, reject) => {
       const timer = setTimeout(() => {
-        reject(new Error(`Operation timed out after ${timeout}ms`));
+        const error = new Error(`Operation timed out after ${timeout}ms`);
+        controller.abort(error);
+        reject(error);
       }, timeout);
 
-      fn()
+      fn(controller.signal)
         .then((result) => {
           clearTimeout(timer);
           resolve(result);
@@ -208,14 +231,27 @@ export class RetryStrategy {
           clearTimeout(timer);
           reject(error);
         });
-    });
+    }).finally(() => parent?.removeEventListener('abort', abortFromParent));
   }
 
   /**
-   * Sleep for a given duration
+   * Sleep for a given duration, ending early if options.signal aborts
    */
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    const signal = this.options.signal;
+    if (signal?.aborted) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
   }
 
   /**
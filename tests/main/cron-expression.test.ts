@@ -0,0 +1,96 @@
+/**
+ * Unit tests for cron expression parsing
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import {
+  parseCron,
+  validateCronExpression,
+  matchesCron,
+  getNextCronTime,
+  getCronTimesBetween,
+  CronParseError,
+} from '../../src/main/utils/cron-expression';
+
+// Dates are built from local-time components because cron is evaluated in local time
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute, 0, 0);
+}
+
+describe('cron-expression', () => {
+  describe('parseCron', () => {
+    it('should expand ranges, lists and steps', () => {
+      const schedule = parseCron('*/15 9-11 1,15 * MON-FRI');
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.months.size).toBe(12);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('should expand macros', () => {
+      expect(parseCron('@daily').hours).toEqual(new Set([0]));
+      expect(parseCron('@weekly').daysOfWeek).toEqual(new Set([0]));
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow(CronParseError);
+      expect(() => parseCron('60 * * * *')).toThrow('Invalid minute value "60"');
+      expect(() => parseCron('* * * * */0')).toThrow('Invalid step');
+      expect(() => parseCron('* 5-2 * * *')).toThrow('Invalid range');
+    });
+  });
+
+  describe('validateCronExpression', () => {
+    it('should return null for valid expressions and a message otherwise', () => {
+      expect(validateCronExpression('0 2 * * *')).toBeNull();
+      expect(validateCronExpression('0 2 * JANUARY *')).toContain('Invalid month value');
+    });
+  });
+
+  describe('matchesCron', () => {
+    it('should match either day field when both are restricted', () => {
+      const schedule = parseCron('0 9 1 * MON');
+      expect(matchesCron(schedule, at(2026, 10, 1, 9))).toBe(true); // 1st of month (Thursday)
+      expect(matchesCron(schedule, at(2026, 10, 5, 9))).toBe(true); // Monday
+      expect(matchesCron(schedule, at(2026, 10, 6, 9))).toBe(false);
+    });
+  });
+
+  describe('getNextCronTime', () => {
+    it('should find the next nightly slot', () => {
+      expect(getNextCronTime('30 2 * * *', at(2026, 10, 19, 14, 7))).toEqual(at(2026, 10, 20, 2, 30));
+    });
+
+    it('should be strictly after the given time', () => {
+      expect(getNextCronTime('30 2 * * *', at(2026, 10, 19, 2, 30))).toEqual(at(2026, 10, 20, 2, 30));
+    });
+
+    it('should find weekly slots', () => {
+      // Next Sunday after Monday 19 Oct 2026
+      expect(getNextCronTime('0 8 * * SUN', at(2026, 10, 19))).toEqual(at(2026, 10, 25, 8, 0));
+    });
+
+    it('should return null for impossible dates', () => {
+      expect(getNextCronTime('0 0 31 2 *', at(2026, 1, 1))).toBeNull();
+    });
+  });
+
+  describe('getCronTimesBetween', () => {
+    it('should list every slot in the window up to the limit', () => {
+      const from = at(2026, 10, 19, 0, 0);
+      const to = at(2026, 10, 22, 0, 0);
+      expect(getCronTimesBetween('0 0 * * *', from, to)).toEqual([
+        at(2026, 10, 20),
+        at(2026, 10, 21),
+        at(2026, 10, 22),
+      ]);
+      expect(getCronTimesBetween('0 0 * * *', from, to, 2)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the JavaScript literal parser used by HTML workflow import
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import {
+  JsLiteralParseError,
+  parseJsLiteral,
+  parseVariableInitializer,
+} from '../../src/main/parsers/js-literal-parser';
+
+describe('js-literal-parser', () => {
+  describe('parseJsLiteral', () => {
+    it('should parse JSON values', () => {
+      expect(parseJsLiteral('{"a": [1, 2.5, -3e2], "b": null, "c": true, "d": "x\\ny"}').value)
+        .toEqual({ a: [1, 2.5, -300], b: null, c: true, d: 'x\ny' });
+    });
+
+    it('should accept JavaScript literal syntax', () => {
+      const source = `[
+        // first phase
+        { id: 0, name: 'Premise\\nDevelopment', 'full-name': \`Premise\`, gate: false, },
+        /* second */ { id: 0x1, note: 'a' + "b" + \`c\`, missing: undefined },
+      ]`;
+
+      expect(parseJsLiteral(source).value).toEqual([
+        { id: 0, name: 'Premise\nDevelopment', 'full-name': 'Premise', gate: false },
+        { id: 1, note: 'abc', missing: undefined },
+      ]);
+    });
+
+    it('should return the offset after the literal', () => {
+      const source = 'x = [1, 2]; rest';
+      expect(parseJsLiteral(source, 4)).toEqual({ value: [1, 2], end: 10 });
+    });
+
+    it('should not let __proto__ keys change the prototype', () => {
+      const value = parseJsLiteral('{ "__proto__": { "polluted": true } }').value;
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(value.__proto__).toEqual({ polluted: true });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should reject code with the line and column', () => {
+      const source = '[\n  { name: require("fs") }\n]';
+      let error: JsLiteralParseError | undefined;
+      try {
+        parseJsLiteral(source);
+      } catch (e) {
+        error = e as JsLiteralParseError;
+      }
+
+      expect(error).toBeInstanceOf(JsLiteralParseError);
+      expect(error!.reason).toBe('Unexpected identifier "require" (only literal values are allowed)');
+      expect(error!.line).toBe(2);
+      expect(error!.column).toBe(11);
+    });
+
+    it('should reject template substitutions, function calls and unterminated values', () => {
+      expect(() => parseJsLiteral('`${process.exit()}`')).toThrow('Template substitutions are not allowed');
+      expect(() => parseJsLiteral('[(() => 1)()]')).toThrow('Unexpected "("');
+      expect(() => parseJsLiteral('[1, 2')).toThrow('Unterminated array');
+      expect(() => parseJsLiteral("{ name: 'x }")).toThrow('Unterminated string');
+      expect(() => parseJsLiteral('{ [key]: 1 }')).toThrow('Computed keys are not allowed');
+      expect(() => parseJsLiteral('[constructor]')).toThrow('Unexpected identifier "constructor"');
+      expect(() => parseJsLiteral('__proto__')).toThrow('Unexpected identifier "__proto__"');
+    });
+  });
+
+  describe('parseVariableInitializer', () => {
+    it('should read a variable declared in a script', () => {
+      const html = `<script>
+        const title = 'Pipeline';
+        const phases = [
+          { id: 1, name: 'Plan', process: ['a', 'b'] },
+          { id: 2, name: 'Write', process: ['c'] },
+        ];
+        render(phases);
+      </script>`;
+
+      expect(parseVariableInitializer(html, 'phases')).toEqual([
+        { id: 1, name: 'Plan', process: ['a', 'b'] },
+        { id: 2, name: 'Write', process: ['c'] },
+      ]);
+    });
+
+    it('should return undefined when the variable is not declared', () => {
+      expect(parseVariableInitializer('<p>No script</p>', 'phases')).toBeUndefined();
+    });
+
+    it('should reject initializers that are not plain literals', () => {
+      expect(() => parseVariableInitializer('const phases = [1].map(fn);', 'phases'))
+        .toThrow('Unexpected "." after the value of phases');
+      expect(() => parseVariableInitializer('const phases = loadPhases();', 'phases'))
+        .toThrow(JsLiteralParseError);
+    });
+  });
+});
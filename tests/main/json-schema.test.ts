@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the JSON Schema validator
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { validateJsonSchema, formatSchemaErrors, formatSchemaPath } from '../../src/main/utils/json-schema';
+import type { JsonSchema } from '../../src/types/plugin-api';
+
+describe('json-schema', () => {
+  const outlineInput: JsonSchema = {
+    type: 'object',
+    properties: {
+      seriesId: { type: 'string', minLength: 1 },
+      bookCount: { type: 'integer', minimum: 1, maximum: 12 },
+      genre: { enum: ['romance', 'thriller'] },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['seriesId'],
+    additionalProperties: false,
+  };
+
+  it('should accept valid values', () => {
+    expect(validateJsonSchema({ seriesId: 'abc', bookCount: 3, tags: ['a'] }, outlineInput)).toEqual([]);
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateJsonSchema({}, outlineInput)).toEqual([{ path: ['seriesId'], message: 'is required' }]);
+  });
+
+  it('should report type, range and enum problems with their paths', () => {
+    const errors = formatSchemaErrors(
+      validateJsonSchema({ seriesId: 'abc', bookCount: 1.5, genre: 'horror', tags: ['a', 2] }, outlineInput),
+      'input'
+    );
+    expect(errors).toEqual([
+      'input.bookCount: expected integer, got number',
+      'input.genre: must be one of: "romance", "thriller"',
+      'input.tags[1]: expected string, got number',
+    ]);
+  });
+
+  it('should reject additional properties when disallowed', () => {
+    expect(validateJsonSchema({ seriesId: 'abc', extra: true }, outlineInput)).toEqual([
+      { path: ['extra'], message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('should support union types and anyOf', () => {
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema(5, { anyOf: [{ type: 'string' }, { type: 'number', minimum: 10 }] })).toHaveLength(1);
+  });
+
+  it('should resolve local references', () => {
+    const tree: JsonSchema = {
+      $ref: '#/definitions/node',
+      definitions: {
+        node: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/definitions/node' } } },
+        },
+      },
+    };
+
+    expect(validateJsonSchema({ name: 'a', children: [{ name: 'b', children: [] }] }, tree)).toEqual([]);
+    expect(validateJsonSchema({ name: 'a', children: [{ children: [{ name: 3 }] }] }, tree)).toEqual([
+      { path: ['children', 0, 'name'], message: 'is required' },
+      { path: ['children', 0, 'children', 0, 'name'], message: 'expected string, got number' },
+    ]);
+  });
+
+  it('should format paths', () => {
+    expect(formatSchemaPath(['steps', 2, 'id'])).toBe('steps[2].id');
+    expect(formatSchemaPath([])).toBe('(root)');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Unit tests for MCP server lookups
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { getMcpServerEndpoint, isKnownMcpServer } from '../../src/main/mcp-tools';
+
+describe('mcp-tools', () => {
+  it('should know the bundled MCP servers', () => {
+    expect(isKnownMcpServer('workflow-manager')).toBe(true);
+    expect(getMcpServerEndpoint('workflow-manager')).toBe('http://localhost:3012');
+    expect(isKnownMcpServer('image-generator')).toBe(false);
+    expect(getMcpServerEndpoint('image-generator')).toBeNull();
+  });
+
+  it('should not treat inherited properties as servers', () => {
+    expect(isKnownMcpServer('constructor')).toBe(false);
+    expect(isKnownMcpServer('__proto__')).toBe(false);
+    expect(getMcpServerEndpoint('toString')).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for plugin version and dependency resolution
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { EventEmitter } from 'events';
+import * as os from 'os';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { logWithCategory } from '../../src/main/logger';
+import { PluginLoader, findDependencyCycle } from '../../src/main/plugin-loader';
+import { PluginRegistry } from '../../src/main/plugin-registry';
+import { PluginError, PluginErrorType, PluginManifest, PluginState } from '../../src/types/plugin-api';
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => require('path').join(require('os').tmpdir(), 'plugin-dependencies-test'),
+    getVersion: () => '0.5.0',
+  },
+}));
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+jest.mock('../../src/main/prerequisites', () => ({
+  getFixedEnv: () => ({ ...process.env }),
+}));
+
+// Hosts stand in for plugin processes; activation fails for ids in failingActivation
+const hosts = new Map<string, EventEmitter>();
+const failingActivation = new Set<string>();
+
+jest.mock('../../src/main/plugin-host', () => {
+  const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+  return {
+    PluginHost: class extends EventEmitter {
+      pid = 1;
+      constructor(private pluginId: string) {
+        super();
+        hosts.set(pluginId, this);
+      }
+      async start() {
+        return {
+          onActivate: async () => {
+            if (failingActivation.has(this.pluginId)) {
+              throw new Error('activation failed');
+            }
+          },
+          onDeactivate: async () => {},
+        };
+      }
+      async stop() {}
+    },
+  };
+});
+
+jest.mock('../../src/main/plugin-context', () => ({
+  createPluginContext: (pluginId: string, manifest: unknown, permissions: unknown, installPath: string) => ({
+    plugin: { installPath },
+  }),
+}));
+
+const manifest = (id: string, version: string, extra: Partial<Pick<PluginManifest, 'fictionLabVersion' | 'dependencies'>> = {}): PluginManifest => ({
+  id,
+  name: id,
+  version,
+  description: `${id} plugin`,
+  author: 'Test',
+  fictionLabVersion: '>=0.1.0',
+  pluginType: 'utility',
+  entry: { main: 'index.js' },
+  permissions: {},
+  ...extra,
+});
+
+const installed = (...manifests: PluginManifest[]): Map<string, PluginState> =>
+  new Map(manifests.map(m => [m.id, { id: m.id, manifest: m, status: 'inactive' } as PluginState]));
+
+describe('plugin dependency resolution', () => {
+  let loader: PluginLoader;
+
+  beforeAll(() => {
+    loader = new PluginLoader();
+  });
+
+  afterAll(async () => {
+    await require('fs-extra').remove(path.join(os.tmpdir(), 'plugin-dependencies-test'));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept plugins whose requirements are met', () => {
+    const notes = manifest('notes', '1.0.0', {
+      fictionLabVersion: '^0.5.0',
+      dependencies: { fictionlabApi: '^1.0.0', plugins: ['story-core', { id: 'timeline', version: '>=2.1.0 <3' }] },
+    });
+
+    const plugins = installed(manifest('story-core', '1.0.0'), manifest('timeline', '2.4.1'));
+    expect(loader.checkRequirements(notes, plugins)).toEqual([]);
+  });
+
+  it('should name each constraint that is not met', () => {
+    const notes = manifest('notes', '1.0.0', {
+      fictionLabVersion: '>=2.0.0',
+      dependencies: {
+        fictionlabApi: '^2.0.0',
+        plugins: [{ id: 'story-core', version: '^1.2.0' }, 'timeline'],
+      },
+    });
+
+    const failures = loader.checkRequirements(notes, installed(manifest('story-core', '1.0.0')));
+    expect(failures.map(failure => failure.message)).toEqual([
+      "fictionLabVersion '>=2.0.0' not satisfied: FictionLab is 0.5.0",
+      "dependencies.fictionlabApi '^2.0.0' not satisfied: FictionLab provides plugin API 1.0.0",
+      "dependencies.plugins 'story-core@^1.2.0' not satisfied: story-core 1.0.0 is installed",
+      "dependencies.plugins 'timeline' not satisfied: timeline is not installed",
+    ]);
+    expect(failures.map(failure => failure.type)).toEqual([
+      PluginErrorType.VERSION_MISMATCH,
+      PluginErrorType.VERSION_MISMATCH,
+      PluginErrorType.VERSION_MISMATCH,
+      PluginErrorType.DEPENDENCY_MISSING,
+    ]);
+  });
+
+  it('should refuse plugins that are part of a dependency cycle', () => {
+    const a = manifest('a', '1.0.0', { dependencies: { plugins: ['b'] } });
+    const b = manifest('b', '1.0.0', { dependencies: { plugins: ['c'] } });
+    const c = manifest('c', '1.0.0', { dependencies: { plugins: ['a'] } });
+    const d = manifest('d', '1.0.0', { dependencies: { plugins: ['a'] } });
+    const manifests = new Map([a, b, c, d].map(m => [m.id, m]));
+
+    expect(findDependencyCycle('a', manifests)).toEqual(['a', 'b', 'c', 'a']);
+    expect(findDependencyCycle('d', manifests)).toBeNull();
+
+    expect(loader.checkRequirements(b, installed(a, b, c)).map(failure => failure.message)).toEqual([
+      "dependencies.plugins 'c' not satisfied: circular dependency b -> c -> a -> b",
+    ]);
+  });
+
+  it('should load dependencies first and report cycles with their path', () => {
+    const discovered = [
+      manifest('notes', '1.0.0', { dependencies: { plugins: [{ id: 'story-core', version: '^1.0.0' }] } }),
+      manifest('story-core', '1.0.0'),
+      manifest('x', '1.0.0', { dependencies: { plugins: ['y'] } }),
+      manifest('y', '1.0.0', { dependencies: { plugins: ['x'] } }),
+    ].map(m => ({ path: `/plugins/${m.id}`, manifest: m, valid: true }));
+
+    expect(loader.sortByDependencies(discovered).map(result => result.manifest.id))
+      .toEqual(['story-core', 'notes', 'y', 'x']);
+    expect(logWithCategory).toHaveBeenCalledWith('warn', 'SYSTEM', 'Circular plugin dependency: x -> y -> x');
+  });
+});
+
+describe('plugin registry dependencies', () => {
+  let registry: PluginRegistry;
+
+  const load = async (...manifests: PluginManifest[]) => {
+    for (const m of manifests) {
+      jest.spyOn(PluginLoader.prototype, 'loadPlugin').mockResolvedValueOnce({ manifest: m, entryPath: `/plugins/${m.id}/index.js` });
+      await registry.loadPlugin(`/plugins/${m.id}`);
+    }
+  };
+
+  beforeEach(() => {
+    hosts.clear();
+    failingActivation.clear();
+    registry = new PluginRegistry({
+      databasePool: {} as Pool,
+      skipDependencyChecks: true,
+      permissionsDirectory: path.join(os.tmpdir(), 'plugin-dependencies-test', 'access'),
+    });
+  });
+
+  it('should only activate plugins once their dependencies are active', async () => {
+    await load(manifest('a', '1.0.0', { dependencies: { plugins: ['b'] } }), manifest('b', '1.0.0', { dependencies: { plugins: ['a'] } }));
+
+    await expect(registry.activatePlugin('a')).rejects.toMatchObject({
+      type: PluginErrorType.DEPENDENCY_MISSING,
+      message: expect.stringContaining('dependency a is loading, not active'),
+    });
+    expect(registry.getPluginsByStatus('active')).toEqual([]);
+  });
+
+  it('should deactivate dependents when a host fails for good', async () => {
+    await load(
+      manifest('story-core', '1.0.0'),
+      manifest('notes', '1.0.0', { dependencies: { plugins: ['story-core'] } }),
+      manifest('outline', '1.0.0', { dependencies: { plugins: ['notes'] } })
+    );
+    await registry.activatePlugin('outline');
+    expect(registry.getPluginsByStatus('active').map(plugin => plugin.id).sort()).toEqual(['notes', 'outline', 'story-core']);
+
+    const deactivated: string[] = [];
+    registry.on('plugin-deactivated', pluginId => deactivated.push(pluginId));
+    hosts.get('story-core')!.emit('failed', new PluginError(PluginErrorType.ACTIVATION_FAILED, 'story-core', 'Plugin crashed too often'));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(registry.getPlugin('story-core')?.status).toBe('error');
+    expect(deactivated).toEqual(['outline', 'notes']);
+    expect(registry.getPluginsByStatus('active')).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for plugin file system roots
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { logWithCategory } from '../../src/main/logger';
+import {
+  PluginPathPolicy,
+  canonicalizePath,
+  expandFileSystemPermission,
+} from '../../src/main/plugin-file-access';
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+describe('plugin-file-access', () => {
+  let root: string;
+  let workspace: string;
+  let pluginData: string;
+  let outside: string;
+
+  const policyFor = (permission: any, userSelected: string[] = []) => new PluginPathPolicy(
+    'notes',
+    expandFileSystemPermission(permission, { pluginData, workspace, userSelected }),
+    [
+      { path: path.join(workspace, 'plugins'), except: pluginData },
+      { path: path.join(workspace, 'plugin-access') },
+    ],
+    workspace
+  );
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'plugin-files-')));
+    workspace = path.join(root, 'userData');
+    pluginData = path.join(workspace, 'plugins', 'notes');
+    outside = path.join(root, 'home');
+
+    await fs.outputFile(path.join(workspace, 'chapters/one.md'), '# One\n');
+    await fs.outputFile(path.join(workspace, 'plugins/other/config.json'), '{}');
+    await fs.outputFile(path.join(workspace, 'plugin-access/notes/folders.json'), '{}');
+    await fs.ensureDir(pluginData);
+    await fs.outputFile(path.join(outside, '.ssh/id_rsa'), 'secret');
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('should expand shorthands to the plugin data directory and the workspace', () => {
+    const paths = { pluginData: '/data', workspace: '/workspace', userSelected: ['/picked'] };
+
+    expect(expandFileSystemPermission(true, paths)).toEqual([
+      { path: '/data', write: true },
+      { path: '/workspace', write: true },
+    ]);
+    expect(expandFileSystemPermission('readonly', paths)).toEqual([
+      { path: '/data', write: false },
+      { path: '/workspace', write: false },
+    ]);
+    expect(expandFileSystemPermission([{ path: 'userSelected', access: 'readwrite' }, { path: '/abs' }, { path: 'relative' }], paths)).toEqual([
+      { path: '/picked', write: true },
+      { path: '/abs', write: false },
+    ]);
+    expect(expandFileSystemPermission(undefined, paths)).toEqual([]);
+  });
+
+  it('should allow paths inside roots and resolve relative paths against the workspace', async () => {
+    const policy = policyFor('readonly');
+
+    await expect(policy.resolve('chapters/one.md', false)).resolves.toBe(path.join(workspace, 'chapters/one.md'));
+    await expect(policy.resolve(path.join(pluginData, 'new/file.txt'), false)).resolves.toBe(path.join(pluginData, 'new/file.txt'));
+  });
+
+  it('should reject and log paths outside the roots, including through ..', async () => {
+    const policy = policyFor(true);
+
+    await expect(policy.resolve(path.join(outside, '.ssh/id_rsa'), false)).rejects.toThrow('outside the plugin\'s allowed directories');
+    await expect(policy.resolve('../home/.ssh/id_rsa', false)).rejects.toThrow('not permitted');
+    expect(logWithCategory).toHaveBeenCalledWith(
+      'warn', 'SYSTEM', expect.stringContaining(`Plugin notes denied read access to ${path.join(outside, '.ssh/id_rsa')}`)
+    );
+  });
+
+  it('should follow symbolic links before checking', async () => {
+    await fs.symlink(path.join(outside, '.ssh'), path.join(pluginData, 'keys'));
+    await fs.symlink(path.join(outside, 'missing.txt'), path.join(pluginData, 'dangling'));
+    const policy = policyFor(true);
+
+    await expect(policy.resolve(path.join(pluginData, 'keys/id_rsa'), false)).rejects.toThrow('outside');
+    await expect(policy.resolve(path.join(pluginData, 'dangling'), true)).rejects.toThrow('dangling symbolic link');
+    // The link itself may be deleted
+    await expect(policy.resolve(path.join(pluginData, 'keys'), true, false)).resolves.toBe(path.join(pluginData, 'keys'));
+  });
+
+  it('should enforce read-only roots and reserved paths', async () => {
+    const readonly = policyFor('readonly');
+    await expect(readonly.resolve('chapters/two.md', true)).rejects.toThrow('read-only for this plugin');
+
+    const full = policyFor(true);
+    await expect(full.resolve('plugins/other/config.json', false)).rejects.toThrow('reserved by FictionLab');
+    await expect(full.resolve('plugin-access/notes/folders.json', true)).rejects.toThrow('reserved by FictionLab');
+    await expect(full.resolve(path.join(pluginData, 'config.json'), true)).resolves.toBe(path.join(pluginData, 'config.json'));
+  });
+
+  it('should allow user-selected folders once added', async () => {
+    const policy = policyFor([{ path: 'userSelected', access: 'readwrite' }]);
+    await expect(policy.resolve(path.join(outside, 'book.md'), true)).rejects.toThrow('outside');
+
+    policy.addRoot({ path: await canonicalizePath(outside), write: true });
+    await expect(policy.resolve(path.join(outside, 'book.md'), true)).resolves.toBe(path.join(outside, 'book.md'));
+  });
+});
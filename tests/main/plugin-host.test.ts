@@ -0,0 +1,240 @@
+/**
+ * Unit tests for the out-of-process plugin host
+ *
+ * The host process is simulated in-process: messages go through
+ * structuredClone, like they do between Electron processes.
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { EventEmitter, once } from 'events';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginHost, PluginHostProcess } from '../../src/main/plugin-host';
+import { startPluginHostRuntime } from '../../src/main/plugin-host-process';
+import { pluginActions } from '../../src/main/plugin-actions';
+import { PluginCrashReport, PluginError } from '../../src/types/plugin-api';
+
+jest.mock('electron', () => ({
+  utilityProcess: { fork: jest.fn() },
+}));
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+const PLUGIN_SOURCE = `
+module.exports = class Plugin {
+  constructor() {
+    this.id = 'echo-plugin';
+    this.name = 'Echo';
+    this.version = '1.0.0';
+  }
+  async onActivate(context) {
+    context.actions.register({
+      name: 'echo',
+      handler: async (input, { caller }) => ({ input, caller, greeting: context.config.get('greeting', 'hi') }),
+    });
+    context.ipc.handle('wait', (event) => new Promise((resolve) => {
+      event.signal.addEventListener('abort', () => {
+        context.logger.info('wait cancelled');
+        resolve('cancelled');
+      });
+    }));
+    context.logger.info('activated %d', 1);
+  }
+  async onDeactivate() {}
+};
+`;
+
+class FakeHostProcess extends EventEmitter implements PluginHostProcess {
+  private static nextPid = 1000;
+  readonly pid = FakeHostProcess.nextPid++;
+  private port = new EventEmitter();
+  private exited = false;
+  private hung = false;
+
+  constructor() {
+    super();
+    startPluginHostRuntime({
+      postMessage: message => this.deliver(() => this.emit('message', structuredClone(message))),
+      on: (event, listener) => this.port.on(event, listener),
+    });
+  }
+
+  postMessage(message: any): void {
+    const data = structuredClone(message);
+    this.deliver(() => this.port.emit('message', { data }));
+  }
+
+  kill(): boolean {
+    this.exit(null as any);
+    return true;
+  }
+
+  /** Simulate the process dying */
+  exit(code: number): void {
+    if (!this.exited) {
+      this.exited = true;
+      setImmediate(() => this.emit('exit', code));
+    }
+  }
+
+  /** Simulate a blocked event loop: nothing gets through anymore */
+  hang(): void {
+    this.hung = true;
+  }
+
+  private deliver(send: () => void): void {
+    setImmediate(() => {
+      if (!this.exited && !this.hung) {
+        send();
+      }
+    });
+  }
+}
+
+describe('PluginHost', () => {
+  let root: string;
+  let entryPath: string;
+  let processes: FakeHostProcess[];
+  let host: PluginHost;
+  let context: any;
+
+  const createHost = (options = {}) => new PluginHost('echo-plugin', entryPath, context, {
+    spawn: () => {
+      const child = new FakeHostProcess();
+      processes.push(child);
+      return child;
+    },
+    restartDelay: 5,
+    ...options,
+  });
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'plugin-host-'));
+    entryPath = path.join(root, 'index.js');
+    await fs.writeFile(entryPath, PLUGIN_SOURCE);
+  });
+
+  afterAll(async () => {
+    await fs.remove(root);
+  });
+
+  beforeEach(() => {
+    processes = [];
+    context = {
+      services: {
+        database: { getPluginSchema: () => 'plugin_echo_plugin' },
+        mcp: { listServers: async () => [], getEndpoint: () => null },
+        environment: { getUserDataPath: () => root, getAppVersion: () => '0.1.0', isDevelopment: () => true },
+      },
+      workspace: { root, config: {}, getPluginDataPath: () => root },
+      plugin: { id: 'echo-plugin', version: '1.0.0', dataPath: root, installPath: root, manifest: { id: 'echo-plugin' } },
+      config: { all: () => ({ greeting: 'hello' }) },
+      logger: { info: jest.fn() },
+      ipc: { handle: jest.fn(), removeHandler: jest.fn() },
+      actions: {
+        register: (action: any) => pluginActions.register('echo-plugin', action),
+        unregister: (name: string) => pluginActions.unregister('echo-plugin', name),
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await host?.stop();
+    pluginActions.unregisterPlugin('echo-plugin');
+  });
+
+  it('should run the plugin in the host process and proxy its actions and services', async () => {
+    host = createHost();
+    const instance = await host.start();
+    expect(instance).toMatchObject({ id: 'echo-plugin', name: 'Echo', version: '1.0.0' });
+
+    await instance.onActivate(context);
+    await expect(pluginActions.invoke('echo-plugin', 'echo', { x: 1 }, { caller: 'ui' })).resolves.toEqual({
+      input: { x: 1 },
+      caller: 'ui',
+      greeting: 'hello',
+    });
+    expect(context.logger.info).toHaveBeenCalledWith('activated 1');
+
+    await instance.onDeactivate();
+    expect(pluginActions.has('echo-plugin', 'echo')).toBe(false);
+  });
+
+  it('should forward cancellation to IPC handlers', async () => {
+    host = createHost();
+    const instance = await host.start();
+    await instance.onActivate(context);
+
+    const [channel, handler] = context.ipc.handle.mock.calls[0];
+    expect(channel).toBe('wait');
+
+    const controller = new AbortController();
+    const result = handler({ signal: controller.signal, caller: 'workflow:run-1' }, {});
+    await new Promise(resolve => setTimeout(resolve, 20));
+    controller.abort(new Error('Workflow cancelled'));
+
+    await expect(result).rejects.toThrow('Workflow cancelled');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(context.logger.info).toHaveBeenCalledWith('wait cancelled');
+  });
+
+  it('should restart a crashed host and re-activate the plugin', async () => {
+    host = createHost();
+    const instance = await host.start();
+    await instance.onActivate(context);
+
+    const crashed = once(host, 'crash');
+    const restarted = once(host, 'restarted');
+    processes[0].exit(1);
+
+    const [report] = (await crashed) as [PluginCrashReport];
+    expect(report).toMatchObject({ reason: 'Plugin host exited with code 1', exitCode: 1, restarting: true });
+    expect(pluginActions.has('echo-plugin', 'echo')).toBe(false);
+
+    expect(await restarted).toEqual([true]);
+    expect(processes).toHaveLength(2);
+    expect(host.pid).toBe(processes[1].pid);
+    await expect(pluginActions.invoke('echo-plugin', 'echo', {}, { caller: 'ui' })).resolves.toMatchObject({ greeting: 'hello' });
+  });
+
+  it('should give up after too many crashes', async () => {
+    host = createHost({ maxRestarts: 1 });
+    await (await host.start()).onActivate(context);
+
+    processes[0].exit(1);
+    await once(host, 'restarted');
+
+    const failed = once(host, 'failed');
+    processes[1].exit(2);
+    const [error] = (await failed) as [PluginError];
+
+    expect(error.type).toBe('HOST_CRASHED');
+    expect(error.message).toContain('not restarting. Last crash: Plugin host exited with code 2');
+    expect(processes).toHaveLength(2);
+  });
+
+  it('should kill a host that stops answering', async () => {
+    host = createHost({ heartbeatInterval: 10, heartbeatTimeout: 30, maxRestarts: 0 });
+    await host.start();
+
+    const crashed = once(host, 'crash');
+    processes[0].hang();
+
+    const [report] = (await crashed) as [PluginCrashReport];
+    expect(report.reason).toBe('Plugin host stopped responding (no heartbeat for 30ms)');
+    expect(report.restarting).toBe(false);
+  });
+
+  it('should report entry points that fail to load', async () => {
+    host = new PluginHost('echo-plugin', path.join(root, 'missing.js'), context, {
+      spawn: () => new FakeHostProcess(),
+    });
+
+    await expect(host.start()).rejects.toThrow('Failed to load plugin entry point');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for plugin permission grants
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PluginPermissionStore,
+  listPermissionItems,
+  restrictPermissions,
+} from '../../src/main/plugin-permissions';
+import { PluginManifest, PluginPermissions } from '../../src/types/plugin-api';
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+const manifest = (version: string, permissions: PluginPermissions): PluginManifest => ({
+  id: 'notes',
+  name: 'Notes',
+  version,
+  description: 'Notes plugin',
+  author: 'Test',
+  fictionLabVersion: '>=0.1.0',
+  pluginType: 'utility',
+  entry: { main: 'index.js' },
+  permissions,
+});
+
+describe('plugin-permissions', () => {
+  let directory: string;
+  let store: PluginPermissionStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'plugin-grants-'));
+    store = new PluginPermissionStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it('should split permissions into items and restrict them to granted keys', () => {
+    const permissions: PluginPermissions = {
+      database: ['notes', 'shared'],
+      mcp: ['workflow-manager'],
+      fileSystem: [{ path: 'pluginData', access: 'readwrite' }, { path: 'workspace' }],
+      network: true,
+      docker: false,
+    };
+
+    expect(listPermissionItems(permissions).map(item => item.key)).toEqual([
+      'database:notes',
+      'database:shared',
+      'mcp:workflow-manager',
+      'fileSystem:pluginData:readwrite',
+      'fileSystem:workspace:read',
+      'network',
+    ]);
+
+    expect(restrictPermissions(permissions, ['database:notes', 'fileSystem:workspace:read'])).toEqual({
+      database: ['notes'],
+      mcp: [],
+      fileSystem: [{ path: 'workspace' }],
+    });
+    expect(restrictPermissions({ database: ['notes'], fileSystem: true }, [])).toEqual({});
+    expect(listPermissionItems({ network: ['api.example.com'], childProcesses: ['git'] }).map(item => item.key))
+      .toEqual(['network:api.example.com', 'childProcesses:git']);
+    expect(restrictPermissions({ network: ['a.example.com', 'b.example.com'], childProcesses: ['git'] }, ['network:b.example.com']))
+      .toEqual({ network: ['b.example.com'] });
+  });
+
+  it('should grant nothing until the user consents', async () => {
+    const v1 = manifest('1.0.0', { mcp: ['workflow-manager'], network: true });
+
+    const before = await store.resolve(v1);
+    expect(before.permissions).toEqual({ mcp: [] });
+    expect(before.pending.map(item => item.key)).toEqual(['mcp:workflow-manager', 'network']);
+    expect(await store.hasPreviousGrant(v1)).toBe(false);
+
+    await store.grantPending(v1);
+    await expect(store.resolve(v1)).resolves.toEqual({
+      permissions: { mcp: ['workflow-manager'], network: true },
+      pending: [],
+    });
+    expect(await fs.readJson(path.join(directory, 'notes', 'grants.json'))).toMatchObject({
+      versions: { '1.0.0': { requested: ['mcp:workflow-manager', 'network'], granted: ['mcp:workflow-manager', 'network'] } },
+    });
+  });
+
+  it('should only ask about permissions an update adds', async () => {
+    await store.grantPending(manifest('1.0.0', { network: true, clipboard: true }));
+
+    // Same permissions: carried over silently
+    const patch = manifest('1.0.1', { network: true });
+    await expect(store.resolve(patch)).resolves.toEqual({ permissions: { network: true }, pending: [] });
+
+    // A new permission is pending, the old grant still applies
+    const minor = manifest('1.1.0', { network: true, docker: true });
+    const resolved = await store.resolve(minor);
+    expect(resolved.permissions).toEqual({ network: true });
+    expect(resolved.pending.map(item => item.key)).toEqual(['docker']);
+    expect(await store.hasPreviousGrant(minor)).toBe(true);
+  });
+
+  it('should revoke and re-grant individual permissions', async () => {
+    const v1 = manifest('1.0.0', { mcp: ['workflow-manager', 'book-planning'], network: true });
+    await store.grantPending(v1);
+
+    await store.setPermission(v1, 'mcp:book-planning', false);
+    await store.setPermission(v1, 'network', false);
+    await expect(store.resolve(v1)).resolves.toEqual({ permissions: { mcp: ['workflow-manager'] }, pending: [] });
+    expect((await store.describe(v1)).map(item => item.status)).toEqual(['granted', 'revoked', 'revoked']);
+
+    // Revocations survive updates that do not request anything new
+    await expect(store.resolve(manifest('1.0.1', v1.permissions))).resolves.toEqual({
+      permissions: { mcp: ['workflow-manager'] },
+      pending: [],
+    });
+
+    await store.setPermission(v1, 'network', true);
+    expect((await store.resolve(v1)).permissions.network).toBe(true);
+    await expect(store.setPermission(v1, 'docker', true)).rejects.toThrow("Permission 'docker' is not requested by the plugin");
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the plugin HTTP and process services
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { logWithCategory } from '../../src/main/logger';
+import {
+  createHttpService,
+  createProcessService,
+  findRawModuleImports,
+  matchesHost,
+} from '../../src/main/plugin-system-access';
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+jest.mock('../../src/main/prerequisites', () => ({
+  getFixedEnv: () => ({ ...process.env }),
+}));
+
+describe('plugin-system-access', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('http', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/redirect') {
+          res.writeHead(302, { Location: `http://localhost:${port}/json` });
+          res.end();
+        } else if (req.url === '/echo') {
+          let body = '';
+          req.on('data', chunk => (body += chunk));
+          req.on('end', () => {
+            res.writeHead(201, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ method: req.method, type: req.headers['content-type'], body }));
+          });
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end('{"ok":true}');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send requests to allowed hosts', async () => {
+      const service = createHttpService('notes', ['127.0.0.1']);
+
+      await expect(service.get(`http://127.0.0.1:${port}/json`)).resolves.toMatchObject({
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        data: { ok: true },
+      });
+      await expect(service.get(`http://127.0.0.1:${port}/json`, { responseType: 'text' }))
+        .resolves.toMatchObject({ data: '{"ok":true}' });
+
+      const posted = await service.post(`http://127.0.0.1:${port}/echo`, { title: 'Draft' });
+      expect(posted.status).toBe(201);
+      expect(posted.data).toEqual({ method: 'POST', type: 'application/json', body: '{"title":"Draft"}' });
+    });
+
+    it('should reject other hosts, protocols and redirects to them', async () => {
+      const service = createHttpService('notes', ['127.0.0.1', '*.example.com']);
+
+      await expect(service.get(`http://localhost:${port}/json`))
+        .rejects.toThrow("host localhost is not in the plugin's allowed hosts (127.0.0.1, *.example.com)");
+      await expect(service.get('file:///etc/passwd')).rejects.toThrow('unsupported protocol file:');
+      await expect(service.get('not a url')).rejects.toThrow('invalid URL');
+      await expect(service.get(`http://127.0.0.1:${port}/redirect`)).rejects.toThrow('host localhost is not');
+
+      expect(logWithCategory).toHaveBeenCalledWith(
+        'warn', 'SYSTEM', expect.stringContaining('Plugin notes denied network access to file:///etc/passwd')
+      );
+    });
+
+    it('should allow any host with network: true', async () => {
+      const service = createHttpService('notes', true);
+
+      await expect(service.get(`http://127.0.0.1:${port}/redirect`)).resolves.toMatchObject({ data: { ok: true } });
+    });
+
+    it('should match host patterns', () => {
+      expect(matchesHost('api.example.com', 'API.example.com')).toBe(true);
+      expect(matchesHost('*.example.com', 'api.example.com')).toBe(true);
+      expect(matchesHost('*.example.com', 'example.com')).toBe(false);
+      expect(matchesHost('*.example.com', 'evilexample.com')).toBe(false);
+      expect(matchesHost('example.com', 'example.com.evil.net')).toBe(false);
+    });
+  });
+
+  describe('process', () => {
+    const node = process.execPath;
+    const allowCwd = async (cwd: string) => cwd;
+
+    it('should run allowed commands without a shell', async () => {
+      const service = createProcessService('notes', [node], os.tmpdir(), allowCwd);
+
+      const result = await service.run(node, ['-e', 'process.stdin.pipe(process.stdout); console.error(process.argv[1])', '$(whoami)'], {
+        input: 'draft',
+      });
+      expect(result).toEqual({ exitCode: 0, signal: null, stdout: 'draft', stderr: '$(whoami)\n', timedOut: false });
+
+      await expect(service.run(node, ['-e', 'process.exit(3)'])).resolves.toMatchObject({ exitCode: 3 });
+    });
+
+    it('should kill commands that run too long', async () => {
+      const service = createProcessService('notes', true, os.tmpdir(), allowCwd);
+
+      const result = await service.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 100 });
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBeNull();
+    });
+
+    it('should reject commands outside the allow-list', async () => {
+      const service = createProcessService('notes', ['pandoc'], os.tmpdir(), allowCwd);
+
+      await expect(service.run('sh', ['-c', 'echo hi'])).rejects.toThrow("command is not in the plugin's allowed commands (pandoc)");
+      await expect(service.run('./pandoc')).rejects.toThrow('use a program name or an absolute path');
+      await expect(service.run('pandoc', [42 as any])).rejects.toThrow('arguments must be strings');
+      expect(logWithCategory).toHaveBeenCalledWith('warn', 'SYSTEM', expect.stringContaining('Plugin notes denied running sh'));
+    });
+
+    it("should look up programs on FictionLab's PATH only", async () => {
+      const root = await fs.mkdtemp(path.join(os.tmpdir(), 'plugin-path-'));
+      const script = (dir: string, output: string) => fs.outputFile(path.join(root, dir, 'greet'), `#!/bin/sh\necho ${output}\n`, { mode: 0o755 });
+      await script('trusted', 'trusted');
+      await script('plugin', 'planted');
+
+      const originalPath = process.env.PATH;
+      process.env.PATH = `${path.join(root, 'trusted')}${path.delimiter}${originalPath}`;
+      try {
+        const service = createProcessService('notes', ['greet'], os.tmpdir(), allowCwd);
+
+        await expect(service.run('greet')).resolves.toMatchObject({ exitCode: 0, stdout: 'trusted\n' });
+        await expect(service.run('greet', [], { env: { PATH: path.join(root, 'plugin') } }))
+          .rejects.toThrow('plugins may not set PATH');
+        await expect(service.run('greet', [], { env: { ld_preload: '/tmp/x.so' } }))
+          .rejects.toThrow('plugins may not set ld_preload');
+      } finally {
+        process.env.PATH = originalPath;
+        await fs.remove(root);
+      }
+    });
+
+    it('should check the working directory against the file system policy', async () => {
+      const denyCwd = async (cwd: string): Promise<string> => {
+        throw new Error(`File system read access to '${cwd}' not permitted`);
+      };
+      const service = createProcessService('notes', [node], os.tmpdir(), denyCwd);
+
+      await expect(service.run(node, ['-e', ''], { cwd: '/etc' })).rejects.toThrow("access to '/etc' not permitted");
+      await expect(service.run(node, ['-e', ''])).resolves.toMatchObject({ exitCode: 0 });
+    });
+  });
+
+  it('should find imports of modules that bypass the services', () => {
+    const source = `
+      const { spawn } = require('child_process');
+      const axios = require("axios");
+      import fetch from 'node-fetch';
+      const https = await import('node:https');
+      const path = require('path');
+      const helper = require('./child_process');
+    `;
+
+    expect(findRawModuleImports(source)).toEqual([
+      { module: 'child_process', replacement: 'services.process' },
+      { module: 'axios', replacement: 'services.http' },
+      { module: 'node-fetch', replacement: 'services.http' },
+      { module: 'https', replacement: 'services.http' },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for retry timeouts and cancellation
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { RetryStrategy } from '../../src/utils/retry-strategy';
+
+jest.mock('../../src/main/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), warn: jest.fn(), info: jest.fn() },
+  LogCategory: { GENERAL: 'GENERAL', SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+describe('RetryStrategy', () => {
+  it('should abort the signal of an attempt that timed out before retrying', async () => {
+    const signals: AbortSignal[] = [];
+    const strategy = new RetryStrategy({ maxAttempts: 2, initialDelay: 1, jitterFactor: 0, timeout: 20 });
+
+    const result = await strategy.execute(signal => {
+      signals.push(signal);
+      return signals.length === 1 ? new Promise<string>(() => {}) : Promise.resolve('done');
+    });
+
+    expect(result).toMatchObject({ success: true, result: 'done', attempts: 2 });
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason.message).toBe('Operation timed out after 20ms');
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should stop waiting and retrying when the signal aborts', async () => {
+    const controller = new AbortController();
+    const onRetry = jest.fn();
+    const strategy = new RetryStrategy({
+      maxAttempts: 3,
+      initialDelay: 60000,
+      timeout: 1000,
+      signal: controller.signal,
+      onRetry,
+    });
+    const fn = jest.fn((_signal: AbortSignal) => Promise.reject(new Error('Network timeout')));
+
+    const started = Date.now();
+    const pending = strategy.execute(fn);
+    setTimeout(() => controller.abort(new Error('Cancelled')), 20);
+    const result = await pending;
+
+    expect(result.success).toBe(false);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
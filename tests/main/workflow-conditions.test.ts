@@ -0,0 +1,117 @@
+/**
+ * Unit tests for workflow condition expressions
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import {
+  parseCondition,
+  evaluateCondition,
+  validateCondition,
+  ConditionParseError,
+} from '../../src/main/workflow-conditions';
+
+describe('workflow-conditions', () => {
+  const values: Record<string, any> = {
+    'step-1.seriesId': 'abc-123',
+    'step-1.bookCount': '3',
+    'step-2.score': 82,
+    'bookCount': 3,
+    'genre': 'romance',
+    'tags': ['slow-burn', 'enemies-to-lovers'],
+    'emptyList': [],
+    'book.title': 'The Long Night',
+  };
+  const resolve = (path: string) => values[path];
+
+  describe('parseCondition', () => {
+    it('should parse references, literals and operators into an AST', () => {
+      expect(parseCondition('{{step-2.score}} >= 80')).toEqual({
+        kind: 'comparison',
+        operator: '>=',
+        left: { kind: 'reference', path: 'step-2.score' },
+        right: { kind: 'literal', value: 80 },
+      });
+    });
+
+    it('should give && higher precedence than ||', () => {
+      const node = parseCondition('a || b && c');
+      expect(node.kind).toBe('logical');
+      expect((node as any).operator).toBe('||');
+      expect((node as any).right.operator).toBe('&&');
+    });
+
+    it('should report the position of unexpected tokens', () => {
+      try {
+        parseCondition('bookCount > > 2');
+        fail('Expected parse error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConditionParseError);
+        expect((error as ConditionParseError).position).toBe(12);
+      }
+    });
+
+    it('should reject unknown functions', () => {
+      expect(() => parseCondition('require("fs")')).toThrow("Unknown function 'require'");
+      expect(() => parseCondition('constructor(bookCount)')).toThrow("Unknown function 'constructor'");
+      expect(parseCondition('toString')).toEqual({ kind: 'reference', path: 'toString' });
+    });
+
+    it('should reject unterminated references and strings', () => {
+      expect(() => parseCondition('{{step-1.seriesId == 1')).toThrow('Unterminated {{ reference');
+      expect(() => parseCondition("genre == 'romance")).toThrow('Unterminated string literal');
+    });
+
+    it('should reject empty conditions', () => {
+      expect(() => parseCondition('   ')).toThrow('Empty condition');
+    });
+  });
+
+  describe('validateCondition', () => {
+    it('should return null for valid conditions', () => {
+      expect(validateCondition('exists({{step-1.seriesId}}) and not empty(tags)')).toBeNull();
+    });
+
+    it('should return an error message for invalid conditions', () => {
+      expect(validateCondition('bookCount >')).toContain('Unexpected end of condition');
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should compare numbers and numeric strings numerically', () => {
+      expect(evaluateCondition('{{step-1.bookCount}} == 3', resolve)).toBe(true);
+      expect(evaluateCondition('{{step-1.bookCount}} < 10', resolve)).toBe(true);
+    });
+
+    it('should compare strings', () => {
+      expect(evaluateCondition("genre == 'romance'", resolve)).toBe(true);
+      expect(evaluateCondition('genre != "thriller"', resolve)).toBe(true);
+    });
+
+    it('should combine boolean logic', () => {
+      expect(evaluateCondition('bookCount > 2 && (genre == "thriller" || step-2.score >= 80)', resolve)).toBe(true);
+      expect(evaluateCondition('!(bookCount > 2)', resolve)).toBe(false);
+    });
+
+    it('should treat missing references as undefined', () => {
+      expect(evaluateCondition('exists({{step-9.missing}})', resolve)).toBe(false);
+      expect(evaluateCondition('{{step-9.missing}} == null', resolve)).toBe(true);
+      expect(evaluateCondition('{{step-9.missing}} > 1', resolve)).toBe(false);
+    });
+
+    it('should support collection helpers', () => {
+      expect(evaluateCondition("contains(tags, 'slow-burn')", resolve)).toBe(true);
+      expect(evaluateCondition('empty(emptyList)', resolve)).toBe(true);
+      expect(evaluateCondition('len(tags) == 2', resolve)).toBe(true);
+      expect(evaluateCondition('emptyList', resolve)).toBe(false);
+    });
+
+    it('should resolve dotted bare paths', () => {
+      expect(evaluateCondition("book.title == 'The Long Night'", resolve)).toBe(true);
+    });
+
+    it('should not execute code embedded in conditions', () => {
+      expect(() => evaluateCondition('process.exit(1)', resolve)).toThrow(ConditionParseError);
+    });
+  });
+});
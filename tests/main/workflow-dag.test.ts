@@ -0,0 +1,181 @@
+/**
+ * Unit tests for workflow step graph scheduling
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import {
+  buildStepGraph,
+  runStepGraph,
+  validateStepGraph,
+  StepGraphError,
+} from '../../src/main/workflow-dag';
+import type { WorkflowStep } from '../../src/main/workflow-engine';
+
+function step(id: string, dependsOn?: string[]): WorkflowStep {
+  return { id, name: id, pluginId: 'test-plugin', action: 'noop', config: {}, dependsOn };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('workflow-dag', () => {
+  describe('validateStepGraph', () => {
+    it('should accept linear workflows without dependsOn', () => {
+      expect(validateStepGraph([step('step-1'), step('step-2'), step('step-3')])).toEqual([]);
+    });
+
+    it('should report unknown dependencies and duplicate ids', () => {
+      const errors = validateStepGraph([step('a', []), step('a', []), step('b', ['missing'])]);
+      expect(errors).toContain('Step "a": duplicate step id');
+      expect(errors).toContain('Step "b": depends on unknown step "missing"');
+    });
+
+    it('should report cycles', () => {
+      const errors = validateStepGraph([step('a', ['b']), step('b', ['a'])]);
+      expect(errors[0]).toMatch(/^Circular step dependency/);
+    });
+  });
+
+  describe('buildStepGraph', () => {
+    it('should default to depending on the previous step', () => {
+      const graph = buildStepGraph([step('a'), step('b'), step('c', [])]);
+      expect(graph.dependencies.get('b')).toEqual(['a']);
+      expect(graph.dependencies.get('c')).toEqual([]);
+      expect(graph.order).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('runStepGraph', () => {
+    it('should run independent branches concurrently up to the limit', async () => {
+      const steps = [
+        step('plan', []),
+        step('characters', ['plan']),
+        step('world', ['plan']),
+        step('outline', ['characters', 'world']),
+      ];
+      const graph = buildStepGraph(steps);
+      const gates: Record<string, ReturnType<typeof deferred>> = {
+        characters: deferred(),
+        world: deferred(),
+      };
+      const running = new Set<string>();
+      let maxParallel = 0;
+      const order: string[] = [];
+
+      const run = runStepGraph(steps, graph, {
+        maxConcurrency: 2,
+        runStep: async (s) => {
+          running.add(s.id);
+          maxParallel = Math.max(maxParallel, running.size);
+          if (gates[s.id]) await gates[s.id].promise;
+          running.delete(s.id);
+          order.push(s.id);
+        },
+      });
+
+      await new Promise((r) => setImmediate(r));
+      expect(running).toEqual(new Set(['characters', 'world']));
+      gates.world.resolve();
+      gates.characters.resolve();
+      await run;
+
+      expect(maxParallel).toBe(2);
+      expect(order[0]).toBe('plan');
+      expect(order[3]).toBe('outline');
+    });
+
+    it('should skip completed steps', async () => {
+      const steps = [step('a'), step('b'), step('c')];
+      const ran: string[] = [];
+
+      await runStepGraph(steps, buildStepGraph(steps), {
+        maxConcurrency: 1,
+        completed: ['a', 'b'],
+        runStep: async (s) => {
+          ran.push(s.id);
+        },
+      });
+
+      expect(ran).toEqual(['c']);
+    });
+
+    it('should stop scheduling after a failure and report the failing step', async () => {
+      const steps = [step('a'), step('b'), step('c')];
+      const ran: string[] = [];
+
+      await expect(
+        runStepGraph(steps, buildStepGraph(steps), {
+          maxConcurrency: 4,
+          runStep: async (s) => {
+            ran.push(s.id);
+            if (s.id === 'b') throw new Error('boom');
+          },
+        })
+      ).rejects.toMatchObject({ stepId: 'b', stepIndex: 1, message: 'boom' });
+
+      expect(ran).toEqual(['a', 'b']);
+    });
+
+    it('should re-run the goto target and its downstream steps', async () => {
+      const steps = [step('draft'), step('review'), step('publish')];
+      const ran: string[] = [];
+      let reviews = 0;
+
+      await runStepGraph(steps, buildStepGraph(steps), {
+        maxConcurrency: 1,
+        runStep: async (s) => {
+          ran.push(s.id);
+          return s.id === 'review' && ++reviews === 1 ? { goto: 'draft' } : undefined;
+        },
+      });
+
+      expect(ran).toEqual(['draft', 'review', 'draft', 'review', 'publish']);
+    });
+
+    it('should abort after too many goto jumps', async () => {
+      const steps = [step('a'), step('b')];
+      await expect(
+        runStepGraph(steps, buildStepGraph(steps), {
+          maxConcurrency: 1,
+          maxJumps: 3,
+          runStep: async (s) => (s.id === 'b' ? { goto: 'a' } : undefined),
+        })
+      ).rejects.toThrow('Exceeded maximum of 3 goto jumps');
+    });
+
+    it('should stop at the next pending step when the signal is aborted', async () => {
+      const steps = [step('a'), step('b'), step('c')];
+      const controller = new AbortController();
+      const ran: string[] = [];
+
+      await expect(
+        runStepGraph(steps, buildStepGraph(steps), {
+          maxConcurrency: 1,
+          signal: controller.signal,
+          runStep: async (s) => {
+            ran.push(s.id);
+            if (s.id === 'a') controller.abort(new Error('Cancelled by user'));
+          },
+        })
+      ).rejects.toMatchObject({ stepId: 'b', stepIndex: 1, message: 'Cancelled by user' });
+
+      expect(ran).toEqual(['a']);
+    });
+
+    it('should wrap failures in StepGraphError', async () => {
+      const steps = [step('only')];
+      await expect(
+        runStepGraph(steps, buildStepGraph(steps), {
+          maxConcurrency: 1,
+          runStep: async () => {
+            throw new Error('nope');
+          },
+        })
+      ).rejects.toBeInstanceOf(StepGraphError);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for workflow quality gate evaluation
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { evaluateGate, extractGateScore } from '../../src/main/workflow-gates';
+
+describe('workflow-gates', () => {
+  const variables: Record<string, any> = { minScore: 75 };
+  const resolve = (path: string) => variables[path];
+
+  describe('extractGateScore', () => {
+    it('should read the score from the default path', () => {
+      expect(extractGateScore({ score: 82 })).toBe(82);
+    });
+
+    it('should accept bare numbers, nested paths and numeric strings', () => {
+      expect(extractGateScore(64)).toBe(64);
+      expect(extractGateScore({ npe: { score: '91.5' } }, '$.npe.score')).toBe(91.5);
+      expect(extractGateScore({ npe: { score: 70 } }, 'npe.score')).toBe(70);
+    });
+
+    it('should return null when there is no numeric score', () => {
+      expect(extractGateScore({ verdict: 'ok' })).toBeNull();
+      expect(extractGateScore({ score: 'high' })).toBeNull();
+      expect(extractGateScore(null)).toBeNull();
+    });
+  });
+
+  describe('evaluateGate', () => {
+    it('should pass when the score meets the condition', () => {
+      expect(evaluateGate('score >= 80', { score: 82 }, undefined, resolve)).toEqual({ result: 'pass', score: 82 });
+    });
+
+    it('should fail when the score is below the threshold', () => {
+      expect(evaluateGate('score >= 80', { score: 79 }, undefined, resolve)).toEqual({ result: 'fail', score: 79 });
+    });
+
+    it('should fail when the result has no score', () => {
+      expect(evaluateGate('score >= 80', { verdict: 'ok' }, undefined, resolve)).toEqual({ result: 'fail', score: null });
+    });
+
+    it('should resolve result fields and context variables', () => {
+      const output = { score: 80, issues: [] };
+      expect(evaluateGate('score >= {{minScore}} && empty(result.issues)', output, undefined, resolve).result).toBe('pass');
+      expect(evaluateGate('score >= {{minScore}} && empty(result.issues)', { ...output, issues: ['pacing'] }, undefined, resolve).result)
+        .toBe('fail');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for converting workflow steps to and from builder graphs
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { checkStepActions, graphToSteps, stepsToGraph } from '../../src/main/workflow-graph';
+import type { WorkflowStep } from '../../src/main/workflow-engine';
+import type { PluginActionInfo } from '../../src/types/plugin-api';
+
+describe('workflow-graph', () => {
+  const steps: WorkflowStep[] = [
+    { id: 'outline', name: 'Outline', pluginId: 'writer', action: 'outline', config: { genre: 'thriller' } },
+    { id: 'draft', name: 'Draft', pluginId: 'writer', action: 'draft', config: {}, outputMapping: { chapter: '$.text' } },
+    {
+      id: 'review',
+      name: 'Review',
+      type: 'gate',
+      pluginId: 'editor',
+      action: 'score',
+      config: {},
+      gateCondition: 'score >= 80',
+      onError: 'goto:draft',
+    },
+    { id: 'notify', name: 'Notify', pluginId: 'mailer', action: 'send', config: {}, dependsOn: ['outline'], condition: '{{notify}}' },
+  ];
+
+  describe('stepsToGraph', () => {
+    it('should create a node per step with its definition', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', version: 3, steps });
+
+      expect(graph.nodes.map(node => node.id)).toEqual(['outline', 'draft', 'review', 'notify']);
+      expect(graph.nodes[0]).toMatchObject({ type: 'action', label: 'Outline', agent: 'writer', skill: 'outline' });
+      expect(graph.nodes[2].type).toBe('gate');
+      expect(graph.nodes[1].data.step).toEqual(steps[1]);
+      expect(graph.metadata).toEqual({ workflowId: 'wf-1', workflowName: 'Novel', version: '3' });
+    });
+
+    it('should create edges for dependencies, conditions and goto error policies', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', steps });
+      const edges = graph.edges.map(edge => [edge.source, edge.target, edge.type]);
+
+      expect(edges).toEqual([
+        ['outline', 'draft', 'sequential'],
+        ['draft', 'review', 'sequential'],
+        ['review', 'draft', 'loop'],
+        ['outline', 'notify', 'conditional'],
+      ]);
+    });
+
+    it('should lay out steps without a saved position left to right', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', steps: steps.slice(0, 2) });
+      expect(graph.nodes.map(node => node.position)).toEqual([{ x: 80, y: 120 }, { x: 300, y: 120 }]);
+    });
+  });
+
+  describe('graphToSteps', () => {
+    it('should round-trip steps and keep implicit dependencies implicit', () => {
+      const result = graphToSteps(stepsToGraph({ id: 'wf-1', name: 'Novel', steps }));
+
+      expect(result.map(step => step.id)).toEqual(['outline', 'draft', 'review', 'notify']);
+      expect(result[1].dependsOn).toBeUndefined();
+      expect(result[1].outputMapping).toEqual({ chapter: '$.text' });
+      expect(result[2].onError).toBe('goto:draft');
+      expect(result[3].dependsOn).toEqual(['outline']);
+      expect(result[0].position).toEqual({ x: 80, y: 120 });
+    });
+
+    it('should order steps after their dependencies', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', steps: steps.slice(0, 2) });
+      graph.nodes.reverse();
+
+      const result = graphToSteps(graph);
+      expect(result.map(step => step.id)).toEqual(['outline', 'draft']);
+    });
+
+    it('should record parallel roots with an explicit empty dependency list', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', steps: steps.slice(0, 2) });
+      graph.edges = [];
+
+      const result = graphToSteps(graph);
+      expect(result[0].dependsOn).toBeUndefined();
+      expect(result[1].dependsOn).toEqual([]);
+    });
+
+    it('should use the node label as the step name', () => {
+      const graph = stepsToGraph({ id: 'wf-1', name: 'Novel', steps: steps.slice(0, 1) });
+      graph.nodes[0].label = 'Plot Outline';
+
+      expect(graphToSteps(graph)[0].name).toBe('Plot Outline');
+    });
+  });
+
+  describe('checkStepActions', () => {
+    const registered: Record<string, PluginActionInfo> = {
+      'writer.outline': {
+        pluginId: 'writer',
+        name: 'outline',
+        legacy: false,
+        inputSchema: { type: 'object', required: ['genre'] },
+      },
+      'writer.draft': {
+        pluginId: 'writer',
+        name: 'draft',
+        legacy: false,
+        inputSchema: { type: 'object', required: ['chapter'] },
+      },
+    };
+    const lookup = (pluginId: string, action: string) => registered[`${pluginId}.${action}`] || null;
+
+    it('should warn about unregistered actions and missing required inputs', () => {
+      expect(checkStepActions(steps.slice(0, 3), lookup)).toEqual([
+        'Step "draft": config is missing required input "chapter"',
+        'Step "review": action editor.score is not registered (is the plugin active?)',
+      ]);
+    });
+
+    it('should skip steps without a plugin action', () => {
+      const approval: WorkflowStep = { id: 'approve', name: 'Approve', type: 'approval', config: {} };
+      expect(checkStepActions([approval], lookup)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the layered workflow graph layout
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { layoutWorkflowGraph, LayoutEdge, LayoutNode } from '../../src/main/workflow-layout';
+
+describe('workflow-layout', () => {
+  const node = (id: string, type: LayoutNode['type'] = 'action'): LayoutNode => ({ id, type });
+  const edge = (source: string, target: string, type: LayoutEdge['type'] = 'sequential'): LayoutEdge =>
+    ({ source, target, type });
+  const layout = (nodes: LayoutNode[], edges: LayoutEdge[]) =>
+    Object.fromEntries(layoutWorkflowGraph(nodes, edges));
+
+  it('should place a chain in one row', () => {
+    expect(layout([node('a'), node('b'), node('c')], [edge('a', 'b'), edge('b', 'c')])).toEqual({
+      a: { x: 80, y: 120 },
+      b: { x: 300, y: 120 },
+      c: { x: 520, y: 120 },
+    });
+  });
+
+  it('should put nodes after their furthest predecessor and stack parallel branches', () => {
+    const positions = layout(
+      [node('outline'), node('draft'), node('research'), node('merge')],
+      [edge('outline', 'draft'), edge('outline', 'research'), edge('draft', 'merge'), edge('research', 'merge'), edge('outline', 'merge')]
+    );
+
+    expect(positions).toEqual({
+      outline: { x: 80, y: 120 },
+      draft: { x: 300, y: 120 },
+      research: { x: 300, y: 230 },
+      merge: { x: 520, y: 120 },
+    });
+  });
+
+  it('should ignore loop edges and break cycles', () => {
+    const positions = layout(
+      [node('draft'), node('review'), node('publish')],
+      [edge('draft', 'review'), edge('review', 'draft', 'loop'), edge('review', 'publish'), edge('publish', 'draft')]
+    );
+
+    expect(positions).toEqual({
+      draft: { x: 80, y: 120 },
+      review: { x: 300, y: 120 },
+      publish: { x: 520, y: 120 },
+    });
+  });
+
+  it('should order columns to avoid crossings', () => {
+    // b2 is listed before b1, but follows a2, so it goes below b1
+    const positions = layout(
+      [node('a1'), node('a2'), node('b2'), node('b1')],
+      [edge('a1', 'b1'), edge('a2', 'b2')]
+    );
+
+    expect(positions.b1).toEqual({ x: 300, y: 120 });
+    expect(positions.b2).toEqual({ x: 300, y: 230 });
+  });
+
+  it('should give sub-workflow nodes two rows', () => {
+    const positions = layout(
+      [node('start'), node('series', 'subworkflow'), node('notes'), node('end')],
+      [edge('start', 'series'), edge('start', 'notes'), edge('series', 'end'), edge('notes', 'end')]
+    );
+
+    expect(positions.series).toEqual({ x: 300, y: 120 });
+    expect(positions.notes).toEqual({ x: 300, y: 340 });
+  });
+
+  it('should be deterministic', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => node(id));
+    const edges = [edge('a', 'c'), edge('b', 'c'), edge('a', 'd'), edge('c', 'e'), edge('d', 'f'), edge('b', 'f')];
+    expect(layout(nodes, edges)).toEqual(layout(nodes.map(n => ({ ...n })), edges.map(e => ({ ...e }))));
+  });
+});
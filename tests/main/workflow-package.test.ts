@@ -0,0 +1,117 @@
+/**
+ * Unit tests for workflow packages
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  ComponentDirectories,
+  applyWorkflowPackagePlan,
+  createWorkflowPackage,
+  planWorkflowPackageInstall,
+  readWorkflowPackage,
+} from '../../src/main/workflow-package';
+import { createTarGz, readTarGz } from '../../src/main/utils/tar-archive';
+
+describe('workflow-package', () => {
+  let root: string;
+  let source: ComponentDirectories;
+  let target: ComponentDirectories;
+
+  const workflow = {
+    id: 'wf-1',
+    name: 'Series Pipeline',
+    version: 3,
+    steps: [
+      { id: 'plan', name: 'Plan', pluginId: 'claude', action: 'run-agent', config: { agent: 'series-architect', prompt: 'Use /series-planning' } },
+      { id: 'check', name: 'Check', type: 'gate' as const, mcpServer: 'workflow-manager', tool: 'validate', gateCondition: 'score >= 80', config: {} },
+    ],
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-package-'));
+    source = { agentsDir: path.join(root, 'source/agents'), skillsDir: path.join(root, 'source/skills') };
+    target = { agentsDir: path.join(root, 'target/agents'), skillsDir: path.join(root, 'target/skills') };
+
+    await fs.outputFile(path.join(source.agentsDir, 'series-architect.md'), '# Series Architect\n');
+    await fs.outputFile(path.join(source.agentsDir, 'unrelated-agent.md'), '# Unrelated\n');
+    await fs.outputFile(path.join(source.skillsDir, 'series-planning/SKILL.md'), '# Series Planning\n');
+    await fs.outputFile(path.join(source.skillsDir, 'series-planning/templates/outline.md'), 'Outline\n');
+    await fs.outputFile(path.join(source.skillsDir, 'series'), 'not a skill directory');
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('should round-trip long paths through tar archives', () => {
+    const longPath = `skills/${'nested/'.repeat(20)}file.md`;
+    expect(readTarGz(createTarGz([{ path: longPath, data: Buffer.from('x') }]))).toEqual([
+      { path: longPath, data: Buffer.from('x') },
+    ]);
+    expect(() => createTarGz([{ path: '../escape.md', data: Buffer.alloc(0) }])).toThrow('Invalid archive path');
+  });
+
+  it('should include referenced agents and skills with checksums', async () => {
+    const { archive, manifest } = await createWorkflowPackage(workflow, source);
+
+    expect(manifest.dependencies).toEqual({
+      agents: ['series-architect'],
+      skills: ['series-planning'],
+      mcpServers: ['workflow-manager'],
+    });
+    expect(manifest.files.map(file => file.path)).toEqual([
+      'workflow.json',
+      'agents/series-architect.md',
+      'skills/series-planning/SKILL.md',
+      'skills/series-planning/templates/outline.md',
+    ]);
+
+    const pkg = readWorkflowPackage(archive);
+    expect(pkg.workflow).toMatchObject({ id: 'wf-1', name: 'Series Pipeline', steps: workflow.steps });
+    expect(pkg.agents.get('series-architect')!.toString()).toBe('# Series Architect\n');
+    expect(pkg.skills.get('series-planning')!.map(file => file.path)).toEqual(['SKILL.md', 'templates/outline.md']);
+  });
+
+  it('should plan installs and overwrites before applying them', async () => {
+    const pkg = readWorkflowPackage((await createWorkflowPackage(workflow, source)).archive);
+    await fs.outputFile(path.join(target.agentsDir, 'series-architect.md'), '# Older version\n');
+
+    const plan = await planWorkflowPackageInstall(pkg, target, { id: 'wf-1', name: 'Series Pipeline', version: 5 });
+    expect(plan.missing).toEqual({ agents: [], skills: ['series-planning'], mcpServers: [] });
+    expect(plan.existing).toEqual({ agents: ['series-architect'], skills: [], mcpServers: ['workflow-manager'] });
+    expect(plan.actions.map(action => [action.type, action.component, action.overwrite])).toEqual([
+      ['copy_agent', 'series-architect', true],
+      ['copy_skill', 'series-planning', false],
+      ['import_workflow', 'Series Pipeline', true],
+    ]);
+    // Planning changes nothing
+    expect(await fs.readFile(path.join(target.agentsDir, 'series-architect.md'), 'utf-8')).toBe('# Older version\n');
+
+    await applyWorkflowPackagePlan(pkg, plan);
+    expect(await fs.readFile(path.join(target.agentsDir, 'series-architect.md'), 'utf-8')).toBe('# Series Architect\n');
+    expect(await fs.readFile(path.join(target.skillsDir, 'series-planning/templates/outline.md'), 'utf-8')).toBe('Outline\n');
+
+    const replanned = await planWorkflowPackageInstall(pkg, target, null);
+    expect(replanned.actions.map(action => action.type)).toEqual(['import_workflow']);
+  });
+
+  it('should reject tampered and unlisted files', async () => {
+    const { archive } = await createWorkflowPackage(workflow, source);
+    const entries = readTarGz(archive);
+
+    const tampered = entries.map(entry =>
+      entry.path === 'agents/series-architect.md' ? { ...entry, data: Buffer.from('# Changed\n') } : entry
+    );
+    expect(() => readWorkflowPackage(createTarGz(tampered))).toThrow('checksum mismatch for agents/series-architect.md');
+
+    const extra = [...entries, { path: 'agents/extra.md', data: Buffer.from('# Extra\n') }];
+    expect(() => readWorkflowPackage(createTarGz(extra))).toThrow('agents/extra.md is not listed in the manifest');
+
+    expect(() => readWorkflowPackage(zlib.gzipSync(Buffer.from('not a tar')))).toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for workflow file schemas and YAML source positions
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  WORKFLOW_DEFINITION_SCHEMA,
+  WORKFLOW_FILE_SCHEMA,
+  WorkflowSchemaError,
+  assertWorkflowSchema,
+} from '../../src/main/workflow-schema';
+import { loadYamlWithPositions } from '../../src/main/parsers/yaml-positions';
+
+describe('workflow-schema', () => {
+  const readPublished = (name: string) =>
+    JSON.parse(fs.readFileSync(path.join(__dirname, '../../docs/schemas', name), 'utf-8'));
+
+  const schemaError = (run: () => void): WorkflowSchemaError => {
+    try {
+      run();
+    } catch (error) {
+      return error as WorkflowSchemaError;
+    }
+    throw new Error('Expected a WorkflowSchemaError');
+  };
+
+  it('should match the published schema files', () => {
+    expect(readPublished('workflow-file.v1.schema.json')).toEqual(WORKFLOW_FILE_SCHEMA);
+    expect(readPublished('workflow-definition.v1.schema.json')).toEqual(WORKFLOW_DEFINITION_SCHEMA);
+  });
+
+  it('should accept a valid workflow file with nested steps', () => {
+    const workflow = {
+      schemaVersion: 1,
+      name: 'Series Pipeline',
+      steps: [
+        { id: 'outline', name: 'Outline', pluginId: 'writer', action: 'outline', config: {}, retry: { maxAttempts: 3 } },
+        {
+          id: 'chapters',
+          name: 'Chapters',
+          type: 'foreach',
+          items: '{{outline.chapters}}',
+          onError: 'goto:outline',
+          steps: [{ id: 'draft', name: 'Draft', pluginId: 'writer', action: 'draft', config: {} }],
+        },
+      ],
+    };
+
+    expect(() => assertWorkflowSchema(workflow, WORKFLOW_FILE_SCHEMA, 'series.json')).not.toThrow();
+  });
+
+  it('should list every violation with its path', () => {
+    const workflow = {
+      name: 'Broken',
+      steps: [
+        { id: 'a', name: 'A', type: 'loop', timeoutMs: 0 },
+        { name: 'B', steps: [{ id: 'c', name: 'C', dependOn: ['a'] }] },
+      ],
+    };
+
+    const error = schemaError(() => assertWorkflowSchema(workflow, WORKFLOW_FILE_SCHEMA, 'broken.json'));
+    expect(error).toBeInstanceOf(WorkflowSchemaError);
+    expect(error.issues).toEqual([
+      { path: 'steps[0].type', message: 'must be one of: "action", "foreach", "while", "subworkflow", "approval", "gate"' },
+      { path: 'steps[0].timeoutMs', message: 'must be >= 1' },
+      { path: 'steps[1].id', message: 'is required' },
+      { path: 'steps[1].steps[0].dependOn', message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('should report YAML violations with line and column', () => {
+    const content = [
+      'name: Pipeline',
+      'steps:',
+      '  - id: outline',
+      '    name: Outline',
+      '    retry:',
+      '      maxAttempts: 0',
+      '  # second step',
+      '  - name: Draft',
+      '    config: {}',
+    ].join('\n');
+
+    const document = loadYamlWithPositions(content);
+    const error = schemaError(() =>
+      assertWorkflowSchema(document.data, WORKFLOW_FILE_SCHEMA, 'pipeline.yaml', document.positionOf)
+    );
+
+    expect(error.issues).toEqual([
+      { path: 'steps[0].retry.maxAttempts', message: 'must be >= 1', line: 6, column: 7 },
+      { path: 'steps[1].id', message: 'is required', line: 8, column: 5 },
+    ]);
+    expect(error.message).toBe(
+      'Invalid workflow file pipeline.yaml:\n' +
+      'steps[0].retry.maxAttempts (line 6, column 7): must be >= 1\n' +
+      'steps[1].id (line 8, column 5): is required'
+    );
+  });
+
+  it('should validate phase-based definitions', () => {
+    const definition = {
+      name: 'Novel',
+      phases: [
+        { name: 'Premise', agent: 'planner', process: 'brainstorm' },
+        { name: 'Draft', type: 'drafting', agent: 'writer' },
+        { name: 'Review' },
+      ],
+    };
+
+    const error = schemaError(() => assertWorkflowSchema(definition, WORKFLOW_DEFINITION_SCHEMA, 'novel.json'));
+    expect(error.issues.map(issue => issue.path)).toEqual(['phases[1].type', 'phases[2].agent']);
+  });
+
+  describe('loadYamlWithPositions', () => {
+    it('should locate keys, sequence items and flow collections', () => {
+      const document = loadYamlWithPositions('a: 1\nlist:\n  - x\n  - { b: 2, c: [3, 4] }\n');
+
+      expect(document.data).toEqual({ a: 1, list: ['x', { b: 2, c: [3, 4] }] });
+      expect(document.positionOf(['a'])).toEqual({ line: 1, column: 1 });
+      expect(document.positionOf(['list', 1])).toEqual({ line: 4, column: 5 });
+      expect(document.positionOf(['list', 1, 'c'])).toEqual({ line: 4, column: 13 });
+      expect(document.positionOf(['list', 1, 'c', 1])).toEqual({ line: 4, column: 20 });
+    });
+
+    it('should fall back to the closest existing parent', () => {
+      const document = loadYamlWithPositions('steps:\n  - name: A\n');
+      expect(document.positionOf(['steps', 0, 'id'])).toEqual({ line: 2, column: 5 });
+      expect(document.positionOf([])).toEqual({ line: 1, column: 1 });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for matching events against workflow triggers
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { AppEvent } from '../../src/main/event-bus';
+import { matchesTrigger } from '../../src/main/workflow-triggers';
+
+jest.mock('../../src/main/logger', () => ({
+  LogCategory: { SYSTEM: 'SYSTEM' },
+  logWithCategory: jest.fn(),
+}));
+
+jest.mock('../../src/main/database-connection', () => ({
+  getDatabasePool: jest.fn(),
+}));
+
+const event = (payload: Record<string, any>): AppEvent => ({
+  id: 'event-1',
+  source: 'database:books',
+  type: 'insert',
+  payload,
+  timestamp: '2026-10-19T00:00:00.000Z',
+  depth: 0,
+});
+
+describe('matchesTrigger', () => {
+  const trigger = (condition: string) => ({ source: 'database:books', event: 'insert', condition });
+
+  it('should evaluate conditions against the payload and event metadata', () => {
+    const inserted = event({ row: { genre: 'romance', title: 'The Long Night' } });
+
+    expect(matchesTrigger(trigger("row.genre == 'romance'"), inserted)).toBe(true);
+    expect(matchesTrigger(trigger('row.title.length > 3'), inserted)).toBe(true);
+    expect(matchesTrigger(trigger("event.type == 'insert'"), inserted)).toBe(true);
+    expect(matchesTrigger(trigger("row.genre == 'thriller'"), inserted)).toBe(false);
+  });
+
+  it('should not resolve inherited properties', () => {
+    expect(matchesTrigger(trigger('exists({{toString}})'), event({}))).toBe(false);
+    expect(matchesTrigger(trigger('exists({{row.constructor}})'), event({ row: {} }))).toBe(false);
+    expect(matchesTrigger(trigger('exists({{row.__proto__}})'), event({ row: {} }))).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for comparing workflow revisions
+ *
+ * See tests/README.md for Jest setup instructions.
+ */
+
+import { diffWorkflowVersions, WorkflowVersion } from '../../src/main/workflow-versions';
+
+describe('workflow-versions', () => {
+  const version = (number: number, overrides: Partial<WorkflowVersion> = {}): WorkflowVersion => ({
+    workflowId: 'wf-1',
+    version: number,
+    name: 'Novel Pipeline',
+    description: 'Outline and draft',
+    createdAt: '2026-10-19T00:00:00.000Z',
+    steps: [
+      { id: 'outline', name: 'Outline', pluginId: 'writer', action: 'outline', config: { genre: 'thriller' } },
+      { id: 'draft', name: 'Draft', pluginId: 'writer', action: 'draft', config: {} },
+    ],
+    ...overrides,
+  });
+
+  it('should report no differences between identical definitions', () => {
+    expect(diffWorkflowVersions(version(1), version(2))).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      changes: [],
+      addedSteps: [],
+      removedSteps: [],
+      changedSteps: [],
+      reordered: false,
+    });
+  });
+
+  it('should report name and description changes', () => {
+    const diff = diffWorkflowVersions(version(1), version(2, { name: 'Series Pipeline', description: null }));
+    expect(diff.changes).toEqual([
+      { field: 'name', from: 'Novel Pipeline', to: 'Series Pipeline' },
+      { field: 'description', from: 'Outline and draft', to: null },
+    ]);
+  });
+
+  it('should report added, removed and changed steps', () => {
+    const to = version(2, {
+      steps: [
+        { id: 'outline', name: 'Outline', pluginId: 'writer', action: 'outline', config: { genre: 'romance' } },
+        { id: 'review', name: 'Review', type: 'approval', config: {} },
+      ],
+    });
+
+    const diff = diffWorkflowVersions(version(1), to);
+    expect(diff.addedSteps.map(step => step.id)).toEqual(['review']);
+    expect(diff.removedSteps.map(step => step.id)).toEqual(['draft']);
+    expect(diff.changedSteps).toEqual([
+      { stepId: 'outline', changes: [{ field: 'config', from: { genre: 'thriller' }, to: { genre: 'romance' } }] },
+    ]);
+  });
+
+  it('should detect reordered steps', () => {
+    const from = version(1);
+    const diff = diffWorkflowVersions(from, version(2, { steps: [...from.steps].reverse() }));
+    expect(diff.reordered).toBe(true);
+    expect(diff.changedSteps).toEqual([]);
+  });
+
+  it('should ignore builder positions and object key order', () => {
+    const to = version(2, {
+      steps: [
+        { config: { genre: 'thriller' }, action: 'outline', pluginId: 'writer', name: 'Outline', id: 'outline', position: { x: 80, y: 120 } },
+        { id: 'draft', name: 'Draft', pluginId: 'writer', action: 'draft', config: {} },
+      ],
+    });
+    expect(diffWorkflowVersions(version(1), to).changedSteps).toEqual([]);
+  });
+});